@@ -8,17 +8,21 @@ const __dirname = path.dirname(__filename);
 /**
  * Playwright configuration for CV Admin Portal
  * 
- * Supports two modes:
+ * Supports three modes:
  * 1. Local development: Tests against localhost:5173
- * 2. Production: Tests against admin.{YOUR_DOMAIN} (requires Zero Trust auth)
+ * 2. Mock: Tests against localhost:5173 backed by the in-memory mock API
+ *    (no workers or credentials needed)
+ * 3. Production: Tests against admin.{YOUR_DOMAIN} (requires Zero Trust auth)
  * 
  * Usage:
  *   npm run test:e2e              # Run against local dev server
+ *   npm run test:e2e:mock         # Run against the mock backend
  *   npm run test:e2e:prod         # Run against production (requires auth setup)
  *   npm run test:e2e:ui           # Open Playwright UI mode
  */
 
 const isProduction = process.env.TEST_ENV === 'production';
+const isMock = process.env.TEST_ENV === 'mock';
 const baseURL = isProduction
   ? 'https://admin.{YOUR_DOMAIN}'
   : 'http://localhost:5173';
@@ -108,9 +112,10 @@ export default defineConfig({
   /* Run local dev server before starting tests */
   ...(!isProduction && {
     webServer: {
-      command: 'npm run dev',
+      command: isMock ? 'npm run dev:mock' : 'npm run dev',
       url: 'http://localhost:5173',
-      reuseExistingServer: !process.env.CI,
+      // Never reuse a dev server that may be talking to the real backend
+      reuseExistingServer: !process.env.CI && !isMock,
       timeout: 120_000,
     },
   }),
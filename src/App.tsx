@@ -1,12 +1,20 @@
 import { Routes, Route, Navigate } from 'react-router-dom';
 import { Layout } from '@components/Layout';
+import { SessionExpiredDialog } from '@components/SessionExpiredDialog';
 import { DashboardPage } from '@pages/DashboardPage';
 import { StagedChangesPage } from '@pages/StagedChangesPage';
 import { CommitsPage } from '@pages/CommitsPage';
+import { JobsPage } from '@pages/JobsPage';
+import { AuditPage } from '@pages/AuditPage';
+import { BackupPage } from '@pages/BackupPage';
+import { CVExportPage } from '@pages/CVExportPage';
+import { CVVariantsPage } from '@pages/CVVariantsPage';
+import { PreviewPage } from '@pages/PreviewPage';
 import { SettingsPage } from '@pages/SettingsPage';
 // D1CV Pages
 import { D1CVTechnologiesPage } from '@pages/d1cv/TechnologiesPage';
 import { D1CVTechnologyFormPage } from '@pages/d1cv/TechnologyFormPage';
+import { D1CVTechnologyImportPage } from '@pages/d1cv/TechnologyImportPage';
 import { D1CVExperiencePage } from '@pages/d1cv/ExperiencePage';
 import { D1CVEducationPage } from '@pages/d1cv/EducationPage';
 import { ExperienceFormPage } from '@pages/d1cv/ExperienceFormPage';
@@ -21,40 +29,50 @@ import { AIAgentVectorizePage } from '@pages/ai-agent/VectorizePage';
 
 function App() {
   return (
-    <Routes>
-      <Route path="/" element={<Layout />}>
-        <Route index element={<Navigate to="/dashboard" replace />} />
-        <Route path="dashboard" element={<DashboardPage />} />
+    <>
+      <Routes>
+        <Route path="/" element={<Layout />}>
+          <Route index element={<Navigate to="/dashboard" replace />} />
+          <Route path="dashboard" element={<DashboardPage />} />
 
-        {/* D1CV Routes */}
-        <Route path="d1cv/technologies" element={<D1CVTechnologiesPage />} />
-        <Route path="d1cv/technologies/new" element={<D1CVTechnologyFormPage />} />
-        <Route path="d1cv/technologies/:name" element={<D1CVTechnologyFormPage />} />
-        <Route path="d1cv/experience" element={<D1CVExperiencePage />} />
-        <Route path="d1cv/experience/new" element={<ExperienceFormPage />} />
-        <Route path="d1cv/experience/:id" element={<ExperienceFormPage />} />
-        <Route path="d1cv/education" element={<D1CVEducationPage />} />
-        <Route path="d1cv/education/new" element={<EducationFormPage />} />
-        <Route path="d1cv/education/:id" element={<EducationFormPage />} />
-        <Route path="d1cv/contact" element={<ContactPage />} />
-        <Route path="d1cv/profile" element={<ProfilePage />} />
-        <Route path="d1cv/sections/:sectionType" element={<ContentSectionPage />} />
+          {/* D1CV Routes */}
+          <Route path="d1cv/technologies" element={<D1CVTechnologiesPage />} />
+          <Route path="d1cv/technologies/new" element={<D1CVTechnologyFormPage />} />
+          <Route path="d1cv/technologies/import" element={<D1CVTechnologyImportPage />} />
+          <Route path="d1cv/technologies/:name" element={<D1CVTechnologyFormPage />} />
+          <Route path="d1cv/experience" element={<D1CVExperiencePage />} />
+          <Route path="d1cv/experience/new" element={<ExperienceFormPage />} />
+          <Route path="d1cv/experience/:id" element={<ExperienceFormPage />} />
+          <Route path="d1cv/education" element={<D1CVEducationPage />} />
+          <Route path="d1cv/education/new" element={<EducationFormPage />} />
+          <Route path="d1cv/education/:id" element={<EducationFormPage />} />
+          <Route path="d1cv/contact" element={<ContactPage />} />
+          <Route path="d1cv/profile" element={<ProfilePage />} />
+          <Route path="d1cv/sections/:sectionType" element={<ContentSectionPage />} />
 
-        {/* AI Agent Routes */}
-        <Route path="ai-agent/technologies" element={<AIAgentTechnologiesPage />} />
-        <Route path="ai-agent/technologies/:stableId" element={<AIAgentTechnologyDetailPage />} />
-        <Route path="ai-agent/vectorize" element={<AIAgentVectorizePage />} />
+          {/* AI Agent Routes */}
+          <Route path="ai-agent/technologies" element={<AIAgentTechnologiesPage />} />
+          <Route path="ai-agent/technologies/:stableId" element={<AIAgentTechnologyDetailPage />} />
+          <Route path="ai-agent/vectorize" element={<AIAgentVectorizePage />} />
 
-        {/* Staging & Settings */}
-        <Route path="staged" element={<StagedChangesPage />} />
-        <Route path="commits" element={<CommitsPage />} />
-        <Route path="settings" element={<SettingsPage />} />
+          {/* Staging & Settings */}
+          <Route path="staged" element={<StagedChangesPage />} />
+          <Route path="commits" element={<CommitsPage />} />
+          <Route path="preview" element={<PreviewPage />} />
+          <Route path="jobs" element={<JobsPage />} />
+          <Route path="audit" element={<AuditPage />} />
+          <Route path="backup" element={<BackupPage />} />
+          <Route path="export/cv" element={<CVExportPage />} />
+          <Route path="export/variants" element={<CVVariantsPage />} />
+          <Route path="settings" element={<SettingsPage />} />
 
-        {/* Legacy redirect */}
-        <Route path="technologies" element={<Navigate to="/d1cv/technologies" replace />} />
-        <Route path="technologies/*" element={<Navigate to="/d1cv/technologies" replace />} />
-      </Route>
-    </Routes>
+          {/* Legacy redirect */}
+          <Route path="technologies" element={<Navigate to="/d1cv/technologies" replace />} />
+          <Route path="technologies/*" element={<Navigate to="/d1cv/technologies" replace />} />
+        </Route>
+      </Routes>
+      <SessionExpiredDialog />
+    </>
   );
 }
 
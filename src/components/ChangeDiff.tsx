@@ -0,0 +1,189 @@
+/**
+ * Change Diff
+ *
+ * Field-level comparison of a change against the production record it
+ * edits (or overwrote, once pushed), side by side or inline. Nested arrays (experience achievements,
+ * section json_content) get one row per changed leaf.
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Stack,
+  Typography,
+  Chip,
+  Alert,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { useChangeBaseline, type ChangeSubject } from '@hooks/useChangeBaseline';
+import { diffFields, summarizeDiff, formatFieldValue, type FieldDiff, type FieldChangeKind } from '@utils/diff';
+
+type DiffLayout = 'split' | 'inline';
+
+const KIND_COLORS: Record<FieldChangeKind, 'success' | 'error' | 'warning' | 'default'> = {
+  added: 'success',
+  removed: 'error',
+  changed: 'warning',
+  unchanged: 'default',
+};
+
+type Tone = 'added' | 'removed';
+
+function ValueText({ value, tone }: { value: unknown; tone?: Tone }) {
+  const color = tone === 'added' ? 'success' : 'error';
+  return (
+    <Typography
+      variant="body2"
+      component="span"
+      sx={{
+        fontFamily: 'monospace',
+        whiteSpace: 'pre-wrap',
+        wordBreak: 'break-word',
+        px: 0.5,
+        borderRadius: 0.5,
+        ...(tone && {
+          bgcolor: (theme) => alpha(theme.palette[color].main, 0.12),
+          color: `${color}.dark`,
+          textDecoration: tone === 'removed' ? 'line-through' : 'none',
+        }),
+      }}
+    >
+      {formatFieldValue(value)}
+    </Typography>
+  );
+}
+
+function SplitDiff({ diffs }: { diffs: FieldDiff[] }) {
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell sx={{ width: '25%' }}>Field</TableCell>
+          <TableCell sx={{ width: '37.5%' }}>Production</TableCell>
+          <TableCell sx={{ width: '37.5%' }}>Staged</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {diffs.map((diff) => (
+          <TableRow key={diff.path}>
+            <TableCell>
+              <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>{diff.path}</Typography>
+            </TableCell>
+            <TableCell>
+              <ValueText value={diff.before} tone={diff.kind === 'removed' || diff.kind === 'changed' ? 'removed' : undefined} />
+            </TableCell>
+            <TableCell>
+              <ValueText value={diff.after} tone={diff.kind === 'added' || diff.kind === 'changed' ? 'added' : undefined} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function InlineDiff({ diffs }: { diffs: FieldDiff[] }) {
+  return (
+    <Stack spacing={1}>
+      {diffs.map((diff) => (
+        <Box key={diff.path}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Typography variant="body2" sx={{ fontFamily: 'monospace', fontWeight: 600 }}>{diff.path}</Typography>
+            <Chip label={diff.kind} size="small" color={KIND_COLORS[diff.kind]} variant="outlined" />
+          </Stack>
+          {diff.kind === 'unchanged' ? (
+            <Box sx={{ pl: 2 }}><ValueText value={diff.after} /></Box>
+          ) : (
+            <>
+              {diff.kind !== 'added' && (
+                <Box sx={{ pl: 2 }}>− <ValueText value={diff.before} tone="removed" /></Box>
+              )}
+              {diff.kind !== 'removed' && (
+                <Box sx={{ pl: 2 }}>+ <ValueText value={diff.after} tone="added" /></Box>
+              )}
+            </>
+          )}
+        </Box>
+      ))}
+    </Stack>
+  );
+}
+
+export function ChangeDiff({ subject }: { subject: ChangeSubject }) {
+  const [layout, setLayout] = useState<DiffLayout>('split');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const { data: baseline = null, isLoading, error } = useChangeBaseline(subject);
+
+  const diffs = useMemo(() => diffFields(
+    subject.action === 'CREATE' ? null : baseline,
+    subject.action === 'DELETE' ? null : subject.payload,
+    // Updates only send the fields the form edits
+    { keys: subject.action === 'UPDATE' ? Object.keys(subject.payload) : undefined }
+  ), [subject, baseline]);
+
+  const summary = summarizeDiff(diffs);
+  const visible = showUnchanged ? diffs : diffs.filter(diff => diff.kind !== 'unchanged');
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Could not load the production record: {error.message}
+        </Alert>
+      )}
+      {!error && subject.action !== 'CREATE' && baseline === null && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          No matching production record was found, so every staged field is shown as new.
+        </Alert>
+      )}
+
+      <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap sx={{ mb: 1 }}>
+        <Chip size="small" color="warning" label={`${summary.changed} changed`} />
+        <Chip size="small" color="success" label={`${summary.added} added`} />
+        <Chip size="small" color="error" label={`${summary.removed} removed`} />
+        <Box sx={{ flexGrow: 1 }} />
+        <FormControlLabel
+          control={<Switch size="small" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />}
+          label={`Show unchanged (${summary.unchanged})`}
+        />
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={layout}
+          onChange={(_, value: DiffLayout | null) => value && setLayout(value)}
+        >
+          <ToggleButton value="split">Side by side</ToggleButton>
+          <ToggleButton value="inline">Inline</ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
+
+      {visible.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+          No differences from production.
+        </Typography>
+      ) : layout === 'split' ? (
+        <SplitDiff diffs={visible} />
+      ) : (
+        <InlineDiff diffs={visible} />
+      )}
+    </Box>
+  );
+}
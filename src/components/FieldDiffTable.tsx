@@ -0,0 +1,48 @@
+/**
+ * Field Diff Table
+ *
+ * Compact before/after table of the fields that differ between two
+ * snapshots of a record, for audit entries and version history.
+ */
+
+import { Table, TableBody, TableCell, TableHead, TableRow, Typography } from '@mui/material';
+import { diffFields, formatFieldValue } from '@utils/diff';
+
+interface FieldDiffTableProps {
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+export function FieldDiffTable({ before, after, beforeLabel = 'Before', afterLabel = 'After' }: FieldDiffTableProps) {
+  const diffs = diffFields(before, after).filter(diff => diff.kind !== 'unchanged');
+
+  if (diffs.length === 0) {
+    return <Typography variant="body2" color="textSecondary">No field changes.</Typography>;
+  }
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell sx={{ width: '25%' }}>Field</TableCell>
+          <TableCell sx={{ width: '37.5%' }}>{beforeLabel}</TableCell>
+          <TableCell sx={{ width: '37.5%' }}>{afterLabel}</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {diffs.map((diff) => (
+          <TableRow key={diff.path}>
+            <TableCell sx={{ fontFamily: 'monospace' }}>{diff.path}</TableCell>
+            <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-word', color: 'error.dark' }}>
+              {formatFieldValue(diff.before)}
+            </TableCell>
+            <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-word', color: 'success.dark' }}>
+              {formatFieldValue(diff.after)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Job Connection Indicator
+ *
+ * App bar chip showing how push job status reaches the portal: live over
+ * the WebSocket, reconnecting after a drop, or polled over REST when
+ * sockets are blocked. Clicking it while disconnected retries right away.
+ */
+
+import { Chip, Tooltip } from '@mui/material';
+import {
+  Wifi as LiveIcon,
+  WifiOff as OfflineIcon,
+  Sync as ReconnectingIcon,
+  Schedule as PollingIcon,
+} from '@mui/icons-material';
+import { useJobConnection, useJobConnectionState } from '@services/JobConnectionContext';
+import type { JobConnectionStatus } from '@services/jobs';
+
+const STATUS_DISPLAY: Record<JobConnectionStatus, { label: string; icon: React.ReactElement; hint: string }> = {
+  connected: { label: 'Live', icon: <LiveIcon />, hint: 'Push job updates arrive in real time' },
+  connecting: { label: 'Connecting', icon: <ReconnectingIcon />, hint: 'Opening the job updates connection' },
+  reconnecting: { label: 'Reconnecting', icon: <ReconnectingIcon />, hint: 'Connection lost; missed updates are replayed once it is back' },
+  polling: { label: 'Polling', icon: <PollingIcon />, hint: 'WebSocket unavailable; job status is refreshed every few seconds' },
+  idle: { label: 'Offline', icon: <OfflineIcon />, hint: 'Not receiving job updates. Click to connect' },
+};
+
+export function JobConnectionIndicator() {
+  const connection = useJobConnection();
+  const { status, retryAt, error } = useJobConnectionState();
+  const display = STATUS_DISPLAY[status];
+  const retry = retryAt && status !== 'connected' ? ` Next attempt at ${new Date(retryAt).toLocaleTimeString()}.` : '';
+
+  return (
+    <Tooltip title={`${display.hint}.${retry}${error ? ` Last error: ${error}` : ''}`}>
+      <Chip
+        size="small"
+        label={display.label}
+        icon={display.icon}
+        variant="outlined"
+        onClick={status === 'idle' ? () => connection.connect() : undefined}
+        sx={{
+          mr: 1,
+          color: 'white',
+          borderColor: status === 'connected' ? 'success.light' : 'rgba(255,255,255,0.5)',
+          '& .MuiChip-icon': { color: status === 'connected' ? 'success.light' : 'inherit' },
+        }}
+      />
+    </Tooltip>
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Jobs Tray
+ *
+ * App bar tray listing the push jobs tracked on the shared job connection,
+ * so progress stays visible after leaving the Commits page. Finished jobs
+ * raise a desktop notification (or an in-app message when notifications
+ * are off) linking back to their commit, and refresh the data the push
+ * changed.
+ */
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  Badge,
+  Box,
+  Button,
+  Chip,
+  Divider,
+  IconButton,
+  LinearProgress,
+  Link,
+  Popover,
+  Snackbar,
+  Alert,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  CloudSync as JobsIcon,
+  NotificationsActive as NotificationsIcon,
+} from '@mui/icons-material';
+import { useJobConnection, useJobConnectionState } from '@services/JobConnectionContext';
+import { invalidatePushedData } from '@hooks/useCommits';
+import {
+  isTerminalJob,
+  jobOutcomeMessage,
+  notificationsSupported,
+  showJobNotification,
+  watchJobOutcomes,
+  type DOJobStatus,
+  type JobSideStatus,
+} from '@services/jobs';
+
+const SIDE_COLORS: Record<JobSideStatus, 'default' | 'info' | 'success' | 'error'> = {
+  pending: 'default',
+  'in-progress': 'info',
+  success: 'success',
+  failed: 'error',
+  skipped: 'default',
+};
+
+const OVERALL_PROGRESS: Record<DOJobStatus['overallStatus'], number> = {
+  pending: 0,
+  'in-progress': 25,
+  'd1cv-done': 75,
+  'ai-done': 75,
+  completed: 100,
+  failed: 100,
+};
+
+function commitLink(job: DOJobStatus): string {
+  return `/commits?commit=${encodeURIComponent(job.commitId)}`;
+}
+
+function JobRow({ job, onOpen }: { job: DOJobStatus; onOpen: () => void }) {
+  const error = job.d1cvResult?.error ?? job.aiAgentResult?.error;
+
+  return (
+    <Box sx={{ px: 2, py: 1.5 }}>
+      <Stack direction="row" spacing={1} alignItems="center" justifyContent="space-between">
+        <Link component="button" variant="body2" onClick={onOpen}>
+          Commit {job.commitId}
+        </Link>
+        <Typography variant="caption" color="textSecondary">
+          {new Date(job.startedAt).toLocaleTimeString()}
+        </Typography>
+      </Stack>
+      <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+        <Chip size="small" label={`D1CV: ${job.d1cvStatus}`} color={SIDE_COLORS[job.d1cvStatus]} variant="outlined" />
+        <Chip size="small" label={`AI: ${job.aiAgentStatus}`} color={SIDE_COLORS[job.aiAgentStatus]} variant="outlined" />
+      </Stack>
+      {!isTerminalJob(job) && (
+        <LinearProgress variant="determinate" value={OVERALL_PROGRESS[job.overallStatus]} sx={{ mt: 1 }} />
+      )}
+      {error && (
+        <Typography variant="caption" color="error" component="p" sx={{ mt: 0.5 }}>
+          {error}
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
+export function JobsTray() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const connection = useJobConnection();
+  const { jobs } = useJobConnectionState();
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const [permission, setPermission] = useState(() => (notificationsSupported() ? Notification.permission : 'denied'));
+  const [finished, setFinished] = useState<DOJobStatus | null>(null);
+
+  const list = [...jobs.values()].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  const running = list.filter(job => !isTerminalJob(job)).length;
+
+  useEffect(() => watchJobOutcomes(connection, (job) => {
+    invalidatePushedData(queryClient);
+    const open = () => navigate(commitLink(job));
+    if (!showJobNotification(job, open)) {
+      setFinished(job);
+    }
+  }), [connection, navigate, queryClient]);
+
+  const openCommit = (job: DOJobStatus) => {
+    setAnchor(null);
+    navigate(commitLink(job));
+  };
+
+  const enableNotifications = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  const clearFinished = () => {
+    list.filter(isTerminalJob).forEach(job => connection.unwatch(job.jobId));
+  };
+
+  const outcome = finished && jobOutcomeMessage(finished);
+
+  return (
+    <>
+      <Tooltip title="Push jobs">
+        <IconButton color="inherit" onClick={(e) => setAnchor(e.currentTarget)} sx={{ mr: 1 }}>
+          <Badge badgeContent={running} color="secondary">
+            <JobsIcon />
+          </Badge>
+        </IconButton>
+      </Tooltip>
+
+      <Popover
+        open={anchor !== null}
+        anchorEl={anchor}
+        onClose={() => setAnchor(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+        slotProps={{ paper: { sx: { width: 360, maxHeight: 480 } } }}
+      >
+        <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ px: 2, py: 1 }}>
+          <Typography variant="subtitle1">Push jobs</Typography>
+          <Stack direction="row" spacing={1}>
+            <Button size="small" disabled={list.length === running} onClick={clearFinished}>
+              Clear finished
+            </Button>
+            <Button size="small" onClick={() => { setAnchor(null); navigate('/jobs'); }}>
+              History
+            </Button>
+          </Stack>
+        </Stack>
+        {permission === 'default' && (
+          <Alert
+            severity="info"
+            icon={<NotificationsIcon />}
+            sx={{ mx: 2, mb: 1 }}
+            action={<Button color="inherit" size="small" onClick={enableNotifications}>Enable</Button>}
+          >
+            Get a desktop notification when a push finishes.
+          </Alert>
+        )}
+        <Divider />
+        {list.length === 0 ? (
+          <Typography variant="body2" color="textSecondary" sx={{ p: 2, textAlign: 'center' }}>
+            No push jobs yet. Jobs started from the Commits page show up here.
+          </Typography>
+        ) : (
+          list.map((job) => (
+            <Box key={job.jobId}>
+              <JobRow job={job} onOpen={() => openCommit(job)} />
+              <Divider />
+            </Box>
+          ))
+        )}
+      </Popover>
+
+      <Snackbar
+        open={finished !== null}
+        autoHideDuration={8000}
+        onClose={() => setFinished(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert
+          severity={finished?.overallStatus === 'failed' ? 'error' : 'success'}
+          action={finished && (
+            <Button color="inherit" size="small" onClick={() => { openCommit(finished); setFinished(null); }}>
+              View commit
+            </Button>
+          )}
+        >
+          {outcome && <><strong>{outcome.title}</strong> — {outcome.body}</>}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+}
@@ -22,7 +22,6 @@ import {
   Menu as MenuIcon,
   Dashboard as DashboardIcon,
   Code as CodeIcon,
-  SyncAlt as SyncIcon,
   Settings as SettingsIcon,
   GitHub as GitHubIcon,
   Language as LanguageIcon,
@@ -36,9 +35,17 @@ import {
   Home as HomeIcon,
   EmojiEvents as AchievementsIcon,
   Commit as CommitIcon,
+  History as HistoryIcon,
+  Policy as AuditIcon,
+  Backup as BackupIcon,
+  Description as ExportCVIcon,
+  AltRoute as VariantsIcon,
+  Preview as PreviewIcon,
 } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { useStagedChangesCount } from '@hooks/useStagedChanges';
+import { useStagingStats } from '@hooks/useCommits';
+import { JobConnectionIndicator } from './JobConnectionIndicator';
+import { JobsTray } from './JobsTray';
 
 const DRAWER_WIDTH = 280;
 
@@ -63,8 +70,13 @@ const NAV_ITEMS: NavItem[] = [
   // AI Agent Section  
   { text: 'Technologies', icon: <CodeIcon />, path: '/ai-agent/technologies', section: 'AI Agent' },
   // Staging & Settings
-  { text: 'Staged Changes', icon: <SyncIcon />, path: '/staged', showBadge: true },
-  { text: 'Commits', icon: <CommitIcon />, path: '/commits' },
+  { text: 'Commits', icon: <CommitIcon />, path: '/commits', showBadge: true },
+  { text: 'Preview', icon: <PreviewIcon />, path: '/preview' },
+  { text: 'Push Jobs', icon: <HistoryIcon />, path: '/jobs' },
+  { text: 'Audit Log', icon: <AuditIcon />, path: '/audit' },
+  { text: 'Backup & Restore', icon: <BackupIcon />, path: '/backup' },
+  { text: 'Export CV', icon: <ExportCVIcon />, path: '/export/cv' },
+  { text: 'CV Variants', icon: <VariantsIcon />, path: '/export/variants' },
   { text: 'Settings', icon: <SettingsIcon />, path: '/settings' },
 ];
 
@@ -79,7 +91,7 @@ export function Layout() {
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   const navigate = useNavigate();
   const location = useLocation();
-  const { data: stagedCount } = useStagedChangesCount();
+  const { data: stagingStats } = useStagingStats();
 
   const handleDrawerToggle = () => {
     setMobileOpen(!mobileOpen);
@@ -185,11 +197,11 @@ export function Layout() {
 
         <Divider sx={{ my: 2 }} />
 
-        {/* Staged Changes */}
+        {/* Commits (staged changes) */}
         <ListItem disablePadding>
           <ListItemButton
-            selected={location.pathname === '/staged'}
-            onClick={() => handleNavClick('/staged')}
+            selected={location.pathname === '/commits'}
+            onClick={() => handleNavClick('/commits')}
             sx={{
               mx: 1,
               borderRadius: 2,
@@ -201,14 +213,140 @@ export function Layout() {
               },
             }}
           >
-            <ListItemIcon><SyncIcon /></ListItemIcon>
-            <ListItemText primary="Staged Changes" />
-            {stagedCount && stagedCount.pending > 0 && (
-              <Chip label={stagedCount.pending} size="small" color="warning" sx={{ ml: 1 }} />
+            <ListItemIcon><CommitIcon /></ListItemIcon>
+            <ListItemText primary="Commits" />
+            {stagingStats && stagingStats.uncommitted > 0 && (
+              <Chip label={stagingStats.uncommitted} size="small" color="warning" sx={{ ml: 1 }} />
             )}
           </ListItemButton>
         </ListItem>
 
+        {/* Portfolio preview with unpushed changes */}
+        <ListItem disablePadding>
+          <ListItemButton
+            selected={location.pathname === '/preview'}
+            onClick={() => handleNavClick('/preview')}
+            sx={{
+              mx: 1,
+              borderRadius: 2,
+              '&.Mui-selected': {
+                backgroundColor: 'primary.light',
+                color: 'white',
+                '& .MuiListItemIcon-root': { color: 'white' },
+                '&:hover': { backgroundColor: 'primary.main' },
+              },
+            }}
+          >
+            <ListItemIcon><PreviewIcon /></ListItemIcon>
+            <ListItemText primary="Preview" />
+          </ListItemButton>
+        </ListItem>
+
+        {/* Push job history */}
+        <ListItem disablePadding>
+          <ListItemButton
+            selected={location.pathname === '/jobs'}
+            onClick={() => handleNavClick('/jobs')}
+            sx={{
+              mx: 1,
+              borderRadius: 2,
+              '&.Mui-selected': {
+                backgroundColor: 'primary.light',
+                color: 'white',
+                '& .MuiListItemIcon-root': { color: 'white' },
+                '&:hover': { backgroundColor: 'primary.main' },
+              },
+            }}
+          >
+            <ListItemIcon><HistoryIcon /></ListItemIcon>
+            <ListItemText primary="Push Jobs" />
+          </ListItemButton>
+        </ListItem>
+
+        {/* Audit log */}
+        <ListItem disablePadding>
+          <ListItemButton
+            selected={location.pathname === '/audit'}
+            onClick={() => handleNavClick('/audit')}
+            sx={{
+              mx: 1,
+              borderRadius: 2,
+              '&.Mui-selected': {
+                backgroundColor: 'primary.light',
+                color: 'white',
+                '& .MuiListItemIcon-root': { color: 'white' },
+                '&:hover': { backgroundColor: 'primary.main' },
+              },
+            }}
+          >
+            <ListItemIcon><AuditIcon /></ListItemIcon>
+            <ListItemText primary="Audit Log" />
+          </ListItemButton>
+        </ListItem>
+
+        {/* Backup and restore */}
+        <ListItem disablePadding>
+          <ListItemButton
+            selected={location.pathname === '/backup'}
+            onClick={() => handleNavClick('/backup')}
+            sx={{
+              mx: 1,
+              borderRadius: 2,
+              '&.Mui-selected': {
+                backgroundColor: 'primary.light',
+                color: 'white',
+                '& .MuiListItemIcon-root': { color: 'white' },
+                '&:hover': { backgroundColor: 'primary.main' },
+              },
+            }}
+          >
+            <ListItemIcon><BackupIcon /></ListItemIcon>
+            <ListItemText primary="Backup & Restore" />
+          </ListItemButton>
+        </ListItem>
+
+        {/* CV export */}
+        <ListItem disablePadding>
+          <ListItemButton
+            selected={location.pathname === '/export/cv'}
+            onClick={() => handleNavClick('/export/cv')}
+            sx={{
+              mx: 1,
+              borderRadius: 2,
+              '&.Mui-selected': {
+                backgroundColor: 'primary.light',
+                color: 'white',
+                '& .MuiListItemIcon-root': { color: 'white' },
+                '&:hover': { backgroundColor: 'primary.main' },
+              },
+            }}
+          >
+            <ListItemIcon><ExportCVIcon /></ListItemIcon>
+            <ListItemText primary="Export CV" />
+          </ListItemButton>
+        </ListItem>
+
+        {/* CV variants */}
+        <ListItem disablePadding>
+          <ListItemButton
+            selected={location.pathname === '/export/variants'}
+            onClick={() => handleNavClick('/export/variants')}
+            sx={{
+              mx: 1,
+              borderRadius: 2,
+              '&.Mui-selected': {
+                backgroundColor: 'primary.light',
+                color: 'white',
+                '& .MuiListItemIcon-root': { color: 'white' },
+                '&:hover': { backgroundColor: 'primary.main' },
+              },
+            }}
+          >
+            <ListItemIcon><VariantsIcon /></ListItemIcon>
+            <ListItemText primary="CV Variants" />
+          </ListItemButton>
+        </ListItem>
+
         {/* Settings */}
         <ListItem disablePadding>
           <ListItemButton
@@ -276,6 +414,8 @@ export function Layout() {
           <Typography variant="h6" noWrap component="div" sx={{ flexGrow: 1 }}>
             {NAV_ITEMS.find((item) => location.pathname.startsWith(item.path))?.text || 'CV Admin Portal'}
           </Typography>
+          <JobsTray />
+          <JobConnectionIndicator />
           <Chip
             label="Jose Alvarez"
             variant="outlined"
@@ -0,0 +1,64 @@
+/**
+ * Session Expired Dialog
+ *
+ * Shown in every tab while the Cloudflare Access session is expired.
+ * Sign-in happens in a popup so the current page (and any half-finished
+ * form) stays intact; queued changes are saved once the session is back.
+ */
+
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  Alert,
+  CircularProgress,
+  Stack,
+} from '@mui/material';
+import { Login as LoginIcon } from '@mui/icons-material';
+import { useSession, useSessionManager } from '@services/SessionContext';
+
+export function SessionExpiredDialog() {
+  const session = useSessionManager();
+  const { status, queuedMutations, verifyFailed } = useSession();
+  const verifying = status === 'verifying';
+
+  return (
+    <Dialog open={status !== 'active'} maxWidth="xs" fullWidth disableEscapeKeyDown>
+      <DialogTitle>Session expired</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2}>
+          <DialogContentText>
+            Your Cloudflare Access session has ended. Sign in again to continue;
+            this page will pick up where you left off.
+          </DialogContentText>
+          {queuedMutations > 0 && (
+            <Alert severity="info">
+              {queuedMutations} unsaved change{queuedMutations === 1 ? '' : 's'} will be saved after you sign in.
+            </Alert>
+          )}
+          {verifyFailed && (
+            <Alert severity="warning">
+              Still signed out. Complete the sign-in in the popup window, or allow popups for this site.
+            </Alert>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => void session.verify()} disabled={verifying}>
+          I've signed in
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => session.openLogin()}
+          disabled={verifying}
+          startIcon={verifying ? <CircularProgress size={16} /> : <LoginIcon />}
+        >
+          Sign in
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,312 @@
+/**
+ * Staging Area
+ *
+ * Interactive view of the uncommitted changes, in the spirit of
+ * `git add -p`: pick which changes go into which commit, squash repeated
+ * updates to one record, and drop changes that contradict each other.
+ * Changes left unselected stay staged for a later commit.
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Stack,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  IconButton,
+  Checkbox,
+  TextField,
+  Select,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Divider,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  CompareArrows as DiffIcon,
+  ArrowUpward as MoveUpIcon,
+  ArrowDownward as MoveDownIcon,
+  CallMerge as SquashIcon,
+  Send as SendIcon,
+} from '@mui/icons-material';
+import {
+  useDeleteStagedChange,
+  useSquashChanges,
+  useCreateCommits,
+  planStaging,
+  changeLabel,
+  type StagedChange,
+} from '@hooks/useCommits';
+
+interface CommitGroup {
+  id: number;
+  message: string;
+}
+
+const ACTION_COLORS: Record<StagedChange['action'], 'success' | 'primary' | 'error'> = {
+  CREATE: 'success',
+  UPDATE: 'primary',
+  DELETE: 'error',
+};
+
+function ChangeSummary({ change }: { change: StagedChange }) {
+  return (
+    <Stack direction="row" spacing={1} alignItems="center">
+      <Chip size="small" label={change.action} color={ACTION_COLORS[change.action]} />
+      <Chip size="small" label={change.entity_type} variant="outlined" />
+      <Typography variant="body1">{changeLabel(change)}</Typography>
+    </Stack>
+  );
+}
+
+export function StagingArea({
+  changes,
+  onViewDiff,
+}: {
+  changes: StagedChange[];
+  onViewDiff: (change: StagedChange) => void;
+}) {
+  const [groups, setGroups] = useState<CommitGroup[]>([{ id: 1, message: '' }]);
+  // Change id -> group id; missing means the change stays staged
+  const [assigned, setAssigned] = useState<Record<string, number>>({});
+  const [created, setCreated] = useState<number | null>(null);
+
+  const deleteChange = useDeleteStagedChange();
+  const squash = useSquashChanges();
+  const createCommits = useCreateCommits();
+
+  const plan = useMemo(() => planStaging(changes), [changes]);
+  const groupOf = (change: StagedChange) => assigned[change.id];
+  // Built from the current changes, so ids that were since committed or dropped fall away
+  const members = (group: CommitGroup) => changes.filter(change => groupOf(change) === group.id);
+  const readyGroups = groups.filter(group => members(group).length > 0);
+  const canCommit = readyGroups.length > 0 && readyGroups.every(group => group.message.trim());
+
+  const assign = (changeId: string, groupId: number | undefined) => {
+    setAssigned(prev => {
+      const next = { ...prev };
+      if (groupId === undefined) {
+        delete next[changeId];
+      } else {
+        next[changeId] = groupId;
+      }
+      return next;
+    });
+  };
+
+  const addGroup = () => {
+    setGroups(prev => [...prev, { id: Math.max(...prev.map(g => g.id)) + 1, message: '' }]);
+  };
+
+  const removeGroup = (groupId: number) => {
+    setGroups(prev => prev.filter(group => group.id !== groupId));
+    setAssigned(prev => Object.fromEntries(Object.entries(prev).filter(([, id]) => id !== groupId)));
+  };
+
+  const moveGroup = (index: number, offset: -1 | 1) => {
+    setGroups(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const selectAll = (selected: boolean) => {
+    setAssigned(selected ? Object.fromEntries(changes.map(change => [change.id, groupOf(change) ?? groups[0].id])) : {});
+  };
+
+  // Keeping one change of a conflict drops the others
+  const keepOnly = async (conflict: StagedChange[], keep: StagedChange) => {
+    try {
+      for (const change of conflict) {
+        if (change.id !== keep.id) {
+          await deleteChange.mutateAsync(change.id);
+        }
+      }
+    } catch (err) {
+      console.error('Failed to drop conflicting change:', err);
+    }
+  };
+
+  const handleCommit = async () => {
+    setCreated(null);
+    try {
+      const commits = await createCommits.mutateAsync(readyGroups.map(group => ({
+        message: group.message.trim(),
+        change_ids: members(group).map(change => change.id),
+      })));
+      setCreated(commits.length);
+      setAssigned({});
+      setGroups([{ id: 1, message: '' }]);
+    } catch (err) {
+      console.error('Failed to create commits:', err);
+    }
+  };
+
+  const busy = deleteChange.isPending || squash.isPending || createCommits.isPending;
+  const error = deleteChange.error ?? squash.error ?? createCommits.error;
+
+  if (changes.length === 0) {
+    return (
+      <Typography color="textSecondary" sx={{ py: 2, textAlign: 'center' }}>
+        No uncommitted changes. Make edits to see them here.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box>
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error.message}</Alert>}
+      {created !== null && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setCreated(null)}>
+          Created {created} commit(s).
+        </Alert>
+      )}
+
+      {plan.squashable.map((group) => (
+        <Alert
+          key={group.map(change => change.id).join()}
+          severity="info"
+          sx={{ mb: 1 }}
+          action={
+            <Button
+              color="inherit"
+              size="small"
+              startIcon={<SquashIcon />}
+              disabled={busy}
+              onClick={() => squash.mutate(group)}
+            >
+              Squash
+            </Button>
+          }
+        >
+          {group.length} updates to {group[0].entity_type} {changeLabel(group[group.length - 1])} can be squashed into one.
+        </Alert>
+      ))}
+
+      {plan.conflicts.map((conflict) => (
+        <Alert key={conflict.map(change => change.id).join()} severity="warning" sx={{ mb: 1 }}>
+          <Typography variant="body2" sx={{ mb: 1 }}>
+            These changes to {conflict[0].entity_type} {changeLabel(conflict[0])} conflict. Keep one to drop the rest:
+          </Typography>
+          <Stack spacing={1}>
+            {conflict.map((change) => (
+              <Stack key={change.id} direction="row" spacing={1} alignItems="center">
+                <ChangeSummary change={change} />
+                <Typography variant="caption" color="textSecondary">
+                  {new Date(change.created_at).toLocaleString()}
+                </Typography>
+                <Button size="small" disabled={busy} onClick={() => keepOnly(conflict, change)}>
+                  Keep
+                </Button>
+              </Stack>
+            ))}
+          </Stack>
+        </Alert>
+      ))}
+
+      <Stack direction="row" alignItems="center" sx={{ mt: 1 }}>
+        <Checkbox
+          checked={changes.every(change => groupOf(change) !== undefined)}
+          indeterminate={changes.some(change => groupOf(change) !== undefined) && !changes.every(change => groupOf(change) !== undefined)}
+          onChange={(e) => selectAll(e.target.checked)}
+        />
+        <Typography variant="body2" color="textSecondary">
+          Select the changes to commit and choose a commit for each
+        </Typography>
+      </Stack>
+
+      <List dense>
+        {changes.map((change) => {
+          const groupId = groupOf(change);
+          return (
+            <Box key={change.id}>
+              <ListItem
+                secondaryAction={
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    {groupId !== undefined && groups.length > 1 && (
+                      <Select
+                        size="small"
+                        value={groupId}
+                        onChange={(e) => assign(change.id, Number(e.target.value))}
+                      >
+                        {groups.map((group, index) => (
+                          <MenuItem key={group.id} value={group.id}>Commit {index + 1}</MenuItem>
+                        ))}
+                      </Select>
+                    )}
+                    <IconButton onClick={() => onViewDiff(change)} title="Compare with production">
+                      <DiffIcon />
+                    </IconButton>
+                    <IconButton edge="end" onClick={() => deleteChange.mutate(change.id)} disabled={busy} title="Drop change">
+                      <DeleteIcon />
+                    </IconButton>
+                  </Stack>
+                }
+              >
+                <ListItemIcon>
+                  <Checkbox
+                    edge="start"
+                    checked={groupId !== undefined}
+                    onChange={(e) => assign(change.id, e.target.checked ? groups[0].id : undefined)}
+                  />
+                </ListItemIcon>
+                <ListItemText
+                  primary={<ChangeSummary change={change} />}
+                  secondary={`Target: ${change.target} • Created: ${new Date(change.created_at).toLocaleString()}`}
+                />
+              </ListItem>
+              <Divider />
+            </Box>
+          );
+        })}
+      </List>
+
+      <Typography variant="subtitle1" sx={{ mt: 2, mb: 1 }}>Commits to create (in order)</Typography>
+      <Stack spacing={1}>
+        {groups.map((group, index) => (
+          <Stack key={group.id} direction="row" spacing={1} alignItems="center">
+            <Chip size="small" label={`${index + 1}`} />
+            <TextField
+              size="small"
+              fullWidth
+              label={`Commit message (${members(group).length} change(s))`}
+              value={group.message}
+              onChange={(e) => setGroups(prev => prev.map(g => (g.id === group.id ? { ...g, message: e.target.value } : g)))}
+            />
+            <IconButton size="small" disabled={index === 0} onClick={() => moveGroup(index, -1)} title="Move up">
+              <MoveUpIcon fontSize="small" />
+            </IconButton>
+            <IconButton size="small" disabled={index === groups.length - 1} onClick={() => moveGroup(index, 1)} title="Move down">
+              <MoveDownIcon fontSize="small" />
+            </IconButton>
+            <IconButton size="small" disabled={groups.length === 1} onClick={() => removeGroup(group.id)} title="Remove commit">
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Stack>
+        ))}
+      </Stack>
+
+      <Stack direction="row" spacing={1} justifyContent="flex-end" sx={{ mt: 2 }}>
+        <Button startIcon={<AddIcon />} onClick={addGroup}>
+          Add Commit
+        </Button>
+        <Button
+          variant="contained"
+          startIcon={createCommits.isPending ? <CircularProgress size={16} /> : <SendIcon />}
+          disabled={!canCommit || busy}
+          onClick={handleCommit}
+        >
+          {readyGroups.length > 1 ? `Create ${readyGroups.length} Commits` : 'Create Commit'}
+        </Button>
+      </Stack>
+    </Box>
+  );
+}
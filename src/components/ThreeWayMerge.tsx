@@ -0,0 +1,156 @@
+/**
+ * Three-way Merge
+ *
+ * Resolve a staged change whose record was edited in production after it
+ * was staged. Each field the change writes is shown as it was when staged
+ * (base), as staged (mine) and as production has it now (theirs); fields
+ * only one side changed merge on their own, the rest need a pick.
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Stack,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { useResolveConflict, parseChangePayload, type ChangeConflict, type StagedChange } from '@hooks/useCommits';
+import { formatFieldValue } from '@utils/diff';
+import {
+  threeWayMerge,
+  resolveMerge,
+  defaultMergeSide,
+  type MergeSide,
+  type MergeFieldStatus,
+} from '@utils/merge';
+
+const STATUS_LABELS: Record<MergeFieldStatus, { label: string; color: 'default' | 'primary' | 'secondary' | 'success' | 'warning' }> = {
+  unchanged: { label: 'unchanged', color: 'default' },
+  mine: { label: 'changed by me', color: 'primary' },
+  theirs: { label: 'changed in production', color: 'secondary' },
+  same: { label: 'same change', color: 'success' },
+  conflict: { label: 'conflict', color: 'warning' },
+};
+
+function Value({ value }: { value: unknown }) {
+  return (
+    <Typography variant="body2" sx={{ fontFamily: 'monospace', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+      {formatFieldValue(value)}
+    </Typography>
+  );
+}
+
+export function ThreeWayMerge({ change, conflict }: { change: StagedChange; conflict: ChangeConflict }) {
+  const [choices, setChoices] = useState<Partial<Record<string, MergeSide>>>({});
+  const resolve = useResolveConflict();
+
+  const mine = useMemo(() => parseChangePayload(change), [change]);
+  const fields = useMemo(
+    () => (conflict.theirs ? threeWayMerge(conflict.base, mine, conflict.theirs) : []),
+    [conflict, mine]
+  );
+  const merged = resolveMerge(fields, choices);
+  const unresolved = fields.filter(field => field.status === 'conflict' && !choices[field.field]).length;
+
+  if (!conflict.theirs) {
+    return (
+      <Alert severity="error">
+        This record was deleted from production after the change was staged, so there is nothing to merge into.
+        Revert the commit or stage a new record instead.
+      </Alert>
+    );
+  }
+
+  if (change.action === 'DELETE') {
+    return (
+      <Alert
+        severity="warning"
+        action={
+          <Button
+            color="inherit"
+            size="small"
+            disabled={resolve.isPending}
+            onClick={() => resolve.mutate({ change_id: change.id, payload: mine })}
+          >
+            Delete Anyway
+          </Button>
+        }
+      >
+        Production changed {conflict.fields.join(', ')} since this deletion was staged.
+        {resolve.error && ` ${resolve.error.message}`}
+      </Alert>
+    );
+  }
+
+  return (
+    <Box>
+      <Alert severity="warning" sx={{ mb: 2 }}>
+        Production changed since this edit was staged. Pushing is blocked until you choose which
+        version of each conflicting field to keep.
+      </Alert>
+      {resolve.error && <Alert severity="error" sx={{ mb: 2 }}>{resolve.error.message}</Alert>}
+
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Field</TableCell>
+            <TableCell>Base</TableCell>
+            <TableCell>Mine</TableCell>
+            <TableCell>Theirs</TableCell>
+            <TableCell>Keep</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {fields.map((field) => (
+            <TableRow key={field.field} selected={field.status === 'conflict'}>
+              <TableCell>
+                <Stack spacing={0.5}>
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>{field.field}</Typography>
+                  <Chip size="small" variant="outlined" {...STATUS_LABELS[field.status]} />
+                </Stack>
+              </TableCell>
+              <TableCell><Value value={field.base} /></TableCell>
+              <TableCell><Value value={field.mine} /></TableCell>
+              <TableCell><Value value={field.theirs} /></TableCell>
+              <TableCell>
+                <ToggleButtonGroup
+                  size="small"
+                  exclusive
+                  value={choices[field.field] ?? defaultMergeSide(field)}
+                  onChange={(_, side: MergeSide | null) => side && setChoices(prev => ({ ...prev, [field.field]: side }))}
+                >
+                  <ToggleButton value="mine">Mine</ToggleButton>
+                  <ToggleButton value="theirs">Theirs</ToggleButton>
+                </ToggleButtonGroup>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Stack direction="row" spacing={2} justifyContent="flex-end" alignItems="center" sx={{ mt: 2 }}>
+        {unresolved > 0 && (
+          <Typography variant="body2" color="warning.main">{unresolved} conflict(s) left to resolve</Typography>
+        )}
+        <Button
+          variant="contained"
+          disabled={!merged || resolve.isPending}
+          startIcon={resolve.isPending ? <CircularProgress size={16} /> : undefined}
+          onClick={() => merged && resolve.mutate({ change_id: change.id, payload: merged })}
+        >
+          Save Merge
+        </Button>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * Version History
+ *
+ * Every version a record has had, one per applied change, newest first,
+ * ending with the record as it was before its first pushed change (v0).
+ * Each version expands to the fields its change made different, and any
+ * earlier version can be staged back (re-created if the record is deleted).
+ */
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Collapse,
+  IconButton,
+  Stack,
+  Typography,
+} from '@mui/material';
+import {
+  Restore as RestoreIcon,
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+} from '@mui/icons-material';
+import { useEntityHistory, useRestoreVersion, isDeleted, type EntityVersion, type HistorySubject } from '@hooks/useEntityHistory';
+import type { Action } from '@hooks/useCommits';
+import { FieldDiffTable } from './FieldDiffTable';
+
+const ACTION_COLORS: Record<Action, 'success' | 'info' | 'error'> = {
+  CREATE: 'success',
+  UPDATE: 'info',
+  DELETE: 'error',
+};
+
+interface VersionRowProps {
+  version: EntityVersion;
+  isCurrent: boolean;
+  deleted: boolean;
+  restoring: boolean;
+  onRestore: () => void;
+}
+
+function VersionRow({ version, isCurrent, deleted, restoring, onRestore }: VersionRowProps) {
+  const [open, setOpen] = useState(false);
+  const { commit, change } = version;
+
+  return (
+    <Card variant="outlined">
+      <CardContent sx={{ py: 1.5, '&:last-child': { pb: 1.5 } }}>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <IconButton size="small" onClick={() => setOpen(!open)} aria-label={open ? 'Hide changes' : 'Show changes'}>
+            {open ? <CollapseIcon /> : <ExpandIcon />}
+          </IconButton>
+          <Typography variant="subtitle2" sx={{ minWidth: 32 }}>v{version.number}</Typography>
+          {change
+            ? <Chip size="small" variant="outlined" label={change.action} color={ACTION_COLORS[change.action]} />
+            : <Chip size="small" variant="outlined" label="Original" />}
+          {isCurrent && <Chip size="small" label="Current" color="primary" />}
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            {commit ? (
+              <>
+                <Typography variant="body2" noWrap>{commit.message}</Typography>
+                <Typography variant="caption" color="textSecondary">
+                  {new Date(commit.applied_at ?? commit.created_at).toLocaleString()}
+                  {(commit.applied_by ?? commit.created_by) && ` by ${commit.applied_by ?? commit.created_by}`}
+                  {` · ${commit.id}`}
+                </Typography>
+              </>
+            ) : (
+              <Typography variant="body2" noWrap>Before its first pushed change</Typography>
+            )}
+          </Box>
+          {!isCurrent && version.state && (
+            <Button
+              size="small"
+              startIcon={restoring ? <CircularProgress size={16} /> : <RestoreIcon />}
+              disabled={restoring}
+              onClick={onRestore}
+            >
+              {deleted ? 'Re-create from this version' : 'Restore this version'}
+            </Button>
+          )}
+        </Stack>
+        <Collapse in={open} unmountOnExit>
+          <Box sx={{ mt: 1.5 }}>
+            <FieldDiffTable
+              before={version.previous}
+              after={version.state}
+              beforeLabel={version.number > 0 && version.previous ? `v${version.number - 1}` : 'Before'}
+              afterLabel={`v${version.number}`}
+            />
+          </Box>
+        </Collapse>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function VersionHistory({ subject }: { subject: HistorySubject }) {
+  const navigate = useNavigate();
+  const { data: versions = [], isLoading, error } = useEntityHistory(subject);
+  const restore = useRestoreVersion(subject);
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Stack spacing={1.5}>
+      {error && <Alert severity="error">Could not load the history: {error.message}</Alert>}
+      {restore.error && <Alert severity="error">Restore failed: {restore.error.message}</Alert>}
+      {restore.data && (
+        <Alert
+          severity="success"
+          action={<Button color="inherit" size="small" onClick={() => navigate('/commits')}>Commits</Button>}
+        >
+          Restore staged. Commit and push it to bring this version back to production.
+        </Alert>
+      )}
+      {versions.length === 0 && !error ? (
+        <Typography color="textSecondary" sx={{ py: 2 }}>
+          No pushed changes yet. Versions appear here once a commit touching this record is pushed.
+        </Typography>
+      ) : (
+        versions.map((version, index) => (
+          <VersionRow
+            key={version.number}
+            version={version}
+            isCurrent={index === 0}
+            deleted={isDeleted(versions)}
+            restoring={restore.isPending && restore.variables?.number === version.number}
+            onRestore={() => restore.mutate(version)}
+          />
+        ))
+      )}
+    </Stack>
+  );
+}
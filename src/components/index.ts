@@ -2,9 +2,20 @@
  * Components barrel export
  */
 export { Layout } from './Layout';
+export { SessionExpiredDialog } from './SessionExpiredDialog';
+export { ChangeDiff } from './ChangeDiff';
+export { StagingArea } from './StagingArea';
+export { ThreeWayMerge } from './ThreeWayMerge';
+export { FieldDiffTable } from './FieldDiffTable';
+export { VersionHistory } from './VersionHistory';
+export { JobConnectionIndicator } from './JobConnectionIndicator';
+export { JobsTray } from './JobsTray';
 
 // Technology form components (SRP - each has single responsibility)
 export * from './technology';
 
 // JSON Form components
 export * from './json-form';
+
+// Portfolio preview components
+export * from './preview';
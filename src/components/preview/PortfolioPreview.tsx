@@ -0,0 +1,233 @@
+/**
+ * PortfolioPreview Component - Single Responsibility Principle (SRP)
+ *
+ * Renders the public portfolio sections (hero with its skills, home
+ * content, technology categories, experience, education and
+ * achievements) from previewed data, flagging the records that staged or
+ * unpushed changes create or edit.
+ */
+
+import type { ReactNode } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Stack,
+  Chip,
+  LinearProgress,
+  Divider,
+} from '@mui/material';
+import { topTechnologies, DEFAULT_CV_OPTIONS } from '@services/cv';
+import { previewKey, type PortfolioPreview as Preview } from '@hooks/usePortfolioPreview';
+import type { Action } from '@hooks/useCommits';
+
+const HERO_SKILLS = 8;
+
+const MARKS: Partial<Record<Action, { label: string; color: 'success' | 'info' }>> = {
+  CREATE: { label: 'New', color: 'success' },
+  UPDATE: { label: 'Changed', color: 'info' },
+};
+
+interface MarkedProps {
+  mark: Action | undefined;
+  children: ReactNode;
+}
+
+/**
+ * Outline and badge a record the previewed changes touch
+ */
+function Marked({ mark, children }: MarkedProps) {
+  const style = mark ? MARKS[mark] : undefined;
+  if (!style) {
+    return <>{children}</>;
+  }
+  return (
+    <Box sx={{ position: 'relative', borderLeft: 3, borderColor: `${style.color}.main`, pl: 1.5 }}>
+      <Chip size="small" color={style.color} label={style.label} sx={{ position: 'absolute', top: 0, right: 0 }} />
+      {children}
+    </Box>
+  );
+}
+
+function humanize(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Free-form section content: text as paragraphs, lists as lists, objects as labelled fields
+ */
+function SectionContent({ value }: { value: unknown }) {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return (
+      <Stack spacing={1}>
+        {value.map((item, index) => (
+          <Box key={index} sx={{ pl: 2, borderLeft: 1, borderColor: 'divider' }}>
+            <SectionContent value={item} />
+          </Box>
+        ))}
+      </Stack>
+    );
+  }
+  if (typeof value === 'object') {
+    return (
+      <Stack spacing={1}>
+        {Object.entries(value as Record<string, unknown>).map(([key, entry]) => (
+          <Box key={key}>
+            <Typography variant="overline" color="text.secondary">{humanize(key)}</Typography>
+            <SectionContent value={entry} />
+          </Box>
+        ))}
+      </Stack>
+    );
+  }
+  return <Typography variant="body1">{String(value)}</Typography>;
+}
+
+function PreviewSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <Box component="section">
+      <Typography variant="h5" sx={{ mb: 2 }}>{title}</Typography>
+      {children}
+    </Box>
+  );
+}
+
+interface PortfolioPreviewProps {
+  preview: Preview;
+}
+
+export function PortfolioPreview({ preview }: PortfolioPreviewProps) {
+  const { portfolio, marks } = preview;
+  const { contact, profile } = portfolio;
+  const technologies = portfolio.technologies.filter(tech => tech.is_active);
+  const heroSkills = topTechnologies(technologies, { ...DEFAULT_CV_OPTIONS, topTechnologies: HERO_SKILLS });
+  const section = (type: string) => portfolio.sections.find(s => s.section_type === type);
+  const home = section('home');
+  const achievements = section('achievements');
+
+  const categories = [...portfolio.categories]
+    .sort((a, b) => a.display_order - b.display_order)
+    .map(category => ({ name: category.name, technologies: technologies.filter(tech => tech.category === category.name) }));
+  const uncategorized = technologies.filter(tech => !portfolio.categories.some(c => c.name === tech.category));
+  if (uncategorized.length) {
+    categories.push({ name: 'Other', technologies: uncategorized });
+  }
+
+  const byOrder = <T extends { display_order?: number }>(items: T[]) =>
+    [...items].sort((a, b) => (a.display_order ?? 0) - (b.display_order ?? 0));
+
+  return (
+    <Stack spacing={5} divider={<Divider />}>
+      <Marked mark={marks[previewKey('profile')] ?? marks[previewKey('contact')]}>
+        <Box component="header">
+          <Typography variant="h3">{contact?.name}</Typography>
+          <Typography variant="h6" color="primary">{profile?.title}</Typography>
+          {profile?.summary && <Typography variant="body1" sx={{ mt: 2, maxWidth: 720 }}>{profile.summary}</Typography>}
+          {profile?.keyAchievements && profile.keyAchievements.length > 0 && (
+            <Box component="ul" sx={{ mt: 1, mb: 0 }}>
+              {profile.keyAchievements.map(item => <li key={item}><Typography variant="body2">{item}</Typography></li>)}
+            </Box>
+          )}
+          <Stack direction="row" spacing={1} sx={{ mt: 2, flexWrap: 'wrap' }} useFlexGap>
+            {heroSkills.map(tech => (
+              <Chip
+                key={tech.name}
+                label={tech.name}
+                color={marks[previewKey('technology', tech.name)] ? 'secondary' : 'default'}
+              />
+            ))}
+          </Stack>
+        </Box>
+      </Marked>
+
+      {home && (
+        <Marked mark={marks[previewKey('section', 'home')]}>
+          <PreviewSection title={home.section_name || 'Home'}>
+            <SectionContent value={home.json_content} />
+          </PreviewSection>
+        </Marked>
+      )}
+
+      <PreviewSection title="Technologies">
+        <Stack spacing={3}>
+          {categories.filter(category => category.technologies.length > 0).map(category => (
+            <Box key={category.name}>
+              <Typography variant="h6" sx={{ mb: 1 }}>{category.name}</Typography>
+              <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))', gap: 2 }}>
+                {byOrder(category.technologies).map(tech => (
+                  <Marked key={tech.name} mark={marks[previewKey('technology', tech.name)]}>
+                    <Paper variant="outlined" sx={{ p: 1.5 }}>
+                      <Typography variant="subtitle2">{tech.name}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {tech.level} · {tech.experience_years} yrs
+                      </Typography>
+                      <LinearProgress variant="determinate" value={tech.proficiency_percent} sx={{ mt: 1 }} />
+                    </Paper>
+                  </Marked>
+                ))}
+              </Box>
+            </Box>
+          ))}
+        </Stack>
+      </PreviewSection>
+
+      <PreviewSection title="Experience">
+        <Stack spacing={3}>
+          {byOrder(portfolio.experiences.filter(item => item.is_active !== false)).map(item => (
+            <Marked key={item.id} mark={marks[previewKey('experience', item.id)]}>
+              <Typography variant="h6">{item.role}</Typography>
+              <Typography variant="subtitle1" color="text.secondary">
+                {[item.company, item.location, item.period].filter(Boolean).join(' · ')}
+              </Typography>
+              {item.description && <Typography variant="body2" sx={{ mt: 1 }}>{item.description}</Typography>}
+              {item.categories.map(category => (
+                <Box key={category.title} sx={{ mt: 1 }}>
+                  <Typography variant="subtitle2">{category.title}</Typography>
+                  <Box component="ul" sx={{ my: 0 }}>
+                    {category.achievements.map(achievement => (
+                      <li key={achievement.title}>
+                        <Typography variant="body2">
+                          <strong>{achievement.title}</strong>{achievement.description && `: ${achievement.description}`}
+                        </Typography>
+                      </li>
+                    ))}
+                  </Box>
+                </Box>
+              ))}
+            </Marked>
+          ))}
+        </Stack>
+      </PreviewSection>
+
+      {portfolio.education.length > 0 && (
+        <PreviewSection title="Education">
+          <Stack spacing={2}>
+            {byOrder(portfolio.education.filter(item => item.is_active !== false)).map(item => (
+              <Marked key={item.id} mark={marks[previewKey('education', item.id)]}>
+                <Typography variant="h6">{item.institution}</Typography>
+                <Typography variant="subtitle1" color="text.secondary">
+                  {[item.degree, [item.start_year, item.end_year].filter(Boolean).join(' – ')].filter(Boolean).join(' · ')}
+                </Typography>
+                {item.focusAreas.length > 0 && (
+                  <Typography variant="body2">Focus: {item.focusAreas.join(', ')}</Typography>
+                )}
+              </Marked>
+            ))}
+          </Stack>
+        </PreviewSection>
+      )}
+
+      {achievements && (
+        <Marked mark={marks[previewKey('section', 'achievements')]}>
+          <PreviewSection title={achievements.section_name || 'Achievements'}>
+            <SectionContent value={achievements.json_content} />
+          </PreviewSection>
+        </Marked>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * Portfolio Preview Components
+ *
+ * Read-only rendering of the public portfolio from previewed data.
+ */
+
+export { PortfolioPreview } from './PortfolioPreview';
@@ -5,6 +5,8 @@
  * and make changes in one place.
  */
 
+import type { TechnologyFormData } from '@/types';
+
 export const TECHNOLOGY_LEVELS = ['Expert', 'Advanced', 'Intermediate', 'Beginner'] as const;
 export type TechnologyLevel = typeof TECHNOLOGY_LEVELS[number];
 
@@ -58,3 +60,26 @@ export function getCategoryId(categoryName: string): number {
 export function getCategoryName(categoryId: number): Category {
   return CATEGORIES[categoryId - 1] || CATEGORIES[0];
 }
+
+/**
+ * A new technology before anything is entered
+ * Shared by the technology form and the bulk import
+ */
+export const DEFAULT_TECHNOLOGY_FORM: TechnologyFormData = {
+  name: '',
+  category: '',
+  experience: '',
+  experience_years: 0,
+  proficiency_percent: 50,
+  level: 'Intermediate',
+  is_active: true,
+  // AI fields
+  ai_category: '',
+  summary: '',
+  action: '',
+  effect: '',
+  outcome: '',
+  related_project: '',
+  employer: '',
+  recency: 'current',
+};
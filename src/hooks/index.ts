@@ -12,14 +12,12 @@ export {
   useTechnologiesCount,
 } from './useTechnologies';
 
-// Legacy staged changes operations (for backwards compatibility)
+// Legacy staging queue: migration into v2 commits only
 export {
-  useStagedChanges,
-  useStagedChangesCount,
-  useApplyD1CV,
-  useApplyAI,
-  useDeleteStagedChange,
+  useLegacyStagedChanges,
+  useMigrateLegacyStaged,
   usePurgeD1CVCache,
+  type LegacyStagedPair,
 } from './useStagedChanges';
 
 // Similarity check for duplicate prevention
@@ -30,7 +28,6 @@ export {
   useD1CVTechnologies,
   useD1CVTechnology,
   useD1CVCategories,
-  useStageTechnology,
 } from './useD1CV';
 
 // AI Agent data operations
@@ -51,10 +48,36 @@ export {
   useCommitDetails,
   useStagingStats,
   useStageChange,
-  useDeleteStagedChange as useDeleteStagedChangeV2,
+  useReplaceStagedChange,
+  useStageContentChange,
+  useDeleteStagedChange,
   useCreateCommit,
+  useCreateCommits,
+  useStageAndCommit,
+  useSquashChanges,
+  useRevertCommit,
   usePushToD1CV,
   usePushToAI,
+  useRetryCommit,
+  invalidatePushedData,
+  useCommitConflicts,
+  useResolveConflict,
+  useScheduleCommit,
+  useReviewCommit,
+  pushBlockedReason,
+  upcomingPushes,
+  retryTarget,
+  failedChangeTarget,
+  technologyChange,
+  technologyFormPayloads,
+  parseChangePayload,
+  changeLabel,
+  findStagedTechnology,
+  contentChange,
+  findStagedContent,
+  changeEntityKey,
+  planStaging,
+  squashChanges,
   type StagedChange,
   type Commit,
   type CommitWithChanges,
@@ -62,12 +85,115 @@ export {
   type Action,
   type Target,
   type EntityType,
+  type ContentEntityType,
+  type ContentChangeInput,
   type CommitStatus,
+  type PushTarget,
+  type ChangePushStatus,
+  type PushResponse,
+  type StagingPlan,
+  type ChangeConflict,
+  type ReviewStatus,
+  type CreateCommitRequest,
 } from './useCommits';
 
+// Production baselines for the staged change diff viewer
+export {
+  useChangeBaseline,
+  changeSubject,
+  type ChangeSubject,
+} from './useChangeBaseline';
+
 // Real-time job status via WebSocket
 export {
   useJobWebSocket,
   useJobStatus,
+  latestJobForCommit,
   type DOJobStatus,
+  type JobConnectionStatus,
 } from './useJobWebSocket';
+
+// Push job history
+export {
+  useJobHistory,
+  mergeLiveJobs,
+  jobDuration,
+  formatDuration,
+  type JobHistoryStatus,
+  type JobHistoryFilters,
+  type JobHistoryPage,
+} from './useJobs';
+
+// Audit log of admin actions
+export {
+  useAuditLog,
+  useExportAudit,
+  auditToCsv,
+  type AuditEntry,
+  type AuditFilters,
+  type AuditPage,
+} from './useAudit';
+
+// Version history and restore
+export {
+  useEntityHistory,
+  useRestoreVersion,
+  buildVersions,
+  restoreRequest,
+  isDeleted,
+  type VersionedEntityType,
+  type HistorySubject,
+  type HistoryEntry,
+  type EntityVersion,
+} from './useEntityHistory';
+
+// Bulk technology import
+export {
+  readImportSource,
+  detectFormat,
+  guessMapping,
+  mapImportRows,
+  importRowChange,
+  IMPORT_FIELDS,
+  type ImportFormat,
+  type ImportSource,
+  type ColumnMapping,
+  type ImportRow,
+} from './useTechnologyImport';
+
+// Portfolio bundle export and import
+export {
+  usePortfolioSnapshot,
+  fetchPortfolioSnapshot,
+  buildBundle,
+  parseBundle,
+  planBundleImport,
+  jsonResumeToBundle,
+  readImportFile,
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  type CVBundle,
+  type BundleTechnology,
+  type PortfolioSnapshot,
+  type PlannedChange,
+  type BundleImportPlan,
+  type ImportedFile,
+} from './useCVBundle';
+
+// Tailored CV variants
+export {
+  useCVVariants,
+  useSaveCVVariant,
+  useDeleteCVVariant,
+  useJobRelevance,
+} from './useCVVariants';
+
+// Portfolio preview with unpushed changes
+export {
+  usePreviewSources,
+  overlayChanges,
+  unpushedChanges,
+  previewKey,
+  type PreviewCommit,
+  type PortfolioPreview,
+} from './usePortfolioPreview';
@@ -5,38 +5,36 @@
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiClient } from '@services/api';
-import type { AIAgentTechnology, AIAgentTechnologyWithD1CVMatch, VectorizeStatus, D1CVTechnology } from '@/types';
+import { useApiClient } from '@services/ApiContext';
+import {
+  aiAgentTechnologiesPayloadSchema,
+  aiAgentTechnologySchema,
+  d1cvTechnologiesPayloadSchema,
+  vectorizeStatusSchema,
+  type AIAgentTechnologiesPayload,
+  type D1CVTechnologiesPayload,
+} from '@services/schemas';
+import type { AIAgentTechnology, AIAgentTechnologyWithD1CVMatch, VectorizeStatus } from '@/types';
 
-interface AIAgentTechnologiesResponse {
-  data?: AIAgentTechnology[];
-  technologies?: AIAgentTechnology[];
-}
-
-interface D1CVTechnologiesResponse {
-  heroSkills?: D1CVTechnology[];
-  technologyCategories?: Array<{
-    name: string;
-    icon: string;
-    technologies: D1CVTechnology[];
-  }>;
-  data?: D1CVTechnology[];
-  technologies?: D1CVTechnology[];
-}
+// Reindexing embeds every technology and can run for minutes
+const REINDEX_TIMEOUT = 1000 * 60 * 5;
 
-function normalizeAIAgentResponse(response: AIAgentTechnology[] | AIAgentTechnologiesResponse): AIAgentTechnology[] {
+function normalizeAIAgentResponse(response: AIAgentTechnologiesPayload): AIAgentTechnology[] {
   if (Array.isArray(response)) {
     return response;
   }
   return response.data || response.technologies || [];
 }
 
-function normalizeD1CVResponse(response: D1CVTechnology[] | D1CVTechnologiesResponse): D1CVTechnology[] {
+/**
+ * Flatten D1CV technologies - only names are needed for matching
+ */
+function normalizeD1CVResponse(response: D1CVTechnologiesPayload): Array<{ name: string }> {
   if (Array.isArray(response)) {
     return response;
   }
   if (response.technologyCategories) {
-    const allTechs: D1CVTechnology[] = [];
+    const allTechs: Array<{ name: string }> = [];
     if (response.heroSkills) {
       allTechs.push(...response.heroSkills);
     }
@@ -54,10 +52,12 @@ function normalizeD1CVResponse(response: D1CVTechnology[] | D1CVTechnologiesResp
  * Fetch all technologies from cv-ai-agent
  */
 export function useAIAgentTechnologies() {
+  const apiClient = useApiClient();
+
   return useQuery<AIAgentTechnology[], Error>({
     queryKey: ['ai-agent', 'technologies'],
-    queryFn: async () => {
-      const response = await apiClient.get<AIAgentTechnology[] | AIAgentTechnologiesResponse>('/api/ai-agent/technologies');
+    queryFn: async ({ signal }) => {
+      const response = await apiClient.get('/api/ai-agent/technologies', { signal, schema: aiAgentTechnologiesPayloadSchema });
       return normalizeAIAgentResponse(response);
     },
     staleTime: 1000 * 60 * 5, // 5 minutes
@@ -69,20 +69,22 @@ export function useAIAgentTechnologies() {
  * Combines AI Agent data with D1CV lookup
  */
 export function useAIAgentTechnologiesWithD1CVMatch() {
+  const apiClient = useApiClient();
+
   return useQuery<AIAgentTechnologyWithD1CVMatch[], Error>({
     queryKey: ['ai-agent', 'technologies', 'with-d1cv-match'],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       // Fetch both AI Agent and D1CV technologies in parallel
       const [aiAgentResponse, d1cvResponse] = await Promise.all([
-        apiClient.get<AIAgentTechnology[] | AIAgentTechnologiesResponse>('/api/ai-agent/technologies'),
-        apiClient.get<D1CVTechnology[] | D1CVTechnologiesResponse>('/api/d1cv/technologies'),
+        apiClient.get('/api/ai-agent/technologies', { signal, schema: aiAgentTechnologiesPayloadSchema }),
+        apiClient.get('/api/d1cv/technologies', { signal, schema: d1cvTechnologiesPayloadSchema }),
       ]);
 
       const aiAgentTechnologies = normalizeAIAgentResponse(aiAgentResponse);
       const d1cvTechnologies = normalizeD1CVResponse(d1cvResponse);
 
       // Create a map of D1CV technologies by normalized name for quick lookup
-      const d1cvByName = new Map<string, D1CVTechnology>();
+      const d1cvByName = new Map<string, { name: string }>();
       for (const tech of d1cvTechnologies) {
         d1cvByName.set(tech.name.toLowerCase(), tech);
       }
@@ -105,9 +107,11 @@ export function useAIAgentTechnologiesWithD1CVMatch() {
  * Fetch a single technology from cv-ai-agent by stable_id
  */
 export function useAIAgentTechnology(stableId: string | undefined) {
+  const apiClient = useApiClient();
+
   return useQuery<AIAgentTechnology, Error>({
     queryKey: ['ai-agent', 'technology', stableId],
-    queryFn: () => apiClient.get(`/api/ai-agent/technologies/${stableId}`),
+    queryFn: ({ signal }) => apiClient.get(`/api/ai-agent/technologies/${stableId}`, { signal, schema: aiAgentTechnologySchema }),
     enabled: Boolean(stableId),
   });
 }
@@ -116,9 +120,11 @@ export function useAIAgentTechnology(stableId: string | undefined) {
  * Fetch Vectorize index status
  */
 export function useVectorizeStatus() {
+  const apiClient = useApiClient();
+
   return useQuery<VectorizeStatus, Error>({
     queryKey: ['ai-agent', 'vectorize', 'status'],
-    queryFn: () => apiClient.get('/api/ai-agent/vectorize/status'),
+    queryFn: ({ signal }) => apiClient.get('/api/ai-agent/vectorize/status', { signal, schema: vectorizeStatusSchema }),
     staleTime: 1000 * 60, // 1 minute
   });
 }
@@ -127,10 +133,11 @@ export function useVectorizeStatus() {
  * Trigger Vectorize reindex
  */
 export function useVectorizeReindex() {
+  const apiClient = useApiClient();
   const queryClient = useQueryClient();
 
   return useMutation<{ success: boolean; message: string }, Error>({
-    mutationFn: () => apiClient.post('/api/ai-agent/vectorize/reindex', {}),
+    mutationFn: () => apiClient.post('/api/ai-agent/vectorize/reindex', {}, { timeout: REINDEX_TIMEOUT }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['ai-agent', 'vectorize'] });
       queryClient.invalidateQueries({ queryKey: ['ai-agent', 'technologies'] });
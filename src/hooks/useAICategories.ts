@@ -6,7 +6,9 @@
  */
 
 import { useQuery } from '@tanstack/react-query';
-import { apiClient } from '@services/api';
+import { useApiClient } from '@services/ApiContext';
+import { s } from '@utils/schema';
+import type { Schema } from '@/types';
 
 const CACHE_KEY = 'ai_categories_cache';
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
@@ -21,6 +23,11 @@ interface CategoriesResponse {
     count: number;
 }
 
+const categoriesResponseSchema: Schema<CategoriesResponse> = s.object({
+    categories: s.array(s.string()),
+    count: s.number(),
+});
+
 /**
  * Get cached categories from localStorage if still valid
  */
@@ -77,12 +84,14 @@ export function clearAICategoriesCache(): void {
  * - If cache is expired/missing, fetches from API and caches result
  */
 export function useAICategories() {
+    const apiClient = useApiClient();
+
     // Check cache on initial render
     const cachedData = getCachedCategories();
 
     return useQuery<string[], Error>({
         queryKey: ['ai-categories'],
-        queryFn: async () => {
+        queryFn: async ({ signal }) => {
             // Double-check cache (in case another tab updated it)
             const cached = getCachedCategories();
             if (cached) {
@@ -90,7 +99,7 @@ export function useAICategories() {
             }
 
             // Fetch from API
-            const response = await apiClient.get<CategoriesResponse>('/api/ai-agent/categories');
+            const response = await apiClient.get('/api/ai-agent/categories', { signal, schema: categoriesResponseSchema });
             const categories = response.categories || [];
 
             // Cache the result
@@ -0,0 +1,126 @@
+/**
+ * Audit Log Hooks - Single Responsibility Principle (SRP)
+ *
+ * The worker records every admin write (staging, commits, pushes, direct
+ * content edits, cache purges, reindexes) with the Cloudflare Access
+ * identity that made it and the record before and after. These hooks
+ * search that log and export it.
+ */
+
+import { useQuery, useMutation, keepPreviousData } from '@tanstack/react-query';
+import { useApiClient } from '@services/ApiContext';
+import type { IApiClient } from '@/types';
+import { s } from '@utils/schema';
+import { toCsv } from '@utils/csv';
+
+export interface AuditEntry {
+  id: string;
+  /** Cloudflare Access email of whoever made the change */
+  actor: string;
+  /** Dotted action name, e.g. `experience.update` or `commit.push.d1cv` */
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  /** JSON snapshots of the record around the action (null when there was none) */
+  before: string | null;
+  after: string | null;
+  created_at: string;
+}
+
+export interface AuditFilters {
+  /** Free-text search across actor, action, entity and payloads */
+  q?: string;
+  actor?: string;
+  action?: string;
+  entity_type?: string;
+  /** ISO timestamps bounding created_at, both inclusive */
+  from?: string;
+  to?: string;
+  /** 1-based */
+  page: number;
+  limit: number;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  total: number;
+  page: number;
+  limit: number;
+  /** Distinct values across the whole log, for the filter menus */
+  facets: {
+    actors: string[];
+    actions: string[];
+    entity_types: string[];
+  };
+}
+
+// The largest page the worker serves; exports walk every page at this size
+const EXPORT_PAGE_SIZE = 100;
+
+const CSV_COLUMNS: Array<keyof AuditEntry> = ['created_at', 'actor', 'action', 'entity_type', 'entity_id', 'before', 'after'];
+
+const auditPageSchema = s.object({
+  entries: s.array(s.object({
+    id: s.string(),
+    actor: s.string(),
+    action: s.string(),
+    entity_type: s.string(),
+    entity_id: s.nullable(s.string()),
+    before: s.nullable(s.string()),
+    after: s.nullable(s.string()),
+    created_at: s.string(),
+  })),
+  total: s.number(),
+  page: s.number(),
+  limit: s.number(),
+  facets: s.object({
+    actors: s.array(s.string()),
+    actions: s.array(s.string()),
+    entity_types: s.array(s.string()),
+  }),
+});
+
+function fetchAuditPage(apiClient: IApiClient, filters: AuditFilters, signal?: AbortSignal): Promise<AuditPage> {
+  return apiClient.get('/v2/audit', { signal, params: { ...filters }, schema: auditPageSchema });
+}
+
+/**
+ * CSV of audit entries, one row per entry with the payloads as JSON
+ */
+export function auditToCsv(entries: AuditEntry[]): string {
+  return toCsv(CSV_COLUMNS, entries.map(entry => CSV_COLUMNS.map(column => entry[column])));
+}
+
+/**
+ * Search one page of the audit log
+ */
+export function useAuditLog(filters: AuditFilters) {
+  const apiClient = useApiClient();
+
+  return useQuery<AuditPage, Error>({
+    queryKey: ['v2', 'audit', filters],
+    queryFn: ({ signal }) => fetchAuditPage(apiClient, filters, signal),
+    placeholderData: keepPreviousData,
+  });
+}
+
+/**
+ * Fetch every entry matching the filters (ignoring paging) as CSV
+ */
+export function useExportAudit() {
+  const apiClient = useApiClient();
+
+  return useMutation<string, Error, Omit<AuditFilters, 'page' | 'limit'>>({
+    mutationFn: async (filters) => {
+      const entries: AuditEntry[] = [];
+      for (let page = 1; ; page++) {
+        const result = await fetchAuditPage(apiClient, { ...filters, page, limit: EXPORT_PAGE_SIZE });
+        entries.push(...result.entries);
+        if (result.entries.length === 0 || entries.length >= result.total) {
+          break;
+        }
+      }
+      return auditToCsv(entries);
+    },
+  });
+}
@@ -0,0 +1,709 @@
+/**
+ * CV Bundle Hooks - Single Responsibility Principle (SRP)
+ *
+ * The whole portfolio (categories, technologies with their AI enrichment,
+ * experience, education, contact, profile and content sections) as one
+ * versioned JSON file. Bundles back up an environment and seed another:
+ * importing compares the bundle with what the target already holds and
+ * stages only the records that differ, ready to commit and push.
+ *
+ * Records are stored in the shape the forms stage, so importing never
+ * needs to know how the worker lays out its tables.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useApiClient } from '@services/ApiContext';
+import { ApiError } from '@services/errors';
+import {
+  technologyCategorySchema,
+  technologiesWithAIMatchResponseSchema,
+  experienceResponseSchema,
+  educationResponseSchema,
+  contactInfoSchema,
+  profileInfoSchema,
+  contentSectionSchema,
+} from '@services/schemas';
+import { s, parseWithSchema, SchemaMismatchError } from '@utils/schema';
+import { sameValue } from '@utils/diff';
+import { DEFAULT_TECHNOLOGY_FORM, TECHNOLOGY_LEVELS } from '@/constants';
+import {
+  parseJsonResume,
+  isJsonResume,
+  highlightText,
+  formatPeriod,
+  parseIsoDate,
+  type JsonResume,
+  type JsonResumeProfile,
+  type JsonResumeWork,
+} from '@services/cv';
+import type {
+  IApiClient,
+  Schema,
+  TechnologyCategory,
+  D1CVTechnologyWithAIMatch,
+  Experience,
+  Education,
+  ContactInfo,
+  ProfileInfo,
+  ContentSection,
+} from '@/types';
+import { technologyChange, contentChange, type Action, type EntityType, type StageChangeRequest } from './useCommits';
+import type { ExperienceInput, EducationInput, ContactInput, ProfileInput, ContentSectionInput } from './useD1CV';
+
+export const BUNDLE_FORMAT = 'cv-admin-bundle';
+/** Bump when the layout changes, and teach parseBundle to upgrade older files */
+export const BUNDLE_VERSION = 1;
+
+const SECTION_TYPES = ['home', 'achievements'] as const;
+
+export interface BundleTechnology {
+  name: string;
+  /** D1CV category, by name (ids differ between environments) */
+  category: string;
+  experience: string;
+  experience_years: number;
+  proficiency_percent: number;
+  level: string;
+  is_active: boolean;
+  display_order?: number;
+  /** AI Agent enrichment, when the technology has any */
+  ai?: {
+    summary?: string;
+    action?: string;
+    effect?: string;
+    outcome?: string;
+    related_project?: string;
+    employer?: string;
+    recency?: string;
+    /** AI Agent category, independent from the D1CV one */
+    category?: string;
+  };
+}
+
+export interface CVBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  categories: Array<Omit<TechnologyCategory, 'id'>>;
+  technologies: BundleTechnology[];
+  experience: ExperienceInput[];
+  education: EducationInput[];
+  contact: ContactInput | null;
+  profile: ProfileInput | null;
+  /** Keyed by section type, e.g. `home` */
+  sections: Record<string, ContentSectionInput>;
+}
+
+/**
+ * Everything one environment currently serves, as its read endpoints return it
+ */
+export interface PortfolioSnapshot {
+  categories: TechnologyCategory[];
+  technologies: D1CVTechnologyWithAIMatch[];
+  experiences: Experience[];
+  education: Education[];
+  contact: ContactInfo | null;
+  profile: ProfileInfo | null;
+  sections: ContentSection[];
+}
+
+export interface PlannedChange {
+  entityType: EntityType;
+  action: Action;
+  label: string;
+  request: StageChangeRequest;
+}
+
+export interface BundleImportPlan {
+  changes: PlannedChange[];
+  /** Records in the bundle that already match the target */
+  unchanged: number;
+  /** Records that cannot be imported, and why */
+  warnings: string[];
+  /**
+   * Categories the bundle's technologies need but the target lacks
+   * Categories cannot be staged, so nothing may be staged until they exist.
+   */
+  missingCategories: string[];
+}
+
+const bundleSchema: Schema<CVBundle> = s.object({
+  format: s.literal(BUNDLE_FORMAT),
+  version: s.number(),
+  exported_at: s.string(),
+  categories: s.array(s.object({
+    name: s.string(),
+    icon: s.string(),
+    display_order: s.number(),
+  })),
+  technologies: s.array(s.object({
+    name: s.string(),
+    category: s.string(),
+    experience: s.string(),
+    experience_years: s.number(),
+    proficiency_percent: s.number(),
+    level: s.string(),
+    is_active: s.boolean(),
+    display_order: s.optional(s.number()),
+    ai: s.optional(s.object({
+      summary: s.optional(s.string()),
+      action: s.optional(s.string()),
+      effect: s.optional(s.string()),
+      outcome: s.optional(s.string()),
+      related_project: s.optional(s.string()),
+      employer: s.optional(s.string()),
+      recency: s.optional(s.string()),
+      category: s.optional(s.string()),
+    })),
+  })),
+  experience: s.array(s.object({
+    company: s.string(),
+    location: s.optional(s.string()),
+    role: s.string(),
+    period: s.string(),
+    start_date: s.optional(s.string()),
+    end_date: s.optional(s.string()),
+    is_current: s.optional(s.boolean()),
+    reporting_to: s.optional(s.string()),
+    operating_level: s.optional(s.string()),
+    description: s.optional(s.string()),
+    technologies: s.optional(s.string()),
+    display_order: s.optional(s.number()),
+    categories: s.optional(s.array(s.object({
+      title: s.string(),
+      display_order: s.optional(s.number()),
+      achievements: s.optional(s.array(s.object({
+        title: s.string(),
+        description: s.string(),
+        display_order: s.optional(s.number()),
+      }))),
+    }))),
+  })),
+  education: s.array(s.object({
+    institution: s.string(),
+    degree: s.optional(s.string()),
+    location: s.optional(s.string()),
+    start_year: s.optional(s.string()),
+    end_year: s.optional(s.string()),
+    description: s.optional(s.string()),
+    display_order: s.optional(s.number()),
+    focus_areas: s.optional(s.array(s.string())),
+  })),
+  contact: s.nullable(s.object({
+    name: s.string(),
+    email: s.optional(s.string()),
+    phone: s.optional(s.string()),
+    linkedin_url: s.optional(s.string()),
+    github_url: s.optional(s.string()),
+    portfolio_url: s.optional(s.string()),
+    location: s.optional(s.string()),
+    work_authorization: s.optional(s.string()),
+    availability: s.optional(s.string()),
+    work_preference: s.optional(s.string()),
+  })),
+  profile: s.nullable(s.object({
+    title: s.optional(s.string()),
+    summary: s.optional(s.string()),
+    key_achievements: s.optional(s.array(s.string())),
+  })),
+  sections: s.record(s.object({
+    section_name: s.optional(s.string()),
+    json_content: s.record(s.unknown()),
+    display_order: s.optional(s.number()),
+  })),
+});
+
+// =============================================================================
+// SHAPE CONVERSION (read endpoints -> staged payloads)
+// =============================================================================
+
+function bundleTechnology(tech: D1CVTechnologyWithAIMatch): BundleTechnology {
+  const ai = tech.aiMatch;
+  return {
+    name: tech.name,
+    category: tech.category ?? '',
+    experience: tech.experience,
+    experience_years: tech.experience_years,
+    proficiency_percent: tech.proficiency_percent,
+    level: tech.level,
+    is_active: tech.is_active,
+    display_order: tech.display_order,
+    ai: ai ? {
+      summary: ai.summary,
+      action: ai.action,
+      effect: ai.effect,
+      outcome: ai.outcome,
+      related_project: ai.related_project,
+      employer: ai.employer,
+      recency: ai.recency,
+      category: ai.category,
+    } : undefined,
+  };
+}
+
+function experienceInput(experience: Experience): ExperienceInput {
+  return {
+    company: experience.company,
+    location: experience.location || undefined,
+    role: experience.role,
+    period: experience.period,
+    is_current: experience.period?.toLowerCase().includes('present') || false,
+    reporting_to: experience.reporting || undefined,
+    operating_level: experience.operatingLevel || undefined,
+    description: experience.description || undefined,
+    technologies: experience.technologies || undefined,
+    display_order: experience.display_order,
+    categories: experience.categories.map((category, catIdx) => ({
+      title: category.title,
+      display_order: catIdx,
+      achievements: category.achievements.map((achievement, achIdx) => ({
+        title: achievement.title,
+        description: achievement.description,
+        display_order: achIdx,
+      })),
+    })),
+  };
+}
+
+function educationInput(education: Education): EducationInput {
+  return {
+    institution: education.institution,
+    degree: education.degree || undefined,
+    location: education.location || undefined,
+    start_year: education.start_year,
+    end_year: education.end_year,
+    description: education.description || undefined,
+    display_order: education.display_order,
+    focus_areas: education.focusAreas,
+  };
+}
+
+function contactInput(contact: ContactInfo): ContactInput {
+  const input: ContactInfo = { ...contact };
+  delete input.id;
+  return input;
+}
+
+function profileInput(profile: ProfileInfo): ProfileInput {
+  return {
+    title: profile.title,
+    summary: profile.summary,
+    key_achievements: profile.keyAchievements,
+  };
+}
+
+function sectionInput(section: ContentSection): ContentSectionInput {
+  return {
+    section_name: section.section_name,
+    json_content: section.json_content,
+    display_order: section.display_order,
+  };
+}
+
+/**
+ * Bundle everything an environment serves
+ */
+export function buildBundle(snapshot: PortfolioSnapshot, exportedAt: string = new Date().toISOString()): CVBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: exportedAt,
+    categories: snapshot.categories.map(({ name, icon, display_order }) => ({ name, icon, display_order })),
+    technologies: snapshot.technologies.map(bundleTechnology),
+    experience: snapshot.experiences.map(experienceInput),
+    education: snapshot.education.map(educationInput),
+    contact: snapshot.contact && contactInput(snapshot.contact),
+    profile: snapshot.profile && profileInput(snapshot.profile),
+    sections: Object.fromEntries(snapshot.sections.map(section => [section.section_type, sectionInput(section)])),
+  };
+}
+
+/**
+ * Read a bundle file, rejecting anything that is not a bundle this admin understands
+ */
+export function parseBundle(text: string): CVBundle {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const header = parsed as { format?: unknown; version?: unknown } | null;
+  if (header?.format !== BUNDLE_FORMAT) {
+    throw new Error('The file is not a CV bundle');
+  }
+  if (typeof header.version !== 'number' || header.version > BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${String(header.version)} is newer than this admin supports (${BUNDLE_VERSION})`);
+  }
+  try {
+    return parseWithSchema(bundleSchema, parsed);
+  } catch (error) {
+    if (error instanceof SchemaMismatchError) {
+      throw new Error(`The bundle is damaged at ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+// =============================================================================
+// JSON RESUME
+// =============================================================================
+
+export interface ImportedFile {
+  source: 'bundle' | 'json-resume';
+  bundle: CVBundle;
+  /** Parts of the file that cannot be imported, and why */
+  warnings: string[];
+}
+
+/**
+ * Drop unset fields, so comparing with the target only looks at what the file gives
+ */
+function defined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined && v !== '')) as T;
+}
+
+function profileUrl(profiles: JsonResumeProfile[] | undefined, network: string): string | undefined {
+  return profiles?.find(profile => profile.network?.toLowerCase() === network)?.url;
+}
+
+function resumeExperience(work: JsonResumeWork, current: Experience | undefined): ExperienceInput {
+  const highlights = work.highlights ?? [];
+  const currentHighlights = current?.categories.flatMap(category => category.achievements.map(highlightText)) ?? [];
+  // A resume without highlights says nothing about achievements, so it must not clear them
+  const keepCategories = highlights.length === 0 || sameValue(highlights, currentHighlights);
+  const start = parseIsoDate(work.startDate);
+  return defined({
+    company: work.name ?? '',
+    role: work.position ?? '',
+    location: work.location,
+    period: formatPeriod(start, parseIsoDate(work.endDate)),
+    is_current: Boolean(start) && !work.endDate,
+    description: work.summary,
+    // Highlights have no categories; keep the existing ones while the text matches
+    categories: keepCategories ? undefined : [{
+      title: 'Highlights',
+      display_order: 0,
+      achievements: highlights.map((highlight, index) => {
+        const [title, ...description] = highlight.split(': ');
+        return { title, description: description.join(': '), display_order: index };
+      }),
+    }],
+  });
+}
+
+/**
+ * Map a JSON Resume onto a bundle the import plan understands
+ * JSON Resume carries no proficiency, so only skills the target does not
+ * have yet become technologies (with the technology form's defaults);
+ * existing technologies are left as they are.
+ */
+export function jsonResumeToBundle(resume: JsonResume, snapshot: PortfolioSnapshot, importedAt: string = new Date().toISOString()): ImportedFile {
+  const warnings: string[] = [];
+  const { basics } = resume;
+
+  const name = basics?.name ?? snapshot.contact?.name;
+  const location = [basics?.location?.city, basics?.location?.region].filter(Boolean).join(', ');
+  const contact: ContactInput | null = basics && name ? defined({
+    name,
+    email: basics.email,
+    phone: basics.phone,
+    portfolio_url: basics.url,
+    location,
+    linkedin_url: profileUrl(basics.profiles, 'linkedin'),
+    github_url: profileUrl(basics.profiles, 'github'),
+  }) : null;
+  const profile: ProfileInput | null = basics?.label || basics?.summary
+    ? defined({ title: basics.label, summary: basics.summary })
+    : null;
+
+  const experiences = byName(snapshot.experiences, e => `${e.company}|${e.role}`);
+  const work = resume.work ?? [];
+  const skippedWork = work.filter(item => !item.name || !item.position);
+  if (skippedWork.length) {
+    warnings.push(`${skippedWork.length} work ${skippedWork.length === 1 ? 'entry has' : 'entries have'} no company or position and ${skippedWork.length === 1 ? 'was' : 'were'} skipped`);
+  }
+
+  const education = resume.education ?? [];
+  const skippedEducation = education.filter(item => !item.institution).length;
+  if (skippedEducation) {
+    warnings.push(`${skippedEducation} education ${skippedEducation === 1 ? 'entry has' : 'entries have'} no institution and ${skippedEducation === 1 ? 'was' : 'were'} skipped`);
+  }
+
+  const known = new Set(snapshot.technologies.map(t => t.name.toLowerCase()));
+  const technologies: BundleTechnology[] = [];
+  const ungrouped: string[] = [];
+  for (const skill of resume.skills ?? []) {
+    if (!skill.keywords?.length) {
+      if (skill.name && !known.has(skill.name.toLowerCase())) {
+        ungrouped.push(skill.name);
+      }
+      continue;
+    }
+    const level = TECHNOLOGY_LEVELS.find(l => l.toLowerCase() === skill.level?.toLowerCase());
+    for (const keyword of skill.keywords) {
+      if (known.has(keyword.toLowerCase())) {
+        continue;
+      }
+      known.add(keyword.toLowerCase());
+      technologies.push({
+        name: keyword,
+        category: skill.name ?? '',
+        experience: DEFAULT_TECHNOLOGY_FORM.experience,
+        experience_years: DEFAULT_TECHNOLOGY_FORM.experience_years,
+        proficiency_percent: DEFAULT_TECHNOLOGY_FORM.proficiency_percent,
+        level: level ?? DEFAULT_TECHNOLOGY_FORM.level,
+        is_active: DEFAULT_TECHNOLOGY_FORM.is_active,
+      });
+    }
+  }
+  if (ungrouped.length) {
+    warnings.push(`Skills without keywords have no category, so ${ungrouped.join(', ')} ${ungrouped.length === 1 ? 'was' : 'were'} skipped`);
+  }
+
+  return {
+    source: 'json-resume',
+    warnings,
+    bundle: {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exported_at: resume.meta?.lastModified ?? importedAt,
+      categories: [],
+      technologies,
+      experience: work
+        .filter(item => item.name && item.position)
+        .map(item => resumeExperience(item, experiences.get(`${item.name}|${item.position}`.toLowerCase()))),
+      education: education
+        .filter(item => item.institution)
+        .map(item => defined({
+          institution: item.institution ?? '',
+          degree: item.studyType,
+          start_year: parseIsoDate(item.startDate)?.year.toString(),
+          end_year: parseIsoDate(item.endDate)?.year.toString(),
+          focus_areas: item.courses,
+        })),
+      contact,
+      profile,
+      sections: {},
+    },
+  };
+}
+
+/**
+ * Read an import file, which may be a bundle or a JSON Resume
+ */
+export function readImportFile(text: string, snapshot: PortfolioSnapshot): ImportedFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (isJsonResume(parsed)) {
+    return jsonResumeToBundle(parseJsonResume(parsed), snapshot);
+  }
+  return { source: 'bundle', bundle: parseBundle(text), warnings: [] };
+}
+
+// =============================================================================
+// IMPORT PLANNING
+// =============================================================================
+
+/**
+ * Whether any field the payload sets differs from the current record
+ */
+function differs(payload: object, current: object | null | undefined): boolean {
+  if (!current) {
+    return true;
+  }
+  const existing = current as Record<string, unknown>;
+  return Object.entries(payload).some(([key, value]) => !sameValue(value, existing[key]));
+}
+
+function byName<T>(items: T[], key: (item: T) => string): Map<string, T> {
+  return new Map(items.map(item => [key(item).toLowerCase(), item]));
+}
+
+function planTechnologies(bundle: CVBundle, snapshot: PortfolioSnapshot, plan: BundleImportPlan): void {
+  const categories = byName(snapshot.categories, c => c.name);
+  const existing = byName(snapshot.technologies, t => t.name);
+  const missing = new Map<string, string>();
+
+  for (const tech of bundle.technologies) {
+    const category = categories.get(tech.category.toLowerCase());
+    if (!category) {
+      missing.set(tech.category.toLowerCase(), missing.get(tech.category.toLowerCase()) ?? tech.category);
+      continue;
+    }
+    const { ai } = tech;
+    const d1cvPayload = {
+      category_id: category.id,
+      name: tech.name,
+      experience: tech.experience,
+      experience_years: tech.experience_years,
+      proficiency_percent: tech.proficiency_percent,
+      level: tech.level,
+      is_active: tech.is_active,
+      display_order: tech.display_order,
+    };
+    const current = existing.get(tech.name.toLowerCase());
+    if (current && !differs(d1cvPayload, current) && !(ai && differs(ai, current.aiMatch))) {
+      plan.unchanged++;
+      continue;
+    }
+    const action: Action = current ? 'UPDATE' : 'CREATE';
+    plan.changes.push({
+      entityType: 'technology',
+      action,
+      label: tech.name,
+      request: technologyChange({
+        action,
+        entityId: current?.id,
+        stableId: current?.aiMatch?.stable_id,
+        d1cvPayload,
+        aiPayload: ai,
+      }),
+    });
+  }
+
+  plan.missingCategories = [...missing.values()];
+}
+
+function planContent<T extends object, C>(
+  plan: BundleImportPlan,
+  entityType: 'experience' | 'education',
+  records: T[],
+  currentRecords: C[],
+  key: (record: T | C) => string,
+  toInput: (current: C) => object,
+  label: (record: T) => string,
+  id: (current: C) => number | undefined,
+): void {
+  const existing = new Map(currentRecords.map(record => [key(record), record]));
+  for (const record of records) {
+    const current = existing.get(key(record));
+    if (current && !differs(record, toInput(current))) {
+      plan.unchanged++;
+      continue;
+    }
+    const action: Action = current ? 'UPDATE' : 'CREATE';
+    plan.changes.push({
+      entityType,
+      action,
+      label: label(record),
+      request: contentChange({ entityType, action, entityId: current ? id(current) : undefined, payload: record }),
+    });
+  }
+}
+
+/**
+ * The changes that make the target environment match the bundle
+ * Records match by name (technologies and categories), company and role
+ * (experience) or institution (education), since ids differ between
+ * environments. Records only the target has are left alone, and
+ * categories cannot be staged: missing ones are listed so the import can
+ * be blocked until they are created.
+ */
+export function planBundleImport(bundle: CVBundle, snapshot: PortfolioSnapshot): BundleImportPlan {
+  const plan: BundleImportPlan = { changes: [], unchanged: 0, warnings: [], missingCategories: [] };
+
+  planTechnologies(bundle, snapshot, plan);
+
+  planContent(plan, 'experience', bundle.experience, snapshot.experiences,
+    record => `${record.company}|${record.role}`.toLowerCase(),
+    experienceInput,
+    record => `${record.role} at ${record.company}`,
+    current => current.id);
+
+  planContent(plan, 'education', bundle.education, snapshot.education,
+    record => record.institution.toLowerCase(),
+    educationInput,
+    record => record.institution,
+    current => current.id);
+
+  const singles: Array<['contact' | 'profile', string, object | null, object | null]> = [
+    ['contact', 'Contact', bundle.contact, snapshot.contact && contactInput(snapshot.contact)],
+    ['profile', 'Profile', bundle.profile, snapshot.profile && profileInput(snapshot.profile)],
+  ];
+  for (const [entityType, label, payload, current] of singles) {
+    if (!payload) {
+      continue;
+    }
+    if (!differs(payload, current)) {
+      plan.unchanged++;
+      continue;
+    }
+    plan.changes.push({ entityType, action: 'UPDATE', label, request: contentChange({ entityType, action: 'UPDATE', payload }) });
+  }
+
+  const sections = new Map(snapshot.sections.map(section => [section.section_type, sectionInput(section)]));
+  for (const [sectionType, payload] of Object.entries(bundle.sections)) {
+    if (!differs(payload, sections.get(sectionType))) {
+      plan.unchanged++;
+      continue;
+    }
+    plan.changes.push({
+      entityType: 'section',
+      action: 'UPDATE',
+      label: payload.section_name || `${sectionType} section`,
+      request: contentChange({ entityType: 'section', action: 'UPDATE', entityId: sectionType, payload }),
+    });
+  }
+
+  return plan;
+}
+
+// =============================================================================
+// SNAPSHOT
+// =============================================================================
+
+/**
+ * Records an environment has not created yet come back as 404
+ */
+async function optional<T>(request: Promise<T>): Promise<T | null> {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read everything an environment serves
+ */
+export async function fetchPortfolioSnapshot(apiClient: IApiClient, signal?: AbortSignal): Promise<PortfolioSnapshot> {
+  const [categories, technologies, experience, education, contact, profile, ...sections] = await Promise.all([
+    apiClient.get('/api/d1cv/categories', { signal, schema: s.array(technologyCategorySchema) }),
+    apiClient.get('/api/d1cv/technologies/with-ai-match', { signal, schema: technologiesWithAIMatchResponseSchema }),
+    apiClient.get('/api/d1cv/experience', { signal, schema: experienceResponseSchema }),
+    apiClient.get('/api/d1cv/education', { signal, schema: educationResponseSchema }),
+    optional(apiClient.get('/api/d1cv/contact', { signal, schema: contactInfoSchema })),
+    optional(apiClient.get('/api/d1cv/profile', { signal, schema: profileInfoSchema })),
+    ...SECTION_TYPES.map(type => optional(apiClient.get(`/api/d1cv/sections/${type}`, { signal, schema: contentSectionSchema }))),
+  ]);
+
+  return {
+    categories,
+    technologies: technologies.technologies,
+    experiences: experience.experiences,
+    education: education.education ? [education.education] : [],
+    contact,
+    profile,
+    sections: sections.filter((section): section is ContentSection => section !== null),
+  };
+}
+
+/**
+ * Everything this environment serves, for exporting a bundle or planning an import
+ */
+export function usePortfolioSnapshot() {
+  const apiClient = useApiClient();
+
+  return useQuery<PortfolioSnapshot, Error>({
+    queryKey: ['portfolio', 'snapshot'],
+    queryFn: ({ signal }) => fetchPortfolioSnapshot(apiClient, signal),
+  });
+}
@@ -0,0 +1,107 @@
+/**
+ * CV Variant Hooks - Single Responsibility Principle (SRP)
+ *
+ * Variants are admin-only drafts kept by the admin worker, not portfolio
+ * content: D1CV feeds the public site, and per-application summaries and
+ * job targeting must never reach it. So they are saved directly (no
+ * staging or push) and stay out of backup bundles, which are restored
+ * into other environments.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useApiClient } from '@services/ApiContext';
+import { readVariants, jobDescriptionQueries, cvVariantSchema, type CVVariant } from '@services/cv';
+import { s } from '@utils/schema';
+import type { Schema, SimilarTechnology } from '@/types';
+
+interface SimilarityResponse {
+  query: string;
+  matches: SimilarTechnology[];
+}
+
+const similarityResponseSchema: Schema<SimilarityResponse> = s.object({
+  query: s.string(),
+  matches: s.array(s.object({
+    stable_id: s.string(),
+    name: s.string(),
+    score: s.number(),
+    category: s.optional(s.string()),
+    summary: s.optional(s.string()),
+  })),
+});
+
+// Entries are checked one by one (readVariants), so one unreadable variant does not hide the rest
+const variantsResponseSchema = s.object({
+  variants: s.array(s.unknown()),
+});
+
+/**
+ * Saved variants
+ */
+export function useCVVariants() {
+  const apiClient = useApiClient();
+
+  return useQuery<CVVariant[], Error>({
+    queryKey: ['v2', 'cv-variants'],
+    queryFn: async ({ signal }) => {
+      const response = await apiClient.get('/v2/cv-variants', { signal, schema: variantsResponseSchema });
+      return readVariants(response);
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+/**
+ * Create or replace a variant
+ */
+export function useSaveCVVariant() {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<CVVariant, Error, CVVariant>({
+    mutationFn: (variant) =>
+      apiClient.put(`/v2/cv-variants/${encodeURIComponent(variant.id)}`, variant, { schema: cvVariantSchema }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['v2', 'cv-variants'] });
+    },
+  });
+}
+
+/**
+ * Delete a variant by id
+ */
+export function useDeleteCVVariant() {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: async (id) => {
+      await apiClient.delete(`/v2/cv-variants/${encodeURIComponent(id)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['v2', 'cv-variants'] });
+    },
+  });
+}
+
+/**
+ * AI Agent similarity scores for a job description, by stable id
+ * Each line or sentence of the description is searched separately and a
+ * technology keeps its best score.
+ */
+export function useJobRelevance() {
+  const apiClient = useApiClient();
+
+  return useMutation<Record<string, number>, Error, string>({
+    mutationFn: async (jobDescription) => {
+      const scores: Record<string, number> = {};
+      const responses = await Promise.all(jobDescriptionQueries(jobDescription).map(query =>
+        // OWASP: URL-encode the input to prevent injection
+        apiClient.get(`/api/similarity/${encodeURIComponent(query)}`, { schema: similarityResponseSchema })));
+      for (const match of responses.flatMap(response => response.matches)) {
+        scores[match.stable_id] = Math.max(scores[match.stable_id] ?? 0, match.score);
+      }
+      return scores;
+    },
+  });
+}
@@ -0,0 +1,217 @@
+/**
+ * Change Baseline Hook - Fetch the production record a staged change edits
+ *
+ * Production records are mapped into the shape the forms stage, so the
+ * diff viewer can compare them field by field with the staged payload.
+ * Pushed changes compare against the pre-image they recorded instead,
+ * since production already holds their own values.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useApiClient } from '@services/ApiContext';
+import { ApiError } from '@services/api';
+import {
+  d1cvTechnologySchema,
+  aiAgentTechnologySchema,
+  experienceResponseSchema,
+  educationResponseSchema,
+  contactInfoSchema,
+  profileInfoSchema,
+  contentSectionSchema,
+  technologiesWithAIMatchResponseSchema,
+} from '@services/schemas';
+import type { IApiClient, Experience, Education, D1CVTechnology } from '@/types';
+import { parseChangePayload, type Action, type EntityType, type StagedChange, type Target } from './useCommits';
+
+/**
+ * What the diff viewer needs to know about a change, staged or not
+ */
+export interface ChangeSubject {
+  entity_type: EntityType;
+  entity_id?: string | null;
+  stable_id?: string | null;
+  action: Action;
+  target: Target;
+  payload: Record<string, unknown>;
+  /** Production record as the push found it (JSON), set once the change is pushed */
+  pre_image?: string | null;
+}
+
+type Baseline = Record<string, unknown> | null;
+
+const D1CV_TECHNOLOGY_FIELDS = ['name', 'category_id', 'experience', 'experience_years', 'proficiency_percent', 'level', 'is_active'];
+const AI_TECHNOLOGY_FIELDS = ['summary', 'action', 'effect', 'outcome', 'related_project', 'employer', 'recency', 'category'];
+const CONTACT_FIELDS = [
+  'name', 'email', 'phone', 'linkedin_url', 'github_url', 'portfolio_url',
+  'location', 'work_authorization', 'availability', 'work_preference',
+];
+
+/**
+ * Build the diff subject for a v2 staged change
+ */
+export function changeSubject(change: StagedChange): ChangeSubject {
+  return { ...change, payload: parseChangePayload(change) };
+}
+
+function pick(record: object, fields: string[]): Record<string, unknown> {
+  const source = record as Record<string, unknown>;
+  return Object.fromEntries(fields.filter(field => field in source).map(field => [field, source[field]]));
+}
+
+function experienceBaseline(experience: Experience): Record<string, unknown> {
+  return {
+    company: experience.company,
+    location: experience.location,
+    role: experience.role,
+    period: experience.period,
+    is_current: experience.period?.toLowerCase().includes('present') ?? false,
+    reporting_to: experience.reporting,
+    operating_level: experience.operatingLevel,
+    description: experience.description,
+    technologies: experience.technologies,
+    display_order: experience.display_order,
+    categories: experience.categories?.map((category, categoryIndex) => ({
+      title: category.title,
+      display_order: categoryIndex,
+      achievements: category.achievements?.map((achievement, achievementIndex) => ({
+        title: achievement.title,
+        description: achievement.description,
+        display_order: achievementIndex,
+      })),
+    })),
+  };
+}
+
+function educationBaseline(education: Education): Record<string, unknown> {
+  return {
+    institution: education.institution,
+    degree: education.degree,
+    location: education.location,
+    start_year: education.start_year,
+    end_year: education.end_year,
+    description: education.description,
+    display_order: education.display_order,
+    focus_areas: education.focusAreas,
+  };
+}
+
+/**
+ * Missing production records are expected (renamed or already deleted),
+ * so a 404 becomes null instead of an error
+ */
+async function orNull<T>(request: Promise<T>): Promise<T | null> {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * The D1CV record a technology change edits, looked up by id when the change
+ * has one: after a rename the payload only carries the new name
+ */
+async function fetchD1CVTechnology(apiClient: IApiClient, subject: ChangeSubject, signal: AbortSignal): Promise<D1CVTechnology | null> {
+  if (subject.entity_id) {
+    const { technologies } = await apiClient.get('/api/d1cv/technologies/with-ai-match', { signal, schema: technologiesWithAIMatchResponseSchema });
+    return technologies.find(t => String(t.id) === subject.entity_id) ?? null;
+  }
+  const name = typeof subject.payload.name === 'string' ? subject.payload.name : null;
+  return name
+    ? orNull(apiClient.get(`/api/d1cv/technologies/${encodeURIComponent(name)}`, { signal, schema: d1cvTechnologySchema }))
+    : null;
+}
+
+async function fetchTechnologyBaseline(apiClient: IApiClient, subject: ChangeSubject, signal: AbortSignal): Promise<Baseline> {
+  const [d1cv, ai] = await Promise.all([
+    subject.target !== 'ai-agent' ? fetchD1CVTechnology(apiClient, subject, signal) : null,
+    subject.target !== 'd1cv' && subject.stable_id
+      ? orNull(apiClient.get(`/api/ai-agent/technologies/${encodeURIComponent(subject.stable_id)}`, { signal, schema: aiAgentTechnologySchema }))
+      : null,
+  ]);
+  if (!d1cv && !ai) {
+    return null;
+  }
+  return {
+    ...(ai && { name: ai.name }),
+    ...(d1cv && pick(d1cv, D1CV_TECHNOLOGY_FIELDS)),
+    ...(ai && pick(ai, AI_TECHNOLOGY_FIELDS)),
+  };
+}
+
+async function fetchBaseline(apiClient: IApiClient, subject: ChangeSubject, signal: AbortSignal): Promise<Baseline> {
+  switch (subject.entity_type) {
+    case 'technology':
+      return fetchTechnologyBaseline(apiClient, subject, signal);
+    case 'experience': {
+      const { experiences } = await apiClient.get('/api/d1cv/experience', { signal, schema: experienceResponseSchema });
+      const experience = experiences.find(e => String(e.id) === subject.entity_id);
+      return experience ? experienceBaseline(experience) : null;
+    }
+    case 'education': {
+      const { education } = await apiClient.get('/api/d1cv/education', { signal, schema: educationResponseSchema });
+      return education && String(education.id) === subject.entity_id ? educationBaseline(education) : null;
+    }
+    case 'contact': {
+      const contact = await apiClient.get('/api/d1cv/contact', { signal, schema: contactInfoSchema });
+      return pick(contact, CONTACT_FIELDS);
+    }
+    case 'profile': {
+      const profile = await apiClient.get('/api/d1cv/profile', { signal, schema: profileInfoSchema });
+      return { title: profile.title, summary: profile.summary, key_achievements: profile.keyAchievements };
+    }
+    case 'section': {
+      if (!subject.entity_id) {
+        return null;
+      }
+      const section = await orNull(apiClient.get(`/api/d1cv/sections/${encodeURIComponent(subject.entity_id)}`, { signal, schema: contentSectionSchema }));
+      return section && pick(section, ['section_name', 'json_content', 'display_order']);
+    }
+    default:
+      // Projects have no production read endpoint yet
+      return null;
+  }
+}
+
+/**
+ * Decode a recorded pre-image; unreadable ones are ignored
+ */
+function parsePreImage(json: string | null | undefined): Baseline {
+  if (!json) {
+    return null;
+  }
+  try {
+    const value: unknown = JSON.parse(json);
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Production as a change found it: the pre-image of the sides it was
+ * pushed to, over the current record for the sides it was not
+ */
+async function resolveBaseline(apiClient: IApiClient, subject: ChangeSubject, signal: AbortSignal): Promise<Baseline> {
+  const preImage = parsePreImage(subject.pre_image);
+  const current = await fetchBaseline(apiClient, subject, signal);
+  return preImage ? { ...current, ...preImage } : current;
+}
+
+/**
+ * Fetch the production record a change applies to (null when there is none)
+ * New records have no baseline, so nothing is fetched for CREATE
+ */
+export function useChangeBaseline(subject: ChangeSubject | null) {
+  const apiClient = useApiClient();
+
+  return useQuery<Baseline, Error>({
+    queryKey: ['baseline', subject?.entity_type, subject?.entity_id, subject?.stable_id, subject?.payload.name, subject?.pre_image],
+    queryFn: ({ signal }) => resolveBaseline(apiClient, subject!, signal),
+    enabled: subject !== null && subject.action !== 'CREATE',
+    staleTime: 1000 * 30,
+  });
+}
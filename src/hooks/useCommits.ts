@@ -1,7 +1,8 @@
 /**
  * Commit Management Hooks
  * 
- * Hooks for the git-like staging workflow:
+ * Hooks for the git-like staging workflow, the single staging model for
+ * every entity edit in the portal:
  * - Stage changes
  * - Create commits with messages
  * - Push commits to D1CV and AI Agent
@@ -9,14 +10,27 @@
  * Integrates with WebSocket for real-time push status updates.
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiClient } from '@services/api';
+import { useQuery, useMutation, useQueryClient, type QueryClient, type QueryKey } from '@tanstack/react-query';
+import { useApiClient } from '@services/ApiContext';
+import { s } from '@utils/schema';
+import type { Schema, TechnologyFormData } from '@/types';
 
 // Types matching the backend v2 API
 export type Action = 'CREATE' | 'UPDATE' | 'DELETE';
 export type Target = 'd1cv' | 'ai-agent' | 'both';
-export type EntityType = 'technology' | 'project' | 'experience' | 'education';
+export type EntityType = 'technology' | 'project' | 'experience' | 'education' | 'contact' | 'profile' | 'section';
+/** Portfolio content that only lives in D1CV (everything but technologies and projects) */
+export type ContentEntityType = Exclude<EntityType, 'technology' | 'project'>;
 export type CommitStatus = 'pending' | 'applied_d1cv' | 'applied_ai' | 'applied_all' | 'failed';
+/** Second-reviewer sign-off; not_required commits can be pushed by their author */
+export type ReviewStatus = 'not_required' | 'pending' | 'approved' | 'rejected';
+/** A single push destination (a commit targeting 'both' is pushed once to each) */
+export type PushTarget = Exclude<Target, 'both'>;
+/**
+ * Outcome of one change on one side; skipped means nothing to write there,
+ * conflict means production changed after the change was staged
+ */
+export type ChangePushStatus = 'applied' | 'failed' | 'skipped' | 'conflict';
 
 export interface StagedChange {
     id: string;
@@ -28,6 +42,35 @@ export interface StagedChange {
     payload: string | null;
     commit_id: string | null;
     created_at: string;
+    /** Production record as it was before the push (JSON), used to revert */
+    pre_image?: string | null;
+    /** Per-side push outcome, null until that side has been pushed */
+    d1cv_status?: ChangePushStatus | null;
+    ai_status?: ChangePushStatus | null;
+    /** Error from the last failed attempt on either side */
+    push_error?: string | null;
+    /** Production record when the change was staged (JSON), the base of a three-way merge */
+    base_image?: string | null;
+    /** Hash of base_image, compared with production to detect drift */
+    base_hash?: string | null;
+}
+
+/**
+ * A staged change whose record changed in production since it was staged
+ */
+export interface ChangeConflict {
+    change_id: string;
+    /** Fields the change writes that production changed since staging */
+    fields: string[];
+    base: Record<string, unknown>;
+    /** Current production record, null when it has since been deleted */
+    theirs: Record<string, unknown> | null;
+}
+
+export interface ResolveConflictRequest {
+    change_id: string;
+    /** Merged payload; the change is rebased onto the current production record */
+    payload: Record<string, unknown>;
 }
 
 export interface Commit {
@@ -41,6 +84,17 @@ export interface Commit {
     created_at: string;
     applied_at: string | null;
     applied_by: string | null;
+    /** Id of the commit this one undoes */
+    reverts?: string | null;
+    /** Id of the commit that undoes this one */
+    reverted_by?: string | null;
+    /** When the backend pushes the commit on its own (ISO timestamp) */
+    scheduled_at?: string | null;
+    review_status?: ReviewStatus | null;
+    /** Reviewer who approved or rejected the commit */
+    approved_by?: string | null;
+    reviewed_at?: string | null;
+    review_comment?: string | null;
 }
 
 export interface CommitWithChanges extends Commit {
@@ -60,10 +114,34 @@ export interface CreateCommitRequest {
     message: string;
     target?: Target;
     change_ids?: string[];
+    /** Push automatically at this time (ISO timestamp) */
+    scheduled_at?: string;
+    /** Hold pushes until a second reviewer approves */
+    require_review?: boolean;
+}
+
+export interface ScheduleCommitRequest {
+    commit_id: string;
+    /** ISO timestamp, or null to cancel the schedule */
+    scheduled_at: string | null;
+}
+
+export interface ReviewCommitRequest {
+    commit_id: string;
+    decision: 'request' | 'approve' | 'reject';
+    comment?: string;
 }
 
 export interface PushRequest {
     commit_id: string;
+    /** Only push these changes (defaults to every change not yet applied) */
+    change_ids?: string[];
+}
+
+export interface ChangePushResult {
+    change_id: string;
+    status: ChangePushStatus;
+    error?: string | null;
 }
 
 export interface PushResponse {
@@ -74,10 +152,19 @@ export interface PushResponse {
         inserted: number;
         updated: number;
         deleted: number;
+        failed?: number;
+        changes?: ChangePushResult[];
     };
     message: string;
 }
 
+export interface RetryCommitRequest {
+    commit_id: string;
+    target: PushTarget;
+    /** Retry just these failed changes instead of the whole side */
+    change_ids?: string[];
+}
+
 export interface StagingStats {
     uncommitted: number;
     pending_commits: number;
@@ -87,53 +174,325 @@ export interface StagingStats {
 }
 
 /**
- * Response from the original /staged endpoint
+ * A technology edit as the forms build it: D1CV columns plus optional
+ * AI Agent enrichment
  */
-export interface StagedD1CVItem {
-    id: number;
-    operation: string;
-    entity_type: string;
-    entity_id: number | null;
-    payload: string;
-    status: string;
-    created_at: string;
-    applied_at: string | null;
-    error_message: string | null;
+export interface TechnologyChangeInput {
+    action: Action;
+    /** D1CV row id, when the technology exists in production */
+    entityId?: number;
+    /** AI Agent stable id, when known */
+    stableId?: string | null;
+    d1cvPayload: Record<string, unknown>;
+    aiPayload?: Record<string, unknown>;
+    /** Defaults to both sides when AI fields are present, otherwise D1CV only */
+    target?: Target;
+}
+
+/**
+ * Split technology form values into the D1CV columns and, when any AI
+ * enrichment was entered, the AI Agent fields
+ */
+export function technologyFormPayloads(
+    data: TechnologyFormData,
+    categoryId: number,
+): Pick<TechnologyChangeInput, 'd1cvPayload' | 'aiPayload'> {
+    const hasAiData = data.summary || data.action || data.effect || data.outcome;
+
+    return {
+        d1cvPayload: {
+            category_id: categoryId,
+            name: data.name,
+            experience: data.experience,
+            experience_years: data.experience_years,
+            proficiency_percent: data.proficiency_percent,
+            level: data.level,
+            is_active: data.is_active,
+        },
+        aiPayload: hasAiData
+            ? {
+                summary: data.summary,
+                action: data.action,
+                effect: data.effect,
+                outcome: data.outcome,
+                related_project: data.related_project,
+                employer: data.employer,
+                recency: data.recency,
+                // AI category is independent from D1CV category (no coupling)
+                category: data.ai_category,
+            }
+            : undefined,
+    };
 }
 
-export interface OriginalStagedResponse {
-    d1cv: StagedD1CVItem[];
-    ai: unknown[];
-    counts: {
-        d1cv: { pending: number; applied: number; failed: number; skipped: number };
-        ai: { pending: number; applied: number; failed: number; skipped: number };
+/**
+ * Build the v2 stage request for a technology edit
+ * Both sides read the same payload on push; D1CV ignores the AI fields
+ * and the AI Agent ignores category_id
+ */
+export function technologyChange(input: TechnologyChangeInput): StageChangeRequest {
+    const { action, entityId, stableId, d1cvPayload, aiPayload, target } = input;
+    return {
+        entity_type: 'technology',
+        entity_id: entityId !== undefined && entityId > 0 ? String(entityId) : undefined,
+        stable_id: stableId || undefined,
+        action,
+        target: target ?? (aiPayload ? 'both' : 'd1cv'),
+        payload: { ...d1cvPayload, ...aiPayload },
     };
 }
 
 /**
- * Fetch pending staged D1CV changes (original staging system)
- * This is what useStageTechnology writes to
+ * Decode a staged change payload (stored as a JSON string)
  */
-export function usePendingStagedD1CV() {
-    return useQuery<StagedD1CVItem[]>({
-        queryKey: ['staged', 'd1cv'],
-        queryFn: async () => {
-            const response = await apiClient.get<OriginalStagedResponse>('/staged');
-            // Only return pending items
-            return (response.d1cv || []).filter(item => item.status === 'pending');
-        },
-        staleTime: 1000 * 10, // 10 seconds
+export function parseChangePayload(change: StagedChange): Record<string, unknown> {
+    if (!change.payload) {
+        return {};
+    }
+    try {
+        const payload: unknown = JSON.parse(change.payload);
+        return typeof payload === 'object' && payload !== null && !Array.isArray(payload)
+            ? payload as Record<string, unknown>
+            : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Human-readable label for a staged change: the entity's name when the
+ * payload carries one, otherwise its id (contact and profile have neither)
+ */
+export function changeLabel(change: StagedChange): string {
+    const payload = parseChangePayload(change);
+    for (const key of ['name', 'company', 'institution']) {
+        const value = payload[key];
+        if (typeof value === 'string' && value) {
+            return value;
+        }
+    }
+    return change.stable_id || change.entity_id || (change.action === 'CREATE' ? 'New' : change.entity_type);
+}
+
+/**
+ * Find the uncommitted change for a technology, matched by name
+ */
+export function findStagedTechnology(changes: StagedChange[], name: string | undefined): StagedChange | undefined {
+    if (!name) {
+        return undefined;
+    }
+    const lower = name.toLowerCase();
+    return changes.find(change => {
+        if (change.entity_type !== 'technology' || change.commit_id !== null) {
+            return false;
+        }
+        const payloadName = parseChangePayload(change).name;
+        return typeof payloadName === 'string' && payloadName.toLowerCase() === lower;
     });
 }
 
+/**
+ * A D1CV content edit as the forms build it
+ */
+export interface ContentChangeInput {
+    entityType: ContentEntityType;
+    action: Action;
+    /** Row id for experience and education, section type for sections; contact and profile have none */
+    entityId?: number | string;
+    payload?: object;
+}
+
+/**
+ * Build the v2 stage request for a content edit (always D1CV only)
+ */
+export function contentChange(input: ContentChangeInput): StageChangeRequest {
+    const { entityType, action, entityId, payload } = input;
+    return {
+        entity_type: entityType,
+        entity_id: entityId !== undefined ? String(entityId) : undefined,
+        action,
+        target: 'd1cv',
+        payload: payload ? { ...payload } as Record<string, unknown> : undefined,
+    };
+}
+
+/**
+ * Find the uncommitted change for a content entity
+ * Contact and profile are single records, so they match on type alone
+ */
+export function findStagedContent(
+    changes: StagedChange[],
+    entityType: ContentEntityType,
+    entityId?: number | string,
+): StagedChange | undefined {
+    const id = entityId !== undefined ? String(entityId) : null;
+    return changes.find(change =>
+        change.entity_type === entityType && change.commit_id === null && change.entity_id === id);
+}
+
+/**
+ * Key identifying the record a change edits
+ * New records without an id or name never collide with anything
+ */
+export function changeEntityKey(change: StagedChange): string {
+    const name = parseChangePayload(change).name;
+    const id = change.entity_id
+        ?? change.stable_id
+        ?? (typeof name === 'string' && name ? name.toLowerCase() : null)
+        ?? (['contact', 'profile'].includes(change.entity_type) ? '' : change.id);
+    return `${change.entity_type}:${id}`;
+}
+
+export interface StagingPlan {
+    /** Two or more UPDATEs to the same record that can collapse into one */
+    squashable: StagedChange[][];
+    /** Changes to the same record that contradict each other (a DELETE alongside edits, duplicate CREATEs) */
+    conflicts: StagedChange[][];
+}
+
+/**
+ * Group uncommitted changes by record and classify the groups that need attention
+ */
+export function planStaging(changes: StagedChange[]): StagingPlan {
+    const groups = new Map<string, StagedChange[]>();
+    for (const change of [...changes].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+        const key = changeEntityKey(change);
+        groups.set(key, [...(groups.get(key) ?? []), change]);
+    }
+
+    const plan: StagingPlan = { squashable: [], conflicts: [] };
+    for (const group of groups.values()) {
+        if (group.length < 2) {
+            continue;
+        }
+        if (group.every(change => change.action === 'UPDATE')) {
+            plan.squashable.push(group);
+        } else {
+            plan.conflicts.push(group);
+        }
+    }
+    return plan;
+}
+
+/**
+ * Collapse UPDATEs to the same record into one request
+ * Later payloads win field by field; differing targets widen to both
+ */
+export function squashChanges(changes: StagedChange[]): StageChangeRequest {
+    const ordered = [...changes].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    const [first] = ordered;
+    const entityId = ordered.find(change => change.entity_id)?.entity_id;
+    const stableId = ordered.find(change => change.stable_id)?.stable_id;
+    return {
+        entity_type: first.entity_type,
+        ...(entityId && { entity_id: entityId }),
+        ...(stableId && { stable_id: stableId }),
+        action: 'UPDATE',
+        target: ordered.every(change => change.target === first.target) ? first.target : 'both',
+        payload: Object.assign({}, ...ordered.map(parseChangePayload)) as Record<string, unknown>,
+    };
+}
+
+// Runtime schemas for the v2 API responses (validated by the API client)
+const actionSchema = s.oneOf('CREATE', 'UPDATE', 'DELETE');
+const targetSchema = s.oneOf('d1cv', 'ai-agent', 'both');
+const entityTypeSchema = s.oneOf('technology', 'project', 'experience', 'education', 'contact', 'profile', 'section');
+const commitStatusSchema = s.oneOf('pending', 'applied_d1cv', 'applied_ai', 'applied_all', 'failed');
+const changePushStatusSchema = s.oneOf('applied', 'failed', 'skipped', 'conflict');
+
+export const stagedChangeSchema: Schema<StagedChange> = s.object({
+    id: s.string(),
+    entity_type: entityTypeSchema,
+    entity_id: s.nullable(s.string()),
+    stable_id: s.nullable(s.string()),
+    action: actionSchema,
+    target: targetSchema,
+    payload: s.nullable(s.string()),
+    commit_id: s.nullable(s.string()),
+    created_at: s.string(),
+    pre_image: s.optional(s.nullable(s.string())),
+    d1cv_status: s.optional(s.nullable(changePushStatusSchema)),
+    ai_status: s.optional(s.nullable(changePushStatusSchema)),
+    push_error: s.optional(s.nullable(s.string())),
+    base_image: s.optional(s.nullable(s.string())),
+    base_hash: s.optional(s.nullable(s.string())),
+});
+
+const commitShape = {
+    id: s.string(),
+    message: s.string(),
+    status: commitStatusSchema,
+    target: targetSchema,
+    error_message: s.nullable(s.string()),
+    error_target: s.nullable(s.string()),
+    created_by: s.nullable(s.string()),
+    created_at: s.string(),
+    applied_at: s.nullable(s.string()),
+    applied_by: s.nullable(s.string()),
+    reverts: s.optional(s.nullable(s.string())),
+    reverted_by: s.optional(s.nullable(s.string())),
+    scheduled_at: s.optional(s.nullable(s.string())),
+    review_status: s.optional(s.nullable(s.oneOf('not_required', 'pending', 'approved', 'rejected'))),
+    approved_by: s.optional(s.nullable(s.string())),
+    reviewed_at: s.optional(s.nullable(s.string())),
+    review_comment: s.optional(s.nullable(s.string())),
+};
+
+export const commitSchema: Schema<Commit> = s.object(commitShape);
+
+export const commitWithChangesSchema: Schema<CommitWithChanges> = s.object({
+    ...commitShape,
+    changes: s.array(stagedChangeSchema),
+});
+
+const conflictsSchema = s.object({
+    conflicts: s.array(s.object({
+        change_id: s.string(),
+        fields: s.array(s.string()),
+        base: s.record(s.unknown()),
+        theirs: s.nullable(s.record(s.unknown())),
+    })),
+});
+
+const stagingStatsSchema: Schema<StagingStats> = s.object({
+    uncommitted: s.number(),
+    pending_commits: s.number(),
+    applied_d1cv: s.number(),
+    applied_all: s.number(),
+    failed: s.number(),
+});
+
+const pushResponseSchema: Schema<PushResponse> = s.object({
+    success: s.boolean(),
+    job_id: s.string(),
+    async: s.optional(s.boolean()),
+    result: s.optional(s.object({
+        inserted: s.number(),
+        updated: s.number(),
+        deleted: s.number(),
+        failed: s.optional(s.number()),
+        changes: s.optional(s.array(s.object({
+            change_id: s.string(),
+            status: changePushStatusSchema,
+            error: s.optional(s.nullable(s.string())),
+        }))),
+    })),
+    message: s.string(),
+});
+
 /**
  * Fetch all uncommitted staged changes (v2 git-like workflow)
  */
 export function useUncommittedChanges() {
+    const apiClient = useApiClient();
+
     return useQuery<StagedChange[]>({
         queryKey: ['v2', 'staged'],
-        queryFn: async () => {
-            const response = await apiClient.get<{ changes: StagedChange[]; count: number }>('/v2/staged');
+        queryFn: async ({ signal }) => {
+            const response = await apiClient.get('/v2/staged', {
+                signal,
+                schema: s.object({ changes: s.array(stagedChangeSchema), count: s.optional(s.number()) }),
+            });
             return response.changes || [];
         },
         staleTime: 1000 * 10, // 10 seconds
@@ -144,9 +503,11 @@ export function useUncommittedChanges() {
  * Fetch all commits with optional status filter
  */
 export function useCommits(status?: CommitStatus) {
+    const apiClient = useApiClient();
+
     return useQuery<Commit[]>({
         queryKey: ['v2', 'commits', status],
-        queryFn: () => apiClient.get(`/v2/commits${status ? `?status=${status}` : ''}`),
+        queryFn: ({ signal }) => apiClient.get('/v2/commits', { signal, params: { status }, schema: s.array(commitSchema) }),
         staleTime: 1000 * 30,
     });
 }
@@ -155,9 +516,11 @@ export function useCommits(status?: CommitStatus) {
  * Fetch a single commit with its changes
  */
 export function useCommitDetails(commitId: string | null) {
+    const apiClient = useApiClient();
+
     return useQuery<CommitWithChanges>({
         queryKey: ['v2', 'commits', commitId],
-        queryFn: () => apiClient.get(`/v2/commits/${commitId}`),
+        queryFn: ({ signal }) => apiClient.get(`/v2/commits/${commitId}`, { signal, schema: commitWithChangesSchema }),
         enabled: !!commitId,
         staleTime: 1000 * 30,
     });
@@ -167,9 +530,11 @@ export function useCommitDetails(commitId: string | null) {
  * Fetch staging statistics
  */
 export function useStagingStats() {
+    const apiClient = useApiClient();
+
     return useQuery<StagingStats>({
         queryKey: ['v2', 'stats'],
-        queryFn: () => apiClient.get('/v2/stats'),
+        queryFn: ({ signal }) => apiClient.get('/v2/stats', { signal, schema: stagingStatsSchema }),
         staleTime: 1000 * 10,
     });
 }
@@ -178,10 +543,11 @@ export function useStagingStats() {
  * Stage a new change
  */
 export function useStageChange() {
+    const apiClient = useApiClient();
     const queryClient = useQueryClient();
 
     return useMutation<StagedChange, Error, StageChangeRequest>({
-        mutationFn: (data) => apiClient.post('/v2/stage', data),
+        mutationFn: (data) => apiClient.post('/v2/stage', data, { schema: stagedChangeSchema }),
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['v2', 'staged'] });
             queryClient.invalidateQueries({ queryKey: ['v2', 'stats'] });
@@ -193,6 +559,7 @@ export function useStageChange() {
  * Delete a staged change
  */
 export function useDeleteStagedChange() {
+    const apiClient = useApiClient();
     const queryClient = useQueryClient();
 
     return useMutation<void, Error, string>({
@@ -204,14 +571,122 @@ export function useDeleteStagedChange() {
     });
 }
 
+/**
+ * Replace an uncommitted change with an edited version
+ * The v2 API has no update endpoint, so the edit is staged first and the
+ * old change dropped afterwards (a failure never loses the edit)
+ */
+export function useReplaceStagedChange() {
+    const apiClient = useApiClient();
+    const queryClient = useQueryClient();
+
+    return useMutation<StagedChange, Error, { id: string; change: StageChangeRequest }>({
+        mutationFn: async ({ id, change }) => {
+            const staged = await apiClient.post('/v2/stage', change, { schema: stagedChangeSchema });
+            await apiClient.delete(`/v2/staged/${id}`);
+            return staged;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['v2', 'staged'] });
+            queryClient.invalidateQueries({ queryKey: ['v2', 'stats'] });
+        },
+    });
+}
+
+/**
+ * Stage a content edit, replacing the entity's existing uncommitted change
+ * so each record carries at most one pending edit (new records are always
+ * staged alongside each other)
+ */
+export function useStageContentChange() {
+    const apiClient = useApiClient();
+    const queryClient = useQueryClient();
+    const { data: uncommitted = [] } = useUncommittedChanges();
+
+    return useMutation<StagedChange, Error, ContentChangeInput>({
+        mutationFn: async (input) => {
+            const existing = input.action === 'CREATE'
+                ? undefined
+                : findStagedContent(uncommitted, input.entityType, input.entityId);
+            const staged = await apiClient.post('/v2/stage', contentChange(input), { schema: stagedChangeSchema });
+            if (existing) {
+                await apiClient.delete(`/v2/staged/${existing.id}`);
+            }
+            return staged;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['v2', 'staged'] });
+            queryClient.invalidateQueries({ queryKey: ['v2', 'stats'] });
+        },
+    });
+}
+
+/**
+ * Squash several UPDATEs to one record into a single staged change
+ * Like useReplaceStagedChange, the merged change is staged before the
+ * originals are dropped
+ */
+export function useSquashChanges() {
+    const apiClient = useApiClient();
+    const queryClient = useQueryClient();
+
+    return useMutation<StagedChange, Error, StagedChange[]>({
+        mutationFn: async (changes) => {
+            if (changes.length < 2 || changes.some(change => change.action !== 'UPDATE')) {
+                throw new Error('Only two or more updates can be squashed');
+            }
+            const staged = await apiClient.post('/v2/stage', squashChanges(changes), { schema: stagedChangeSchema });
+            for (const change of changes) {
+                await apiClient.delete(`/v2/staged/${change.id}`);
+            }
+            return staged;
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ['v2', 'staged'] });
+            queryClient.invalidateQueries({ queryKey: ['v2', 'stats'] });
+        },
+    });
+}
+
+/**
+ * Create several commits in order, one per group of change ids
+ * Stops at the first failure; commits created before it are kept and the
+ * error says how many there were
+ */
+export function useCreateCommits() {
+    const apiClient = useApiClient();
+    const queryClient = useQueryClient();
+
+    return useMutation<Commit[], Error, CreateCommitRequest[]>({
+        mutationFn: async (requests) => {
+            const created: Commit[] = [];
+            for (const request of requests) {
+                try {
+                    created.push(await apiClient.post('/v2/commit', request, { schema: commitSchema }));
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : 'Commit failed';
+                    throw new Error(`"${request.message}" failed after ${created.length} commit(s): ${message}`);
+                }
+            }
+            return created;
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ['v2', 'staged'] });
+            queryClient.invalidateQueries({ queryKey: ['v2', 'commits'] });
+            queryClient.invalidateQueries({ queryKey: ['v2', 'stats'] });
+        },
+    });
+}
+
 /**
  * Create a commit from staged changes
  */
 export function useCreateCommit() {
+    const apiClient = useApiClient();
     const queryClient = useQueryClient();
 
     return useMutation<Commit, Error, CreateCommitRequest>({
-        mutationFn: (data) => apiClient.post('/v2/commit', data),
+        mutationFn: (data) => apiClient.post('/v2/commit', data, { schema: commitSchema }),
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['v2', 'staged'] });
             queryClient.invalidateQueries({ queryKey: ['v2', 'commits'] });
@@ -221,32 +696,250 @@ export function useCreateCommit() {
 }
 
 /**
- * Push commit to D1CV
+ * Name of the record a stage request writes, for error messages
  */
-export function usePushToD1CV() {
+function requestLabel(change: StageChangeRequest, index: number): string {
+    for (const key of ['name', 'company', 'institution']) {
+        const value = change.payload?.[key];
+        if (typeof value === 'string' && value) {
+            return value;
+        }
+    }
+    return `${change.entity_type} (row ${index + 1})`;
+}
+
+/**
+ * Stage several changes in order, then commit exactly those changes
+ * When one fails to stage, the changes staged before it are dropped again
+ * so nothing is left half done
+ */
+export function useStageAndCommit() {
+    const apiClient = useApiClient();
     const queryClient = useQueryClient();
 
-    return useMutation<PushResponse, Error, PushRequest>({
-        mutationFn: (data) => apiClient.post('/v2/push/d1cv', data),
+    return useMutation<Commit, Error, { changes: StageChangeRequest[]; message: string }>({
+        mutationFn: async ({ changes, message }) => {
+            const staged: string[] = [];
+            try {
+                for (const change of changes) {
+                    staged.push((await apiClient.post('/v2/stage', change, { schema: stagedChangeSchema })).id);
+                }
+            } catch (error) {
+                await Promise.allSettled(staged.map(id => apiClient.delete(`/v2/staged/${id}`)));
+                const reason = error instanceof Error ? error.message : 'Staging failed';
+                throw new Error(`Could not stage ${requestLabel(changes[staged.length], staged.length)}: ${reason}`);
+            }
+            return apiClient.post('/v2/commit', { message, change_ids: staged }, { schema: commitSchema });
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ['v2', 'staged'] });
+            queryClient.invalidateQueries({ queryKey: ['v2', 'commits'] });
+            queryClient.invalidateQueries({ queryKey: ['v2', 'stats'] });
+        },
+    });
+}
+
+/**
+ * Revert an applied commit
+ * The backend builds the inverse changes from the pre-images it captured at
+ * push time (DELETE for CREATE, prior snapshot for UPDATE, CREATE for DELETE)
+ * and returns them as a new pending commit
+ */
+export function useRevertCommit() {
+    const apiClient = useApiClient();
+    const queryClient = useQueryClient();
+
+    return useMutation<Commit, Error, string>({
+        mutationFn: (commitId) => apiClient.post(`/v2/commits/${commitId}/revert`, {}, { schema: commitSchema }),
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['v2', 'commits'] });
             queryClient.invalidateQueries({ queryKey: ['v2', 'stats'] });
-            queryClient.invalidateQueries({ queryKey: ['technologies'] });
         },
     });
 }
 
+/**
+ * Queries a push can change: commit state, history and baselines, and the
+ * production data pages read (their staged overlays vanish once applied,
+ * so stale cached data would show the pre-push values)
+ */
+const PUSHED_DATA_KEYS: QueryKey[] = [
+    ['v2', 'commits'],
+    ['v2', 'stats'],
+    ['v2', 'history'],
+    ['baseline'],
+    ['technologies'],
+    ['d1cv'],
+    ['unified'],
+    ['ai-agent'],
+    ['portfolio'],
+];
+
+/**
+ * Refetch everything a push can change
+ * Called when a push request succeeds and again when its job finishes,
+ * since the worker may still be writing when the request returns
+ */
+export function invalidatePushedData(queryClient: QueryClient): void {
+    PUSHED_DATA_KEYS.forEach(queryKey => {
+        void queryClient.invalidateQueries({ queryKey });
+    });
+}
+
+/**
+ * Push commit to D1CV
+ */
+export function usePushToD1CV() {
+    const apiClient = useApiClient();
+    const queryClient = useQueryClient();
+
+    return useMutation<PushResponse, Error, PushRequest>({
+        mutationFn: (data) => apiClient.post('/v2/push/d1cv', data, { schema: pushResponseSchema }),
+        onSuccess: () => invalidatePushedData(queryClient),
+    });
+}
+
 /**
  * Push commit to AI Agent
  */
 export function usePushToAI() {
+    const apiClient = useApiClient();
     const queryClient = useQueryClient();
 
     return useMutation<PushResponse, Error, PushRequest>({
-        mutationFn: (data) => apiClient.post('/v2/push/ai', data),
+        mutationFn: (data) => apiClient.post('/v2/push/ai', data, { schema: pushResponseSchema }),
+        onSuccess: () => invalidatePushedData(queryClient),
+    });
+}
+
+/**
+ * Why a commit cannot be pushed yet, or null when it can
+ */
+export function pushBlockedReason(commit: Commit): string | null {
+    if (commit.review_status === 'pending') {
+        return 'Awaiting approval from a second reviewer';
+    }
+    if (commit.review_status === 'rejected') {
+        return commit.review_comment ? `Rejected: ${commit.review_comment}` : 'Rejected by the reviewer';
+    }
+    return null;
+}
+
+/**
+ * Commits waiting for their scheduled push, soonest first
+ */
+export function upcomingPushes(commits: Commit[]): Commit[] {
+    return commits
+        .filter(commit => commit.scheduled_at && commit.status !== 'applied_all')
+        .sort((a, b) => a.scheduled_at!.localeCompare(b.scheduled_at!));
+}
+
+/**
+ * Schedule a commit's push, or cancel the schedule with null
+ */
+export function useScheduleCommit() {
+    const apiClient = useApiClient();
+    const queryClient = useQueryClient();
+
+    return useMutation<Commit, Error, ScheduleCommitRequest>({
+        mutationFn: ({ commit_id, scheduled_at }) =>
+            apiClient.post(`/v2/commits/${commit_id}/schedule`, { scheduled_at }, { schema: commitSchema }),
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['v2', 'commits'] });
-            queryClient.invalidateQueries({ queryKey: ['v2', 'stats'] });
         },
     });
 }
+
+/**
+ * Request, approve or reject a second review of a commit
+ * The backend refuses approvals from the commit's own author
+ */
+export function useReviewCommit() {
+    const apiClient = useApiClient();
+    const queryClient = useQueryClient();
+
+    return useMutation<Commit, Error, ReviewCommitRequest>({
+        mutationFn: ({ commit_id, ...review }) =>
+            apiClient.post(`/v2/commits/${commit_id}/review`, review, { schema: commitSchema }),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['v2', 'commits'] });
+        },
+    });
+}
+
+/**
+ * Side a failed commit should be retried on
+ * Commits recorded before error_target existed failed on D1CV, the first side pushed
+ */
+export function retryTarget(commit: Commit): PushTarget | null {
+    if (commit.status !== 'failed') {
+        return null;
+    }
+    return commit.error_target === 'ai-agent' ? 'ai-agent' : 'd1cv';
+}
+
+/**
+ * Side a change failed on, if any (conflicts are failures too, retried once resolved)
+ */
+export function failedChangeTarget(change: StagedChange): PushTarget | null {
+    const failed = (status?: ChangePushStatus | null) => status === 'failed' || status === 'conflict';
+    if (failed(change.d1cv_status)) {
+        return 'd1cv';
+    }
+    return failed(change.ai_status) ? 'ai-agent' : null;
+}
+
+/**
+ * Check a commit's changes against production before pushing
+ * Only commits with something left to push are checked; pass null to skip
+ * the request where no push is offered
+ */
+export function useCommitConflicts(commit: Commit | null) {
+    const apiClient = useApiClient();
+
+    return useQuery<ChangeConflict[]>({
+        queryKey: ['v2', 'commits', commit?.id, 'conflicts'],
+        queryFn: async ({ signal }) => {
+            const { conflicts } = await apiClient.get(`/v2/commits/${commit!.id}/conflicts`, { signal, schema: conflictsSchema });
+            return conflicts;
+        },
+        enabled: commit !== null && commit.status !== 'applied_all',
+        staleTime: 1000 * 30,
+    });
+}
+
+/**
+ * Replace a conflicted change's payload with the merged one
+ * The backend rebases the change onto the current production record, so
+ * the next push writes the merge instead of reporting the conflict again
+ */
+export function useResolveConflict() {
+    const apiClient = useApiClient();
+    const queryClient = useQueryClient();
+
+    return useMutation<StagedChange, Error, ResolveConflictRequest>({
+        mutationFn: ({ change_id, payload }) => apiClient.post(`/v2/staged/${change_id}/resolve`, { payload }, { schema: stagedChangeSchema }),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['v2', 'commits'] });
+        },
+    });
+}
+
+/**
+ * Retry a failed push on one side only
+ * Changes already applied on that side are skipped by the backend, so only
+ * the failed ones (or just `change_ids`) are written again
+ */
+export function useRetryCommit() {
+    const apiClient = useApiClient();
+    const queryClient = useQueryClient();
+
+    return useMutation<PushResponse, Error, RetryCommitRequest>({
+        mutationFn: ({ commit_id, target, change_ids }) => apiClient.post(
+            target === 'd1cv' ? '/v2/push/d1cv' : '/v2/push/ai',
+            { commit_id, ...(change_ids && { change_ids }) },
+            { schema: pushResponseSchema }
+        ),
+        onSuccess: () => invalidatePushedData(queryClient),
+    });
+}
@@ -2,23 +2,40 @@
  * Portfolio Data Hooks - Fetch and manage portfolio data
  * 
  * These hooks interact with the admin API which proxies to backend services.
+ * Read-only: every edit is staged as a v2 change (useStageChange for
+ * technologies, useStageContentChange for the rest, both in useCommits).
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiClient } from '@services/api';
-import type { D1CVTechnology, StageRequest, StageResponse, D1CVTechnologyWithAIMatch, TechnologiesWithAIMatchResponse, AIAgentTechnology, ExperienceResponse, EducationResponse, ContactInfo, ProfileInfo, ContentSection, TechnologyCategory } from '@/types';
-
-// D1CV API returns this nested structure
-interface D1CVTechnologiesAPIResponse {
-  heroSkills?: D1CVTechnology[];
-  technologyCategories?: Array<{
-    name: string;
-    icon: string;
-    technologies: D1CVTechnology[];
-  }>;
-  // Also handle flat array or wrapped responses
-  data?: D1CVTechnology[];
-  technologies?: D1CVTechnology[];
+import { useQuery } from '@tanstack/react-query';
+import { useApiClient } from '@services/ApiContext';
+import { ApiError } from '@services/errors';
+import {
+  d1cvTechnologiesPayloadSchema,
+  d1cvTechnologySchema,
+  technologyCategorySchema,
+  technologiesWithAIMatchResponseSchema,
+  aiAgentTechnologiesPayloadSchema,
+  unifiedTechnologyResponseSchema,
+  experienceResponseSchema,
+  educationResponseSchema,
+  contactInfoSchema,
+  profileInfoSchema,
+  contentSectionSchema,
+  type D1CVTechnologiesPayload,
+} from '@services/schemas';
+import { s } from '@utils/schema';
+import type { D1CVTechnology, D1CVTechnologyWithAIMatch, AIAgentTechnology, ExperienceResponse, EducationResponse, ContactInfo, ProfileInfo, ContentSection, TechnologyCategory, Schema } from '@/types';
+
+/**
+ * Error to fail a query with: ApiErrors pass through untouched so callers
+ * keep their code, field, status and attempts; anything else is re-thrown
+ * with a user-friendly message (don't expose internal service names)
+ */
+function loadError(error: unknown, fallback: string): Error {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  return new Error(error instanceof Error ? error.message : fallback);
 }
 
 /**
@@ -44,10 +61,10 @@ function normalizeTech(tech: Record<string, unknown>, categoryName?: string): D1
 /**
  * Normalize D1CV response to flat array of technologies
  */
-function normalizeD1CVResponse(response: D1CVTechnology[] | D1CVTechnologiesAPIResponse): D1CVTechnology[] {
+function normalizeD1CVResponse(response: D1CVTechnologiesPayload): D1CVTechnology[] {
   // Already an array
   if (Array.isArray(response)) {
-    return response.map(tech => normalizeTech(tech as unknown as Record<string, unknown>));
+    return response.map(tech => normalizeTech(tech));
   }
 
   // Handle nested structure from D1CV v2 API
@@ -57,7 +74,7 @@ function normalizeD1CVResponse(response: D1CVTechnology[] | D1CVTechnologiesAPIR
     // Add hero skills (also need normalization)
     if (response.heroSkills) {
       for (const skill of response.heroSkills) {
-        allTechs.push(normalizeTech(skill as unknown as Record<string, unknown>, 'Hero Skills'));
+        allTechs.push(normalizeTech(skill, 'Hero Skills'));
       }
     }
 
@@ -65,7 +82,7 @@ function normalizeD1CVResponse(response: D1CVTechnology[] | D1CVTechnologiesAPIR
     for (const category of response.technologyCategories) {
       if (category.technologies) {
         for (const tech of category.technologies) {
-          allTechs.push(normalizeTech(tech as unknown as Record<string, unknown>, category.name));
+          allTechs.push(normalizeTech(tech, category.name));
         }
       }
     }
@@ -75,25 +92,23 @@ function normalizeD1CVResponse(response: D1CVTechnology[] | D1CVTechnologiesAPIR
 
   // Handle wrapped responses
   const techs = response.data || response.technologies || [];
-  return techs.map(tech => normalizeTech(tech as unknown as Record<string, unknown>));
+  return techs.map(tech => normalizeTech(tech));
 }
 
 /**
  * Fetch all technologies from the portfolio database
  */
 export function useD1CVTechnologies() {
+  const apiClient = useApiClient();
+
   return useQuery<D1CVTechnology[], Error>({
     queryKey: ['d1cv', 'technologies'],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        const response = await apiClient.get<D1CVTechnology[] | D1CVTechnologiesAPIResponse>('/api/d1cv/technologies');
+        const response = await apiClient.get('/api/d1cv/technologies', { signal, schema: d1cvTechnologiesPayloadSchema });
         return normalizeD1CVResponse(response);
       } catch (error) {
-        // Re-throw with user-friendly message (don't expose internal service names)
-        if (error instanceof Error) {
-          throw new Error(error.message);
-        }
-        throw new Error('Failed to load technologies');
+        throw loadError(error, 'Failed to load technologies');
       }
     },
     staleTime: 1000 * 60 * 5, // 5 minutes
@@ -105,17 +120,16 @@ export function useD1CVTechnologies() {
  * Used by forms to populate category dropdowns with real DB data
  */
 export function useD1CVCategories() {
+  const apiClient = useApiClient();
+
   return useQuery<TechnologyCategory[], Error>({
     queryKey: ['d1cv', 'categories'],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        const response = await apiClient.get<TechnologyCategory[]>('/api/d1cv/categories');
+        const response = await apiClient.get('/api/d1cv/categories', { signal, schema: s.array(technologyCategorySchema) });
         return response;
       } catch (error) {
-        if (error instanceof Error) {
-          throw new Error(error.message);
-        }
-        throw new Error('Failed to load categories');
+        throw loadError(error, 'Failed to load categories');
       }
     },
     staleTime: 1000 * 60 * 30, // 30 minutes - categories rarely change
@@ -127,17 +141,16 @@ export function useD1CVCategories() {
  * Returns technologies with hasAiMatch flag and aiMatch data
  */
 export function useD1CVTechnologiesWithAIMatch() {
+  const apiClient = useApiClient();
+
   return useQuery<D1CVTechnologyWithAIMatch[], Error>({
     queryKey: ['d1cv', 'technologies', 'with-ai-match'],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        const response = await apiClient.get<TechnologiesWithAIMatchResponse>('/api/d1cv/technologies/with-ai-match');
+        const response = await apiClient.get('/api/d1cv/technologies/with-ai-match', { signal, schema: technologiesWithAIMatchResponseSchema });
         return response.technologies || [];
       } catch (error) {
-        if (error instanceof Error) {
-          throw new Error(error.message);
-        }
-        throw new Error('Failed to load technologies');
+        throw loadError(error, 'Failed to load technologies');
       }
     },
     staleTime: 1000 * 60 * 5, // 5 minutes
@@ -149,11 +162,12 @@ export function useD1CVTechnologiesWithAIMatch() {
  * D1CV v2 API doesn't use IDs, so we identify technologies by name
  */
 export function useD1CVTechnology(name: string | undefined) {
+  const apiClient = useApiClient();
   const encodedName = name ? encodeURIComponent(name) : null;
 
   return useQuery<D1CVTechnology, Error>({
     queryKey: ['d1cv', 'technology', name],
-    queryFn: () => apiClient.get(`/api/d1cv/technologies/${encodedName}`),
+    queryFn: ({ signal }) => apiClient.get(`/api/d1cv/technologies/${encodedName}`, { signal, schema: d1cvTechnologySchema }),
     enabled: encodedName !== null,
   });
 }
@@ -180,6 +194,25 @@ interface StagedAIResponse {
   message?: string;
 }
 
+const stagedAIResponseSchema: Schema<StagedAIResponse> = s.object({
+  found: s.boolean(),
+  hasAIData: s.boolean(),
+  d1cv_staged_id: s.optional(s.number()),
+  ai_staged_id: s.optional(s.number()),
+  stable_id: s.optional(s.string()),
+  operation: s.optional(s.string()),
+  aiData: s.optional(s.object({
+    summary: s.optional(s.string()),
+    action: s.optional(s.string()),
+    effect: s.optional(s.string()),
+    outcome: s.optional(s.string()),
+    related_project: s.optional(s.string()),
+    employer: s.optional(s.string()),
+    recency: s.optional(s.string()),
+  })),
+  message: s.optional(s.string()),
+});
+
 /**
  * Fetch a single D1CV technology with its AI Agent match data
  * Returns the D1CV tech plus AI enrichment data if available
@@ -189,20 +222,21 @@ interface StagedAIResponse {
  * 2. Check production AI Agent database
  */
 export function useD1CVTechnologyWithAIMatch(name: string | undefined) {
+  const apiClient = useApiClient();
   const encodedName = name ? encodeURIComponent(name) : null;
 
   return useQuery<D1CVTechnologyWithAIMatch, Error>({
     queryKey: ['d1cv', 'technology', name, 'with-ai-match'],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       // Fetch D1CV technology
-      const d1cvTech = await apiClient.get<D1CVTechnology>(`/api/d1cv/technologies/${encodedName}`);
+      const d1cvTech = await apiClient.get(`/api/d1cv/technologies/${encodedName}`, { signal, schema: d1cvTechnologySchema });
 
       // First, check for staged AI data (pending changes not yet applied)
       let aiMatch: AIAgentTechnology | null = null;
       let fromStaging = false;
 
       try {
-        const stagedAI = await apiClient.get<StagedAIResponse>(`/api/staged/ai-by-name/${encodedName}`);
+        const stagedAI = await apiClient.get(`/api/staged/ai-by-name/${encodedName}`, { signal, schema: stagedAIResponseSchema });
         if (stagedAI.found && stagedAI.hasAIData && stagedAI.aiData) {
           // Convert staged AI data to AIAgentTechnology format
           // Include base tech fields from the D1CV record
@@ -234,9 +268,8 @@ export function useD1CVTechnologyWithAIMatch(name: string | undefined) {
       // If no staged data, try to fetch from production AI Agent database
       if (!aiMatch) {
         try {
-          const aiResponse = await apiClient.get<AIAgentTechnology[]>('/api/ai-agent/technologies');
-          const normalizedAi = Array.isArray(aiResponse) ? aiResponse :
-            ((aiResponse as { data?: AIAgentTechnology[] }).data || (aiResponse as { technologies?: AIAgentTechnology[] }).technologies || []);
+          const aiResponse = await apiClient.get('/api/ai-agent/technologies', { signal, schema: aiAgentTechnologiesPayloadSchema });
+          const normalizedAi = Array.isArray(aiResponse) ? aiResponse : (aiResponse.data || aiResponse.technologies || []);
           aiMatch = normalizedAi.find(t => t.name.toLowerCase() === d1cvTech.name.toLowerCase()) || null;
         } catch {
           // AI Agent fetch failed, continue without AI match
@@ -254,84 +287,6 @@ export function useD1CVTechnologyWithAIMatch(name: string | undefined) {
   });
 }
 
-/**
- * Response from staged technology endpoint
- */
-interface StagedTechnologyResponse {
-  found: boolean;
-  staged_id?: number;
-  ai_staged_id?: number | null;
-  operation?: string;
-  status?: string;
-  created_at?: string;
-  d1cvData?: {
-    name?: string;
-    category_id?: number;
-    experience?: string;
-    experience_years?: number;
-    proficiency_percent?: number;
-    level?: string;
-    is_active?: boolean;
-  };
-  aiData?: {
-    summary?: string;
-    action?: string;
-    effect?: string;
-    outcome?: string;
-    related_project?: string;
-    employer?: string;
-    recency?: string;
-  };
-  hasAIData?: boolean;
-  message?: string;
-}
-
-/**
- * Response from unified technology lookup endpoint
- * Combines D1CV, AI Agent, and Staging data in a single request
- */
-interface UnifiedTechnologyResponse {
-  found: boolean;
-  source: 'production' | 'staged' | 'none';
-  message?: string;
-  d1cv: {
-    found: boolean;
-    data: {
-      id?: number;
-      name?: string;
-      category_id?: number;
-      category?: string;
-      experience?: string;
-      experience_years?: number;
-      proficiency_percent?: number;
-      level?: string;
-      is_active?: boolean;
-    } | null;
-  };
-  aiAgent: {
-    found: boolean;
-    source: 'production' | 'staged' | 'none';
-    data: {
-      summary?: string;
-      action?: string;
-      effect?: string;
-      outcome?: string;
-      related_project?: string;
-      employer?: string;
-      recency?: string;
-      stable_id?: string;
-    } | null;
-  };
-  staged: {
-    found: boolean;
-    operation: string | null;
-    staged_id: number | null;
-    ai_staged_id: number | null;
-    d1cvData: Record<string, unknown> | null;
-    aiData: Record<string, unknown> | null;
-  };
-}
-
 /**
  * Unified technology lookup - single request to get all data
  * 
@@ -343,6 +298,7 @@ interface UnifiedTechnologyResponse {
  * Returns combined data from production and staging in one response.
  */
 export function useUnifiedTechnology(name: string | undefined, aiId?: string | null) {
+  const apiClient = useApiClient();
   const encodedName = name ? encodeURIComponent(name) : null;
 
   return useQuery<{
@@ -356,16 +312,12 @@ export function useUnifiedTechnology(name: string | undefined, aiId?: string | n
     };
   }, Error>({
     queryKey: ['unified', 'technology', name, aiId],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        // Build query string - use aiId for direct lookup if provided
-        let queryPath = `/api/technology/unified/${encodedName}`;
-        if (aiId) {
-          queryPath += `?aiId=${encodeURIComponent(aiId)}`;
-        }
-
-        const response = await apiClient.get<UnifiedTechnologyResponse>(
-          queryPath
+        // Use aiId for direct lookup if provided
+        const response = await apiClient.get(
+          `/api/technology/unified/${encodedName}`,
+          { signal, params: { aiId: aiId || undefined }, schema: unifiedTechnologyResponseSchema }
         );
 
         if (!response.found) {
@@ -460,55 +412,16 @@ export function useUnifiedTechnology(name: string | undefined, aiId?: string | n
   });
 }
 
-/**
- * Fetch a staged technology by name (for editing pending changes)
- * Use this when the technology doesn't exist in production yet
- */
-export function useStagedTechnology(name: string | undefined) {
-  const encodedName = name ? encodeURIComponent(name) : null;
-
-  return useQuery<StagedTechnologyResponse, Error>({
-    queryKey: ['staged', 'technology', name],
-    queryFn: async () => {
-      return apiClient.get<StagedTechnologyResponse>(`/api/staged/technology/${encodedName}`);
-    },
-    enabled: encodedName !== null,
-    retry: false, // Don't retry if not found
-  });
-}
-
-/**
- * Update a staged technology (both D1CV and AI payloads)
- */
-export function useUpdateStagedTechnology() {
-  const queryClient = useQueryClient();
-
-  return useMutation<{ success: boolean; staged_id: number }, Error, {
-    stagedId: number;
-    d1cvPayload?: Record<string, unknown>;
-    aiPayload?: Record<string, unknown>;
-  }>({
-    mutationFn: async ({ stagedId, d1cvPayload, aiPayload }) => {
-      return apiClient.put(`/api/staged/technology/${stagedId}`, {
-        d1cv_payload: d1cvPayload,
-        ai_payload: aiPayload,
-      });
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['staged'] });
-      queryClient.invalidateQueries({ queryKey: ['staged', 'd1cv'] });
-    },
-  });
-}
-
 /**
  * Fetch experience entries from D1CV
  */
 export function useD1CVExperience() {
+  const apiClient = useApiClient();
+
   return useQuery<ExperienceResponse, Error>({
     queryKey: ['d1cv', 'experience'],
-    queryFn: async () => {
-      return apiClient.get<ExperienceResponse>('/api/d1cv/experience');
+    queryFn: async ({ signal }) => {
+      return apiClient.get('/api/d1cv/experience', { signal, schema: experienceResponseSchema });
     },
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
@@ -518,10 +431,12 @@ export function useD1CVExperience() {
  * Fetch education from D1CV
  */
 export function useD1CVEducation() {
+  const apiClient = useApiClient();
+
   return useQuery<EducationResponse, Error>({
     queryKey: ['d1cv', 'education'],
-    queryFn: async () => {
-      return apiClient.get<EducationResponse>('/api/d1cv/education');
+    queryFn: async ({ signal }) => {
+      return apiClient.get('/api/d1cv/education', { signal, schema: educationResponseSchema });
     },
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
@@ -531,10 +446,12 @@ export function useD1CVEducation() {
  * Fetch contact info from D1CV
  */
 export function useD1CVContact() {
+  const apiClient = useApiClient();
+
   return useQuery<ContactInfo, Error>({
     queryKey: ['d1cv', 'contact'],
-    queryFn: async () => {
-      return apiClient.get<ContactInfo>('/api/d1cv/contact');
+    queryFn: async ({ signal }) => {
+      return apiClient.get('/api/d1cv/contact', { signal, schema: contactInfoSchema });
     },
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
@@ -544,10 +461,12 @@ export function useD1CVContact() {
  * Fetch profile info from D1CV
  */
 export function useD1CVProfile() {
+  const apiClient = useApiClient();
+
   return useQuery<ProfileInfo, Error>({
     queryKey: ['d1cv', 'profile'],
-    queryFn: async () => {
-      return apiClient.get<ProfileInfo>('/api/d1cv/profile');
+    queryFn: async ({ signal }) => {
+      return apiClient.get('/api/d1cv/profile', { signal, schema: profileInfoSchema });
     },
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
@@ -557,17 +476,19 @@ export function useD1CVProfile() {
  * Fetch content section (home, achievements) from D1CV
  */
 export function useD1CVSection(sectionType: 'home' | 'achievements') {
+  const apiClient = useApiClient();
+
   return useQuery<ContentSection, Error>({
     queryKey: ['d1cv', 'section', sectionType],
-    queryFn: async () => {
-      return apiClient.get<ContentSection>(`/api/d1cv/sections/${sectionType}`);
+    queryFn: async ({ signal }) => {
+      return apiClient.get(`/api/d1cv/sections/${sectionType}`, { signal, schema: contentSectionSchema });
     },
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 }
 
 // =============================================================================
-// EXPERIENCE MUTATIONS
+// EDIT PAYLOADS (staged via useStageContentChange)
 // =============================================================================
 
 export interface ExperienceInput {
@@ -594,43 +515,6 @@ export interface ExperienceInput {
   }>;
 }
 
-export function useCreateExperience() {
-  const queryClient = useQueryClient();
-
-  return useMutation<{ success: boolean; id: number }, Error, ExperienceInput>({
-    mutationFn: (data) => apiClient.post('/api/d1cv/experience', data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['d1cv', 'experience'] });
-    },
-  });
-}
-
-export function useUpdateExperience() {
-  const queryClient = useQueryClient();
-
-  return useMutation<{ success: boolean }, Error, { id: number; data: ExperienceInput }>({
-    mutationFn: ({ id, data }) => apiClient.put(`/api/d1cv/experience/${id}`, data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['d1cv', 'experience'] });
-    },
-  });
-}
-
-export function useDeleteExperience() {
-  const queryClient = useQueryClient();
-
-  return useMutation<{ success: boolean }, Error, number>({
-    mutationFn: (id) => apiClient.delete(`/api/d1cv/experience/${id}`),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['d1cv', 'experience'] });
-    },
-  });
-}
-
-// =============================================================================
-// EDUCATION MUTATIONS
-// =============================================================================
-
 export interface EducationInput {
   institution: string;
   degree?: string;
@@ -642,43 +526,6 @@ export interface EducationInput {
   focus_areas?: string[];
 }
 
-export function useCreateEducation() {
-  const queryClient = useQueryClient();
-
-  return useMutation<{ success: boolean; id: number }, Error, EducationInput>({
-    mutationFn: (data) => apiClient.post('/api/d1cv/education', data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['d1cv', 'education'] });
-    },
-  });
-}
-
-export function useUpdateEducation() {
-  const queryClient = useQueryClient();
-
-  return useMutation<{ success: boolean }, Error, { id: number; data: EducationInput }>({
-    mutationFn: ({ id, data }) => apiClient.put(`/api/d1cv/education/${id}`, data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['d1cv', 'education'] });
-    },
-  });
-}
-
-export function useDeleteEducation() {
-  const queryClient = useQueryClient();
-
-  return useMutation<{ success: boolean }, Error, number>({
-    mutationFn: (id) => apiClient.delete(`/api/d1cv/education/${id}`),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['d1cv', 'education'] });
-    },
-  });
-}
-
-// =============================================================================
-// CONTACT MUTATIONS
-// =============================================================================
-
 export interface ContactInput {
   name: string;
   email?: string;
@@ -692,79 +539,14 @@ export interface ContactInput {
   work_preference?: string;
 }
 
-export function useUpdateContact() {
-  const queryClient = useQueryClient();
-
-  return useMutation<{ success: boolean }, Error, ContactInput>({
-    mutationFn: (data) => apiClient.put('/api/d1cv/contact', data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['d1cv', 'contact'] });
-    },
-  });
-}
-
-// =============================================================================
-// PROFILE MUTATIONS
-// =============================================================================
-
 export interface ProfileInput {
   title?: string;
   summary?: string;
   key_achievements?: string[];
 }
 
-export function useUpdateProfile() {
-  const queryClient = useQueryClient();
-
-  return useMutation<{ success: boolean }, Error, ProfileInput>({
-    mutationFn: (data) => apiClient.put('/api/d1cv/profile', data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['d1cv', 'profile'] });
-    },
-  });
-}
-
-// =============================================================================
-// CONTENT SECTION MUTATIONS (home, achievements)
-// =============================================================================
-
 export interface ContentSectionInput {
   section_name?: string;
   json_content: Record<string, unknown>;
   display_order?: number;
 }
-
-export function useUpdateContentSection(sectionType: 'home' | 'achievements') {
-  const queryClient = useQueryClient();
-
-  return useMutation<{ success: boolean }, Error, ContentSectionInput>({
-    mutationFn: (data) => apiClient.put(`/api/d1cv/sections/${sectionType}`, data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['d1cv', 'section', sectionType] });
-    },
-  });
-}
-
-/**
- * Stage a technology change (works for both D1CV and AI Agent)
- */
-export function useStageTechnology() {
-  const queryClient = useQueryClient();
-
-  return useMutation<StageResponse, Error, StageRequest>({
-    mutationFn: (data) => apiClient.post('/stage', {
-      operation: data.operation,
-      entity_type: 'technology',
-      entity_id: data.entityId,
-      entity_name: data.entityName, // For D1CV technologies (identified by name)
-      d1cv_payload: data.d1cvPayload,
-      ai_payload: data.aiPayload,
-    }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['d1cv', 'technologies'] });
-      queryClient.invalidateQueries({ queryKey: ['staged'] }); // Original staging tables
-      queryClient.invalidateQueries({ queryKey: ['staged', 'd1cv'] }); // usePendingStagedD1CV
-      queryClient.invalidateQueries({ queryKey: ['v2', 'staged'] }); // v2 git-like workflow
-    },
-  });
-}
@@ -0,0 +1,206 @@
+/**
+ * Entity History Hooks - Single Responsibility Principle (SRP)
+ *
+ * Every push records the record it overwrote (the change's pre-image), so
+ * the applied changes to a record, in push order, spell out each version
+ * it has had, and the first pre-image is the record as it was before the
+ * commit workflow touched it (v0). Restoring a version stages an UPDATE back
+ * to it, or a CREATE when the record has since been deleted; like any other
+ * edit it only reaches production once committed and pushed.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useApiClient } from '@services/ApiContext';
+import { s } from '@utils/schema';
+import {
+  useUncommittedChanges,
+  parseChangePayload,
+  contentChange,
+  stagedChangeSchema,
+  commitSchema,
+  type Commit,
+  type StagedChange,
+  type StageChangeRequest,
+} from './useCommits';
+
+export type VersionedEntityType = 'technology' | 'experience' | 'education';
+
+/**
+ * The record whose history is shown
+ * Technologies match on either their D1CV id or their AI Agent stable id
+ */
+export interface HistorySubject {
+  entityType: VersionedEntityType;
+  entityId?: number | string;
+  stableId?: string | null;
+}
+
+/**
+ * An applied change with the commit that pushed it
+ */
+export interface HistoryEntry {
+  change: StagedChange;
+  commit: Commit;
+}
+
+export interface EntityVersion {
+  /** 1-based, oldest first; 0 is the record before its first pushed change */
+  number: number;
+  /** The applied change that made this version (null for v0) */
+  change: StagedChange | null;
+  commit: Commit | null;
+  /** The record before this change (null when the change created it) */
+  previous: Record<string, unknown> | null;
+  /** The record after this change (null when the change deleted it) */
+  state: Record<string, unknown> | null;
+}
+
+const historySchema = s.object({
+  entries: s.array(s.object({
+    change: stagedChangeSchema,
+    commit: commitSchema,
+  })),
+});
+
+/**
+ * Decode a stored pre-image; a malformed one counts as missing rather than
+ * failing the whole history
+ */
+function parseImage(json: string | null | undefined): Record<string, unknown> | null {
+  if (!json) {
+    return null;
+  }
+  try {
+    const value: unknown = JSON.parse(json);
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replay applied changes (oldest first) into versions, newest first
+ * A change's pre-image wins over the previous version, so edits made
+ * outside the commit workflow still show up in the diff. Records that
+ * existed before their first pushed change start from that change's
+ * pre-image as v0.
+ */
+export function buildVersions(entries: HistoryEntry[]): EntityVersion[] {
+  const versions: EntityVersion[] = [];
+  let current: Record<string, unknown> | null = null;
+
+  const [first] = entries;
+  const original = first && first.change.action !== 'CREATE' ? parseImage(first.change.pre_image) : null;
+  if (original) {
+    versions.push({ number: 0, change: null, commit: null, previous: null, state: original });
+    current = original;
+  }
+
+  entries.forEach(({ change, commit }, index) => {
+    const previous = change.action === 'CREATE' ? null : parseImage(change.pre_image) ?? current;
+    const payload = parseChangePayload(change);
+    const state = change.action === 'DELETE'
+      ? null
+      : change.action === 'CREATE' ? payload : { ...previous, ...payload };
+
+    versions.push({ number: index + 1, change, commit, previous, state });
+    current = state;
+  });
+  return versions.reverse();
+}
+
+/**
+ * Whether the latest version deleted the record
+ */
+export function isDeleted(versions: EntityVersion[]): boolean {
+  return versions.length > 0 && versions[0].state === null;
+}
+
+/**
+ * Stage request that puts a record back to a version
+ * A deleted record has no row left to update, so it is created again from
+ * the version. Technologies with an AI Agent record are restored on both
+ * sides, which each read the fields they hold from the same payload.
+ */
+export function restoreRequest(subject: HistorySubject, version: EntityVersion, deleted = false): StageChangeRequest {
+  if (!version.state) {
+    throw new Error('A deleted version cannot be restored');
+  }
+  const action = deleted ? 'CREATE' : 'UPDATE';
+  const entityId = deleted ? undefined : subject.entityId;
+  if (subject.entityType === 'technology') {
+    return {
+      entity_type: 'technology',
+      entity_id: entityId !== undefined ? String(entityId) : undefined,
+      stable_id: subject.stableId || undefined,
+      action,
+      target: subject.stableId ? 'both' : 'd1cv',
+      payload: version.state,
+    };
+  }
+  return contentChange({
+    entityType: subject.entityType,
+    action,
+    entityId,
+    payload: version.state,
+  });
+}
+
+function sameRecord(change: StagedChange, request: StageChangeRequest): boolean {
+  return change.entity_type === request.entity_type && change.commit_id === null && (
+    (request.entity_id !== undefined && change.entity_id === request.entity_id)
+    || (request.stable_id !== undefined && change.stable_id === request.stable_id)
+  );
+}
+
+/**
+ * Fetch every version of a record, newest first
+ */
+export function useEntityHistory(subject: HistorySubject | null) {
+  const apiClient = useApiClient();
+
+  return useQuery<EntityVersion[], Error>({
+    queryKey: ['v2', 'history', subject?.entityType, subject?.entityId, subject?.stableId],
+    queryFn: async ({ signal }) => {
+      const { entries } = await apiClient.get('/v2/history', {
+        signal,
+        params: {
+          entity_type: subject!.entityType,
+          entity_id: subject!.entityId !== undefined ? String(subject!.entityId) : undefined,
+          stable_id: subject!.stableId || undefined,
+        },
+        schema: historySchema,
+      });
+      return buildVersions(entries);
+    },
+    enabled: subject !== null && (subject.entityId !== undefined || Boolean(subject.stableId)),
+    staleTime: 1000 * 30,
+  });
+}
+
+/**
+ * Stage the change restoring a version, replacing the record's existing
+ * uncommitted change (staged first, so a failure never loses it)
+ */
+export function useRestoreVersion(subject: HistorySubject) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+  const { data: uncommitted = [] } = useUncommittedChanges();
+  const { data: versions = [] } = useEntityHistory(subject);
+
+  return useMutation<StagedChange, Error, EntityVersion>({
+    mutationFn: async (version) => {
+      const request = restoreRequest(subject, version, isDeleted(versions));
+      const existing = uncommitted.find(change => sameRecord(change, request));
+      const staged = await apiClient.post('/v2/stage', request, { schema: stagedChangeSchema });
+      if (existing) {
+        await apiClient.delete(`/v2/staged/${existing.id}`);
+      }
+      return staged;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['v2', 'staged'] });
+      queryClient.invalidateQueries({ queryKey: ['v2', 'stats'] });
+    },
+  });
+}
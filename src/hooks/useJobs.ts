@@ -0,0 +1,101 @@
+/**
+ * Job History Hooks - Single Responsibility Principle (SRP)
+ *
+ * Push jobs outlive the WebSocket session that reported them; the worker
+ * keeps their final status, which is listed here page by page. Rows for
+ * jobs still tracked on the shared job connection are swapped for their
+ * live status, so running pushes update in place.
+ */
+
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { useApiClient } from '@services/ApiContext';
+import { jobStatusSchema, isTerminalJob, type DOJobStatus } from '@services/jobs';
+import { s } from '@utils/schema';
+
+export type JobHistoryStatus = 'running' | 'completed' | 'failed';
+
+export interface JobHistoryFilters {
+  status?: JobHistoryStatus;
+  /** ISO timestamps bounding startedAt, both inclusive */
+  from?: string;
+  to?: string;
+  /** 1-based */
+  page: number;
+  limit: number;
+}
+
+export interface JobHistoryPage {
+  jobs: DOJobStatus[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+const jobHistoryPageSchema = s.object({
+  jobs: s.array(jobStatusSchema),
+  total: s.number(),
+  page: s.number(),
+  limit: s.number(),
+});
+
+/**
+ * Milliseconds from start to completion, or null while the job runs
+ */
+export function jobDuration(job: DOJobStatus): number | null {
+  return job.completedAt ? new Date(job.completedAt).getTime() - new Date(job.startedAt).getTime() : null;
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${ms} ms`;
+  }
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function matchesFilters(job: DOJobStatus, filters: JobHistoryFilters): boolean {
+  const status = filters.status;
+  if (status && (status === 'running' ? isTerminalJob(job) : job.overallStatus !== status)) {
+    return false;
+  }
+  return (!filters.from || job.startedAt >= filters.from) && (!filters.to || job.startedAt <= filters.to);
+}
+
+/**
+ * Overlay live job status on a history page
+ * Known rows take the newer live status (and drop out if it no longer
+ * matches the filters); the first page also gains live jobs the server
+ * had not listed yet.
+ */
+export function mergeLiveJobs(
+  rows: DOJobStatus[],
+  live: ReadonlyMap<string, DOJobStatus>,
+  filters: JobHistoryFilters
+): DOJobStatus[] {
+  const merged = rows
+    .map(row => {
+      const current = live.get(row.jobId);
+      return current && current.updatedAt > row.updatedAt ? current : row;
+    })
+    .filter(row => matchesFilters(row, filters));
+
+  if (filters.page === 1) {
+    const listed = new Set(rows.map(row => row.jobId));
+    const fresh = [...live.values()].filter(job => !listed.has(job.jobId) && matchesFilters(job, filters));
+    merged.push(...fresh);
+  }
+  return merged.sort((a, b) => b.startedAt.localeCompare(a.startedAt)).slice(0, filters.limit);
+}
+
+/**
+ * Fetch one page of push job history
+ */
+export function useJobHistory(filters: JobHistoryFilters) {
+  const apiClient = useApiClient();
+
+  return useQuery<JobHistoryPage, Error>({
+    queryKey: ['v2', 'jobs', filters],
+    queryFn: ({ signal }) => apiClient.get('/v2/jobs', { signal, params: { ...filters }, schema: jobHistoryPageSchema }),
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,291 @@
+/**
+ * Portfolio Preview Hooks - Single Responsibility Principle (SRP)
+ *
+ * The public portfolio as it will look once changes are pushed:
+ * production data with uncommitted changes and the changes of commits not
+ * yet pushed to D1CV replayed on top, oldest first. Only D1CV feeds the
+ * public site, so AI Agent-only changes are left out.
+ *
+ * Payloads are in the shape the forms stage, so replaying one maps it
+ * back onto the read shape the site renders.
+ */
+
+import { useMemo } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import { useApiClient } from '@services/ApiContext';
+import type { D1CVTechnologyWithAIMatch, Experience, Education, ContentSection } from '@/types';
+import {
+  useUncommittedChanges,
+  useCommits,
+  parseChangePayload,
+  commitWithChangesSchema,
+  type Action,
+  type Commit,
+  type CommitStatus,
+  type CommitWithChanges,
+  type StagedChange,
+} from './useCommits';
+import { usePortfolioSnapshot, type PortfolioSnapshot } from './useCVBundle';
+
+/** Commits with changes D1CV has not applied yet */
+const UNPUSHED_STATUSES: CommitStatus[] = ['pending', 'applied_ai', 'failed'];
+
+const TECHNOLOGY_FIELDS = ['name', 'experience', 'experience_years', 'proficiency_percent', 'level', 'is_active', 'display_order'];
+const CONTACT_FIELDS = [
+  'name', 'email', 'phone', 'linkedin_url', 'github_url', 'portfolio_url',
+  'location', 'work_authorization', 'availability', 'work_preference',
+];
+
+export interface PreviewCommit {
+  commit: Commit;
+  /** The commit's changes D1CV has not applied yet */
+  changes: StagedChange[];
+}
+
+export interface PortfolioPreview {
+  portfolio: PortfolioSnapshot;
+  /** What the replayed changes did to each record, by `previewKey` */
+  marks: Record<string, Action>;
+  /** Records the replayed changes delete */
+  removed: string[];
+}
+
+type Payload = Record<string, unknown>;
+
+/**
+ * Key of a previewed record: technologies by name, content by id or section type
+ */
+export function previewKey(entityType: string, id?: string | number): string {
+  return id === undefined ? entityType : `${entityType}:${String(id).toLowerCase()}`;
+}
+
+/**
+ * Changes of a commit that would still reach the public site
+ */
+export function unpushedChanges(commit: CommitWithChanges): StagedChange[] {
+  return commit.changes.filter(change => change.target !== 'ai-agent' && change.d1cv_status !== 'applied');
+}
+
+function text(payload: Payload, key: string, fallback: string): string {
+  const value = payload[key];
+  return typeof value === 'string' ? value : fallback;
+}
+
+function pickFields(payload: Payload, fields: string[]): Payload {
+  return Object.fromEntries(fields.filter(field => payload[field] !== undefined).map(field => [field, payload[field]]));
+}
+
+function toExperience(payload: Payload, existing: Experience | undefined, id: number): Experience {
+  const categories = Array.isArray(payload.categories)
+    ? (payload.categories as Array<{ title: string; achievements?: Array<{ title: string; description: string }> }>)
+      .map(category => ({
+        title: category.title,
+        achievements: (category.achievements ?? []).map(a => ({ title: a.title, description: a.description })),
+      }))
+    : existing?.categories ?? [];
+  return {
+    ...existing,
+    id: existing?.id ?? id,
+    company: text(payload, 'company', existing?.company ?? ''),
+    role: text(payload, 'role', existing?.role ?? ''),
+    location: text(payload, 'location', existing?.location ?? ''),
+    period: text(payload, 'period', existing?.period ?? ''),
+    reporting: text(payload, 'reporting_to', existing?.reporting ?? '') || undefined,
+    operatingLevel: text(payload, 'operating_level', existing?.operatingLevel ?? '') || undefined,
+    description: text(payload, 'description', existing?.description ?? ''),
+    technologies: text(payload, 'technologies', existing?.technologies ?? ''),
+    display_order: typeof payload.display_order === 'number' ? payload.display_order : existing?.display_order,
+    is_active: typeof payload.is_active === 'boolean' ? payload.is_active : existing?.is_active ?? true,
+    categories,
+  };
+}
+
+function toEducation(payload: Payload, existing: Education | undefined, id: number): Education {
+  return {
+    ...existing,
+    id: existing?.id ?? id,
+    institution: text(payload, 'institution', existing?.institution ?? ''),
+    degree: text(payload, 'degree', existing?.degree ?? ''),
+    location: text(payload, 'location', existing?.location ?? ''),
+    description: text(payload, 'description', existing?.description ?? ''),
+    start_year: text(payload, 'start_year', existing?.start_year ?? '') || undefined,
+    end_year: text(payload, 'end_year', existing?.end_year ?? '') || undefined,
+    focusAreas: Array.isArray(payload.focus_areas) ? payload.focus_areas as string[] : existing?.focusAreas ?? [],
+    display_order: typeof payload.display_order === 'number' ? payload.display_order : existing?.display_order,
+    is_active: typeof payload.is_active === 'boolean' ? payload.is_active : existing?.is_active ?? true,
+  };
+}
+
+/**
+ * Replay changes, in order, over production data
+ * New records get negative ids so they never collide with production rows.
+ */
+export function overlayChanges(snapshot: PortfolioSnapshot, changes: StagedChange[]): PortfolioPreview {
+  const portfolio: PortfolioSnapshot = {
+    ...snapshot,
+    technologies: [...snapshot.technologies],
+    experiences: [...snapshot.experiences],
+    education: [...snapshot.education],
+    sections: [...snapshot.sections],
+  };
+  const marks: Record<string, Action> = {};
+  const removed: string[] = [];
+  const categories = new Map(snapshot.categories.map(category => [category.id, category.name]));
+  let nextId = -1;
+
+  // A record created earlier in the preview keeps reporting CREATE when later changes edit it
+  const mark = (key: string, action: Action) => {
+    marks[key] = marks[key] === 'CREATE' && action === 'UPDATE' ? 'CREATE' : action;
+  };
+
+  for (const change of changes) {
+    const payload = parseChangePayload(change);
+    const { action } = change;
+
+    switch (change.entity_type) {
+      case 'technology': {
+        const name = typeof payload.name === 'string' ? payload.name.toLowerCase() : null;
+        const index = portfolio.technologies.findIndex(tech =>
+          (change.entity_id !== null && String(tech.id) === change.entity_id)
+          || (change.stable_id !== null && tech.aiMatch?.stable_id === change.stable_id)
+          || (name !== null && tech.name.toLowerCase() === name));
+        const current = portfolio.technologies[index];
+        if (action === 'DELETE') {
+          if (current) {
+            portfolio.technologies.splice(index, 1);
+            removed.push(current.name);
+          }
+          break;
+        }
+        const categoryId = typeof payload.category_id === 'number' ? payload.category_id : current?.category_id;
+        const tech: D1CVTechnologyWithAIMatch = {
+          ...(current ?? {
+            id: nextId--,
+            name: '',
+            experience: '',
+            experience_years: 0,
+            proficiency_percent: 0,
+            level: '',
+            is_active: true,
+            hasAiMatch: false,
+            aiMatch: null,
+          }),
+          ...pickFields(payload, TECHNOLOGY_FIELDS),
+          category_id: categoryId,
+          category: categoryId !== undefined ? categories.get(categoryId) ?? current?.category : current?.category,
+        };
+        if (current) {
+          portfolio.technologies[index] = tech;
+        } else {
+          portfolio.technologies.push(tech);
+        }
+        mark(previewKey('technology', tech.name), current ? action : 'CREATE');
+        break;
+      }
+
+      case 'experience':
+      case 'education': {
+        const records: Array<Experience | Education> = change.entity_type === 'experience' ? portfolio.experiences : portfolio.education;
+        const index = change.entity_id === null ? -1 : records.findIndex(record => String(record.id) === change.entity_id);
+        const current = records[index];
+        if (action === 'DELETE') {
+          if (current) {
+            records.splice(index, 1);
+            removed.push('company' in current ? `${current.role} at ${current.company}` : current.institution);
+          }
+          break;
+        }
+        const record = change.entity_type === 'experience'
+          ? toExperience(payload, current as Experience | undefined, nextId--)
+          : toEducation(payload, current as Education | undefined, nextId--);
+        if (current) {
+          records[index] = record;
+        } else {
+          records.push(record);
+        }
+        mark(previewKey(change.entity_type, record.id), current ? action : 'CREATE');
+        break;
+      }
+
+      case 'contact':
+        portfolio.contact = { ...(portfolio.contact ?? { name: '' }), ...pickFields(payload, CONTACT_FIELDS) };
+        mark(previewKey('contact'), 'UPDATE');
+        break;
+
+      case 'profile':
+        portfolio.profile = {
+          ...portfolio.profile,
+          ...pickFields(payload, ['title', 'summary']),
+          ...(Array.isArray(payload.key_achievements) && { keyAchievements: payload.key_achievements as string[] }),
+        };
+        mark(previewKey('profile'), 'UPDATE');
+        break;
+
+      case 'section': {
+        const sectionType = change.entity_id ?? '';
+        const index = portfolio.sections.findIndex(section => section.section_type === sectionType);
+        const current = portfolio.sections[index];
+        const section: ContentSection = {
+          ...current,
+          section_type: sectionType,
+          section_name: text(payload, 'section_name', current?.section_name ?? '') || undefined,
+          json_content: typeof payload.json_content === 'object' && payload.json_content !== null
+            ? payload.json_content as Record<string, unknown>
+            : current?.json_content ?? {},
+          display_order: typeof payload.display_order === 'number' ? payload.display_order : current?.display_order,
+        };
+        if (current) {
+          portfolio.sections[index] = section;
+        } else {
+          portfolio.sections.push(section);
+        }
+        mark(previewKey('section', sectionType), current ? 'UPDATE' : 'CREATE');
+        break;
+      }
+
+      default:
+        // Projects are not part of the public portfolio pages
+        break;
+    }
+  }
+
+  return { portfolio, marks, removed };
+}
+
+/**
+ * Production data, uncommitted changes and commits not yet pushed to D1CV
+ */
+export function usePreviewSources() {
+  const apiClient = useApiClient();
+  const snapshot = usePortfolioSnapshot();
+  const staged = useUncommittedChanges();
+  const commits = useCommits();
+
+  const unpushed = useMemo(
+    () => (commits.data ?? [])
+      .filter(commit => UNPUSHED_STATUSES.includes(commit.status))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    [commits.data]
+  );
+
+  const details = useQueries({
+    queries: unpushed.map(commit => ({
+      queryKey: ['v2', 'commits', commit.id],
+      queryFn: ({ signal }: { signal: AbortSignal }) =>
+        apiClient.get(`/v2/commits/${commit.id}`, { signal, schema: commitWithChangesSchema }),
+      staleTime: 1000 * 30,
+    })),
+  });
+
+  const pending: PreviewCommit[] = details.flatMap(detail =>
+    detail.data ? [{ commit: detail.data, changes: unpushedChanges(detail.data) }] : []);
+  const uncommitted = (staged.data ?? []).filter(change => change.target !== 'ai-agent');
+
+  return {
+    snapshot: snapshot.data,
+    uncommitted,
+    pending: pending.filter(item => item.changes.length > 0),
+    isLoading: snapshot.isLoading || staged.isLoading || commits.isLoading || details.some(detail => detail.isLoading),
+    error: snapshot.error ?? staged.error ?? commits.error ?? details.find(detail => detail.error)?.error ?? null,
+  };
+}
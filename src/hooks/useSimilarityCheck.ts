@@ -10,7 +10,7 @@
  */
 
 import { useQuery } from '@tanstack/react-query';
-import { apiClient } from '@services/api';
+import { useApiClient } from '@services/ApiContext';
 import type { SimilarTechnology } from '@/types';
 
 interface SimilarityResponse {
@@ -36,15 +36,18 @@ export function useSimilarityCheck(
   name: string,
   options: UseSimilarityCheckOptions = {}
 ) {
+  const apiClient = useApiClient();
   const { enabled = true, minScore = 0.5 } = options;
 
   return useQuery<SimilarTechnology[]>({
-    queryKey: ['similarity', name],
-    queryFn: async () => {
+    // The threshold filters the cached result, so callers with different thresholds must not share it
+    queryKey: ['similarity', name, minScore],
+    queryFn: async ({ signal }) => {
       // OWASP: URL-encode the input to prevent injection
       const encodedName = encodeURIComponent(name.trim());
       const response = await apiClient.get<SimilarityResponse>(
-        `/api/similarity/${encodedName}`
+        `/api/similarity/${encodedName}`,
+        { signal }
       );
       
       // Filter by minimum score and validate response shape
@@ -1,21 +1,23 @@
 /**
- * Staged Changes Hooks - Single Responsibility Principle (SRP)
- * 
- * Each hook has one job:
- * - useStagedChanges: Fetch all staged changes
- * - useStagedChangesCount: Fetch count summary
- * - useApplyD1CV: Apply changes to D1CV database
- * - useApplyAI: Apply changes to AI agent (triggers reindex)
- * - useDeleteStagedChange: Remove a staged change
+ * Legacy Staged Changes Hooks - Single Responsibility Principle (SRP)
+ *
+ * The original /stage queue (separate D1CV and AI tables) is retired in
+ * favour of the v2 commit workflow in useCommits. What remains here moves
+ * outstanding legacy rows across:
+ * - useLegacyStagedChanges: Fetch pending rows from both legacy queues
+ * - useMigrateLegacyStaged: Convert them into v2 staged changes
  * - usePurgeD1CVCache: Manually purge D1CV cache
- * 
+ *
  * OWASP: All operations go through authenticated API endpoints
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiClient } from '@services/api';
-import type { StagedChangesResponse, StagedChangesCount, ApplyResponse } from '@/types';
+import { useApiClient } from '@services/ApiContext';
+import type { StagedChange as LegacyStagedChange, StagedOperation } from '@/types';
 import { sanitizeId } from '@utils/sanitize';
+import { s } from '@utils/schema';
+import { stagedChangesResponseSchema } from '@services/schemas';
+import { stagedChangeSchema, technologyChange, type Action, type StageChangeRequest } from './useCommits';
 
 interface CachePurgeResponse {
   success: boolean;
@@ -23,81 +25,141 @@ interface CachePurgeResponse {
   purged: number;
 }
 
+const cachePurgeResponseSchema = s.object({
+  success: s.boolean(),
+  message: s.string(),
+  purged: s.number(),
+});
+
 /**
- * Fetch all staged changes (both D1CV and AI queues)
+ * A pending legacy technology: the D1CV row and its AI row, when staged together
  */
-export function useStagedChanges() {
-  return useQuery<StagedChangesResponse>({
-    queryKey: ['staged'],
-    queryFn: () => apiClient.get('/api/staged'),
-    // Refetch frequently as this is a working queue
-    staleTime: 1000 * 30, // 30 seconds
-  });
+export interface LegacyStagedPair {
+  name: string;
+  operation: StagedOperation;
+  d1cv: LegacyStagedChange | null;
+  ai: LegacyStagedChange | null;
+}
+
+export interface MigrationResult {
+  migrated: number;
+  failed: Array<{ name: string; error: string }>;
+  /** Staged in v2, but some legacy rows could not be deleted; migrating them again would stage a duplicate */
+  leftover: Array<{ name: string; error: string }>;
+}
+
+const ACTION_FOR_OPERATION: Record<StagedOperation, Action> = {
+  INSERT: 'CREATE',
+  UPDATE: 'UPDATE',
+  DELETE: 'DELETE',
+};
+
+function rowName(row: LegacyStagedChange): string {
+  const name = row.payload?.name;
+  return typeof name === 'string' ? name : row.stable_id ?? `#${row.id}`;
 }
 
 /**
- * Fetch staged changes count summary
+ * Pair pending D1CV and AI rows staged for the same technology
+ * The legacy endpoint wrote the two queues separately, so rows are
+ * matched by stable id or (case-insensitive) name
  */
-export function useStagedChangesCount() {
-  return useQuery<StagedChangesCount>({
-    queryKey: ['staged', 'count'],
-    queryFn: () => apiClient.get('/api/staged/count'),
-    staleTime: 1000 * 30, // 30 seconds
-  });
+export function pairLegacyRows(d1cv: LegacyStagedChange[], ai: LegacyStagedChange[]): LegacyStagedPair[] {
+  const pendingAI = ai.filter(row => row.status === 'pending');
+  const pairs: LegacyStagedPair[] = d1cv
+    .filter(row => row.status === 'pending')
+    .map(row => {
+      const name = rowName(row);
+      const index = pendingAI.findIndex(aiRow =>
+        (row.stable_id && aiRow.stable_id === row.stable_id) ||
+        rowName(aiRow).toLowerCase() === name.toLowerCase());
+      const [aiRow] = index === -1 ? [null] : pendingAI.splice(index, 1);
+      return { name, operation: row.operation, d1cv: row, ai: aiRow };
+    });
+
+  // AI rows left over were staged for the AI Agent only
+  return pairs.concat(pendingAI.map(row => ({ name: rowName(row), operation: row.operation, d1cv: null, ai: row })));
 }
 
 /**
- * Apply pending D1CV changes
- * This is typically fast and can be auto-triggered
+ * Build the v2 stage request equivalent to a legacy pair
  */
-export function useApplyD1CV() {
-  const queryClient = useQueryClient();
-
-  return useMutation<ApplyResponse, Error, void>({
-    mutationFn: () => apiClient.post('/api/apply/d1cv', {}),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['staged'] });
-      queryClient.invalidateQueries({ queryKey: ['technologies'] });
-    },
+export function legacyPairToChange(pair: LegacyStagedPair): StageChangeRequest {
+  if (pair.d1cv && pair.d1cv.entity_type !== 'technology') {
+    throw new Error(`Unsupported legacy entity type: ${pair.d1cv.entity_type}`);
+  }
+  return technologyChange({
+    action: ACTION_FOR_OPERATION[pair.operation],
+    entityId: pair.d1cv?.entity_id,
+    stableId: pair.ai?.stable_id,
+    d1cvPayload: pair.d1cv?.payload ?? { name: pair.name },
+    aiPayload: pair.ai?.payload,
+    target: pair.d1cv ? (pair.ai ? 'both' : 'd1cv') : 'ai-agent',
   });
 }
 
 /**
- * Apply pending AI changes
- * This triggers reindexing and may take several minutes
+ * Fetch pending changes still sitting in the legacy queues
  */
-export function useApplyAI() {
-  const queryClient = useQueryClient();
+export function useLegacyStagedChanges() {
+  const apiClient = useApiClient();
 
-  return useMutation<ApplyResponse, Error, void>({
-    mutationFn: () => apiClient.post('/api/apply/ai', {}),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['staged'] });
+  return useQuery<LegacyStagedPair[]>({
+    queryKey: ['staged'],
+    queryFn: async ({ signal }) => {
+      const response = await apiClient.get('/api/staged', { signal, schema: stagedChangesResponseSchema });
+      return pairLegacyRows(response.d1cv, response.ai);
     },
+    staleTime: 1000 * 30, // 30 seconds
   });
 }
 
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Migration failed';
+}
+
 /**
- * Delete a staged change
- * OWASP: ID is sanitized before use
+ * Move legacy rows into the v2 workflow
+ * Each pair is staged as one v2 change, then its legacy rows are deleted.
+ * Pairs are migrated one at a time so a failure leaves the rest intact;
+ * a pair whose cleanup fails after staging is reported as leftover, not failed.
+ * OWASP: Legacy IDs are sanitized before use
  */
-export function useDeleteStagedChange() {
+export function useMigrateLegacyStaged() {
+  const apiClient = useApiClient();
   const queryClient = useQueryClient();
 
-  return useMutation<void, Error, { type: 'd1cv' | 'ai'; id: number }>({
-    mutationFn: ({ type, id }) => {
-      const sanitizedId = sanitizeId(id);
-      if (sanitizedId === null) {
-        throw new Error('Invalid ID');
-      }
-      // Validate type is one of allowed values (whitelist)
-      if (type !== 'd1cv' && type !== 'ai') {
-        throw new Error('Invalid type');
+  return useMutation<MigrationResult, Error, LegacyStagedPair[]>({
+    mutationFn: async (pairs) => {
+      const result: MigrationResult = { migrated: 0, failed: [], leftover: [] };
+
+      for (const pair of pairs) {
+        try {
+          await apiClient.post('/v2/stage', legacyPairToChange(pair), { schema: stagedChangeSchema });
+        } catch (error) {
+          result.failed.push({ name: pair.name, error: errorMessage(error) });
+          continue;
+        }
+
+        result.migrated += 1;
+        try {
+          for (const [queue, row] of [['d1cv', pair.d1cv], ['ai', pair.ai]] as const) {
+            const id = row ? sanitizeId(row.id) : null;
+            if (id !== null) {
+              await apiClient.delete(`/api/staged/${queue}/${id}`);
+            }
+          }
+        } catch (error) {
+          result.leftover.push({ name: pair.name, error: errorMessage(error) });
+        }
       }
-      return apiClient.delete(`/api/staged/${type}/${sanitizedId}`);
+
+      return result;
     },
-    onSuccess: () => {
+    onSettled: () => {
       queryClient.invalidateQueries({ queryKey: ['staged'] });
+      queryClient.invalidateQueries({ queryKey: ['v2', 'staged'] });
+      queryClient.invalidateQueries({ queryKey: ['v2', 'stats'] });
     },
   });
 }
@@ -107,8 +169,9 @@ export function useDeleteStagedChange() {
  * Use this to force the portfolio to fetch fresh data
  */
 export function usePurgeD1CVCache() {
+  const apiClient = useApiClient();
+
   return useMutation<CachePurgeResponse, Error, void>({
-    mutationFn: () => apiClient.post('/api/d1cv/cache/purge', {}),
+    mutationFn: () => apiClient.post('/api/d1cv/cache/purge', {}, { schema: cachePurgeResponseSchema }),
   });
 }
-
@@ -5,33 +5,28 @@
  * - useTechnologies: Fetch all technologies
  * - useTechnology: Fetch single technology
  * - useTechnologiesCount: Fetch count statistics
- * - useStageTechnology: Stage a technology change
  * 
  * OWASP: Input validation happens in the API client layer
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiClient } from '@services/api';
+import { useQuery } from '@tanstack/react-query';
+import { useApiClient } from '@services/ApiContext';
 import type { 
   Technology, 
   TechnologiesCount, 
-  StageRequest, 
-  StageResponse 
 } from '@/types';
 import { sanitizeId } from '@utils/sanitize';
+import type { Infer } from '@utils/schema';
+import {
+  technologiesPayloadSchema,
+  technologySchema,
+  technologiesCountSchema,
+} from '@services/schemas';
 
 /**
- * API response type - handles both array and wrapped responses
+ * Normalize API response (bare array or wrapped list) to always return an array
  */
-interface TechnologiesResponse {
-  data?: Technology[];
-  technologies?: Technology[];
-}
-
-/**
- * Normalize API response to always return an array
- */
-function normalizeResponse(response: Technology[] | TechnologiesResponse): Technology[] {
+function normalizeResponse(response: Infer<typeof technologiesPayloadSchema>): Technology[] {
   if (Array.isArray(response)) {
     return response;
   }
@@ -42,10 +37,12 @@ function normalizeResponse(response: Technology[] | TechnologiesResponse): Techn
  * Fetch all technologies
  */
 export function useTechnologies() {
+  const apiClient = useApiClient();
+
   return useQuery<Technology[]>({
     queryKey: ['technologies'],
-    queryFn: async () => {
-      const response = await apiClient.get<Technology[] | TechnologiesResponse>('/api/technologies');
+    queryFn: async ({ signal }) => {
+      const response = await apiClient.get('/api/technologies', { signal, schema: technologiesPayloadSchema });
       return normalizeResponse(response);
     },
     staleTime: 1000 * 60 * 5, // Cache for 5 minutes
@@ -57,11 +54,12 @@ export function useTechnologies() {
  * OWASP: ID is sanitized before use
  */
 export function useTechnology(id: string | undefined) {
+  const apiClient = useApiClient();
   const sanitizedId = id ? sanitizeId(id) : null;
   
   return useQuery<Technology>({
     queryKey: ['technology', sanitizedId],
-    queryFn: () => apiClient.get(`/api/technologies/${sanitizedId}`),
+    queryFn: ({ signal }) => apiClient.get(`/api/technologies/${sanitizedId}`, { signal, schema: technologySchema }),
     enabled: sanitizedId !== null,
   });
 }
@@ -70,33 +68,12 @@ export function useTechnology(id: string | undefined) {
  * Fetch technology count statistics
  */
 export function useTechnologiesCount() {
+  const apiClient = useApiClient();
+
   return useQuery<TechnologiesCount>({
     queryKey: ['technologies', 'count'],
-    queryFn: () => apiClient.get('/api/technologies/count'),
+    queryFn: ({ signal }) => apiClient.get('/api/technologies/count', { signal, schema: technologiesCountSchema }),
     staleTime: 1000 * 60 * 5, // Cache for 5 minutes
   });
 }
 
-/**
- * Stage a technology change (INSERT, UPDATE, DELETE)
- * Invalidates related queries on success
- */
-export function useStageTechnology() {
-  const queryClient = useQueryClient();
-
-  return useMutation<StageResponse, Error, StageRequest>({
-    mutationFn: (data) => apiClient.post('/api/stage', {
-      operation: data.operation,
-      entity_type: 'technology',
-      entity_id: data.entityId,
-      d1cv_payload: data.d1cvPayload,
-      ai_payload: data.aiPayload,
-    }),
-    onSuccess: () => {
-      // Invalidate related queries to refetch fresh data
-      queryClient.invalidateQueries({ queryKey: ['technologies'] });
-      queryClient.invalidateQueries({ queryKey: ['staged'] });
-    },
-  });
-}
-
@@ -0,0 +1,258 @@
+/**
+ * Technology Import Hooks - Single Responsibility Principle (SRP)
+ *
+ * Turns a CSV or JSON file into technology form values, one row per
+ * technology, and checks each row the way the technology form would.
+ * The accepted rows are staged together as one commit (useStageAndCommit).
+ *
+ * OWASP:
+ * - Every row goes through the same whitelist validation as the form
+ * - Files are parsed in the browser; nothing is sent until rows are staged
+ */
+
+import { DEFAULT_TECHNOLOGY_FORM, TECHNOLOGY_LEVELS, RECENCY_OPTIONS } from '@/constants';
+import type { TechnologyCategory, TechnologyFormData } from '@/types';
+import { parseCsv } from '@utils/csv';
+import { validateTechnologyName } from '@utils/sanitize';
+import { technologyChange, technologyFormPayloads, type StageChangeRequest } from './useCommits';
+
+export type ImportFormat = 'csv' | 'json';
+
+export interface ImportSource {
+  /** Column names: the CSV header row, or every key found in the JSON objects */
+  headers: string[];
+  records: Array<Record<string, unknown>>;
+}
+
+/** Form field each source column fills, '' to ignore the column */
+export type ColumnMapping = Record<string, keyof TechnologyFormData | ''>;
+
+export interface ImportRow {
+  /** 1-based record number, not counting the CSV header row, for messages */
+  line: number;
+  data: TechnologyFormData;
+  /** D1CV category the row is filed under; null when the category is missing or unknown */
+  categoryId: number | null;
+  errors: string[];
+}
+
+interface ImportField {
+  field: keyof TechnologyFormData;
+  label: string;
+  /** Other column names recognised when guessing the mapping */
+  aliases: string[];
+  maxLength?: number;
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { field: 'name', label: 'Name', aliases: ['technology', 'tech', 'skill'], maxLength: 100 },
+  { field: 'category', label: 'Category', aliases: ['d1cv category', 'portfolio category'] },
+  { field: 'experience', label: 'Experience', aliases: ['experience summary'], maxLength: 50 },
+  { field: 'experience_years', label: 'Years of experience', aliases: ['years', 'experience years'] },
+  { field: 'proficiency_percent', label: 'Proficiency %', aliases: ['proficiency', 'percent'] },
+  { field: 'level', label: 'Level', aliases: ['skill level'] },
+  { field: 'is_active', label: 'Active', aliases: ['active', 'visible'] },
+  { field: 'ai_category', label: 'AI category', aliases: ['ai category'] },
+  { field: 'summary', label: 'Summary', aliases: [], maxLength: 1000 },
+  { field: 'action', label: 'Action', aliases: [], maxLength: 500 },
+  { field: 'effect', label: 'Effect', aliases: [], maxLength: 500 },
+  { field: 'outcome', label: 'Outcome', aliases: [], maxLength: 500 },
+  { field: 'related_project', label: 'Related project', aliases: ['project'], maxLength: 100 },
+  { field: 'employer', label: 'Employer', aliases: ['company'], maxLength: 100 },
+  { field: 'recency', label: 'Recency', aliases: [] },
+];
+
+type NumberField = 'experience_years' | 'proficiency_percent';
+
+const NUMBER_FIELDS: readonly NumberField[] = ['experience_years', 'proficiency_percent'];
+
+function isNumberField(field: keyof TechnologyFormData): field is NumberField {
+  return (NUMBER_FIELDS as readonly string[]).includes(field);
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+/**
+ * JSON when the file says so (by extension, or by starting with [ or {)
+ */
+export function detectFormat(text: string, fileName?: string): ImportFormat {
+  if (fileName) {
+    return fileName.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+  }
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+}
+
+/**
+ * Read the rows of an import file
+ * JSON may be an array of objects or an object with a `technologies` array.
+ */
+export function readImportSource(text: string, format: ImportFormat): ImportSource {
+  if (format === 'csv') {
+    const [header = [], ...rows] = parseCsv(text);
+    const headers = header.map(cell => cell.trim());
+    return {
+      headers,
+      records: rows.map(row => Object.fromEntries(headers.map((name, i) => [name, row[i] ?? '']))),
+    };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { technologies?: unknown } | null)?.technologies;
+  if (!Array.isArray(list) || list.some(item => typeof item !== 'object' || item === null || Array.isArray(item))) {
+    throw new Error('Expected an array of technology objects');
+  }
+  const records = list as Array<Record<string, unknown>>;
+  return { headers: [...new Set(records.flatMap(record => Object.keys(record)))], records };
+}
+
+/**
+ * Map columns named like a form field (or one of its aliases) to it
+ */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const taken = new Set<string>();
+  return Object.fromEntries(headers.map(header => {
+    const name = normalizeHeader(header);
+    const match = IMPORT_FIELDS.find(({ field, label, aliases }) =>
+      !taken.has(field) && [normalizeHeader(field), label.toLowerCase(), ...aliases].includes(name));
+    if (match) {
+      taken.add(match.field);
+    }
+    return [header, match?.field ?? ''];
+  }));
+}
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function parseBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const normalized = text(value).toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+  return null;
+}
+
+/**
+ * The allowed value matching case-insensitively, e.g. "expert" is "Expert"
+ */
+function matchOption(value: string, options: readonly string[]): string | undefined {
+  return options.find(option => option.toLowerCase() === value.toLowerCase());
+}
+
+function toRow(record: Record<string, unknown>, mapping: ColumnMapping, line: number, categories: TechnologyCategory[]): ImportRow {
+  const data: TechnologyFormData = { ...DEFAULT_TECHNOLOGY_FORM };
+  const errors: string[] = [];
+
+  for (const [column, field] of Object.entries(mapping)) {
+    const raw = record[column];
+    if (!field || text(raw) === '') {
+      continue;
+    }
+    const spec = IMPORT_FIELDS.find(f => f.field === field)!;
+    if (isNumberField(field)) {
+      const number = Number(text(raw));
+      if (Number.isFinite(number)) {
+        data[field] = number;
+      } else {
+        errors.push(`${spec.label} must be a number`);
+      }
+    } else if (field === 'is_active') {
+      const active = parseBoolean(raw);
+      if (active === null) {
+        errors.push('Active must be yes or no');
+      } else {
+        data.is_active = active;
+      }
+    } else {
+      data[field] = text(raw);
+      if (spec.maxLength && text(raw).length > spec.maxLength) {
+        errors.push(`${spec.label} must be ${spec.maxLength} characters or less`);
+      }
+    }
+  }
+
+  const name = validateTechnologyName(data.name);
+  if (!name.valid) {
+    errors.unshift(name.error ?? 'Name is invalid');
+  }
+  data.name = data.name.trim();
+
+  const category = categories.find(c => c.name.toLowerCase() === data.category.toLowerCase());
+  if (!data.category) {
+    errors.push('Category is required');
+  } else if (!category) {
+    errors.push(`Unknown category "${data.category}"`);
+  } else {
+    data.category = category.name;
+  }
+
+  const level = matchOption(data.level, TECHNOLOGY_LEVELS);
+  if (level) {
+    data.level = level;
+  } else {
+    errors.push(`Level must be one of ${TECHNOLOGY_LEVELS.join(', ')}`);
+  }
+  const recency = matchOption(data.recency, RECENCY_OPTIONS);
+  if (recency) {
+    data.recency = recency;
+  } else {
+    errors.push(`Recency must be one of ${RECENCY_OPTIONS.join(', ')}`);
+  }
+
+  if (data.experience_years < 0 || data.experience_years > 50) {
+    errors.push('Years of experience must be between 0 and 50');
+  }
+  if (data.proficiency_percent < 0 || data.proficiency_percent > 100) {
+    errors.push('Proficiency must be between 0 and 100');
+  }
+  return { line, data, categoryId: category?.id ?? null, errors };
+}
+
+/**
+ * Build and validate the form values of every record
+ * Names already in the portfolio, or repeated in the file, are errors:
+ * those technologies should be edited instead.
+ */
+export function mapImportRows(
+  source: ImportSource,
+  mapping: ColumnMapping,
+  categories: TechnologyCategory[],
+  existingNames: string[] = [],
+): ImportRow[] {
+  const existing = new Set(existingNames.map(name => name.toLowerCase()));
+  const firstLine = new Map<string, number>();
+
+  return source.records.map((record, index) => {
+    const row = toRow(record, mapping, index + 1, categories);
+    const key = row.data.name.toLowerCase();
+    if (key && existing.has(key)) {
+      row.errors.push('Already in the portfolio');
+    } else if (key && firstLine.has(key)) {
+      row.errors.push(`Duplicate of row ${firstLine.get(key)}`);
+    } else if (key) {
+      firstLine.set(key, row.line);
+    }
+    return row;
+  });
+}
+
+/**
+ * Stage request creating the technology a row describes
+ * Only rows without errors can be staged; those always have a category.
+ */
+export function importRowChange(row: ImportRow): StageChangeRequest {
+  if (row.categoryId === null) {
+    throw new Error(`Row ${row.line}: ${row.errors[0] ?? 'Category is required'}`);
+  }
+  return technologyChange({ action: 'CREATE', ...technologyFormPayloads(row.data, row.categoryId) });
+}
@@ -3,6 +3,9 @@
  * 
  * SOLID Principles Applied:
  * - DIP: ApiProvider wraps the app for dependency injection
+ * - DIP: SessionProvider shares the Cloudflare Access session state; the
+ *   API client is decorated so expired-session requests are replayed
+ * - DIP: JobConnectionProvider shares one live push-job feed app-wide
  * 
  * OWASP Security:
  * - React.StrictMode helps catch common security issues
@@ -18,6 +21,11 @@ import CssBaseline from '@mui/material/CssBaseline';
 import App from './App';
 import { theme } from './theme';
 import { ApiProvider } from '@services/ApiContext';
+import { apiClient } from '@services/api';
+import { SessionProvider } from '@services/SessionContext';
+import { SessionManager, SessionAwareApiClient, bindQueryClientToSession } from '@services/session';
+import { JobConnectionProvider } from '@services/JobConnectionContext';
+import { JobConnection, jobSocketUrl, jobStatusSchema } from '@services/jobs';
 
 // Configure React Query with sensible defaults
 const queryClient = new QueryClient({
@@ -33,17 +41,35 @@ const queryClient = new QueryClient({
   },
 });
 
+// Probe with a cheap authenticated GET; it only succeeds with a live session
+const session = new SessionManager({
+  probe: (signal) => apiClient.get('/v2/stats', { signal }),
+});
+const client = new SessionAwareApiClient(apiClient, session);
+bindQueryClientToSession(queryClient, session);
+
+// The mock backend has no socket, so it is served by the polling fallback
+const jobs = new JobConnection({
+  url: import.meta.env.VITE_MOCK_API === 'true' ? null : jobSocketUrl(),
+  poll: (jobId, signal) => client.get(`/v2/jobs/${encodeURIComponent(jobId)}`, { signal, schema: jobStatusSchema }),
+});
+jobs.connect();
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <QueryClientProvider client={queryClient}>
-      <ApiProvider>
-        <BrowserRouter>
-          <ThemeProvider theme={theme}>
-            <CssBaseline />
-            <App />
-          </ThemeProvider>
-        </BrowserRouter>
-      </ApiProvider>
+      <SessionProvider session={session}>
+        <ApiProvider client={client}>
+          <JobConnectionProvider connection={jobs}>
+            <BrowserRouter>
+              <ThemeProvider theme={theme}>
+                <CssBaseline />
+                <App />
+              </ThemeProvider>
+            </BrowserRouter>
+          </JobConnectionProvider>
+        </ApiProvider>
+      </SessionProvider>
     </QueryClientProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,260 @@
+/**
+ * Audit Log Page
+ *
+ * Every admin write the worker recorded: who made it (Cloudflare Access
+ * identity), what they did, to which record, and the record before and
+ * after. Searchable and filterable, with a CSV export of the matches.
+ */
+
+import { Fragment, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  TextField,
+  MenuItem,
+  Chip,
+  Stack,
+  Alert,
+  IconButton,
+  Collapse,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  Download as DownloadIcon,
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+} from '@mui/icons-material';
+import { useAuditLog, useExportAudit } from '@hooks/useAudit';
+import { FieldDiffTable } from '@components/FieldDiffTable';
+import { downloadFile, fileDate } from '@utils/download';
+import { dayStart, dayEnd } from '@utils/dates';
+
+/**
+ * Record snapshot as diffable fields
+ * Anything that is not a JSON object (including malformed JSON) is shown as is
+ */
+function parseSnapshot(json: string | null): Record<string, unknown> | null {
+  if (json === null) {
+    return null;
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return { value: json };
+  }
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : { value };
+}
+
+export function AuditPage() {
+  const [search, setSearch] = useState('');
+  const [actor, setActor] = useState('');
+  const [action, setAction] = useState('');
+  const [entityType, setEntityType] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(20);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const criteria = {
+    q: search.trim() || undefined,
+    actor: actor || undefined,
+    action: action || undefined,
+    entity_type: entityType || undefined,
+    from: dayStart(from),
+    to: dayEnd(to),
+  };
+  const { data, isLoading, isFetching, error, refetch } = useAuditLog({ ...criteria, page: page + 1, limit: rowsPerPage });
+  const exportAudit = useExportAudit();
+
+  const facets = data?.facets ?? { actors: [], actions: [], entity_types: [] };
+
+  const resetPage = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const handleExport = () => {
+    exportAudit.mutate(criteria, {
+      onSuccess: (csv) => downloadFile(csv, `audit-${fileDate()}.csv`, 'text/csv;charset=utf-8'),
+    });
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Typography variant="h4">Audit Log</Typography>
+        <Stack direction="row" spacing={1}>
+          <Button
+            variant="outlined"
+            startIcon={isFetching ? <CircularProgress size={16} /> : <RefreshIcon />}
+            onClick={() => refetch()}
+          >
+            Refresh
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={exportAudit.isPending ? <CircularProgress size={16} color="inherit" /> : <DownloadIcon />}
+            disabled={exportAudit.isPending || !data?.total}
+            onClick={handleExport}
+          >
+            Export CSV
+          </Button>
+        </Stack>
+      </Stack>
+
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField
+            size="small"
+            label="Search"
+            placeholder="Actor, action, record or payload"
+            value={search}
+            onChange={(e) => resetPage(setSearch)(e.target.value)}
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            select
+            size="small"
+            label="Actor"
+            value={actor}
+            onChange={(e) => resetPage(setActor)(e.target.value)}
+            sx={{ minWidth: 180 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            {facets.actors.map(value => <MenuItem key={value} value={value}>{value}</MenuItem>)}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Action"
+            value={action}
+            onChange={(e) => resetPage(setAction)(e.target.value)}
+            sx={{ minWidth: 180 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            {facets.actions.map(value => <MenuItem key={value} value={value}>{value}</MenuItem>)}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Entity"
+            value={entityType}
+            onChange={(e) => resetPage(setEntityType)(e.target.value)}
+            sx={{ minWidth: 140 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            {facets.entity_types.map(value => <MenuItem key={value} value={value}>{value}</MenuItem>)}
+          </TextField>
+          <TextField
+            type="date"
+            size="small"
+            label="From"
+            value={from}
+            onChange={(e) => resetPage(setFrom)(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <TextField
+            type="date"
+            size="small"
+            label="To"
+            value={to}
+            onChange={(e) => resetPage(setTo)(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+        </Stack>
+      </Paper>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>Could not load the audit log: {error.message}</Alert>}
+      {exportAudit.error && <Alert severity="error" sx={{ mb: 2 }}>Export failed: {exportAudit.error.message}</Alert>}
+
+      <Paper>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox" />
+                <TableCell>When</TableCell>
+                <TableCell>Actor</TableCell>
+                <TableCell>Action</TableCell>
+                <TableCell>Entity</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} align="center" sx={{ py: 4 }}>
+                    <CircularProgress size={24} />
+                  </TableCell>
+                </TableRow>
+              ) : !data || data.entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} align="center" sx={{ py: 4 }}>
+                    <Typography color="textSecondary">No audit entries match these filters.</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                data.entries.map((entry) => {
+                  const open = expanded === entry.id;
+                  return (
+                    <Fragment key={entry.id}>
+                      <TableRow hover sx={{ '& > td': { borderBottom: open ? 'unset' : undefined } }}>
+                        <TableCell padding="checkbox">
+                          <IconButton size="small" onClick={() => setExpanded(open ? null : entry.id)}>
+                            {open ? <CollapseIcon /> : <ExpandIcon />}
+                          </IconButton>
+                        </TableCell>
+                        <TableCell>{new Date(entry.created_at).toLocaleString()}</TableCell>
+                        <TableCell>{entry.actor}</TableCell>
+                        <TableCell>
+                          <Chip size="small" variant="outlined" label={entry.action} />
+                        </TableCell>
+                        <TableCell>
+                          {entry.entity_type}
+                          {entry.entity_id && (
+                            <Typography component="span" variant="body2" color="textSecondary"> #{entry.entity_id}</Typography>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell colSpan={5} sx={{ py: 0 }}>
+                          <Collapse in={open} unmountOnExit>
+                            <Box sx={{ py: 2 }}>
+                              <FieldDiffTable before={parseSnapshot(entry.before)} after={parseSnapshot(entry.after)} />
+                            </Box>
+                          </Collapse>
+                        </TableCell>
+                      </TableRow>
+                    </Fragment>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <TablePagination
+          component="div"
+          count={data?.total ?? 0}
+          page={page}
+          rowsPerPage={rowsPerPage}
+          rowsPerPageOptions={[10, 20, 50]}
+          onPageChange={(_, next) => setPage(next)}
+          onRowsPerPageChange={(e) => resetPage(setRowsPerPage)(Number(e.target.value))}
+        />
+      </Paper>
+    </Box>
+  );
+}
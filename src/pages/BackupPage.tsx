@@ -0,0 +1,266 @@
+/**
+ * Backup & Restore Page
+ *
+ * Downloads the whole portfolio as a versioned JSON bundle, and imports a
+ * bundle from another environment: the bundle is compared with what this
+ * environment serves and the differences are staged as one commit, to be
+ * reviewed and pushed like any other edit. JSON Resume files import the
+ * same way, and the portfolio also exports as JSON Resume or as
+ * LinkedIn-style CSV files.
+ */
+
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Chip,
+  Stack,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Download as DownloadIcon,
+  Article as ResumeIcon,
+  TableChart as CsvIcon,
+  UploadFile as UploadIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import {
+  usePortfolioSnapshot,
+  buildBundle,
+  readImportFile,
+  planBundleImport,
+  type CVBundle,
+  type ImportedFile,
+} from '@hooks/useCVBundle';
+import { useStageAndCommit, type Action } from '@hooks/useCommits';
+import { toJsonResume, renderLinkedInExport } from '@services/cv';
+import { downloadFile, fileDate } from '@utils/download';
+
+const ACTION_COLORS: Record<Action, 'success' | 'info' | 'error'> = {
+  CREATE: 'success',
+  UPDATE: 'info',
+  DELETE: 'error',
+};
+
+function bundleCounts(bundle: CVBundle): Array<[string, number]> {
+  return [
+    ['technologies', bundle.technologies.length],
+    ['categories', bundle.categories.length],
+    ['experience', bundle.experience.length],
+    ['education', bundle.education.length],
+    ['sections', Object.keys(bundle.sections).length],
+  ];
+}
+
+export function BackupPage() {
+  const navigate = useNavigate();
+  const { data: snapshot, isLoading, error: snapshotError } = usePortfolioSnapshot();
+  const stageMutation = useStageAndCommit();
+  const [imported, setImported] = useState<ImportedFile | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  const current = useMemo(() => (snapshot ? buildBundle(snapshot) : null), [snapshot]);
+  const bundle = imported?.bundle;
+  const plan = useMemo(
+    () => (bundle && snapshot ? planBundleImport(bundle, snapshot) : null),
+    [bundle, snapshot]
+  );
+  const warnings = [...(imported?.warnings ?? []), ...(plan?.warnings ?? [])];
+  const blocked = (plan?.missingCategories.length ?? 0) > 0;
+
+  const handleExport = () => {
+    if (current) {
+      downloadFile(JSON.stringify(current, null, 2), `cv-bundle-${fileDate()}.json`, 'application/json');
+    }
+  };
+
+  const handleJsonResume = () => {
+    if (snapshot) {
+      downloadFile(JSON.stringify(toJsonResume(snapshot), null, 2), `resume-${fileDate()}.json`, 'application/json');
+    }
+  };
+
+  const handleLinkedIn = () => {
+    if (snapshot) {
+      downloadFile(renderLinkedInExport(snapshot), `linkedin-export-${fileDate()}.zip`, 'application/zip');
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || !snapshot) return;
+    try {
+      const read = readImportFile(await file.text(), snapshot);
+      setImported(read);
+      setMessage(read.source === 'json-resume'
+        ? `Import JSON Resume ${file.name}`
+        : `Import CV bundle exported ${new Date(read.bundle.exported_at).toLocaleString()}`);
+      setFileError(null);
+    } catch (error) {
+      setImported(null);
+      setFileError(error instanceof Error ? error.message : 'Could not read the file');
+    }
+  };
+
+  const handleStage = () => {
+    if (!plan || blocked) return;
+    stageMutation.mutate(
+      { changes: plan.changes.map(change => change.request), message: message.trim() },
+      { onSuccess: () => navigate('/commits') }
+    );
+  };
+
+  return (
+    <Box>
+      <Typography variant="h4" sx={{ mb: 1 }}>Backup & Restore</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Export the whole portfolio as a JSON bundle, or import one from another environment.
+      </Typography>
+
+      {snapshotError && (
+        <Alert severity="error" sx={{ mb: 2 }}>Could not load the portfolio: {snapshotError.message}</Alert>
+      )}
+
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Typography variant="h6" gutterBottom>Export</Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Technologies with their AI enrichment, categories, experience, education, contact, profile and
+            content sections, as this environment serves them now.
+          </Typography>
+          {current && (
+            <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap' }} useFlexGap>
+              {bundleCounts(current).map(([label, count]) => (
+                <Chip key={label} size="small" label={`${count} ${label}`} />
+              ))}
+            </Stack>
+          )}
+          <Stack direction="row" spacing={1} sx={{ flexWrap: 'wrap' }} useFlexGap>
+            <Button
+              variant="contained"
+              startIcon={isLoading ? <CircularProgress size={20} /> : <DownloadIcon />}
+              disabled={!current}
+              onClick={handleExport}
+            >
+              Download bundle
+            </Button>
+            <Button variant="outlined" startIcon={<ResumeIcon />} disabled={!snapshot} onClick={handleJsonResume}>
+              JSON Resume
+            </Button>
+            <Button variant="outlined" startIcon={<CsvIcon />} disabled={!snapshot} onClick={handleLinkedIn}>
+              LinkedIn CSV
+            </Button>
+          </Stack>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent>
+          <Typography variant="h6" gutterBottom>Import</Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Choose a bundle or a JSON Resume. Records that differ from this environment are staged as
+            one commit. Records only this environment has are left alone.
+          </Typography>
+          <Button variant="outlined" component="label" startIcon={<UploadIcon />} disabled={!snapshot}>
+            Choose file
+            <input
+              type="file"
+              hidden
+              accept=".json,application/json"
+              onChange={(e) => {
+                void handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </Button>
+
+          {fileError && <Alert severity="error" sx={{ mt: 2 }}>{fileError}</Alert>}
+
+          {bundle && plan && (
+            <Box sx={{ mt: 3 }}>
+              <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap' }} useFlexGap>
+                <Chip size="small" color="primary" label={`${plan.changes.length} to stage`} />
+                <Chip size="small" label={`${plan.unchanged} unchanged`} />
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  label={`${imported?.source === 'json-resume' ? 'JSON Resume' : 'Bundle'} exported ${new Date(bundle.exported_at).toLocaleString()}`}
+                />
+              </Stack>
+
+              {warnings.length > 0 && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  {warnings.map(warning => <div key={warning}>{warning}</div>)}
+                </Alert>
+              )}
+              {blocked && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  This environment is missing categories the file needs: {plan.missingCategories.join(', ')}.
+                  Categories cannot be staged, so create them here before importing.
+                </Alert>
+              )}
+
+              {plan.changes.length === 0 ? (
+                <Alert severity="info">This environment already matches the file.</Alert>
+              ) : (
+                <>
+                  <TableContainer sx={{ mb: 2, maxHeight: 400 }}>
+                    <Table size="small" stickyHeader>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Type</TableCell>
+                          <TableCell>Record</TableCell>
+                          <TableCell>Action</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {plan.changes.map((change, index) => (
+                          <TableRow key={index}>
+                            <TableCell>{change.entityType}</TableCell>
+                            <TableCell>{change.label}</TableCell>
+                            <TableCell>
+                              <Chip size="small" label={change.action} color={ACTION_COLORS[change.action]} />
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+
+                  <TextField
+                    fullWidth
+                    label="Commit message"
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    sx={{ mb: 2 }}
+                  />
+                  {stageMutation.error && <Alert severity="error" sx={{ mb: 2 }}>{stageMutation.error.message}</Alert>}
+                  <Button
+                    variant="contained"
+                    startIcon={stageMutation.isPending ? <CircularProgress size={20} /> : <SaveIcon />}
+                    disabled={blocked || !message.trim() || stageMutation.isPending}
+                    onClick={handleStage}
+                  >
+                    Stage {plan.changes.length} change{plan.changes.length === 1 ? '' : 's'}
+                  </Button>
+                </>
+              )}
+            </Box>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+}
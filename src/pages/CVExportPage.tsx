@@ -0,0 +1,186 @@
+/**
+ * CV Export Page
+ *
+ * Composes contact, profile, experience, education and the strongest
+ * technologies into a printable CV. The preview is the exact HTML that
+ * is printed to PDF; DOCX is generated from the same document in the
+ * browser. A saved variant can replace the base portfolio, to export the
+ * CV tailored to one application.
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Stack,
+  TextField,
+  MenuItem,
+  FormControlLabel,
+  FormGroup,
+  Switch,
+  Alert,
+  CircularProgress,
+  Divider,
+} from '@mui/material';
+import {
+  PictureAsPdf as PdfIcon,
+  Description as DocxIcon,
+} from '@mui/icons-material';
+import { usePortfolioSnapshot } from '@hooks/useCVBundle';
+import { useCVVariants } from '@hooks/useCVVariants';
+import {
+  composeCV,
+  renderCVHtml,
+  renderCVDocx,
+  applyVariant,
+  cvFileName,
+  CV_TEMPLATES,
+  DEFAULT_CV_OPTIONS,
+  DOCX_MIME_TYPE,
+  type CVExportOptions,
+  type CVTemplateId,
+} from '@services/cv';
+import { downloadFile } from '@utils/download';
+
+type SectionToggle = 'includeSummary' | 'includeExperience' | 'includeEducation' | 'includeTechnologies';
+
+const SECTION_TOGGLES: Array<{ key: SectionToggle; label: string }> = [
+  { key: 'includeSummary', label: 'Profile summary' },
+  { key: 'includeExperience', label: 'Experience' },
+  { key: 'includeEducation', label: 'Education' },
+  { key: 'includeTechnologies', label: 'Skills' },
+];
+
+export function CVExportPage() {
+  const { data: snapshot, isLoading, error } = usePortfolioSnapshot();
+  const { data: variants = [] } = useCVVariants();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [options, setOptions] = useState<CVExportOptions>(DEFAULT_CV_OPTIONS);
+  const preview = useRef<HTMLIFrameElement>(null);
+
+  const variant = variants.find(v => v.id === searchParams.get('variant'));
+  const template = CV_TEMPLATES[options.template];
+  const cv = useMemo(() => {
+    if (!snapshot) return null;
+    // A variant's technologies are already in the order it chose
+    return variant
+      ? composeCV(applyVariant(snapshot, variant), { ...options, rankTechnologies: false })
+      : composeCV(snapshot, options);
+  }, [snapshot, variant, options]);
+  const html = useMemo(() => (cv ? renderCVHtml(cv, template) : ''), [cv, template]);
+
+  const setOption = <K extends keyof CVExportOptions>(key: K, value: CVExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  // The preview frame holds the same page, so printing it prints only the CV
+  const handlePdf = () => {
+    preview.current?.contentWindow?.print();
+  };
+
+  const handleDocx = () => {
+    if (cv) {
+      downloadFile(renderCVDocx(cv, template), cvFileName(cv, 'docx'), DOCX_MIME_TYPE);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h4" sx={{ mb: 1 }}>Export CV</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Build a CV document from the portfolio as it is published now. Staged changes are not included until pushed.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>Could not load the portfolio: {error.message}</Alert>}
+
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={3} alignItems="flex-start">
+        <Paper sx={{ p: 2, width: { xs: '100%', md: 300 }, flexShrink: 0 }}>
+          <Stack spacing={2}>
+            <TextField
+              select
+              label="Variant"
+              value={variant?.id ?? ''}
+              onChange={(e) => setSearchParams(e.target.value ? { variant: e.target.value } : {})}
+              slotProps={{ select: { displayEmpty: true }, inputLabel: { shrink: true } }}
+            >
+              <MenuItem value="">Base portfolio</MenuItem>
+              {variants.map(v => (
+                <MenuItem key={v.id} value={v.id}>{v.name}</MenuItem>
+              ))}
+            </TextField>
+
+            <TextField
+              select
+              label="Template"
+              value={options.template}
+              onChange={(e) => setOption('template', e.target.value as CVTemplateId)}
+              helperText={template.description}
+            >
+              {Object.values(CV_TEMPLATES).map(t => (
+                <MenuItem key={t.id} value={t.id}>{t.label}</MenuItem>
+              ))}
+            </TextField>
+
+            <FormControlLabel
+              control={<Switch checked={options.hideInactive} onChange={(e) => setOption('hideInactive', e.target.checked)} />}
+              label="Hide inactive entries"
+              disabled={Boolean(variant)}
+            />
+
+            <Divider />
+            <Typography variant="subtitle2">Sections</Typography>
+            <FormGroup>
+              {SECTION_TOGGLES.map(({ key, label }) => (
+                <FormControlLabel
+                  key={key}
+                  control={<Switch checked={options[key]} onChange={(e) => setOption(key, e.target.checked)} />}
+                  label={label}
+                />
+              ))}
+            </FormGroup>
+
+            <TextField
+              type="number"
+              label="Top technologies"
+              value={options.topTechnologies}
+              onChange={(e) => setOption('topTechnologies', Math.max(0, Number(e.target.value)))}
+              disabled={!options.includeTechnologies}
+              helperText="Highest proficiency first"
+              slotProps={{ htmlInput: { min: 0, max: 100 } }}
+            />
+
+            <Divider />
+            <Button variant="contained" startIcon={<PdfIcon />} disabled={!cv} onClick={handlePdf}>
+              Save as PDF
+            </Button>
+            <Button variant="outlined" startIcon={<DocxIcon />} disabled={!cv} onClick={handleDocx}>
+              Download DOCX
+            </Button>
+            <Typography variant="caption" color="text.secondary">
+              PDF opens the print dialog; choose "Save as PDF" as the destination.
+            </Typography>
+          </Stack>
+        </Paper>
+
+        <Paper sx={{ flexGrow: 1, width: '100%', overflow: 'hidden' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <Box
+              component="iframe"
+              ref={preview}
+              title="CV preview"
+              srcDoc={html}
+              sx={{ width: '100%', height: '80vh', border: 0, display: 'block', bgcolor: 'white' }}
+            />
+          )}
+        </Paper>
+      </Stack>
+    </Box>
+  );
+}
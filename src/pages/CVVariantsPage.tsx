@@ -0,0 +1,412 @@
+/**
+ * CV Variants Page
+ *
+ * Tailors the CV to a job application: pick and order the experiences,
+ * keep the achievements that matter for the role, choose technologies
+ * (optionally ranked against the job description, with the AI Agent's
+ * similarity search) and write a summary for the role. Variants are saved
+ * to the admin worker only, never to the public portfolio; the Export CV
+ * page previews and exports any variant.
+ */
+
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Stack,
+  TextField,
+  List,
+  ListItemButton,
+  ListItemText,
+  Checkbox,
+  FormControlLabel,
+  Switch,
+  IconButton,
+  Chip,
+  Alert,
+  CircularProgress,
+  Divider,
+  Tooltip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Save as SaveIcon,
+  Delete as DeleteIcon,
+  ArrowUpward as UpIcon,
+  ArrowDownward as DownIcon,
+  Sort as RankIcon,
+  Visibility as PreviewIcon,
+} from '@mui/icons-material';
+import { usePortfolioSnapshot } from '@hooks/useCVBundle';
+import { useCVVariants, useSaveCVVariant, useDeleteCVVariant, useJobRelevance } from '@hooks/useCVVariants';
+import {
+  createVariant,
+  experienceKey,
+  rankByRelevance,
+  type CVVariant,
+  type CVVariantExperience,
+} from '@services/cv';
+import type { Experience } from '@/types';
+
+/** Similarity scores at or above this add a technology to the variant when ranking */
+const RELEVANT_SCORE = 0.6;
+
+function toggleExperience(variant: CVVariant, key: string): CVVariant {
+  const included = variant.experiences.some(e => e.key === key);
+  return {
+    ...variant,
+    experiences: included ? variant.experiences.filter(e => e.key !== key) : [...variant.experiences, { key }],
+  };
+}
+
+function moveExperience(variant: CVVariant, index: number, offset: number): CVVariant {
+  const experiences = [...variant.experiences];
+  const [moved] = experiences.splice(index, 1);
+  experiences.splice(index + offset, 0, moved);
+  return { ...variant, experiences };
+}
+
+function toggleAchievement(variant: CVVariant, experience: Experience, title: string): CVVariant {
+  const key = experienceKey(experience);
+  const all = experience.categories.flatMap(category => category.achievements.map(a => a.title));
+  return {
+    ...variant,
+    experiences: variant.experiences.map((selection): CVVariantExperience => {
+      if (selection.key !== key) return selection;
+      const kept = selection.achievements ?? all;
+      return { ...selection, achievements: kept.includes(title) ? kept.filter(t => t !== title) : [...kept, title] };
+    }),
+  };
+}
+
+function toggleTechnology(variant: CVVariant, name: string): CVVariant {
+  const included = variant.technologies.includes(name);
+  return {
+    ...variant,
+    technologies: included ? variant.technologies.filter(t => t !== name) : [...variant.technologies, name],
+  };
+}
+
+export function CVVariantsPage() {
+  const navigate = useNavigate();
+  const { data: snapshot, isLoading: loadingSnapshot, error: snapshotError } = usePortfolioSnapshot();
+  const { data: variants = [], isLoading: loadingVariants, error: variantsError } = useCVVariants();
+  const saveMutation = useSaveCVVariant();
+  const deleteMutation = useDeleteCVVariant();
+  const relevance = useJobRelevance();
+
+  const [draft, setDraft] = useState<CVVariant | null>(null);
+  const [useAI, setUseAI] = useState(true);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [success, setSuccess] = useState<string | null>(null);
+  const [isDirty, setDirty] = useState(false);
+
+  const saved = variants.find(v => v.id === draft?.id);
+
+  const experiences = useMemo(
+    () => new Map((snapshot?.experiences ?? []).map(item => [experienceKey(item), item])),
+    [snapshot]
+  );
+  // Included experiences in the variant's order, then the rest
+  const experienceRows = useMemo(() => {
+    if (!draft || !snapshot) return [];
+    const included = draft.experiences.flatMap(selection => {
+      const experience = experiences.get(selection.key);
+      return experience ? [{ experience, selection }] : [];
+    });
+    const rest = snapshot.experiences
+      .filter(item => !draft.experiences.some(e => e.key === experienceKey(item)))
+      .map(experience => ({ experience, selection: undefined }));
+    return [...included, ...rest];
+  }, [draft, snapshot, experiences]);
+  const technologyNames = useMemo(() => {
+    if (!draft || !snapshot) return [];
+    const rest = snapshot.technologies
+      .map(tech => tech.name)
+      .filter(name => !draft.technologies.includes(name))
+      .sort((a, b) => a.localeCompare(b));
+    return [...draft.technologies, ...rest];
+  }, [draft, snapshot]);
+
+  const edit = (next: CVVariant) => {
+    setDraft(next);
+    setDirty(true);
+    setSuccess(null);
+  };
+
+  const select = (variant: CVVariant | null) => {
+    setDraft(variant);
+    setDirty(false);
+    setScores({});
+  };
+
+  const handleNew = () => {
+    if (!snapshot) return;
+    select(null);
+    edit(createVariant(snapshot, `Variant ${variants.length + 1}`));
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const next = { ...draft, name: draft.name.trim(), updated_at: new Date().toISOString() };
+    setDraft(next);
+    saveMutation.mutate(next, {
+      onSuccess: () => {
+        setDirty(false);
+        setSuccess(`"${next.name}" saved.`);
+      },
+    });
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    if (saved) {
+      deleteMutation.mutate(draft.id);
+    }
+    select(null);
+  };
+
+  const handleRank = async () => {
+    if (!draft?.jobDescription || !snapshot) return;
+    let similarity: Record<string, number> = {};
+    if (useAI) {
+      try {
+        similarity = await relevance.mutateAsync(draft.jobDescription);
+      } catch {
+        return; // Shown from relevance.error
+      }
+    }
+    const ranked = rankByRelevance(snapshot.technologies, draft.jobDescription, similarity);
+    setScores(Object.fromEntries(ranked.map(r => [r.name, r.score])));
+    edit({
+      ...draft,
+      technologies: ranked
+        .filter(r => r.score >= RELEVANT_SCORE || draft.technologies.includes(r.name))
+        .map(r => r.name),
+    });
+  };
+
+  const error = snapshotError ?? variantsError;
+  const isSaving = saveMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <Box>
+      <Typography variant="h4" sx={{ mb: 1 }}>CV Variants</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Tailor the CV to a job application by choosing and ordering what it shows. Preview and export a
+        variant from the Export CV page.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>Could not load the portfolio: {error.message}</Alert>}
+      {deleteMutation.error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => deleteMutation.reset()}>
+          Could not delete the variant: {deleteMutation.error.message}
+        </Alert>
+      )}
+
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={3} alignItems="flex-start">
+        <Paper sx={{ width: { xs: '100%', md: 260 }, flexShrink: 0 }}>
+          <Box sx={{ p: 2 }}>
+            <Button fullWidth variant="contained" startIcon={<AddIcon />} disabled={!snapshot} onClick={handleNew}>
+              New variant
+            </Button>
+          </Box>
+          <Divider />
+          {loadingSnapshot || loadingVariants ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : (
+            <List dense>
+              {variants.length === 0 && (
+                <Typography variant="body2" color="text.secondary" sx={{ px: 2, py: 1 }}>No variants yet.</Typography>
+              )}
+              {variants.map(v => (
+                <ListItemButton
+                  key={v.id}
+                  selected={v.id === draft?.id}
+                  onClick={() => select(v)}
+                >
+                  <ListItemText
+                    primary={v.name}
+                    secondary={`Updated ${new Date(v.updated_at).toLocaleDateString()}`}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          )}
+        </Paper>
+
+        {draft && snapshot ? (
+          <Paper sx={{ p: 3, flexGrow: 1, width: '100%' }}>
+            <Stack spacing={3}>
+              <TextField
+                label="Name"
+                value={draft.name}
+                onChange={(e) => edit({ ...draft, name: e.target.value })}
+                helperText="The role or company this variant is for"
+                required
+              />
+              <TextField
+                label="Profile summary"
+                value={draft.summary ?? ''}
+                onChange={(e) => edit({ ...draft, summary: e.target.value || undefined })}
+                placeholder={snapshot.profile?.summary}
+                helperText="Leave empty to use the portfolio summary"
+                multiline
+                minRows={3}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+
+              <Box>
+                <Typography variant="h6" gutterBottom>Job description</Typography>
+                <TextField
+                  fullWidth
+                  label="Job description"
+                  value={draft.jobDescription ?? ''}
+                  onChange={(e) => edit({ ...draft, jobDescription: e.target.value || undefined })}
+                  multiline
+                  minRows={4}
+                  maxRows={12}
+                />
+                <Stack direction="row" spacing={2} alignItems="center" sx={{ mt: 1 }}>
+                  <Button
+                    variant="outlined"
+                    startIcon={relevance.isPending ? <CircularProgress size={20} /> : <RankIcon />}
+                    disabled={!draft.jobDescription?.trim() || relevance.isPending}
+                    onClick={() => void handleRank()}
+                  >
+                    Rank technologies
+                  </Button>
+                  <FormControlLabel
+                    control={<Switch checked={useAI} onChange={(e) => setUseAI(e.target.checked)} />}
+                    label="Use AI Agent similarity"
+                  />
+                </Stack>
+                {relevance.error && <Alert severity="error" sx={{ mt: 1 }}>{relevance.error.message}</Alert>}
+              </Box>
+
+              <Box>
+                <Typography variant="h6" gutterBottom>
+                  Experience ({draft.experiences.length} of {snapshot.experiences.length})
+                </Typography>
+                {experienceRows.map(({ experience, selection }) => {
+                  const key = experienceKey(experience);
+                  const index = draft.experiences.findIndex(e => e.key === key);
+                  const achievements = experience.categories.flatMap(category => category.achievements);
+                  return (
+                    <Box key={key} sx={{ py: 1, borderBottom: 1, borderColor: 'divider' }}>
+                      <Stack direction="row" alignItems="center">
+                        <Checkbox checked={Boolean(selection)} onChange={() => edit(toggleExperience(draft, key))} />
+                        <ListItemText
+                          primary={`${experience.role} at ${experience.company}`}
+                          secondary={experience.period}
+                          sx={{ flexGrow: 1 }}
+                        />
+                        {selection && (
+                          <>
+                            <Tooltip title="Move up">
+                              <span>
+                                <IconButton size="small" disabled={index === 0} onClick={() => edit(moveExperience(draft, index, -1))}>
+                                  <UpIcon fontSize="small" />
+                                </IconButton>
+                              </span>
+                            </Tooltip>
+                            <Tooltip title="Move down">
+                              <span>
+                                <IconButton
+                                  size="small"
+                                  disabled={index === draft.experiences.length - 1}
+                                  onClick={() => edit(moveExperience(draft, index, 1))}
+                                >
+                                  <DownIcon fontSize="small" />
+                                </IconButton>
+                              </span>
+                            </Tooltip>
+                          </>
+                        )}
+                      </Stack>
+                      {selection && achievements.length > 0 && (
+                        <Stack sx={{ pl: 6 }}>
+                          {achievements.map(achievement => (
+                            <FormControlLabel
+                              key={achievement.title}
+                              control={
+                                <Checkbox
+                                  size="small"
+                                  checked={selection.achievements?.includes(achievement.title) ?? true}
+                                  onChange={() => edit(toggleAchievement(draft, experience, achievement.title))}
+                                />
+                              }
+                              label={<Typography variant="body2">{achievement.title}</Typography>}
+                            />
+                          ))}
+                        </Stack>
+                      )}
+                    </Box>
+                  );
+                })}
+              </Box>
+
+              <Box>
+                <Typography variant="h6" gutterBottom>
+                  Technologies ({draft.technologies.length} of {snapshot.technologies.length})
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  Selected technologies are listed first, in the order the CV shows them. Click to add or remove.
+                </Typography>
+                <Stack direction="row" spacing={1} sx={{ flexWrap: 'wrap' }} useFlexGap>
+                  {technologyNames.map(name => {
+                    const score = scores[name];
+                    return (
+                      <Chip
+                        key={name}
+                        size="small"
+                        label={score !== undefined && score > 0 ? `${name} · ${Math.round(score * 100)}%` : name}
+                        color={draft.technologies.includes(name) ? 'primary' : 'default'}
+                        variant={draft.technologies.includes(name) ? 'filled' : 'outlined'}
+                        onClick={() => edit(toggleTechnology(draft, name))}
+                      />
+                    );
+                  })}
+                </Stack>
+              </Box>
+
+              {saveMutation.error && <Alert severity="error">{saveMutation.error.message}</Alert>}
+              {success && <Alert severity="success">{success}</Alert>}
+
+              <Stack direction="row" spacing={2}>
+                <Button
+                  variant="contained"
+                  startIcon={saveMutation.isPending ? <CircularProgress size={20} /> : <SaveIcon />}
+                  disabled={!draft.name.trim() || !isDirty || isSaving}
+                  onClick={handleSave}
+                >
+                  Save variant
+                </Button>
+                <Button
+                  variant="outlined"
+                  startIcon={<PreviewIcon />}
+                  disabled={!saved || isDirty}
+                  onClick={() => navigate(`/export/cv?variant=${encodeURIComponent(draft.id)}`)}
+                >
+                  Preview & export
+                </Button>
+                <Button color="error" startIcon={<DeleteIcon />} disabled={isSaving} onClick={handleDelete}>
+                  Delete
+                </Button>
+              </Stack>
+            </Stack>
+          </Paper>
+        ) : (
+          <Paper sx={{ p: 4, flexGrow: 1, width: '100%', textAlign: 'center' }}>
+            <Typography color="text.secondary">Choose a variant, or create one from the portfolio.</Typography>
+          </Paper>
+        )}
+      </Stack>
+    </Box>
+  );
+}
@@ -8,7 +8,8 @@
  * 4. Real-time status via WebSocket
  */
 
-import React, { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
     Box,
     Typography,
@@ -23,36 +24,61 @@ import {
     DialogTitle,
     DialogContent,
     DialogActions,
-    List,
-    ListItem,
-    ListItemText,
-    ListItemSecondaryAction,
-    Divider,
+    Snackbar,
     CircularProgress,
     Stack,
+    Accordion,
+    AccordionSummary,
+    AccordionDetails,
+    Divider,
+    FormControlLabel,
+    Switch,
 } from '@mui/material';
 import {
     Add as AddIcon,
-    Delete as DeleteIcon,
     Send as SendIcon,
     CloudUpload as PushIcon,
-    CheckCircle as SuccessIcon,
-    Error as ErrorIcon,
     Refresh as RefreshIcon,
+    ClearAll as ClearCacheIcon,
+    ExpandMore as ExpandMoreIcon,
+    Undo as RevertIcon,
+    Replay as RetryIcon,
+    Schedule as ScheduleIcon,
+    HowToReg as ReviewIcon,
 } from '@mui/icons-material';
+import { ChangeDiff } from '@components/ChangeDiff';
+import { StagingArea } from '@components/StagingArea';
+import { ThreeWayMerge } from '@components/ThreeWayMerge';
 import {
     useUncommittedChanges,
     useCommits,
     useCommitDetails,
     useStagingStats,
-    useDeleteStagedChangeV2,
     useCreateCommit,
     usePushToD1CV,
     usePushToAI,
+    useRevertCommit,
+    useRetryCommit,
+    useCommitConflicts,
+    useScheduleCommit,
+    useReviewCommit,
+    pushBlockedReason,
+    retryTarget,
+    failedChangeTarget,
     useJobWebSocket,
+    latestJobForCommit,
+    useLegacyStagedChanges,
+    usePurgeD1CVCache,
+    changeLabel,
+    changeSubject,
     type StagedChange,
     type Commit,
     type DOJobStatus,
+    type PushTarget,
+    type PushResponse,
+    type ChangePushStatus,
+    type CreateCommitRequest,
+    type ReviewStatus,
 } from '@/hooks';
 
 const statusColors: Record<string, 'default' | 'primary' | 'secondary' | 'success' | 'error' | 'warning'> = {
@@ -63,67 +89,96 @@ const statusColors: Record<string, 'default' | 'primary' | 'secondary' | 'succes
     failed: 'error',
 };
 
-const actionColors: Record<string, 'default' | 'primary' | 'secondary' | 'success' | 'error' | 'warning'> = {
-    CREATE: 'success',
-    UPDATE: 'primary',
-    DELETE: 'error',
+const pushStatusColors: Record<ChangePushStatus, 'default' | 'success' | 'error' | 'warning'> = {
+    applied: 'success',
+    failed: 'error',
+    skipped: 'default',
+    conflict: 'warning',
 };
 
-function StagedChangeItem({
-    change,
-    onDelete,
-    isDeleting,
-}: {
-    change: StagedChange;
-    onDelete: () => void;
-    isDeleting: boolean;
-}) {
+const targetLabels: Record<PushTarget, string> = {
+    'd1cv': 'D1CV',
+    'ai-agent': 'AI',
+};
+
+function PushStatusChip({ target, status }: { target: PushTarget; status?: ChangePushStatus | null }) {
     return (
-        <ListItem>
-            <ListItemText
-                primary={
-                    <Stack direction="row" spacing={1} alignItems="center">
-                        <Chip size="small" label={change.action} color={actionColors[change.action]} />
-                        <Chip size="small" label={change.entity_type} variant="outlined" />
-                        <Typography variant="body1">
-                            {change.stable_id || change.entity_id || 'New'}
-                        </Typography>
-                    </Stack>
-                }
-                secondary={
-                    <Typography variant="caption" color="textSecondary">
-                        Target: {change.target} • Created: {new Date(change.created_at).toLocaleString()}
-                    </Typography>
-                }
-            />
-            <ListItemSecondaryAction>
-                <IconButton edge="end" onClick={onDelete} disabled={isDeleting}>
-                    {isDeleting ? <CircularProgress size={20} /> : <DeleteIcon />}
-                </IconButton>
-            </ListItemSecondaryAction>
-        </ListItem>
+        <Chip
+            size="small"
+            variant={status === 'applied' ? 'filled' : 'outlined'}
+            color={status ? pushStatusColors[status] : 'default'}
+            label={`${targetLabels[target]}: ${status ?? 'not pushed'}`}
+        />
     );
 }
 
+const reviewColors: Record<ReviewStatus, 'default' | 'warning' | 'success' | 'error'> = {
+    not_required: 'default',
+    pending: 'warning',
+    approved: 'success',
+    rejected: 'error',
+};
+
+/**
+ * Convert between ISO timestamps and the local time a datetime-local input shows
+ */
+function toLocalInput(iso: string): string {
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | undefined {
+    return value ? new Date(value).toISOString() : undefined;
+}
+
+const actionColors: Record<string, 'default' | 'primary' | 'secondary' | 'success' | 'error' | 'warning'> = {
+    CREATE: 'success',
+    UPDATE: 'primary',
+    DELETE: 'error',
+};
+
 function CommitItem({
     commit,
     onPushD1CV,
     onPushAI,
     onViewDetails,
+    onRevert,
+    onRetry,
+    onSchedule,
+    onRequestReview,
     isPushingD1CV,
     isPushingAI,
+    isReverting,
+    isRetrying,
     jobStatus,
+    revertsCommit,
+    revertedByCommit,
 }: {
     commit: Commit;
     onPushD1CV: () => void;
     onPushAI: () => void;
     onViewDetails: () => void;
+    onRevert: () => void;
+    onRetry: (target: PushTarget) => void;
+    onSchedule: () => void;
+    onRequestReview: () => void;
     isPushingD1CV: boolean;
     isPushingAI: boolean;
+    isReverting: boolean;
+    isRetrying: boolean;
     jobStatus?: DOJobStatus;
+    revertsCommit?: Commit;
+    revertedByCommit?: Commit;
 }) {
-    const canPushD1CV = commit.status === 'pending' || commit.status === 'failed';
+    // Only pending commits are pushed from the list; the details dialog checks the others
+    const { data: conflicts = [] } = useCommitConflicts(commit.status === 'pending' ? commit : null);
+    const reviewBlock = pushBlockedReason(commit);
+    const blocked = conflicts.length > 0 || reviewBlock !== null;
+    const canReview = commit.status === 'pending' && (!commit.review_status || commit.review_status === 'not_required');
+    const canPushD1CV = commit.status === 'pending';
     const canPushAI = commit.status === 'applied_d1cv' || commit.status === 'pending';
+    const failedTarget = retryTarget(commit);
+    const canRevert = commit.status === 'applied_all' && !commit.reverted_by;
 
     return (
         <Paper sx={{ p: 2, mb: 2 }}>
@@ -137,11 +192,59 @@ function CommitItem({
                             color={statusColors[commit.status]}
                         />
                         <Chip size="small" label={`Target: ${commit.target}`} variant="outlined" />
+                        {conflicts.length > 0 && (
+                            <Chip
+                                size="small"
+                                color="warning"
+                                label={`${conflicts.length} conflict(s) with production`}
+                                onClick={onViewDetails}
+                            />
+                        )}
+                        {commit.review_status && commit.review_status !== 'not_required' && (
+                            <Chip
+                                size="small"
+                                variant="outlined"
+                                color={reviewColors[commit.review_status]}
+                                label={commit.approved_by
+                                    ? `Review: ${commit.review_status} by ${commit.approved_by}`
+                                    : `Review: ${commit.review_status}`}
+                            />
+                        )}
+                        {commit.scheduled_at && commit.status !== 'applied_all' && (
+                            <Chip
+                                size="small"
+                                variant="outlined"
+                                icon={<ScheduleIcon />}
+                                label={`Pushes ${new Date(commit.scheduled_at).toLocaleString()}`}
+                                onClick={onSchedule}
+                            />
+                        )}
+                        {commit.reverts && (
+                            <Chip
+                                size="small"
+                                variant="outlined"
+                                color="info"
+                                label={`Reverts: ${revertsCommit?.message ?? commit.reverts}`}
+                            />
+                        )}
+                        {commit.reverted_by && (
+                            <Chip
+                                size="small"
+                                variant="outlined"
+                                color="warning"
+                                label={`Reverted by: ${revertedByCommit?.message ?? commit.reverted_by}`}
+                            />
+                        )}
                     </Stack>
                     <Typography variant="caption" color="textSecondary" sx={{ mt: 1, display: 'block' }}>
                         Created: {new Date(commit.created_at).toLocaleString()}
                         {commit.created_by && ` by ${commit.created_by}`}
                     </Typography>
+                    {reviewBlock && (
+                        <Typography variant="caption" color="warning.main" sx={{ display: 'block' }}>
+                            {reviewBlock}
+                        </Typography>
+                    )}
                     {commit.error_message && (
                         <Alert severity="error" sx={{ mt: 1 }}>
                             {commit.error_message}
@@ -158,7 +261,7 @@ function CommitItem({
                             color="primary"
                             size="small"
                             onClick={onPushD1CV}
-                            disabled={isPushingD1CV}
+                            disabled={isPushingD1CV || blocked}
                             startIcon={isPushingD1CV ? <CircularProgress size={16} /> : <PushIcon />}
                         >
                             Push D1CV
@@ -170,12 +273,46 @@ function CommitItem({
                             color="secondary"
                             size="small"
                             onClick={onPushAI}
-                            disabled={isPushingAI}
+                            disabled={isPushingAI || blocked}
                             startIcon={isPushingAI ? <CircularProgress size={16} /> : <PushIcon />}
                         >
                             Push AI
                         </Button>
                     )}
+                    {failedTarget && (
+                        <Button
+                            variant="contained"
+                            color="error"
+                            size="small"
+                            onClick={() => onRetry(failedTarget)}
+                            disabled={isRetrying || blocked}
+                            startIcon={isRetrying ? <CircularProgress size={16} /> : <RetryIcon />}
+                        >
+                            Retry {targetLabels[failedTarget]}
+                        </Button>
+                    )}
+                    {commit.status === 'pending' && (
+                        <IconButton size="small" onClick={onSchedule} title="Schedule push">
+                            <ScheduleIcon />
+                        </IconButton>
+                    )}
+                    {canReview && (
+                        <IconButton size="small" onClick={onRequestReview} title="Require approval">
+                            <ReviewIcon />
+                        </IconButton>
+                    )}
+                    {canRevert && (
+                        <Button
+                            variant="outlined"
+                            color="warning"
+                            size="small"
+                            onClick={onRevert}
+                            disabled={isReverting}
+                            startIcon={isReverting ? <CircularProgress size={16} /> : <RevertIcon />}
+                        >
+                            Revert
+                        </Button>
+                    )}
                 </Stack>
             </Stack>
             {jobStatus && (
@@ -209,16 +346,24 @@ function CreateCommitDialog({
 }: {
     open: boolean;
     onClose: () => void;
-    onSubmit: (message: string) => void;
+    onSubmit: (request: CreateCommitRequest) => void;
     isLoading: boolean;
     uncommittedCount: number;
 }) {
     const [message, setMessage] = useState('');
+    const [requireReview, setRequireReview] = useState(false);
+    const [scheduledAt, setScheduledAt] = useState('');
 
     const handleSubmit = () => {
         if (message.trim()) {
-            onSubmit(message.trim());
+            onSubmit({
+                message: message.trim(),
+                require_review: requireReview || undefined,
+                scheduled_at: fromLocalInput(scheduledAt),
+            });
             setMessage('');
+            setRequireReview(false);
+            setScheduledAt('');
         }
     };
 
@@ -239,6 +384,20 @@ function CreateCommitDialog({
                     onChange={(e) => setMessage(e.target.value)}
                     placeholder="e.g., Add React expertise, update Angular years"
                 />
+                <TextField
+                    label="Push automatically at (optional)"
+                    type="datetime-local"
+                    fullWidth
+                    sx={{ mt: 2 }}
+                    value={scheduledAt}
+                    onChange={(e) => setScheduledAt(e.target.value)}
+                    InputLabelProps={{ shrink: true }}
+                />
+                <FormControlLabel
+                    sx={{ mt: 1 }}
+                    control={<Switch checked={requireReview} onChange={(e) => setRequireReview(e.target.checked)} />}
+                    label="Require approval from a second reviewer before pushing"
+                />
             </DialogContent>
             <DialogActions>
                 <Button onClick={onClose}>Cancel</Button>
@@ -255,48 +414,229 @@ function CreateCommitDialog({
     );
 }
 
+function ScheduleDialog({
+    commit,
+    onClose,
+}: {
+    commit: Commit | null;
+    onClose: () => void;
+}) {
+    const scheduleCommit = useScheduleCommit();
+    const [value, setValue] = useState('');
+
+    const save = async (scheduledAt: string | null) => {
+        if (!commit) {
+            return;
+        }
+        try {
+            await scheduleCommit.mutateAsync({ commit_id: commit.id, scheduled_at: scheduledAt });
+            onClose();
+        } catch (error) {
+            console.error('Failed to schedule commit:', error);
+        }
+    };
+
+    return (
+        <Dialog
+            open={commit !== null}
+            onClose={onClose}
+            maxWidth="xs"
+            fullWidth
+            TransitionProps={{ onEnter: () => setValue(commit?.scheduled_at ? toLocalInput(commit.scheduled_at) : '') }}
+        >
+            <DialogTitle>Schedule Push</DialogTitle>
+            <DialogContent>
+                <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+                    &quot;{commit?.message}&quot; will be pushed to every target at this time
+                    {commit?.review_status === 'pending' && ', once it has been approved'}.
+                </Typography>
+                {scheduleCommit.error && (
+                    <Alert severity="error" sx={{ mb: 2 }}>{scheduleCommit.error.message}</Alert>
+                )}
+                <TextField
+                    label="Push at"
+                    type="datetime-local"
+                    fullWidth
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    InputLabelProps={{ shrink: true }}
+                />
+            </DialogContent>
+            <DialogActions>
+                {commit?.scheduled_at && (
+                    <Button color="warning" onClick={() => save(null)} disabled={scheduleCommit.isPending}>
+                        Cancel Schedule
+                    </Button>
+                )}
+                <Button onClick={onClose}>Close</Button>
+                <Button
+                    variant="contained"
+                    onClick={() => save(fromLocalInput(value) ?? null)}
+                    disabled={!value || scheduleCommit.isPending}
+                    startIcon={scheduleCommit.isPending ? <CircularProgress size={16} /> : <ScheduleIcon />}
+                >
+                    Schedule
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
+
+/**
+ * Commits waiting on a second reviewer
+ */
+function ApprovalPanel({ commits, onViewDetails }: { commits: Commit[]; onViewDetails: (id: string) => void }) {
+    const reviewCommit = useReviewCommit();
+    const [comments, setComments] = useState<Record<string, string>>({});
+
+    if (commits.length === 0) {
+        return null;
+    }
+
+    const decide = (commit: Commit, decision: 'approve' | 'reject') => {
+        reviewCommit.mutate({ commit_id: commit.id, decision, comment: comments[commit.id] });
+    };
+
+    return (
+        <Paper sx={{ p: 2, mb: 3 }}>
+            <Typography variant="h6" sx={{ mb: 1 }}>Awaiting Approval</Typography>
+            {reviewCommit.error && (
+                <Alert severity="error" sx={{ mb: 2 }} onClose={() => reviewCommit.reset()}>
+                    {reviewCommit.error.message}
+                </Alert>
+            )}
+            <Stack spacing={2} divider={<Divider />}>
+                {commits.map((commit) => (
+                    <Stack key={commit.id} direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }}>
+                        <Box sx={{ flexGrow: 1 }}>
+                            <Typography variant="subtitle1">{commit.message}</Typography>
+                            <Typography variant="caption" color="textSecondary">
+                                By {commit.created_by ?? 'unknown'} • {new Date(commit.created_at).toLocaleString()}
+                                {commit.scheduled_at && ` • Scheduled for ${new Date(commit.scheduled_at).toLocaleString()}`}
+                            </Typography>
+                        </Box>
+                        <TextField
+                            size="small"
+                            label="Comment"
+                            value={comments[commit.id] ?? ''}
+                            onChange={(e) => setComments(prev => ({ ...prev, [commit.id]: e.target.value }))}
+                        />
+                        <Stack direction="row" spacing={1}>
+                            <Button size="small" onClick={() => onViewDetails(commit.id)}>Review Changes</Button>
+                            <Button
+                                size="small"
+                                variant="contained"
+                                color="success"
+                                disabled={reviewCommit.isPending}
+                                onClick={() => decide(commit, 'approve')}
+                            >
+                                Approve
+                            </Button>
+                            <Button
+                                size="small"
+                                variant="outlined"
+                                color="error"
+                                disabled={reviewCommit.isPending}
+                                onClick={() => decide(commit, 'reject')}
+                            >
+                                Reject
+                            </Button>
+                        </Stack>
+                    </Stack>
+                ))}
+            </Stack>
+        </Paper>
+    );
+}
+
 export function CommitsPage() {
+    const navigate = useNavigate();
+    const [searchParams, setSearchParams] = useSearchParams();
     const [commitDialogOpen, setCommitDialogOpen] = useState(false);
+    const [cacheSnackbar, setCacheSnackbar] = useState(false);
     const [selectedCommitId, setSelectedCommitId] = useState<string | null>(null);
+    const [diffChange, setDiffChange] = useState<StagedChange | null>(null);
+    const [schedulingCommit, setSchedulingCommit] = useState<Commit | null>(null);
+    const [lastPush, setLastPush] = useState<{ commitId: string; target: PushTarget; response: PushResponse } | null>(null);
+
+    // Links from the jobs tray and notifications open the commit's details
+    const linkedCommitId = searchParams.get('commit');
+    useEffect(() => {
+        if (linkedCommitId) {
+            setSelectedCommitId(linkedCommitId);
+            setSearchParams({}, { replace: true });
+        }
+    }, [linkedCommitId, setSearchParams]);
 
     // Queries
     const { data: uncommittedChanges, isLoading: loadingUncommitted, refetch: refetchUncommitted } = useUncommittedChanges();
     const { data: commits, isLoading: loadingCommits, refetch: refetchCommits } = useCommits();
     const { data: stats, refetch: refetchStats } = useStagingStats();
     const { data: commitDetails } = useCommitDetails(selectedCommitId);
+    const { data: detailConflicts = [] } = useCommitConflicts(commitDetails ?? null);
+    const { data: legacyPairs = [] } = useLegacyStagedChanges();
 
     // Mutations
-    const deleteStagedChange = useDeleteStagedChangeV2();
     const createCommit = useCreateCommit();
     const pushToD1CV = usePushToD1CV();
     const pushToAI = usePushToAI();
+    const revertCommit = useRevertCommit();
+    const retryCommit = useRetryCommit();
+    const reviewCommit = useReviewCommit();
+    const purgeCache = usePurgeD1CVCache();
 
-    // WebSocket for real-time updates
-    const { isConnected, jobStatus, subscribe } = useJobWebSocket();
+    // WebSocket for real-time updates (connection state is shown in the app bar)
+    const { jobStatus, subscribe } = useJobWebSocket();
 
-    const handleCreateCommit = async (message: string) => {
+    const handleCreateCommit = async (request: CreateCommitRequest) => {
         try {
-            await createCommit.mutateAsync({ message });
+            await createCommit.mutateAsync(request);
             setCommitDialogOpen(false);
         } catch (error) {
             console.error('Failed to create commit:', error);
         }
     };
 
-    const handlePushD1CV = async (commitId: string) => {
-        const result = await pushToD1CV.mutateAsync({ commit_id: commitId });
+    const handlePushResult = (commitId: string, target: PushTarget, result: PushResponse) => {
+        setLastPush({ commitId, target, response: result });
         if (result.job_id) {
             subscribe(result.job_id);
         }
     };
 
+    const handlePushD1CV = async (commitId: string) => {
+        try {
+            handlePushResult(commitId, 'd1cv', await pushToD1CV.mutateAsync({ commit_id: commitId }));
+        } catch (error) {
+            console.error('Failed to push to D1CV:', error);
+        }
+    };
+
     const handlePushAI = async (commitId: string) => {
-        const result = await pushToAI.mutateAsync({ commit_id: commitId });
-        if (result.job_id) {
-            subscribe(result.job_id);
+        try {
+            handlePushResult(commitId, 'ai-agent', await pushToAI.mutateAsync({ commit_id: commitId }));
+        } catch (error) {
+            console.error('Failed to push to AI Agent:', error);
+        }
+    };
+
+    const handleRetry = async (commitId: string, target: PushTarget, changeIds?: string[]) => {
+        try {
+            const result = await retryCommit.mutateAsync({ commit_id: commitId, target, change_ids: changeIds });
+            handlePushResult(commitId, target, result);
+        } catch (error) {
+            console.error('Failed to retry push:', error);
         }
     };
 
+    const handleRevert = (commit: Commit) => {
+        if (window.confirm(`Stage a new commit that undoes "${commit.message}"? It takes effect once pushed.`)) {
+            revertCommit.mutate(commit.id);
+        }
+    };
+
+    const findCommit = (id?: string | null) => (id ? commits?.find(c => c.id === id) : undefined);
+
     const handleRefresh = () => {
         refetchUncommitted();
         refetchCommits();
@@ -309,18 +649,37 @@ export function CommitsPage() {
             <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
                 <Typography variant="h4">Commits</Typography>
                 <Stack direction="row" spacing={1} alignItems="center">
-                    <Chip
+                    <Button
+                        variant="outlined"
+                        color="warning"
                         size="small"
-                        label={isConnected ? 'Connected' : 'Disconnected'}
-                        color={isConnected ? 'success' : 'error'}
-                        icon={isConnected ? <SuccessIcon /> : <ErrorIcon />}
-                    />
+                        startIcon={purgeCache.isPending ? <CircularProgress size={16} /> : <ClearCacheIcon />}
+                        onClick={() => purgeCache.mutate(undefined, { onSuccess: () => setCacheSnackbar(true) })}
+                        disabled={purgeCache.isPending}
+                    >
+                        Refresh Portfolio Cache
+                    </Button>
                     <IconButton onClick={handleRefresh}>
                         <RefreshIcon />
                     </IconButton>
                 </Stack>
             </Box>
 
+            {/* Rows left in the retired staging queue */}
+            {legacyPairs.length > 0 && (
+                <Alert
+                    severity="info"
+                    sx={{ mb: 3 }}
+                    action={
+                        <Button color="inherit" size="small" onClick={() => navigate('/staged')}>
+                            Migrate
+                        </Button>
+                    }
+                >
+                    {legacyPairs.length} change(s) are still in the old staging queue and will not be pushed until migrated.
+                </Alert>
+            )}
+
             {/* Stats */}
             {stats && (
                 <Paper sx={{ p: 2, mb: 3 }}>
@@ -365,26 +724,17 @@ export function CommitsPage() {
 
                 {loadingUncommitted && <LinearProgress />}
 
-                {uncommittedChanges?.length === 0 && (
-                    <Typography color="textSecondary" sx={{ py: 2, textAlign: 'center' }}>
-                        No uncommitted changes. Make edits to see them here.
-                    </Typography>
+                {uncommittedChanges && (
+                    <StagingArea changes={uncommittedChanges} onViewDiff={setDiffChange} />
                 )}
-
-                <List>
-                    {uncommittedChanges?.map((change) => (
-                        <React.Fragment key={change.id}>
-                            <StagedChangeItem
-                                change={change}
-                                onDelete={() => deleteStagedChange.mutate(change.id)}
-                                isDeleting={deleteStagedChange.isPending}
-                            />
-                            <Divider />
-                        </React.Fragment>
-                    ))}
-                </List>
             </Paper>
 
+            {/* Second-reviewer approvals */}
+            <ApprovalPanel
+                commits={commits?.filter(commit => commit.review_status === 'pending') ?? []}
+                onViewDetails={setSelectedCommitId}
+            />
+
             {/* Commits List */}
             <Typography variant="h6" sx={{ mb: 2 }}>Commits</Typography>
 
@@ -398,6 +748,53 @@ export function CommitsPage() {
                 </Paper>
             )}
 
+            {lastPush?.response.result && (
+                <Alert
+                    severity={lastPush.response.success ? 'success' : 'error'}
+                    sx={{ mb: 2 }}
+                    onClose={() => setLastPush(null)}
+                    action={
+                        <Button color="inherit" size="small" onClick={() => setSelectedCommitId(lastPush.commitId)}>
+                            Details
+                        </Button>
+                    }
+                >
+                    {targetLabels[lastPush.target]} push: {lastPush.response.message}
+                    {' '}({lastPush.response.result.inserted} inserted, {lastPush.response.result.updated} updated,
+                    {' '}{lastPush.response.result.deleted} deleted, {lastPush.response.result.failed ?? 0} failed)
+                </Alert>
+            )}
+
+            {pushToD1CV.error && (
+                <Alert severity="error" sx={{ mb: 2 }} onClose={() => pushToD1CV.reset()}>
+                    D1CV push failed: {pushToD1CV.error.message}
+                </Alert>
+            )}
+
+            {pushToAI.error && (
+                <Alert severity="error" sx={{ mb: 2 }} onClose={() => pushToAI.reset()}>
+                    AI Agent push failed: {pushToAI.error.message}
+                </Alert>
+            )}
+
+            {retryCommit.error && (
+                <Alert severity="error" sx={{ mb: 2 }} onClose={() => retryCommit.reset()}>
+                    Retry failed: {retryCommit.error.message}
+                </Alert>
+            )}
+
+            {reviewCommit.error && (
+                <Alert severity="error" sx={{ mb: 2 }} onClose={() => reviewCommit.reset()}>
+                    Review request failed: {reviewCommit.error.message}
+                </Alert>
+            )}
+
+            {revertCommit.error && (
+                <Alert severity="error" sx={{ mb: 2 }} onClose={() => revertCommit.reset()}>
+                    Revert failed: {revertCommit.error.message}
+                </Alert>
+            )}
+
             {commits?.map((commit) => (
                 <CommitItem
                     key={commit.id}
@@ -405,12 +802,22 @@ export function CommitsPage() {
                     onPushD1CV={() => handlePushD1CV(commit.id)}
                     onPushAI={() => handlePushAI(commit.id)}
                     onViewDetails={() => setSelectedCommitId(commit.id)}
+                    onRevert={() => handleRevert(commit)}
+                    onRetry={(target) => handleRetry(commit.id, target)}
+                    onSchedule={() => setSchedulingCommit(commit)}
+                    onRequestReview={() => reviewCommit.mutate({ commit_id: commit.id, decision: 'request' })}
                     isPushingD1CV={pushToD1CV.isPending}
                     isPushingAI={pushToAI.isPending}
-                    jobStatus={jobStatus.get(commit.id)}
+                    isReverting={revertCommit.isPending && revertCommit.variables === commit.id}
+                    isRetrying={retryCommit.isPending && retryCommit.variables?.commit_id === commit.id}
+                    jobStatus={latestJobForCommit(jobStatus, commit.id)}
+                    revertsCommit={findCommit(commit.reverts)}
+                    revertedByCommit={findCommit(commit.reverted_by)}
                 />
             ))}
 
+            <ScheduleDialog commit={schedulingCommit} onClose={() => setSchedulingCommit(null)} />
+
             {/* Create Commit Dialog */}
             <CreateCommitDialog
                 open={commitDialogOpen}
@@ -440,22 +847,58 @@ export function CommitsPage() {
                                 />
                                 <Chip label={`Target: ${commitDetails.target}`} variant="outlined" />
                             </Stack>
-                            <Typography variant="subtitle1" sx={{ mb: 1 }}>Changes:</Typography>
-                            <List>
-                                {commitDetails.changes?.map((change) => (
-                                    <ListItem key={change.id}>
-                                        <ListItemText
-                                            primary={
-                                                <Stack direction="row" spacing={1}>
-                                                    <Chip size="small" label={change.action} color={actionColors[change.action]} />
-                                                    <Typography>{change.entity_type}: {change.stable_id || change.entity_id}</Typography>
-                                                </Stack>
-                                            }
-                                            secondary={change.payload ? JSON.stringify(JSON.parse(change.payload), null, 2).substring(0, 100) + '...' : 'No payload'}
-                                        />
-                                    </ListItem>
-                                ))}
-                            </List>
+                            <Typography variant="subtitle1">Changes:</Typography>
+                            <Typography variant="caption" color="textSecondary" component="p" sx={{ mb: 1 }}>
+                                Compared with current production, so changes already pushed show no differences.
+                            </Typography>
+                            {commitDetails.changes?.map((change) => {
+                                const conflict = detailConflicts.find(c => c.change_id === change.id);
+                                const failedOn = failedChangeTarget(change);
+                                return (
+                                    <Accordion
+                                        key={change.id}
+                                        disableGutters
+                                        defaultExpanded={!!conflict}
+                                        TransitionProps={{ unmountOnExit: true }}
+                                    >
+                                        <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                                            <Stack direction="row" spacing={1} alignItems="center" sx={{ flexGrow: 1, mr: 1 }}>
+                                                <Chip size="small" label={change.action} color={actionColors[change.action]} />
+                                                <Typography sx={{ flexGrow: 1 }}>{change.entity_type}: {changeLabel(change)}</Typography>
+                                                {conflict && <Chip size="small" color="warning" label="Conflict" />}
+                                                {change.target !== 'ai-agent' && <PushStatusChip target="d1cv" status={change.d1cv_status} />}
+                                                {change.target !== 'd1cv' && <PushStatusChip target="ai-agent" status={change.ai_status} />}
+                                            </Stack>
+                                        </AccordionSummary>
+                                        <AccordionDetails>
+                                            {conflict ? (
+                                                <Box sx={{ mb: 2 }}>
+                                                    <ThreeWayMerge change={change} conflict={conflict} />
+                                                </Box>
+                                            ) : failedOn && (
+                                                <Alert
+                                                    severity="error"
+                                                    sx={{ mb: 2 }}
+                                                    action={
+                                                        <Button
+                                                            color="inherit"
+                                                            size="small"
+                                                            startIcon={<RetryIcon />}
+                                                            disabled={retryCommit.isPending}
+                                                            onClick={() => handleRetry(commitDetails.id, failedOn, [change.id])}
+                                                        >
+                                                            Retry change
+                                                        </Button>
+                                                    }
+                                                >
+                                                    {change.push_error ?? 'Push failed'}
+                                                </Alert>
+                                            )}
+                                            <ChangeDiff subject={changeSubject(change)} />
+                                        </AccordionDetails>
+                                    </Accordion>
+                                );
+                            })}
                         </>
                     )}
                 </DialogContent>
@@ -463,6 +906,33 @@ export function CommitsPage() {
                     <Button onClick={() => setSelectedCommitId(null)}>Close</Button>
                 </DialogActions>
             </Dialog>
+
+            {/* Staged Change Diff Dialog */}
+            <Dialog
+                open={diffChange !== null}
+                onClose={() => setDiffChange(null)}
+                maxWidth="md"
+                fullWidth
+            >
+                <DialogTitle>
+                    {diffChange && `${diffChange.action} ${diffChange.entity_type}: ${changeLabel(diffChange)}`}
+                </DialogTitle>
+                <DialogContent>
+                    {diffChange && <ChangeDiff subject={changeSubject(diffChange)} />}
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setDiffChange(null)}>Close</Button>
+                </DialogActions>
+            </Dialog>
+
+            {/* Cache Refresh Success Snackbar */}
+            <Snackbar
+                open={cacheSnackbar}
+                autoHideDuration={4000}
+                onClose={() => setCacheSnackbar(false)}
+                message="✓ Portfolio cache refreshed successfully"
+                anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+            />
         </Box>
     );
 }
@@ -8,6 +8,10 @@ import {
   Stack,
   Alert,
   CircularProgress,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -15,9 +19,11 @@ import {
   SyncAlt as SyncIcon,
   CheckCircle as CheckIcon,
   Warning as WarningIcon,
+  Schedule as ScheduleIcon,
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
-import { useStagedChangesCount } from '@hooks/useStagedChanges';
+import { useStagingStats, useCommits, upcomingPushes, pushBlockedReason } from '@hooks/useCommits';
+import { useLegacyStagedChanges } from '@hooks/useStagedChanges';
 import { useTechnologiesCount } from '@hooks/useTechnologies';
 
 interface StatCardProps {
@@ -62,10 +68,13 @@ function StatCard({ title, value, icon, color, bgColor }: StatCardProps) {
 
 export function DashboardPage() {
   const navigate = useNavigate();
-  const { data: stagedCount, isLoading: stagedLoading } = useStagedChangesCount();
+  const { data: stats, isLoading: statsLoading } = useStagingStats();
+  const { data: legacyPairs = [] } = useLegacyStagedChanges();
   const { data: techCount, isLoading: techLoading } = useTechnologiesCount();
+  const { data: commits = [] } = useCommits();
+  const scheduled = upcomingPushes(commits);
 
-  const isLoading = stagedLoading || techLoading;
+  const isLoading = statsLoading || techLoading;
 
   if (isLoading) {
     return (
@@ -101,8 +110,8 @@ export function DashboardPage() {
         </Grid>
         <Grid item xs={12} sm={6} md={3}>
           <StatCard
-            title="Pending Portfolio"
-            value={stagedCount?.d1cvPending ?? 0}
+            title="Uncommitted Changes"
+            value={stats?.uncommitted ?? 0}
             icon={<SyncIcon />}
             color="#ed6c02"
             bgColor="#fff3e0"
@@ -110,8 +119,8 @@ export function DashboardPage() {
         </Grid>
         <Grid item xs={12} sm={6} md={3}>
           <StatCard
-            title="Pending AI Sync"
-            value={stagedCount?.aiPending ?? 0}
+            title="Pending Commits"
+            value={stats?.pending_commits ?? 0}
             icon={<WarningIcon />}
             color="#9c27b0"
             bgColor="#f3e5f5"
@@ -119,8 +128,8 @@ export function DashboardPage() {
         </Grid>
         <Grid item xs={12} sm={6} md={3}>
           <StatCard
-            title="Applied Today"
-            value={stagedCount?.appliedToday ?? 0}
+            title="Fully Synced"
+            value={stats?.applied_all ?? 0}
             icon={<CheckIcon />}
             color="#2e7d32"
             bgColor="#e8f5e9"
@@ -129,20 +138,64 @@ export function DashboardPage() {
       </Grid>
 
       {/* Alerts */}
-      {stagedCount && stagedCount.aiPending > 0 && (
+      {stats && stats.applied_d1cv > 0 && (
         <Alert
           severity="warning"
+          action={
+            <Button color="inherit" size="small" onClick={() => navigate('/commits')}>
+              View Commits
+            </Button>
+          }
+          sx={{ mb: 3 }}
+        >
+          {stats.applied_d1cv} commit(s) are live on the portfolio but not yet pushed to the AI Agent. Push them to update the chatbot.
+        </Alert>
+      )}
+      {legacyPairs.length > 0 && (
+        <Alert
+          severity="info"
           action={
             <Button color="inherit" size="small" onClick={() => navigate('/staged')}>
-              View Staged
+              Migrate
             </Button>
           }
           sx={{ mb: 3 }}
         >
-          You have {stagedCount.aiPending} pending AI sync changes. These require manual sync to update the chatbot.
+          {legacyPairs.length} change(s) are still in the old staging queue. Migrate them to commits to push them.
         </Alert>
       )}
 
+      {/* Upcoming Scheduled Pushes */}
+      {scheduled.length > 0 && (
+        <Card sx={{ mb: 4 }}>
+          <CardContent>
+            <Stack direction="row" justifyContent="space-between" alignItems="center">
+              <Stack direction="row" spacing={1} alignItems="center">
+                <ScheduleIcon color="primary" />
+                <Typography variant="h6">Upcoming Pushes</Typography>
+              </Stack>
+              <Button size="small" onClick={() => navigate('/commits')}>
+                Manage
+              </Button>
+            </Stack>
+            <List dense>
+              {scheduled.map((commit) => {
+                const blocked = pushBlockedReason(commit);
+                return (
+                  <ListItem key={commit.id} disableGutters>
+                    <ListItemText
+                      primary={commit.message}
+                      secondary={`Pushes ${new Date(commit.scheduled_at!).toLocaleString()} to ${commit.target}`}
+                    />
+                    {blocked && <Chip size="small" color="warning" label={blocked} />}
+                  </ListItem>
+                );
+              })}
+            </List>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <Typography variant="h6" sx={{ mb: 2 }}>
         Quick Actions
@@ -187,7 +240,7 @@ export function DashboardPage() {
                 boxShadow: 4,
               },
             }}
-            onClick={() => navigate('/staged')}
+            onClick={() => navigate('/commits')}
           >
             <CardContent>
               <Stack direction="row" spacing={2} alignItems="center">
@@ -199,7 +252,7 @@ export function DashboardPage() {
                     Sync to AI Agent
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
-                    Push pending changes to chatbot
+                    Push pending commits to chatbot
                   </Typography>
                 </Box>
               </Stack>
@@ -0,0 +1,234 @@
+/**
+ * Push Jobs Page
+ *
+ * History of every push job the worker has run: when it started, how long
+ * it took, which side it targeted and how each side ended, with the error
+ * the worker reported. Running jobs are followed on the shared job
+ * connection so their rows update live.
+ */
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  TextField,
+  MenuItem,
+  Chip,
+  Link,
+  Stack,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { Refresh as RefreshIcon } from '@mui/icons-material';
+import { useJobHistory, mergeLiveJobs, jobDuration, formatDuration, type JobHistoryStatus } from '@hooks/useJobs';
+import { useJobWebSocket } from '@hooks/useJobWebSocket';
+import { useJobConnection } from '@services/JobConnectionContext';
+import { isTerminalJob, watchJobOutcomes, type DOJobStatus, type JobSideStatus } from '@services/jobs';
+import { dayStart, dayEnd } from '@utils/dates';
+
+const OUTCOME_COLORS: Record<DOJobStatus['overallStatus'], 'default' | 'info' | 'success' | 'error'> = {
+  pending: 'default',
+  'in-progress': 'info',
+  'd1cv-done': 'info',
+  'ai-done': 'info',
+  completed: 'success',
+  failed: 'error',
+};
+
+const SIDE_COLORS: Record<JobSideStatus, 'default' | 'info' | 'success' | 'error'> = {
+  pending: 'default',
+  'in-progress': 'info',
+  success: 'success',
+  failed: 'error',
+  skipped: 'default',
+};
+
+const TARGET_LABELS: Record<DOJobStatus['target'], string> = {
+  both: 'Both',
+  d1cv: 'D1CV',
+  'ai-agent': 'AI Agent',
+};
+
+function SideCell({ status, error }: { status: JobSideStatus; error?: string }) {
+  return (
+    <Stack spacing={0.5} alignItems="flex-start">
+      <Chip size="small" variant="outlined" label={status} color={SIDE_COLORS[status]} />
+      {error && (
+        <Typography variant="caption" color="error">{error}</Typography>
+      )}
+    </Stack>
+  );
+}
+
+export function JobsPage() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const connection = useJobConnection();
+  const [status, setStatus] = useState<JobHistoryStatus | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(20);
+
+  const filters = {
+    status: status || undefined,
+    from: dayStart(from),
+    to: dayEnd(to),
+    page: page + 1,
+    limit: rowsPerPage,
+  };
+  const { data, isLoading, isFetching, error, refetch } = useJobHistory(filters);
+  const { jobStatus, subscribe } = useJobWebSocket();
+
+  const rows = data ? mergeLiveJobs(data.jobs, jobStatus, filters) : [];
+
+  // Follow jobs that were still running when the page was fetched
+  useEffect(() => {
+    data?.jobs.filter(job => !isTerminalJob(job)).forEach(job => subscribe(job.jobId));
+  }, [data, subscribe]);
+
+  // Finished jobs move between filters and pages, so reload the history
+  useEffect(() => watchJobOutcomes(connection, () => {
+    void queryClient.invalidateQueries({ queryKey: ['v2', 'jobs'] });
+  }), [connection, queryClient]);
+
+  const resetPage = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Typography variant="h4">Push Jobs</Typography>
+        <Button
+          variant="outlined"
+          startIcon={isFetching ? <CircularProgress size={16} /> : <RefreshIcon />}
+          onClick={() => refetch()}
+        >
+          Refresh
+        </Button>
+      </Stack>
+
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+          <TextField
+            select
+            size="small"
+            label="Status"
+            value={status}
+            onChange={(e) => resetPage(setStatus)(e.target.value as JobHistoryStatus | '')}
+            sx={{ minWidth: 160 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            <MenuItem value="running">Running</MenuItem>
+            <MenuItem value="completed">Completed</MenuItem>
+            <MenuItem value="failed">Failed</MenuItem>
+          </TextField>
+          <TextField
+            type="date"
+            size="small"
+            label="Started from"
+            value={from}
+            onChange={(e) => resetPage(setFrom)(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <TextField
+            type="date"
+            size="small"
+            label="Started to"
+            value={to}
+            onChange={(e) => resetPage(setTo)(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+        </Stack>
+      </Paper>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>Could not load push jobs: {error.message}</Alert>}
+
+      <Paper>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Started</TableCell>
+                <TableCell>Commit</TableCell>
+                <TableCell>Target</TableCell>
+                <TableCell>Outcome</TableCell>
+                <TableCell>D1CV</TableCell>
+                <TableCell>AI Agent</TableCell>
+                <TableCell align="right">Duration</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
+                    <CircularProgress size={24} />
+                  </TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
+                    <Typography color="textSecondary">No push jobs match these filters.</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((job) => {
+                  const duration = jobDuration(job);
+                  return (
+                    <TableRow key={job.jobId} hover>
+                      <TableCell>{new Date(job.startedAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Link
+                          component="button"
+                          variant="body2"
+                          onClick={() => navigate(`/commits?commit=${encodeURIComponent(job.commitId)}`)}
+                        >
+                          {job.commitId}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{TARGET_LABELS[job.target]}</TableCell>
+                      <TableCell>
+                        <Chip size="small" label={job.overallStatus} color={OUTCOME_COLORS[job.overallStatus]} />
+                      </TableCell>
+                      <TableCell>
+                        <SideCell status={job.d1cvStatus} error={job.d1cvResult?.error} />
+                      </TableCell>
+                      <TableCell>
+                        <SideCell status={job.aiAgentStatus} error={job.aiAgentResult?.error} />
+                      </TableCell>
+                      <TableCell align="right">
+                        {duration === null ? <CircularProgress size={16} /> : formatDuration(duration)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <TablePagination
+          component="div"
+          count={data?.total ?? 0}
+          page={page}
+          rowsPerPage={rowsPerPage}
+          rowsPerPageOptions={[10, 20, 50]}
+          onPageChange={(_, next) => setPage(next)}
+          onRowsPerPageChange={(e) => resetPage(setRowsPerPage)(Number(e.target.value))}
+        />
+      </Paper>
+    </Box>
+  );
+}
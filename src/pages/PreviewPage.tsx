@@ -0,0 +1,121 @@
+/**
+ * Portfolio Preview Page
+ *
+ * Shows the public portfolio as it will look once changes are pushed:
+ * production data with uncommitted changes and unpushed commits applied
+ * on top. Each commit can be switched off to see the site without it.
+ */
+
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Stack,
+  FormControlLabel,
+  Switch,
+  Chip,
+  Alert,
+  CircularProgress,
+  Divider,
+  Button,
+} from '@mui/material';
+import { PortfolioPreview } from '@components/preview';
+import { usePreviewSources, overlayChanges } from '@hooks/usePortfolioPreview';
+
+const UNCOMMITTED = 'uncommitted';
+
+export function PreviewPage() {
+  const { snapshot, uncommitted, pending, isLoading, error } = usePreviewSources();
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Commits replay oldest first; uncommitted changes were staged after all of them
+  const changes = [
+    ...pending.filter(item => !excluded.has(item.commit.id)).flatMap(item => item.changes),
+    ...(excluded.has(UNCOMMITTED) ? [] : uncommitted),
+  ];
+  const preview = snapshot ? overlayChanges(snapshot, changes) : null;
+  const sources = pending.length + (uncommitted.length > 0 ? 1 : 0);
+
+  return (
+    <Box>
+      <Typography variant="h4" sx={{ mb: 1 }}>Portfolio Preview</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        The public portfolio with changes that are not pushed yet. AI Agent-only changes do not affect the site
+        and are not shown.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>Could not load the preview: {error.message}</Alert>}
+
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={3} alignItems="flex-start">
+        <Paper sx={{ p: 2, width: { xs: '100%', md: 300 }, flexShrink: 0 }}>
+          <Stack direction="row" justifyContent="space-between" alignItems="center">
+            <Typography variant="subtitle2">Changes to include</Typography>
+            <Button
+              size="small"
+              disabled={sources === 0}
+              onClick={() => setExcluded(excluded.size > 0
+                ? new Set()
+                : new Set([UNCOMMITTED, ...pending.map(item => item.commit.id)]))}
+            >
+              {excluded.size > 0 ? 'All' : 'None'}
+            </Button>
+          </Stack>
+          <Divider sx={{ my: 1 }} />
+          {sources === 0 && !isLoading && (
+            <Typography variant="body2" color="text.secondary">
+              Nothing is waiting to be pushed; the preview matches production.
+            </Typography>
+          )}
+          <Stack spacing={1}>
+            {pending.map(({ commit, changes: commitChanges }) => (
+              <Box key={commit.id}>
+                <FormControlLabel
+                  control={<Switch checked={!excluded.has(commit.id)} onChange={() => toggle(commit.id)} />}
+                  label={<Typography variant="body2">{commit.message}</Typography>}
+                />
+                <Stack direction="row" spacing={1} sx={{ pl: 6 }}>
+                  <Chip size="small" label={commit.status} />
+                  <Chip size="small" variant="outlined" label={`${commitChanges.length} change${commitChanges.length === 1 ? '' : 's'}`} />
+                </Stack>
+              </Box>
+            ))}
+            {uncommitted.length > 0 && (
+              <FormControlLabel
+                control={<Switch checked={!excluded.has(UNCOMMITTED)} onChange={() => toggle(UNCOMMITTED)} />}
+                label={<Typography variant="body2">Uncommitted changes ({uncommitted.length})</Typography>}
+              />
+            )}
+          </Stack>
+        </Paper>
+
+        <Paper sx={{ p: 4, flexGrow: 1, width: '100%' }}>
+          {isLoading || !preview ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <>
+              {preview.removed.length > 0 && (
+                <Alert severity="warning" sx={{ mb: 3 }}>
+                  Removed by these changes: {preview.removed.join(', ')}
+                </Alert>
+              )}
+              <PortfolioPreview preview={preview} />
+            </>
+          )}
+        </Paper>
+      </Stack>
+    </Box>
+  );
+}
@@ -19,10 +19,11 @@ import {
 } from '@mui/material';
 import { Save as SaveIcon, Delete as DeleteIcon, Refresh as RefreshIcon } from '@mui/icons-material';
 import { useMutation } from '@tanstack/react-query';
-import { apiClient } from '@services/api';
+import { useApiClient } from '@services/ApiContext';
 import { useVectorizeStatus } from '@hooks/useAIAgent';
 
 export function SettingsPage() {
+  const apiClient = useApiClient();
   const [clearDialogOpen, setClearDialogOpen] = useState(false);
   const [reindexDialogOpen, setReindexDialogOpen] = useState(false);
   const [resultMessage, setResultMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
@@ -24,7 +24,7 @@ import {
 import { Save as SaveIcon, Science as ScienceIcon } from '@mui/icons-material';
 
 import { useTechnology } from '@hooks/useTechnologies';
-import { useStageTechnology } from '@hooks/useD1CV';
+import { useStageChange, technologyChange } from '@hooks/useCommits';
 import { useSimilarityCheck } from '@hooks/useSimilarityCheck';
 import { getCategoryId } from '@/constants';
 import {
@@ -88,7 +88,7 @@ export function TechnologyFormPage() {
 
   // Data hooks (Dependency Inversion - depend on hook abstractions)
   const { data: technology, isLoading: loadingTech } = useTechnology(id);
-  const { mutate: stageTechnology, isPending: staging } = useStageTechnology();
+  const { mutate: stageChange, isPending: staging } = useStageChange();
 
   // Form setup
   const {
@@ -152,9 +152,9 @@ export function TechnologyFormPage() {
   const onSubmit = useCallback((data: TechnologyFormData) => {
     const hasAiData = data.summary || data.action || data.effect || data.outcome;
 
-    stageTechnology(
-      {
-        operation: isEdit ? 'UPDATE' : 'INSERT',
+    stageChange(
+      technologyChange({
+        action: isEdit ? 'UPDATE' : 'CREATE',
         entityId: id ? parseInt(id, 10) : undefined,
         d1cvPayload: {
           category_id: getCategoryId(data.category),
@@ -178,14 +178,14 @@ export function TechnologyFormPage() {
             category: data.ai_category,
           }
           : undefined,
-      },
+      }),
       {
         onSuccess: () => {
-          navigate('/staged');
+          navigate('/commits');
         },
       }
     );
-  }, [id, isEdit, stageTechnology, navigate]);
+  }, [id, isEdit, stageChange, navigate]);
 
   /**
    * Handle using a similar technology's data
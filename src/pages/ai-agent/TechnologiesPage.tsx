@@ -47,7 +47,7 @@ import {
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { useAIAgentTechnologiesWithD1CVMatch } from '@hooks/useAIAgent';
-import { useStageTechnology } from '@hooks/useD1CV';
+import { useStageChange, technologyChange } from '@hooks/useCommits';
 import type { AIAgentTechnologyWithD1CVMatch } from '@/types';
 
 const RECENCY_COLORS: Record<string, 'success' | 'primary' | 'warning' | 'default'> = {
@@ -71,7 +71,7 @@ export function AIAgentTechnologiesPage() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [techToDelete, setTechToDelete] = useState<AIAgentTechnologyWithD1CVMatch | null>(null);
   const { data: technologies = [], isLoading, error, refetch } = useAIAgentTechnologiesWithD1CVMatch();
-  const { mutate: stageTechnology, isPending: staging } = useStageTechnology();
+  const { mutate: stageChange, isPending: staging } = useStageChange();
 
   const filteredAndSortedTechnologies = useMemo(() => {
     let result = technologies.filter((tech: AIAgentTechnologyWithD1CVMatch) =>
@@ -185,13 +185,14 @@ export function AIAgentTechnologiesPage() {
   const confirmDelete = () => {
     if (!techToDelete || !techToDelete.d1cvMatchName) return;
 
-    stageTechnology(
-      {
-        operation: 'DELETE',
-        entityId: techToDelete.id,
-        entityName: techToDelete.d1cvMatchName,
+    // Removes both the D1CV record and the AI Agent enrichment
+    stageChange(
+      technologyChange({
+        action: 'DELETE',
+        stableId: techToDelete.stable_id,
         d1cvPayload: { name: techToDelete.d1cvMatchName },
-      },
+        target: 'both',
+      }),
       {
         onSuccess: () => {
           setDeleteDialogOpen(false);
@@ -2,9 +2,11 @@
  * D1CV Contact Page
  * 
  * Edit contact information (single record per CV).
+ * Saving stages an update; it reaches the portfolio when the commit is pushed.
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -25,7 +27,13 @@ import {
   LocationOn as LocationIcon,
   Link as LinkIcon,
 } from '@mui/icons-material';
-import { useD1CVContact, useUpdateContact, type ContactInput } from '@hooks/useD1CV';
+import { useD1CVContact, type ContactInput } from '@hooks/useD1CV';
+import {
+  useUncommittedChanges,
+  useStageContentChange,
+  findStagedContent,
+  parseChangePayload,
+} from '@hooks/useCommits';
 
 interface ContactForm {
   name: string;
@@ -54,32 +62,37 @@ const emptyForm: ContactForm = {
 };
 
 export function ContactPage() {
+  const navigate = useNavigate();
   const [form, setForm] = useState<ContactForm>(emptyForm);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
   const { data, isLoading, refetch } = useD1CVContact();
-  const updateMutation = useUpdateContact();
+  const { data: uncommitted = [], isLoading: loadingStaged } = useUncommittedChanges();
+  const stageMutation = useStageContentChange();
 
-  const isSaving = updateMutation.isPending;
+  const isSaving = stageMutation.isPending;
+  const stagedContact = useMemo(() => findStagedContent(uncommitted, 'contact'), [uncommitted]);
 
-  // Load existing contact
+  // Load existing contact; a staged edit takes precedence over production
   useEffect(() => {
     if (data) {
+      const source: Record<string, unknown> = stagedContact ? parseChangePayload(stagedContact) : { ...data };
+      const text = (field: keyof ContactForm) => typeof source[field] === 'string' ? source[field] as string : '';
       setForm({
-        name: data.name || '',
-        email: data.email || '',
-        phone: data.phone || '',
-        linkedin_url: data.linkedin_url || '',
-        github_url: data.github_url || '',
-        portfolio_url: data.portfolio_url || '',
-        location: data.location || '',
-        work_authorization: data.work_authorization || '',
-        availability: data.availability || '',
-        work_preference: data.work_preference || '',
+        name: text('name'),
+        email: text('email'),
+        phone: text('phone'),
+        linkedin_url: text('linkedin_url'),
+        github_url: text('github_url'),
+        portfolio_url: text('portfolio_url'),
+        location: text('location'),
+        work_authorization: text('work_authorization'),
+        availability: text('availability'),
+        work_preference: text('work_preference'),
       });
     }
-  }, [data]);
+  }, [data, stagedContact]);
 
   const handleChange = (field: keyof ContactForm) => (
     event: React.ChangeEvent<HTMLInputElement>
@@ -113,14 +126,14 @@ export function ContactPage() {
     };
 
     try {
-      await updateMutation.mutateAsync(payload);
-      setSuccess('Contact information saved successfully.');
+      await stageMutation.mutateAsync({ entityType: 'contact', action: 'UPDATE', payload });
+      setSuccess('Contact changes staged. Commit and push them from the Commits page to publish.');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save contact');
+      setError(err instanceof Error ? err.message : 'Failed to stage contact');
     }
   };
 
-  if (isLoading) {
+  if (isLoading || loadingStaged) {
     return (
       <Box sx={{ p: 3, display: 'flex', justifyContent: 'center' }}>
         <CircularProgress />
@@ -137,6 +150,16 @@ export function ContactPage() {
         </Button>
       </Stack>
 
+      {stagedContact && !success && (
+        <Alert
+          severity="info"
+          sx={{ mb: 3 }}
+          action={<Button color="inherit" size="small" onClick={() => navigate('/commits')}>Review</Button>}
+        >
+          Showing your staged edit. Saving again replaces it; the portfolio changes once it is pushed.
+        </Alert>
+      )}
+
       {error && (
         <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
           {error}
@@ -271,7 +294,7 @@ export function ContactPage() {
             startIcon={isSaving ? <CircularProgress size={20} /> : <SaveIcon />}
             disabled={isSaving}
           >
-            {isSaving ? 'Saving...' : 'Save Changes'}
+            {isSaving ? 'Staging...' : 'Stage Changes'}
           </Button>
         </Stack>
       </form>
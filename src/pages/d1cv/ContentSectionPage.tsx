@@ -3,10 +3,11 @@
  * 
  * Edit JSON-based content sections (home, achievements).
  * Provides both a form view (user-friendly) and JSON view (advanced).
+ * Saving stages an update; it reaches the portfolio when the commit is pushed.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { useParams } from 'react-router-dom';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -27,12 +28,19 @@ import {
   Code as CodeIcon,
   ViewList as FormIcon,
 } from '@mui/icons-material';
-import { useD1CVSection, useUpdateContentSection, type ContentSectionInput } from '@hooks/useD1CV';
+import { useD1CVSection, type ContentSectionInput } from '@hooks/useD1CV';
+import {
+  useUncommittedChanges,
+  useStageContentChange,
+  findStagedContent,
+  parseChangePayload,
+} from '@hooks/useCommits';
 import { JsonFormRenderer, type JsonObject } from '@components/json-form';
 
 type ViewMode = 'form' | 'json';
 
 export function ContentSectionPage() {
+  const navigate = useNavigate();
   const { sectionType } = useParams<{ sectionType: 'home' | 'achievements' }>();
 
   const validSection = sectionType === 'home' || sectionType === 'achievements' ? sectionType : 'home';
@@ -47,26 +55,33 @@ export function ContentSectionPage() {
   const [viewMode, setViewMode] = useState<ViewMode>('form');
 
   const { data, isLoading, refetch } = useD1CVSection(validSection);
-  const updateMutation = useUpdateContentSection(validSection);
+  const { data: uncommitted = [], isLoading: loadingStaged } = useUncommittedChanges();
+  const stageMutation = useStageContentChange();
 
-  const isSaving = updateMutation.isPending;
+  const isSaving = stageMutation.isPending;
+  const stagedSection = useMemo(
+    () => findStagedContent(uncommitted, 'section', validSection),
+    [uncommitted, validSection]
+  );
 
-  // Load existing section
+  // Load existing section; a staged edit takes precedence over production
   useEffect(() => {
     if (data) {
       try {
-        const content = data.json_content || {};
+        const staged = stagedSection ? parseChangePayload(stagedSection) : null;
+        const source = staged ?? data;
+        const content = source.json_content || {};
         setJsonContent(JSON.stringify(content, null, 2));
         setFormData(content as JsonObject);
-        setSectionName(data.section_name || '');
-        setDisplayOrder(data.display_order || 0);
+        setSectionName(typeof source.section_name === 'string' ? source.section_name : '');
+        setDisplayOrder(typeof source.display_order === 'number' ? source.display_order : 0);
         setJsonError(null);
       } catch {
         setJsonContent('{}');
         setFormData({});
       }
     }
-  }, [data]);
+  }, [data, stagedSection]);
 
   // Sync form data to JSON when switching to JSON view
   const handleViewModeChange = useCallback(
@@ -153,14 +168,14 @@ export function ContentSectionPage() {
         display_order: displayOrder,
       };
 
-      await updateMutation.mutateAsync(payload);
-      setSuccess(`${validSection} section saved successfully.`);
+      await stageMutation.mutateAsync({ entityType: 'section', action: 'UPDATE', entityId: validSection, payload });
+      setSuccess(`${validSection} section changes staged. Commit and push them from the Commits page to publish.`);
 
       // Keep form data in sync after save
       setFormData(contentToSave);
       setJsonContent(JSON.stringify(contentToSave, null, 2));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save section');
+      setError(err instanceof Error ? err.message : 'Failed to stage section');
     }
   };
 
@@ -186,7 +201,7 @@ export function ContentSectionPage() {
     }
   };
 
-  if (isLoading) {
+  if (isLoading || loadingStaged) {
     return (
       <Box sx={{ p: 3, display: 'flex', justifyContent: 'center' }}>
         <CircularProgress />
@@ -233,6 +248,16 @@ export function ContentSectionPage() {
         </Stack>
       </Stack>
 
+      {stagedSection && !success && (
+        <Alert
+          severity="info"
+          sx={{ mb: 3 }}
+          action={<Button color="inherit" size="small" onClick={() => navigate('/commits')}>Review</Button>}
+        >
+          Showing your staged edit. Saving again replaces it; the portfolio changes once it is pushed.
+        </Alert>
+      )}
+
       {error && (
         <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
           {error}
@@ -340,7 +365,7 @@ export function ContentSectionPage() {
             startIcon={isSaving ? <CircularProgress size={20} /> : <SaveIcon />}
             disabled={isSaving || (viewMode === 'json' && !!jsonError)}
           >
-            {isSaving ? 'Saving...' : 'Save Changes'}
+            {isSaving ? 'Staging...' : 'Stage Changes'}
           </Button>
         </Stack>
       </form>
@@ -2,9 +2,10 @@
  * D1CV Education Form Page
  * 
  * Create or edit education entries with focus areas.
+ * Saving stages the change; it reaches the portfolio when the commit is pushed.
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import {
   Box,
@@ -18,13 +19,22 @@ import {
   Alert,
   CircularProgress,
   Chip,
+  Tabs,
+  Tab,
 } from '@mui/material';
 import {
   Save as SaveIcon,
   ArrowBack as BackIcon,
   Add as AddIcon,
 } from '@mui/icons-material';
-import { useD1CVEducation, useCreateEducation, useUpdateEducation, type EducationInput } from '@hooks/useD1CV';
+import { useD1CVEducation, type EducationInput } from '@hooks/useD1CV';
+import {
+  useUncommittedChanges,
+  useStageContentChange,
+  findStagedContent,
+  parseChangePayload,
+} from '@hooks/useCommits';
+import { VersionHistory } from '@components/VersionHistory';
 
 interface EducationForm {
   institution: string;
@@ -48,6 +58,23 @@ const emptyForm: EducationForm = {
   focus_areas: [],
 };
 
+/**
+ * Rebuild the form from a staged edit (the EducationInput this page staged)
+ */
+function formFromStaged(payload: Record<string, unknown>): EducationForm {
+  const input = payload as Partial<EducationInput>;
+  return {
+    institution: input.institution ?? '',
+    degree: input.degree ?? '',
+    location: input.location ?? '',
+    start_year: input.start_year ?? '',
+    end_year: input.end_year ?? '',
+    description: input.description ?? '',
+    display_order: input.display_order ?? 0,
+    focus_areas: input.focus_areas ?? [],
+  };
+}
+
 export function EducationFormPage() {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
@@ -56,16 +83,23 @@ export function EducationFormPage() {
   const [form, setForm] = useState<EducationForm>(emptyForm);
   const [newFocusArea, setNewFocusArea] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<'details' | 'history'>('details');
 
   const { data } = useD1CVEducation();
-  const createMutation = useCreateEducation();
-  const updateMutation = useUpdateEducation();
+  const { data: uncommitted = [] } = useUncommittedChanges();
+  const stageMutation = useStageContentChange();
 
-  const isSaving = createMutation.isPending || updateMutation.isPending;
+  const isSaving = stageMutation.isPending;
+  const stagedEducation = useMemo(
+    () => (isEditing ? findStagedContent(uncommitted, 'education', id) : undefined),
+    [isEditing, uncommitted, id]
+  );
 
-  // Load existing education for editing
+  // Load existing education for editing; a staged edit takes precedence
   useEffect(() => {
-    if (isEditing && data?.education) {
+    if (stagedEducation) {
+      setForm(formFromStaged(parseChangePayload(stagedEducation)));
+    } else if (isEditing && data?.education) {
       const education = data.education;
       if (education.id === parseInt(id, 10)) {
         setForm({
@@ -80,7 +114,7 @@ export function EducationFormPage() {
         });
       }
     }
-  }, [isEditing, id, data]);
+  }, [isEditing, id, data, stagedEducation]);
 
   const handleChange = (field: keyof EducationForm) => (
     event: React.ChangeEvent<HTMLInputElement>
@@ -127,14 +161,15 @@ export function EducationFormPage() {
     };
 
     try {
-      if (isEditing) {
-        await updateMutation.mutateAsync({ id: parseInt(id, 10), data: payload });
-      } else {
-        await createMutation.mutateAsync(payload);
-      }
+      await stageMutation.mutateAsync({
+        entityType: 'education',
+        action: isEditing ? 'UPDATE' : 'CREATE',
+        entityId: isEditing ? parseInt(id, 10) : undefined,
+        payload,
+      });
       navigate('/d1cv/education');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save education');
+      setError(err instanceof Error ? err.message : 'Failed to stage education');
     }
   };
 
@@ -149,138 +184,157 @@ export function EducationFormPage() {
         </Typography>
       </Stack>
 
-      {error && (
-        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
-          {error}
-        </Alert>
+      {isEditing && (
+        <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 3, borderBottom: 1, borderColor: 'divider' }}>
+          <Tab value="details" label="Details" />
+          <Tab value="history" label="History" />
+        </Tabs>
       )}
 
-      <form onSubmit={handleSubmit}>
-        <Card sx={{ mb: 3 }}>
-          <CardContent>
-            <Typography variant="h6" sx={{ mb: 2 }}>
-              Education Details
-            </Typography>
+      {tab === 'history' && isEditing ? (
+        <VersionHistory subject={{ entityType: 'education', entityId: id }} />
+      ) : (
+        <>
+          {stagedEducation && (
+            <Alert severity="info" sx={{ mb: 3 }}>
+              Showing your staged edit. Saving again replaces it; the portfolio changes once it is pushed.
+            </Alert>
+          )}
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <form onSubmit={handleSubmit}>
+            <Card sx={{ mb: 3 }}>
+              <CardContent>
+                <Typography variant="h6" sx={{ mb: 2 }}>
+                  Education Details
+                </Typography>
             
-            <Stack spacing={2}>
-              <TextField
-                label="Institution"
-                value={form.institution}
-                onChange={handleChange('institution')}
-                required
-                fullWidth
-              />
+                <Stack spacing={2}>
+                  <TextField
+                    label="Institution"
+                    value={form.institution}
+                    onChange={handleChange('institution')}
+                    required
+                    fullWidth
+                  />
+
+                  <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+                    <TextField
+                      label="Degree"
+                      value={form.degree}
+                      onChange={handleChange('degree')}
+                      fullWidth
+                    />
+                    <TextField
+                      label="Location"
+                      value={form.location}
+                      onChange={handleChange('location')}
+                      fullWidth
+                    />
+                  </Stack>
 
-              <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
-                <TextField
-                  label="Degree"
-                  value={form.degree}
-                  onChange={handleChange('degree')}
-                  fullWidth
-                />
-                <TextField
-                  label="Location"
-                  value={form.location}
-                  onChange={handleChange('location')}
-                  fullWidth
-                />
-              </Stack>
+                  <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+                    <TextField
+                      label="Start Year"
+                      value={form.start_year}
+                      onChange={handleChange('start_year')}
+                      fullWidth
+                      placeholder="e.g., 2018"
+                    />
+                    <TextField
+                      label="End Year"
+                      value={form.end_year}
+                      onChange={handleChange('end_year')}
+                      fullWidth
+                      placeholder="e.g., 2022"
+                    />
+                  </Stack>
 
-              <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
-                <TextField
-                  label="Start Year"
-                  value={form.start_year}
-                  onChange={handleChange('start_year')}
-                  fullWidth
-                  placeholder="e.g., 2018"
-                />
-                <TextField
-                  label="End Year"
-                  value={form.end_year}
-                  onChange={handleChange('end_year')}
-                  fullWidth
-                  placeholder="e.g., 2022"
-                />
-              </Stack>
+                  <TextField
+                    label="Description"
+                    value={form.description}
+                    onChange={handleChange('description')}
+                    multiline
+                    rows={3}
+                    fullWidth
+                  />
 
-              <TextField
-                label="Description"
-                value={form.description}
-                onChange={handleChange('description')}
-                multiline
-                rows={3}
-                fullWidth
-              />
+                  <TextField
+                    label="Display Order"
+                    type="number"
+                    value={form.display_order}
+                    onChange={handleChange('display_order')}
+                    sx={{ maxWidth: 200 }}
+                  />
+                </Stack>
+              </CardContent>
+            </Card>
 
-              <TextField
-                label="Display Order"
-                type="number"
-                value={form.display_order}
-                onChange={handleChange('display_order')}
-                sx={{ maxWidth: 200 }}
-              />
-            </Stack>
-          </CardContent>
-        </Card>
+            <Card sx={{ mb: 3 }}>
+              <CardContent>
+                <Typography variant="h6" sx={{ mb: 2 }}>
+                  Focus Areas
+                </Typography>
+
+                <Stack direction="row" spacing={1} sx={{ mb: 2 }}>
+                  <TextField
+                    label="Add Focus Area"
+                    value={newFocusArea}
+                    onChange={(e) => setNewFocusArea(e.target.value)}
+                    size="small"
+                    onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), handleAddFocusArea())}
+                  />
+                  <Button
+                    variant="outlined"
+                    startIcon={<AddIcon />}
+                    onClick={handleAddFocusArea}
+                    disabled={!newFocusArea.trim()}
+                  >
+                    Add
+                  </Button>
+                </Stack>
 
-        <Card sx={{ mb: 3 }}>
-          <CardContent>
-            <Typography variant="h6" sx={{ mb: 2 }}>
-              Focus Areas
-            </Typography>
+                {form.focus_areas.length === 0 ? (
+                  <Typography color="text.secondary">
+                    No focus areas added yet.
+                  </Typography>
+                ) : (
+                  <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                    {form.focus_areas.map((area, index) => (
+                      <Chip
+                        key={index}
+                        label={area}
+                        onDelete={() => handleRemoveFocusArea(area)}
+                        color="primary"
+                        variant="outlined"
+                      />
+                    ))}
+                  </Stack>
+                )}
+              </CardContent>
+            </Card>
 
-            <Stack direction="row" spacing={1} sx={{ mb: 2 }}>
-              <TextField
-                label="Add Focus Area"
-                value={newFocusArea}
-                onChange={(e) => setNewFocusArea(e.target.value)}
-                size="small"
-                onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), handleAddFocusArea())}
-              />
+            <Stack direction="row" spacing={2} justifyContent="flex-end">
+              <Button variant="outlined" onClick={() => navigate('/d1cv/education')}>
+                Cancel
+              </Button>
               <Button
-                variant="outlined"
-                startIcon={<AddIcon />}
-                onClick={handleAddFocusArea}
-                disabled={!newFocusArea.trim()}
+                type="submit"
+                variant="contained"
+                startIcon={isSaving ? <CircularProgress size={20} /> : <SaveIcon />}
+                disabled={isSaving}
               >
-                Add
+                {isSaving ? 'Staging...' : isEditing ? 'Stage Update' : 'Stage New Education'}
               </Button>
             </Stack>
-
-            {form.focus_areas.length === 0 ? (
-              <Typography color="text.secondary">
-                No focus areas added yet.
-              </Typography>
-            ) : (
-              <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
-                {form.focus_areas.map((area, index) => (
-                  <Chip
-                    key={index}
-                    label={area}
-                    onDelete={() => handleRemoveFocusArea(area)}
-                    color="primary"
-                    variant="outlined"
-                  />
-                ))}
-              </Stack>
-            )}
-          </CardContent>
-        </Card>
-
-        <Stack direction="row" spacing={2} justifyContent="flex-end">
-          <Button variant="outlined" onClick={() => navigate('/d1cv/education')}>
-            Cancel
-          </Button>
-          <Button
-            type="submit"
-            variant="contained"
-            startIcon={isSaving ? <CircularProgress size={20} /> : <SaveIcon />}
-            disabled={isSaving}
-          >
-            {isSaving ? 'Saving...' : isEditing ? 'Update' : 'Create'}
-          </Button>
-        </Stack>
-      </form>
+          </form>
+        </>
+      )}
     </Box>
   );
 }
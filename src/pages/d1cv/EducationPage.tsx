@@ -2,8 +2,10 @@
  * D1CV Education Page
  * 
  * Displays education data from D1CV database using normalized tables.
+ * Edits and deletions are staged and show up here until they are pushed.
  */
 
+import { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Box,
@@ -27,15 +29,23 @@ import {
   Edit as EditIcon,
   Delete as DeleteIcon,
 } from '@mui/icons-material';
-import { useD1CVEducation, useDeleteEducation } from '@hooks/useD1CV';
+import { useD1CVEducation } from '@hooks/useD1CV';
+import { useUncommittedChanges, useStageContentChange } from '@hooks/useCommits';
 
 export function D1CVEducationPage() {
   const navigate = useNavigate();
   const { data, isLoading, error, refetch } = useD1CVEducation();
-  const deleteMutation = useDeleteEducation();
+  const { data: uncommitted = [] } = useUncommittedChanges();
+  const stageMutation = useStageContentChange();
 
   const education = data?.education;
 
+  const stagedChanges = useMemo(
+    () => uncommitted.filter(change => change.entity_type === 'education'),
+    [uncommitted]
+  );
+  const stagedAction = stagedChanges.find(change => education && change.entity_id === String(education.id))?.action;
+
   if (error) {
     return (
       <Box>
@@ -77,6 +87,16 @@ export function D1CVEducationPage() {
         </Stack>
       </Stack>
 
+      {stagedChanges.length > 0 && (
+        <Alert
+          severity="info"
+          sx={{ mb: 3 }}
+          action={<Button color="inherit" size="small" onClick={() => navigate('/commits')}>Review</Button>}
+        >
+          {stagedChanges.length} education change(s) staged. They reach the portfolio once committed and pushed.
+        </Alert>
+      )}
+
       {isLoading ? (
         <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
           <CircularProgress />
@@ -101,9 +121,19 @@ export function D1CVEducationPage() {
               <Box sx={{ flexGrow: 1 }}>
                 <Stack direction="row" justifyContent="space-between" alignItems="flex-start">
                   <Box>
-                    <Typography variant="h5" gutterBottom>
-                      {education.institution}
-                    </Typography>
+                    <Stack direction="row" alignItems="center" spacing={1}>
+                      <Typography variant="h5" gutterBottom>
+                        {education.institution}
+                      </Typography>
+                      {stagedAction && (
+                        <Chip
+                          label={stagedAction === 'DELETE' ? 'Staged delete' : 'Staged edit'}
+                          size="small"
+                          color={stagedAction === 'DELETE' ? 'error' : 'warning'}
+                          variant="outlined"
+                        />
+                      )}
+                    </Stack>
                     {education.degree && (
                       <Typography variant="h6" color="text.secondary" gutterBottom>
                         {education.degree}
@@ -124,8 +154,13 @@ export function D1CVEducationPage() {
                         size="small"
                         color="error"
                         onClick={() => {
-                          if (window.confirm(`Delete education at ${education.institution}?`)) {
-                            deleteMutation.mutate(education.id!);
+                          if (window.confirm(`Stage deletion of education at ${education.institution}?`)) {
+                            stageMutation.mutate({
+                              entityType: 'education',
+                              action: 'DELETE',
+                              entityId: education.id!,
+                              payload: { institution: education.institution },
+                            });
                           }
                         }}
                       >
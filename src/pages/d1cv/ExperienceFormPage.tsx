@@ -2,9 +2,10 @@
  * D1CV Experience Form Page
  * 
  * Create or edit work experience entries with nested categories and achievements.
+ * Saving stages the change; it reaches the portfolio when the commit is pushed.
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import {
   Box,
@@ -21,6 +22,8 @@ import {
   FormControlLabel,
   Switch,
   Paper,
+  Tabs,
+  Tab,
 } from '@mui/material';
 import {
   Save as SaveIcon,
@@ -28,7 +31,14 @@ import {
   Add as AddIcon,
   Delete as DeleteIcon,
 } from '@mui/icons-material';
-import { useD1CVExperience, useCreateExperience, useUpdateExperience, type ExperienceInput } from '@hooks/useD1CV';
+import { useD1CVExperience, type ExperienceInput } from '@hooks/useD1CV';
+import {
+  useUncommittedChanges,
+  useStageContentChange,
+  findStagedContent,
+  parseChangePayload,
+} from '@hooks/useCommits';
+import { VersionHistory } from '@components/VersionHistory';
 
 interface CategoryForm {
   title: string;
@@ -67,6 +77,31 @@ const emptyForm: ExperienceForm = {
   categories: [],
 };
 
+/**
+ * Rebuild the form from a staged edit (the ExperienceInput this page staged)
+ */
+function formFromStaged(payload: Record<string, unknown>): ExperienceForm {
+  const input = payload as Partial<ExperienceInput>;
+  return {
+    company: input.company ?? '',
+    location: input.location ?? '',
+    role: input.role ?? '',
+    period: input.period ?? '',
+    start_date: input.start_date ?? '',
+    end_date: input.end_date ?? '',
+    is_current: input.is_current ?? false,
+    reporting_to: input.reporting_to ?? '',
+    operating_level: input.operating_level ?? '',
+    description: input.description ?? '',
+    technologies: input.technologies ?? '',
+    display_order: input.display_order ?? 0,
+    categories: (input.categories ?? []).map(cat => ({
+      title: cat.title,
+      achievements: (cat.achievements ?? []).map(({ title, description }) => ({ title, description })),
+    })),
+  };
+}
+
 export function ExperienceFormPage() {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
@@ -74,16 +109,23 @@ export function ExperienceFormPage() {
 
   const [form, setForm] = useState<ExperienceForm>(emptyForm);
   const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<'details' | 'history'>('details');
 
   const { data } = useD1CVExperience();
-  const createMutation = useCreateExperience();
-  const updateMutation = useUpdateExperience();
+  const { data: uncommitted = [] } = useUncommittedChanges();
+  const stageMutation = useStageContentChange();
 
-  const isSaving = createMutation.isPending || updateMutation.isPending;
+  const isSaving = stageMutation.isPending;
+  const stagedExperience = useMemo(
+    () => (isEditing ? findStagedContent(uncommitted, 'experience', id) : undefined),
+    [isEditing, uncommitted, id]
+  );
 
-  // Load existing experience for editing
+  // Load existing experience for editing; a staged edit takes precedence
   useEffect(() => {
-    if (isEditing && data?.experiences) {
+    if (stagedExperience) {
+      setForm(formFromStaged(parseChangePayload(stagedExperience)));
+    } else if (isEditing && data?.experiences) {
       const experience = data.experiences.find(exp => exp.id === parseInt(id, 10));
       if (experience) {
         setForm({
@@ -106,7 +148,7 @@ export function ExperienceFormPage() {
         });
       }
     }
-  }, [isEditing, id, data]);
+  }, [isEditing, id, data, stagedExperience]);
 
   const handleChange = (field: keyof ExperienceForm) => (
     event: React.ChangeEvent<HTMLInputElement>
@@ -216,14 +258,15 @@ export function ExperienceFormPage() {
     };
 
     try {
-      if (isEditing) {
-        await updateMutation.mutateAsync({ id: parseInt(id, 10), data: payload });
-      } else {
-        await createMutation.mutateAsync(payload);
-      }
+      await stageMutation.mutateAsync({
+        entityType: 'experience',
+        action: isEditing ? 'UPDATE' : 'CREATE',
+        entityId: isEditing ? parseInt(id, 10) : undefined,
+        payload,
+      });
       navigate('/d1cv/experience');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save experience');
+      setError(err instanceof Error ? err.message : 'Failed to stage experience');
     }
   };
 
@@ -238,218 +281,237 @@ export function ExperienceFormPage() {
         </Typography>
       </Stack>
 
-      {error && (
-        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
-          {error}
-        </Alert>
+      {isEditing && (
+        <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 3, borderBottom: 1, borderColor: 'divider' }}>
+          <Tab value="details" label="Details" />
+          <Tab value="history" label="History" />
+        </Tabs>
       )}
 
-      <form onSubmit={handleSubmit}>
-        <Card sx={{ mb: 3 }}>
-          <CardContent>
-            <Typography variant="h6" sx={{ mb: 2 }}>
-              Basic Information
-            </Typography>
+      {tab === 'history' && isEditing ? (
+        <VersionHistory subject={{ entityType: 'experience', entityId: id }} />
+      ) : (
+        <>
+          {stagedExperience && (
+            <Alert severity="info" sx={{ mb: 3 }}>
+              Showing your staged edit. Saving again replaces it; the portfolio changes once it is pushed.
+            </Alert>
+          )}
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <form onSubmit={handleSubmit}>
+            <Card sx={{ mb: 3 }}>
+              <CardContent>
+                <Typography variant="h6" sx={{ mb: 2 }}>
+                  Basic Information
+                </Typography>
             
-            <Stack spacing={2}>
-              <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
-                <TextField
-                  label="Company"
-                  value={form.company}
-                  onChange={handleChange('company')}
-                  required
-                  fullWidth
-                />
-                <TextField
-                  label="Location"
-                  value={form.location}
-                  onChange={handleChange('location')}
-                  fullWidth
-                />
-              </Stack>
-
-              <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
-                <TextField
-                  label="Role"
-                  value={form.role}
-                  onChange={handleChange('role')}
-                  required
-                  fullWidth
-                />
-                <TextField
-                  label="Period"
-                  value={form.period}
-                  onChange={handleChange('period')}
-                  required
-                  fullWidth
-                  placeholder="e.g., 2020-2023 or Jan 2020 - Present"
-                />
-              </Stack>
-
-              <FormControlLabel
-                control={
-                  <Switch
-                    checked={form.is_current}
-                    onChange={handleChange('is_current')}
+                <Stack spacing={2}>
+                  <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+                    <TextField
+                      label="Company"
+                      value={form.company}
+                      onChange={handleChange('company')}
+                      required
+                      fullWidth
+                    />
+                    <TextField
+                      label="Location"
+                      value={form.location}
+                      onChange={handleChange('location')}
+                      fullWidth
+                    />
+                  </Stack>
+
+                  <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+                    <TextField
+                      label="Role"
+                      value={form.role}
+                      onChange={handleChange('role')}
+                      required
+                      fullWidth
+                    />
+                    <TextField
+                      label="Period"
+                      value={form.period}
+                      onChange={handleChange('period')}
+                      required
+                      fullWidth
+                      placeholder="e.g., 2020-2023 or Jan 2020 - Present"
+                    />
+                  </Stack>
+
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={form.is_current}
+                        onChange={handleChange('is_current')}
+                      />
+                    }
+                    label="Currently working here"
                   />
-                }
-                label="Currently working here"
-              />
-
-              <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
-                <TextField
-                  label="Reporting To"
-                  value={form.reporting_to}
-                  onChange={handleChange('reporting_to')}
-                  fullWidth
-                />
-                <TextField
-                  label="Operating Level"
-                  value={form.operating_level}
-                  onChange={handleChange('operating_level')}
-                  fullWidth
-                />
-              </Stack>
-
-              <TextField
-                label="Description"
-                value={form.description}
-                onChange={handleChange('description')}
-                multiline
-                rows={3}
-                fullWidth
-              />
-
-              <TextField
-                label="Technologies"
-                value={form.technologies}
-                onChange={handleChange('technologies')}
-                fullWidth
-                placeholder="Comma-separated list of technologies used"
-              />
-
-              <TextField
-                label="Display Order"
-                type="number"
-                value={form.display_order}
-                onChange={handleChange('display_order')}
-                sx={{ maxWidth: 200 }}
-              />
-            </Stack>
-          </CardContent>
-        </Card>
-
-        <Card sx={{ mb: 3 }}>
-          <CardContent>
-            <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
-              <Typography variant="h6">
-                Achievement Categories
-              </Typography>
-              <Button startIcon={<AddIcon />} onClick={handleAddCategory} size="small">
-                Add Category
-              </Button>
-            </Stack>
 
-            {form.categories.length === 0 ? (
-              <Typography color="text.secondary" sx={{ py: 2 }}>
-                No categories added yet. Click "Add Category" to add achievement categories.
-              </Typography>
-            ) : (
-              <Stack spacing={3}>
-                {form.categories.map((category, catIdx) => (
-                  <Paper key={catIdx} variant="outlined" sx={{ p: 2 }}>
-                    <Stack direction="row" alignItems="center" spacing={2} sx={{ mb: 2 }}>
-                      <TextField
-                        label="Category Title"
-                        value={category.title}
-                        onChange={(e) => handleCategoryChange(catIdx, e.target.value)}
-                        fullWidth
-                        size="small"
-                        placeholder="e.g., Project Management, Technical Achievements"
-                      />
-                      <IconButton
-                        color="error"
-                        onClick={() => handleRemoveCategory(catIdx)}
-                        size="small"
-                      >
-                        <DeleteIcon />
-                      </IconButton>
-                    </Stack>
-
-                    <Divider sx={{ my: 2 }} />
-
-                    <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
-                      <Typography variant="subtitle2">Achievements</Typography>
-                      <Button
-                        size="small"
-                        startIcon={<AddIcon />}
-                        onClick={() => handleAddAchievement(catIdx)}
-                      >
-                        Add Achievement
-                      </Button>
-                    </Stack>
-
-                    {category.achievements.length === 0 ? (
-                      <Typography variant="body2" color="text.secondary">
-                        No achievements yet.
-                      </Typography>
-                    ) : (
-                      <Stack spacing={2}>
-                        {category.achievements.map((ach, achIdx) => (
-                          <Box key={achIdx} sx={{ pl: 2, borderLeft: '2px solid', borderColor: 'divider' }}>
-                            <Stack direction="row" spacing={1} alignItems="flex-start">
-                              <Box sx={{ flex: 1 }}>
-                                <TextField
-                                  label="Title"
-                                  value={ach.title}
-                                  onChange={(e) => handleAchievementChange(catIdx, achIdx, 'title', e.target.value)}
-                                  fullWidth
-                                  size="small"
-                                  sx={{ mb: 1 }}
-                                />
-                                <TextField
-                                  label="Description"
-                                  value={ach.description}
-                                  onChange={(e) => handleAchievementChange(catIdx, achIdx, 'description', e.target.value)}
-                                  fullWidth
-                                  size="small"
-                                  multiline
-                                  rows={2}
-                                />
+                  <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+                    <TextField
+                      label="Reporting To"
+                      value={form.reporting_to}
+                      onChange={handleChange('reporting_to')}
+                      fullWidth
+                    />
+                    <TextField
+                      label="Operating Level"
+                      value={form.operating_level}
+                      onChange={handleChange('operating_level')}
+                      fullWidth
+                    />
+                  </Stack>
+
+                  <TextField
+                    label="Description"
+                    value={form.description}
+                    onChange={handleChange('description')}
+                    multiline
+                    rows={3}
+                    fullWidth
+                  />
+
+                  <TextField
+                    label="Technologies"
+                    value={form.technologies}
+                    onChange={handleChange('technologies')}
+                    fullWidth
+                    placeholder="Comma-separated list of technologies used"
+                  />
+
+                  <TextField
+                    label="Display Order"
+                    type="number"
+                    value={form.display_order}
+                    onChange={handleChange('display_order')}
+                    sx={{ maxWidth: 200 }}
+                  />
+                </Stack>
+              </CardContent>
+            </Card>
+
+            <Card sx={{ mb: 3 }}>
+              <CardContent>
+                <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+                  <Typography variant="h6">
+                    Achievement Categories
+                  </Typography>
+                  <Button startIcon={<AddIcon />} onClick={handleAddCategory} size="small">
+                    Add Category
+                  </Button>
+                </Stack>
+
+                {form.categories.length === 0 ? (
+                  <Typography color="text.secondary" sx={{ py: 2 }}>
+                    No categories added yet. Click "Add Category" to add achievement categories.
+                  </Typography>
+                ) : (
+                  <Stack spacing={3}>
+                    {form.categories.map((category, catIdx) => (
+                      <Paper key={catIdx} variant="outlined" sx={{ p: 2 }}>
+                        <Stack direction="row" alignItems="center" spacing={2} sx={{ mb: 2 }}>
+                          <TextField
+                            label="Category Title"
+                            value={category.title}
+                            onChange={(e) => handleCategoryChange(catIdx, e.target.value)}
+                            fullWidth
+                            size="small"
+                            placeholder="e.g., Project Management, Technical Achievements"
+                          />
+                          <IconButton
+                            color="error"
+                            onClick={() => handleRemoveCategory(catIdx)}
+                            size="small"
+                          >
+                            <DeleteIcon />
+                          </IconButton>
+                        </Stack>
+
+                        <Divider sx={{ my: 2 }} />
+
+                        <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+                          <Typography variant="subtitle2">Achievements</Typography>
+                          <Button
+                            size="small"
+                            startIcon={<AddIcon />}
+                            onClick={() => handleAddAchievement(catIdx)}
+                          >
+                            Add Achievement
+                          </Button>
+                        </Stack>
+
+                        {category.achievements.length === 0 ? (
+                          <Typography variant="body2" color="text.secondary">
+                            No achievements yet.
+                          </Typography>
+                        ) : (
+                          <Stack spacing={2}>
+                            {category.achievements.map((ach, achIdx) => (
+                              <Box key={achIdx} sx={{ pl: 2, borderLeft: '2px solid', borderColor: 'divider' }}>
+                                <Stack direction="row" spacing={1} alignItems="flex-start">
+                                  <Box sx={{ flex: 1 }}>
+                                    <TextField
+                                      label="Title"
+                                      value={ach.title}
+                                      onChange={(e) => handleAchievementChange(catIdx, achIdx, 'title', e.target.value)}
+                                      fullWidth
+                                      size="small"
+                                      sx={{ mb: 1 }}
+                                    />
+                                    <TextField
+                                      label="Description"
+                                      value={ach.description}
+                                      onChange={(e) => handleAchievementChange(catIdx, achIdx, 'description', e.target.value)}
+                                      fullWidth
+                                      size="small"
+                                      multiline
+                                      rows={2}
+                                    />
+                                  </Box>
+                                  <IconButton
+                                    color="error"
+                                    onClick={() => handleRemoveAchievement(catIdx, achIdx)}
+                                    size="small"
+                                  >
+                                    <DeleteIcon />
+                                  </IconButton>
+                                </Stack>
                               </Box>
-                              <IconButton
-                                color="error"
-                                onClick={() => handleRemoveAchievement(catIdx, achIdx)}
-                                size="small"
-                              >
-                                <DeleteIcon />
-                              </IconButton>
-                            </Stack>
-                          </Box>
-                        ))}
-                      </Stack>
-                    )}
-                  </Paper>
-                ))}
-              </Stack>
-            )}
-          </CardContent>
-        </Card>
-
-        <Stack direction="row" spacing={2} justifyContent="flex-end">
-          <Button variant="outlined" onClick={() => navigate('/d1cv/experience')}>
-            Cancel
-          </Button>
-          <Button
-            type="submit"
-            variant="contained"
-            startIcon={isSaving ? <CircularProgress size={20} /> : <SaveIcon />}
-            disabled={isSaving}
-          >
-            {isSaving ? 'Saving...' : isEditing ? 'Update' : 'Create'}
-          </Button>
-        </Stack>
-      </form>
+                            ))}
+                          </Stack>
+                        )}
+                      </Paper>
+                    ))}
+                  </Stack>
+                )}
+              </CardContent>
+            </Card>
+
+            <Stack direction="row" spacing={2} justifyContent="flex-end">
+              <Button variant="outlined" onClick={() => navigate('/d1cv/experience')}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="contained"
+                startIcon={isSaving ? <CircularProgress size={20} /> : <SaveIcon />}
+                disabled={isSaving}
+              >
+                {isSaving ? 'Staging...' : isEditing ? 'Stage Update' : 'Stage New Experience'}
+              </Button>
+            </Stack>
+          </form>
+        </>
+      )}
     </Box>
   );
 }
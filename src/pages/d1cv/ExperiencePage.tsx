@@ -2,6 +2,7 @@
  * D1CV Experience Page
  * 
  * Lists work experience from D1CV database using normalized tables.
+ * Edits and deletions are staged and show up here until they are pushed.
  */
 
 import { useState, useMemo } from 'react';
@@ -43,7 +44,8 @@ import {
   Edit as EditIcon,
   Delete as DeleteIcon,
 } from '@mui/icons-material';
-import { useD1CVExperience, useDeleteExperience } from '@hooks/useD1CV';
+import { useD1CVExperience } from '@hooks/useD1CV';
+import { useUncommittedChanges, useStageContentChange, type Action } from '@hooks/useCommits';
 import type { Experience } from '@/types';
 
 type SortField = 'company' | 'role' | 'period' | 'categories';
@@ -55,10 +57,25 @@ export function D1CVExperiencePage() {
   const [sortField, setSortField] = useState<SortField>('period');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
   const { data, isLoading, error, refetch } = useD1CVExperience();
-  const deleteMutation = useDeleteExperience();
+  const { data: uncommitted = [] } = useUncommittedChanges();
+  const stageMutation = useStageContentChange();
 
   const experiences = data?.experiences || [];
 
+  const stagedChanges = useMemo(
+    () => uncommitted.filter(change => change.entity_type === 'experience'),
+    [uncommitted]
+  );
+  const stagedActions = useMemo(() => {
+    const actions = new Map<string, Action>();
+    for (const change of stagedChanges) {
+      if (change.entity_id) {
+        actions.set(change.entity_id, change.action);
+      }
+    }
+    return actions;
+  }, [stagedChanges]);
+
   const filteredAndSortedExperiences = useMemo(() => {
     let result = experiences.filter((exp: Experience) =>
       exp.company.toLowerCase().includes(search.toLowerCase()) ||
@@ -149,6 +166,16 @@ export function D1CVExperiencePage() {
         </Stack>
       </Stack>
 
+      {stagedChanges.length > 0 && (
+        <Alert
+          severity="info"
+          sx={{ mb: 3 }}
+          action={<Button color="inherit" size="small" onClick={() => navigate('/commits')}>Review</Button>}
+        >
+          {stagedChanges.length} experience change(s) staged. They reach the portfolio once committed and pushed.
+        </Alert>
+      )}
+
       {/* Search */}
       <Card sx={{ mb: 3 }}>
         <CardContent>
@@ -236,6 +263,14 @@ export function D1CVExperiencePage() {
                         <Stack direction="row" alignItems="center" spacing={1}>
                           <WorkIcon color="action" fontSize="small" />
                           <Typography fontWeight={600}>{exp.company}</Typography>
+                          {stagedActions.has(String(exp.id)) && (
+                            <Chip
+                              label={stagedActions.get(String(exp.id)) === 'DELETE' ? 'Staged delete' : 'Staged edit'}
+                              size="small"
+                              color={stagedActions.get(String(exp.id)) === 'DELETE' ? 'error' : 'warning'}
+                              variant="outlined"
+                            />
+                          )}
                         </Stack>
                       </TableCell>
                       <TableCell>
@@ -281,8 +316,13 @@ export function D1CVExperiencePage() {
                             size="small"
                             color="error"
                             onClick={() => {
-                              if (window.confirm(`Delete experience at ${exp.company}?`)) {
-                                deleteMutation.mutate(exp.id!);
+                              if (window.confirm(`Stage deletion of experience at ${exp.company}?`)) {
+                                stageMutation.mutate({
+                                  entityType: 'experience',
+                                  action: 'DELETE',
+                                  entityId: exp.id!,
+                                  payload: { company: exp.company, role: exp.role },
+                                });
                               }
                             }}
                           >
@@ -2,9 +2,11 @@
  * D1CV Profile Page
  * 
  * Edit profile information including summary and key achievements.
+ * Saving stages an update; it reaches the portfolio when the commit is pushed.
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -25,7 +27,13 @@ import {
   Add as AddIcon,
   Delete as DeleteIcon,
 } from '@mui/icons-material';
-import { useD1CVProfile, useUpdateProfile, type ProfileInput } from '@hooks/useD1CV';
+import { useD1CVProfile, type ProfileInput } from '@hooks/useD1CV';
+import {
+  useUncommittedChanges,
+  useStageContentChange,
+  findStagedContent,
+  parseChangePayload,
+} from '@hooks/useCommits';
 
 interface ProfileForm {
   title: string;
@@ -40,26 +48,36 @@ const emptyForm: ProfileForm = {
 };
 
 export function ProfilePage() {
+  const navigate = useNavigate();
   const [form, setForm] = useState<ProfileForm>(emptyForm);
   const [newAchievement, setNewAchievement] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
   const { data, isLoading, refetch } = useD1CVProfile();
-  const updateMutation = useUpdateProfile();
+  const { data: uncommitted = [], isLoading: loadingStaged } = useUncommittedChanges();
+  const stageMutation = useStageContentChange();
 
-  const isSaving = updateMutation.isPending;
+  const isSaving = stageMutation.isPending;
+  const stagedProfile = useMemo(() => findStagedContent(uncommitted, 'profile'), [uncommitted]);
 
-  // Load existing profile
+  // Load existing profile; a staged edit takes precedence over production
   useEffect(() => {
-    if (data) {
+    if (stagedProfile) {
+      const staged = parseChangePayload(stagedProfile);
+      setForm({
+        title: typeof staged.title === 'string' ? staged.title : '',
+        summary: typeof staged.summary === 'string' ? staged.summary : '',
+        key_achievements: Array.isArray(staged.key_achievements) ? staged.key_achievements as string[] : [],
+      });
+    } else if (data) {
       setForm({
         title: data.title || '',
         summary: data.summary || '',
         key_achievements: data.keyAchievements || [],
       });
     }
-  }, [data]);
+  }, [data, stagedProfile]);
 
   const handleChange = (field: keyof ProfileForm) => (
     event: React.ChangeEvent<HTMLInputElement>
@@ -107,14 +125,14 @@ export function ProfilePage() {
     };
 
     try {
-      await updateMutation.mutateAsync(payload);
-      setSuccess('Profile saved successfully.');
+      await stageMutation.mutateAsync({ entityType: 'profile', action: 'UPDATE', payload });
+      setSuccess('Profile changes staged. Commit and push them from the Commits page to publish.');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save profile');
+      setError(err instanceof Error ? err.message : 'Failed to stage profile');
     }
   };
 
-  if (isLoading) {
+  if (isLoading || loadingStaged) {
     return (
       <Box sx={{ p: 3, display: 'flex', justifyContent: 'center' }}>
         <CircularProgress />
@@ -131,6 +149,16 @@ export function ProfilePage() {
         </Button>
       </Stack>
 
+      {stagedProfile && !success && (
+        <Alert
+          severity="info"
+          sx={{ mb: 3 }}
+          action={<Button color="inherit" size="small" onClick={() => navigate('/commits')}>Review</Button>}
+        >
+          Showing your staged edit. Saving again replaces it; the portfolio changes once it is pushed.
+        </Alert>
+      )}
+
       {error && (
         <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
           {error}
@@ -240,7 +268,7 @@ export function ProfilePage() {
             startIcon={isSaving ? <CircularProgress size={20} /> : <SaveIcon />}
             disabled={isSaving}
           >
-            {isSaving ? 'Saving...' : 'Save Changes'}
+            {isSaving ? 'Staging...' : 'Stage Changes'}
           </Button>
         </Stack>
       </form>
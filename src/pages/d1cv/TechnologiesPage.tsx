@@ -38,6 +38,7 @@ import {
 } from '@mui/material';
 import {
   Add as AddIcon,
+  UploadFile as UploadIcon,
   Edit as EditIcon,
   Delete as DeleteIcon,
   Search as SearchIcon,
@@ -50,8 +51,8 @@ import {
   SmartToy as SmartToyIcon,
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
-import { useD1CVTechnologiesWithAIMatch, useStageTechnology } from '@hooks/useD1CV';
-import { usePendingStagedD1CV } from '@hooks/useCommits';
+import { useD1CVTechnologiesWithAIMatch } from '@hooks/useD1CV';
+import { useUncommittedChanges, useStageChange, technologyChange, parseChangePayload, type Action } from '@hooks/useCommits';
 import type { D1CVTechnologyWithAIMatch, AIAgentTechnology } from '@/types';
 
 const LEVEL_COLORS: Record<string, 'success' | 'primary' | 'warning' | 'default'> = {
@@ -78,64 +79,56 @@ export function D1CVTechnologiesPage() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [techToDelete, setTechToDelete] = useState<D1CVTechnologyWithAIMatch | null>(null);
   const { data: technologies = [], isLoading, error, refetch } = useD1CVTechnologiesWithAIMatch();
-  const { mutate: stageTechnology, isPending: staging } = useStageTechnology();
-  const { data: pendingStaged = [], refetch: refetchStaged } = usePendingStagedD1CV();
+  const { mutate: stageChange, isPending: staging } = useStageChange();
+  const { data: uncommitted = [] } = useUncommittedChanges();
+
+  // Uncommitted technology changes with their decoded payloads
+  const stagedTechnologies = useMemo(() => uncommitted
+    .filter((change) => change.entity_type === 'technology')
+    .map((change) => ({ change, payload: parseChangePayload(change) }))
+    .filter(({ payload }) => typeof payload.name === 'string'),
+  [uncommitted]);
 
   // Create a map of staged technologies for quick lookup (keyed by lowercase name)
   const stagedTechMap = useMemo(() => {
-    const map = new Map<string, { operation: string; stagedId: number }>();
-    pendingStaged.forEach((item) => {
-      if (item.entity_type === 'technology' && item.payload) {
-        try {
-          const payload = JSON.parse(item.payload);
-          if (payload.name) {
-            map.set(payload.name.toLowerCase(), {
-              operation: item.operation,
-              stagedId: item.id
-            });
-          }
-        } catch {
-          // ignore parse errors
-        }
-      }
+    const map = new Map<string, { action: Action; changeId: string }>();
+    stagedTechnologies.forEach(({ change, payload }) => {
+      map.set((payload.name as string).toLowerCase(), {
+        action: change.action,
+        changeId: change.id,
+      });
     });
     return map;
-  }, [pendingStaged]);
+  }, [stagedTechnologies]);
 
-  // Create virtual technology entries from staged INSERTs (new technologies not in production)
+  // Create virtual technology entries from staged CREATEs (new technologies not in production)
   const stagedInsertTechnologies = useMemo(() => {
     const virtualTechs: D1CVTechnologyWithAIMatch[] = [];
     const existingNames = new Set(technologies.map(t => t.name.toLowerCase()));
 
-    pendingStaged.forEach((item) => {
-      if (item.entity_type === 'technology' && item.operation === 'INSERT' && item.payload) {
-        try {
-          const payload = JSON.parse(item.payload);
-          // Only add if not already in production
-          if (payload.name && !existingNames.has(payload.name.toLowerCase())) {
-            virtualTechs.push({
-              id: -item.id, // Negative ID to distinguish from production
-              name: payload.name,
-              category: '', // Will be resolved later or shown as "Pending"
-              category_id: payload.category_id,
-              experience: payload.experience || '',
-              experience_years: payload.experience_years || 0,
-              proficiency_percent: payload.proficiency_percent || 0,
-              level: payload.level || 'Beginner',
-              is_active: payload.is_active ?? true,
-              hasAiMatch: false, // Staged, not yet in AI Agent DB
-              aiMatch: null,
-              _isStaged: true, // Custom flag for UI
-              _stagedOperation: 'INSERT',
-            } as D1CVTechnologyWithAIMatch & { _isStaged?: boolean; _stagedOperation?: string });
-          }
-        } catch {
-          // ignore parse errors
-        }
+    stagedTechnologies.forEach(({ change, payload }, index) => {
+      const name = payload.name as string;
+      // Only add if not already in production
+      if (change.action === 'CREATE' && !existingNames.has(name.toLowerCase())) {
+        virtualTechs.push({
+          id: -(index + 1), // Negative ID to distinguish from production
+          name,
+          category: '', // Will be resolved later or shown as "Pending"
+          category_id: payload.category_id as number,
+          experience: (payload.experience as string) || '',
+          experience_years: (payload.experience_years as number) || 0,
+          proficiency_percent: (payload.proficiency_percent as number) || 0,
+          level: (payload.level as string) || 'Beginner',
+          is_active: (payload.is_active as boolean) ?? true,
+          hasAiMatch: false, // Staged, not yet in AI Agent DB
+          aiMatch: null,
+          _isStaged: true, // Custom flag for UI
+          _stagedOperation: 'CREATE',
+        } as D1CVTechnologyWithAIMatch & { _isStaged?: boolean; _stagedOperation?: string });
       }
     });
     return virtualTechs;
-  }, [pendingStaged, technologies]);
+  }, [stagedTechnologies, technologies]);
 
   // Combine production technologies with staged INSERTs
   const allTechnologies = useMemo(() => {
@@ -264,19 +257,17 @@ export function D1CVTechnologiesPage() {
   const confirmDelete = () => {
     if (!techToDelete) return;
 
-    stageTechnology(
-      {
-        operation: 'DELETE',
+    stageChange(
+      technologyChange({
+        action: 'DELETE',
         entityId: techToDelete.id,
-        entityName: techToDelete.name,
         d1cvPayload: { name: techToDelete.name }, // Minimal payload for delete
-      },
+      }),
       {
         onSuccess: () => {
+          // Stay on page; the staged marker updates from the uncommitted list
           setDeleteDialogOpen(false);
           setTechToDelete(null);
-          // Stay on page and refresh staged status
-          refetchStaged();
         },
       }
     );
@@ -313,6 +304,13 @@ export function D1CVTechnologiesPage() {
           >
             Refresh
           </Button>
+          <Button
+            variant="outlined"
+            startIcon={<UploadIcon />}
+            onClick={() => navigate('/d1cv/technologies/import')}
+          >
+            Import
+          </Button>
           <Button
             variant="contained"
             startIcon={<AddIcon />}
@@ -504,8 +502,8 @@ export function D1CVTechnologiesPage() {
                             const staged = stagedTechMap.get(tech.name.toLowerCase());
                             if (!staged) return null;
 
-                            const isNew = staged.operation === 'INSERT';
-                            const isDelete = staged.operation === 'DELETE';
+                            const isNew = staged.action === 'CREATE';
+                            const isDelete = staged.action === 'DELETE';
 
                             return (
                               <Chip
@@ -650,7 +648,7 @@ export function D1CVTechnologiesPage() {
             Are you sure you want to stage deletion of <strong>{techToDelete?.name}</strong>?
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
-            This will create a staged DELETE operation. You can review and apply it from the Staged Changes page.
+            This will stage a DELETE change. You can review, commit and push it from the Commits page.
           </Typography>
         </DialogContent>
         <DialogActions>
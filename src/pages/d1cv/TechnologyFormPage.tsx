@@ -6,10 +6,11 @@
  * 
  * Supports editing:
  * 1. Technologies in production D1CV database
- * 2. Technologies that are only staged (not yet applied)
+ * 2. Technologies with an uncommitted staged change (including new
+ *    technologies that are only staged); the staged change is replaced
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import {
@@ -24,36 +25,58 @@ import {
   Breadcrumbs,
   Link,
   Chip,
+  Tabs,
+  Tab,
 } from '@mui/material';
 import { Save as SaveIcon, ArrowBack as BackIcon, Science as ScienceIcon, Schedule as PendingIcon, Inventory2 as InventoryIcon } from '@mui/icons-material';
 
-import { useUnifiedTechnology, useStageTechnology, useD1CVCategories, useUpdateStagedTechnology } from '@hooks/useD1CV';
+import { useUnifiedTechnology, useD1CVCategories } from '@hooks/useD1CV';
+import {
+  useUncommittedChanges,
+  useStageChange,
+  useReplaceStagedChange,
+  technologyChange,
+  technologyFormPayloads,
+  findStagedTechnology,
+  parseChangePayload,
+} from '@hooks/useCommits';
 import { useSimilarityCheck } from '@hooks/useSimilarityCheck';
+import type { HistorySubject } from '@hooks/useEntityHistory';
+import { VersionHistory } from '@components/VersionHistory';
 import {
   SimilarTechAlert,
   PortfolioDataSection,
   AIEnrichmentSection,
 } from '@components/technology';
-import type { TechnologyFormData, SimilarTechnology } from '@/types';
-
-const DEFAULT_FORM_VALUES: TechnologyFormData = {
-  name: '',
-  category: '',
-  experience: '',
-  experience_years: 0,
-  proficiency_percent: 50,
-  level: 'Intermediate',
-  is_active: true,
-  // AI fields
-  ai_category: '',
-  summary: '',
-  action: '',
-  effect: '',
-  outcome: '',
-  related_project: '',
-  employer: '',
-  recency: 'current',
-};
+import type { TechnologyFormData, SimilarTechnology, TechnologyCategory } from '@/types';
+import { DEFAULT_TECHNOLOGY_FORM } from '@/constants';
+
+/** Staged payload keys that map straight onto form fields */
+const STAGED_FORM_FIELDS = [
+  'name', 'experience', 'experience_years', 'proficiency_percent', 'level', 'is_active',
+  'summary', 'action', 'effect', 'outcome', 'related_project', 'employer', 'recency',
+] as const;
+
+/**
+ * Form values from a staged technology payload
+ * The payload holds the D1CV category as an id and the AI category as `category`
+ */
+function stagedFormValues(payload: Record<string, unknown>, categories: TechnologyCategory[]): Partial<TechnologyFormData> {
+  const values: Record<string, unknown> = {};
+  for (const field of STAGED_FORM_FIELDS) {
+    if (payload[field] !== undefined) {
+      values[field] = payload[field];
+    }
+  }
+  const category = categories.find(c => c.id === payload.category_id);
+  if (category) {
+    values.category = category.name;
+  }
+  if (typeof payload.category === 'string') {
+    values.ai_category = payload.category;
+  }
+  return values as Partial<TechnologyFormData>;
+}
 
 /** Fake test data for quick form filling */
 const FAKE_TEST_DATA: TechnologyFormData = {
@@ -85,16 +108,34 @@ export function D1CVTechnologyFormPage() {
   // UI State
   const [aiExpanded, setAiExpanded] = useState(false);
   const [showSimilar, setShowSimilar] = useState(false);
-  const [isEditingStaged, setIsEditingStaged] = useState(false);
-  const [stagedId, setStagedId] = useState<number | null>(null);
+  const [tab, setTab] = useState<'details' | 'history'>('details');
 
   // Data hooks - unified endpoint fetches all data in one request
   // Pass aiId to skip fuzzy matching if provided via query parameter
   const { data: unifiedData, isLoading: loadingTech, error: techError } = useUnifiedTechnology(decodedName, aiIdFromQuery);
-  const { mutate: stageTechnology, isPending: staging } = useStageTechnology();
-  const { mutate: updateStaged, isPending: updatingStaged } = useUpdateStagedTechnology();
+  const { data: uncommitted = [], isLoading: loadingStaged } = useUncommittedChanges();
+  const { mutate: stageChange, isPending: staging } = useStageChange();
+  const { mutate: replaceStaged, isPending: updatingStaged } = useReplaceStagedChange();
   const { data: categories = [], isLoading: loadingCategories } = useD1CVCategories();
 
+  // An uncommitted change for this technology is edited in place
+  const stagedChange = useMemo(
+    () => (isEdit ? findStagedTechnology(uncommitted, decodedName) : undefined),
+    [isEdit, uncommitted, decodedName]
+  );
+  const isEditingStaged = Boolean(stagedChange);
+
+  // Only technologies in production have pushed versions
+  const historySubject = useMemo<HistorySubject | null>(() => {
+    const technology = unifiedData?.technology;
+    if (!isEdit || !technology) return null;
+    return {
+      entityType: 'technology',
+      entityId: technology.id > 0 ? technology.id : undefined,
+      stableId: technology.aiMatch?.stable_id,
+    };
+  }, [isEdit, unifiedData]);
+
   /**
    * Get category ID from category name using fetched categories
    */
@@ -111,7 +152,7 @@ export function D1CVTechnologyFormPage() {
     setValue,
     formState: { errors },
   } = useForm<TechnologyFormData>({
-    defaultValues: DEFAULT_FORM_VALUES,
+    defaultValues: DEFAULT_TECHNOLOGY_FORM,
   });
 
   // Similarity check
@@ -121,22 +162,15 @@ export function D1CVTechnologyFormPage() {
     { enabled: watchName.length >= 2 && !isEdit }
   );
 
-  // Populate form when data is loaded (from production or staging)
+  // Populate form when production data is loaded
   useEffect(() => {
     if (!unifiedData?.technology) return;
 
     const technology = unifiedData.technology;
-    const isFromStaging = unifiedData.source === 'staged';
-
-    // Set editing mode based on source
-    if (isFromStaging && unifiedData.staged.staged_id) {
-      setIsEditingStaged(true);
-      setStagedId(unifiedData.staged.staged_id);
-    }
 
     // Populate D1CV fields
     Object.entries(technology).forEach(([key, value]) => {
-      if (key in DEFAULT_FORM_VALUES) {
+      if (key in DEFAULT_TECHNOLOGY_FORM) {
         setValue(key as keyof TechnologyFormData, value);
       }
     });
@@ -169,6 +203,21 @@ export function D1CVTechnologyFormPage() {
     }
   }, [unifiedData, setValue]);
 
+  // Overlay the staged edits once production data and categories are in
+  const appliedStagedId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!stagedChange || loadingTech || loadingCategories || appliedStagedId.current === stagedChange.id) return;
+    appliedStagedId.current = stagedChange.id;
+
+    const staged = stagedFormValues(parseChangePayload(stagedChange), categories);
+    Object.entries(staged).forEach(([key, value]) => {
+      setValue(key as keyof TechnologyFormData, value);
+    });
+    if (staged.summary || staged.action || staged.effect || staged.outcome) {
+      setAiExpanded(true);
+    }
+  }, [stagedChange, loadingTech, loadingCategories, categories, setValue]);
+
   // Show similar technologies alert
   useEffect(() => {
     if (similarTechs && similarTechs.length > 0 && !isEdit) {
@@ -189,64 +238,47 @@ export function D1CVTechnologyFormPage() {
   }, [setValue]);
 
   const onSubmit = useCallback((data: TechnologyFormData) => {
-    const hasAiData = data.summary || data.action || data.effect || data.outcome;
-
-    const d1cvPayload = {
-      category_id: getCategoryId(data.category),
-      name: data.name,
-      experience: data.experience,
-      experience_years: data.experience_years,
-      proficiency_percent: data.proficiency_percent,
-      level: data.level,
-      is_active: data.is_active,
-    };
+    const { d1cvPayload, aiPayload } = technologyFormPayloads(data, getCategoryId(data.category));
 
-    const aiPayload = hasAiData
-      ? {
-        summary: data.summary,
-        action: data.action,
-        effect: data.effect,
-        outcome: data.outcome,
-        related_project: data.related_project,
-        employer: data.employer,
-        recency: data.recency,
-        // AI category is independent from D1CV category (no coupling)
-        category: data.ai_category,
-      }
-      : undefined;
-
-    // If editing a staged record, update it directly
-    if (isEditingStaged && stagedId) {
-      updateStaged(
+    // If editing a staged change, replace it (keeping its original action)
+    if (stagedChange) {
+      replaceStaged(
         {
-          stagedId,
-          d1cvPayload,
-          aiPayload: aiPayload || {},
+          id: stagedChange.id,
+          change: technologyChange({
+            action: stagedChange.action,
+            entityId: stagedChange.entity_id ? Number(stagedChange.entity_id) : undefined,
+            stableId: stagedChange.stable_id,
+            d1cvPayload,
+            aiPayload,
+          }),
         },
         {
           onSuccess: () => {
-            navigate('/staged');
+            navigate('/commits');
           },
         }
       );
       return;
     }
 
-    // Otherwise, create a new staged record
-    stageTechnology(
-      {
-        operation: isEdit ? 'UPDATE' : 'INSERT',
-        entityName: decodedName, // Use name instead of ID for updates
+    // Otherwise, stage a new change
+    const technology = unifiedData?.technology;
+    stageChange(
+      technologyChange({
+        action: isEdit ? 'UPDATE' : 'CREATE',
+        entityId: technology?.id,
+        stableId: technology?.aiMatch?.stable_id,
         d1cvPayload,
         aiPayload,
-      },
+      }),
       {
         onSuccess: () => {
-          navigate('/staged');
+          navigate('/commits');
         },
       }
     );
-  }, [decodedName, isEdit, isEditingStaged, stagedId, stageTechnology, updateStaged, navigate, getCategoryId]);
+  }, [isEdit, stagedChange, unifiedData, stageChange, replaceStaged, navigate, getCategoryId]);
 
   const handleUseSimilar = useCallback((similar: SimilarTechnology) => {
     setValue('name', similar.name);
@@ -259,7 +291,7 @@ export function D1CVTechnologyFormPage() {
   }, [setValue]);
 
   // Show loading when fetching technology data
-  if (loadingTech && isEdit) {
+  if ((loadingTech || loadingStaged) && isEdit) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: 400 }}>
         <CircularProgress />
@@ -268,7 +300,7 @@ export function D1CVTechnologyFormPage() {
   }
 
   // Show error only if unified fetch failed completely
-  if (techError && isEdit) {
+  if (techError && isEdit && !stagedChange) {
     return (
       <Alert severity="error">
         Technology not found: {techError.message}
@@ -277,7 +309,7 @@ export function D1CVTechnologyFormPage() {
   }
 
   // For editing mode, ensure we have data
-  if (isEdit && !unifiedData?.technology) {
+  if (isEdit && !unifiedData?.technology && !stagedChange) {
     return (
       <Alert severity="warning">
         Technology not found in production or staging.
@@ -309,8 +341,8 @@ export function D1CVTechnologyFormPage() {
           icon={<PendingIcon />}
           sx={{ mb: 2 }}
         >
-          You are editing a <strong>staged</strong> technology that hasn't been applied yet.
-          Changes will update the existing staged record.
+          You are editing a <strong>staged</strong> technology that hasn't been committed yet.
+          Saving replaces the existing staged change.
         </Alert>
       )}
 
@@ -332,8 +364,8 @@ export function D1CVTechnologyFormPage() {
           </Stack>
           <Typography variant="body2" color="text.secondary">
             {isEditingStaged
-              ? 'Update the staged changes before applying to Portfolio'
-              : 'Changes will be staged for review before applying to Portfolio'
+              ? 'Update the staged change before committing it'
+              : 'Changes will be staged for review before pushing to Portfolio'
             }
           </Typography>
         </Box>
@@ -366,46 +398,59 @@ export function D1CVTechnologyFormPage() {
         </Stack>
       </Stack>
 
-      {/* Similar Technologies Alert */}
-      <SimilarTechAlert
-        show={showSimilar}
-        loading={loadingSimilar}
-        similarTechs={similarTechs}
-        onUseSimilar={handleUseSimilar}
-        onDismiss={() => setShowSimilar(false)}
-      />
-
-      {/* Portfolio Data Section */}
-      <Card sx={{ mb: 3 }}>
-        <CardContent>
-          <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 2 }}>
-            <InventoryIcon sx={{ color: 'primary.main' }} />
-            <Typography variant="h6" component="span">Portfolio Data</Typography>
-          </Stack>
-          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-            This data appears on your portfolio website
-          </Typography>
-          <PortfolioDataSection
-            control={control}
-            watch={watch}
-            errors={errors as Record<string, { message?: string }>}
-            loadingSimilar={loadingSimilar}
-            categories={categories}
-            loadingCategories={loadingCategories}
-          />
-        </CardContent>
-      </Card>
-
-      {/* AI Enrichment Section */}
-      <Card>
-        <CardContent>
-          <AIEnrichmentSection
-            control={control}
-            expanded={aiExpanded}
-            onToggleExpand={() => setAiExpanded(!aiExpanded)}
+      {historySubject && (
+        <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 3, borderBottom: 1, borderColor: 'divider' }}>
+          <Tab value="details" label="Details" />
+          <Tab value="history" label="History" />
+        </Tabs>
+      )}
+
+      {tab === 'history' && historySubject ? (
+        <VersionHistory subject={historySubject} />
+      ) : (
+        <>
+          {/* Similar Technologies Alert */}
+          <SimilarTechAlert
+            show={showSimilar}
+            loading={loadingSimilar}
+            similarTechs={similarTechs}
+            onUseSimilar={handleUseSimilar}
+            onDismiss={() => setShowSimilar(false)}
           />
-        </CardContent>
-      </Card>
+
+          {/* Portfolio Data Section */}
+          <Card sx={{ mb: 3 }}>
+            <CardContent>
+              <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 2 }}>
+                <InventoryIcon sx={{ color: 'primary.main' }} />
+                <Typography variant="h6" component="span">Portfolio Data</Typography>
+              </Stack>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                This data appears on your portfolio website
+              </Typography>
+              <PortfolioDataSection
+                control={control}
+                watch={watch}
+                errors={errors as Record<string, { message?: string }>}
+                loadingSimilar={loadingSimilar}
+                categories={categories}
+                loadingCategories={loadingCategories}
+              />
+            </CardContent>
+          </Card>
+
+          {/* AI Enrichment Section */}
+          <Card>
+            <CardContent>
+              <AIEnrichmentSection
+                control={control}
+                expanded={aiExpanded}
+                onToggleExpand={() => setAiExpanded(!aiExpanded)}
+              />
+            </CardContent>
+          </Card>
+        </>
+      )}
     </Box>
   );
 }
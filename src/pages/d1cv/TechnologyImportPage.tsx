@@ -0,0 +1,387 @@
+/**
+ * D1CV Technology Import Page
+ *
+ * Wizard for adding many technologies at once from a CSV or JSON file:
+ * pick the file, map its columns onto the technology form fields, then
+ * review every row. Rows are validated like the form, checked for similar
+ * technologies already in the AI Agent, and the accepted ones are staged
+ * together as one commit.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Stack,
+  Stepper,
+  Step,
+  StepLabel,
+  TextField,
+  MenuItem,
+  Alert,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Breadcrumbs,
+  Link,
+  Tooltip,
+} from '@mui/material';
+import {
+  UploadFile as UploadIcon,
+  ArrowBack as BackIcon,
+  ArrowForward as NextIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import { useD1CVCategories, useD1CVTechnologies } from '@hooks/useD1CV';
+import { useSimilarityCheck } from '@hooks/useSimilarityCheck';
+import { useStageAndCommit } from '@hooks/useCommits';
+import {
+  readImportSource,
+  detectFormat,
+  guessMapping,
+  mapImportRows,
+  importRowChange,
+  IMPORT_FIELDS,
+  type ColumnMapping,
+  type ImportRow,
+  type ImportSource,
+} from '@hooks/useTechnologyImport';
+import type { SimilarTechnology } from '@/types';
+
+const STEPS = ['Choose file', 'Map columns', 'Review and stage'];
+
+/** Similarity scores at or above this count as a likely duplicate */
+const DUPLICATE_SCORE = 0.8;
+
+interface SimilarityResult {
+  loading: boolean;
+  /** The check failed, so the row is unchecked rather than duplicate-free */
+  failed: boolean;
+  matches: SimilarTechnology[];
+}
+
+const NO_MATCHES: SimilarTechnology[] = [];
+
+interface SimilarityCellProps {
+  line: number;
+  name: string;
+  onResult: (line: number, result: SimilarityResult) => void;
+}
+
+/**
+ * Runs the similarity check for one row and reports the outcome upwards
+ */
+function SimilarityCell({ line, name, onResult }: SimilarityCellProps) {
+  const { data: matches = NO_MATCHES, isLoading, isError, error } = useSimilarityCheck(name, { minScore: DUPLICATE_SCORE });
+
+  useEffect(() => {
+    onResult(line, { loading: isLoading, failed: isError, matches });
+  }, [line, isLoading, isError, matches, onResult]);
+
+  if (isLoading) {
+    return <CircularProgress size={16} />;
+  }
+  if (isError) {
+    return (
+      <Tooltip title={error.message}>
+        <Typography variant="caption" color="error">Not checked</Typography>
+      </Tooltip>
+    );
+  }
+  if (matches.length === 0) {
+    return <Typography variant="caption" color="textSecondary">None</Typography>;
+  }
+  return (
+    <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+      {matches.map(match => (
+        <Tooltip key={match.stable_id} title={match.summary ?? match.stable_id}>
+          <Chip size="small" color="warning" variant="outlined" label={`${match.name} ${Math.round(match.score * 100)}%`} />
+        </Tooltip>
+      ))}
+    </Stack>
+  );
+}
+
+export function D1CVTechnologyImportPage() {
+  const navigate = useNavigate();
+  const [step, setStep] = useState(0);
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string>();
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [similar, setSimilar] = useState<Record<number, SimilarityResult>>({});
+  const [overrides, setOverrides] = useState<Record<number, boolean>>({});
+  const [message, setMessage] = useState('');
+
+  const { data: categories = [] } = useD1CVCategories();
+  const { data: technologies = [] } = useD1CVTechnologies();
+  const importMutation = useStageAndCommit();
+
+  const rows = useMemo(
+    () => (source ? mapImportRows(source, mapping, categories, technologies.map(t => t.name)) : []),
+    [source, mapping, categories, technologies]
+  );
+
+  // Valid rows are taken once checked and no likely duplicate was found; either can be overridden
+  const isSelected = (row: ImportRow) => {
+    const result = similar[row.line];
+    return row.errors.length === 0 && (overrides[row.line] ?? (!result?.failed && !result?.matches.length));
+  };
+  const selected = rows.filter(isSelected);
+  const checking = rows.some(row => row.errors.length === 0 && (similar[row.line]?.loading ?? true));
+
+  const reportSimilarity = useCallback((line: number, result: SimilarityResult) => {
+    setSimilar(prev => ({ ...prev, [line]: result }));
+  }, []);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setText(await file.text());
+  };
+
+  const handleRead = () => {
+    try {
+      const read = readImportSource(text, detectFormat(text, fileName));
+      if (read.records.length === 0) {
+        throw new Error('The file has no rows');
+      }
+      setSource(read);
+      setMapping(guessMapping(read.headers));
+      setParseError(null);
+      setStep(1);
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'Could not read the file');
+    }
+  };
+
+  const handleReview = () => {
+    setSimilar({});
+    setOverrides({});
+    setMessage(`Import ${rows.filter(row => row.errors.length === 0).length} technologies`);
+    setStep(2);
+  };
+
+  const handleStage = () => {
+    importMutation.mutate(
+      { changes: selected.map(row => importRowChange(row)), message: message.trim() },
+      { onSuccess: () => navigate('/commits') }
+    );
+  };
+
+  const nameMapped = Object.values(mapping).includes('name');
+  const invalid = rows.filter(row => row.errors.length > 0).length;
+
+  return (
+    <Box>
+      <Breadcrumbs sx={{ mb: 2 }}>
+        <Link component="button" underline="hover" color="inherit" onClick={() => navigate('/d1cv/technologies')}>
+          Portfolio Technologies
+        </Link>
+        <Typography color="text.primary">Import</Typography>
+      </Breadcrumbs>
+
+      <Typography variant="h4" sx={{ mb: 1 }}>Import Technologies</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Add technologies from a CSV or JSON file. Accepted rows are staged as one commit for review before pushing.
+      </Typography>
+
+      <Stepper activeStep={step} sx={{ mb: 3 }}>
+        {STEPS.map(label => (
+          <Step key={label}>
+            <StepLabel>{label}</StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+
+      {step === 0 && (
+        <Card>
+          <CardContent>
+            <Stack spacing={2}>
+              <Box>
+                <Button variant="outlined" component="label" startIcon={<UploadIcon />}>
+                  Choose CSV or JSON file
+                  <input
+                    hidden
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                  />
+                </Button>
+                {fileName && <Typography variant="body2" component="span" sx={{ ml: 2 }}>{fileName}</Typography>}
+              </Box>
+              <TextField
+                label="Or paste the file contents"
+                value={text}
+                onChange={(e) => { setText(e.target.value); setFileName(undefined); }}
+                multiline
+                minRows={8}
+                fullWidth
+                placeholder={'name,category,level,experience_years\nSvelte,Frontend,Intermediate,2'}
+                slotProps={{ htmlInput: { sx: { fontFamily: 'monospace' } } }}
+              />
+              {parseError && <Alert severity="error">{parseError}</Alert>}
+              <Stack direction="row" justifyContent="flex-end">
+                <Button variant="contained" endIcon={<NextIcon />} disabled={!text.trim()} onClick={handleRead}>
+                  Next
+                </Button>
+              </Stack>
+            </Stack>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 1 && source && (
+        <Card>
+          <CardContent>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {source.records.length} rows found. Choose the technology field each column fills.
+            </Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Column</TableCell>
+                    <TableCell>Sample</TableCell>
+                    <TableCell sx={{ width: 260 }}>Field</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {source.headers.map(header => (
+                    <TableRow key={header}>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{header}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2" color="text.secondary" noWrap sx={{ maxWidth: 320 }}>
+                          {source.records.slice(0, 3).map(record => String(record[header] ?? '')).filter(Boolean).join(' · ')}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <TextField
+                          select
+                          size="small"
+                          fullWidth
+                          value={mapping[header] ?? ''}
+                          onChange={(e) => setMapping(prev => ({ ...prev, [header]: e.target.value as ColumnMapping[string] }))}
+                        >
+                          <MenuItem value=""><em>Ignore</em></MenuItem>
+                          {IMPORT_FIELDS.map(({ field, label }) => (
+                            <MenuItem
+                              key={field}
+                              value={field}
+                              disabled={mapping[header] !== field && Object.values(mapping).includes(field)}
+                            >
+                              {label}
+                            </MenuItem>
+                          ))}
+                        </TextField>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            {!nameMapped && <Alert severity="warning" sx={{ mt: 2 }}>Map a column to Name to continue.</Alert>}
+            <Stack direction="row" justifyContent="space-between" sx={{ mt: 2 }}>
+              <Button startIcon={<BackIcon />} onClick={() => setStep(0)}>Back</Button>
+              <Button variant="contained" endIcon={<NextIcon />} disabled={!nameMapped} onClick={handleReview}>
+                Review rows
+              </Button>
+            </Stack>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 2 && (
+        <Card>
+          <CardContent>
+            <Stack direction="row" spacing={1} sx={{ mb: 2 }}>
+              <Chip label={`${rows.length} rows`} />
+              <Chip color="success" label={`${selected.length} selected`} />
+              {invalid > 0 && <Chip color="error" label={`${invalid} with errors`} />}
+            </Stack>
+            <TableContainer sx={{ maxHeight: 520 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" />
+                    <TableCell>Row</TableCell>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Category</TableCell>
+                    <TableCell>Level</TableCell>
+                    <TableCell>AI enrichment</TableCell>
+                    <TableCell>Similar in AI Agent</TableCell>
+                    <TableCell>Problems</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.line} selected={isSelected(row)}>
+                      <TableCell padding="checkbox">
+                        <Checkbox
+                          checked={isSelected(row)}
+                          disabled={row.errors.length > 0}
+                          onChange={(e) => setOverrides(prev => ({ ...prev, [row.line]: e.target.checked }))}
+                        />
+                      </TableCell>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>{row.data.name || '—'}</TableCell>
+                      <TableCell>{row.data.category || '—'}</TableCell>
+                      <TableCell>{row.data.level}</TableCell>
+                      <TableCell>
+                        {row.data.summary || row.data.action || row.data.effect || row.data.outcome
+                          ? <Chip size="small" color="info" variant="outlined" label="Yes" />
+                          : '—'}
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.length === 0
+                          ? <SimilarityCell line={row.line} name={row.data.name} onResult={reportSimilarity} />
+                          : '—'}
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.map(error => (
+                          <Typography key={error} variant="caption" color="error" display="block">{error}</Typography>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            <TextField
+              label="Commit message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              fullWidth
+              required
+              sx={{ mt: 3 }}
+            />
+            {importMutation.error && <Alert severity="error" sx={{ mt: 2 }}>{importMutation.error.message}</Alert>}
+            <Stack direction="row" justifyContent="space-between" sx={{ mt: 2 }}>
+              <Button startIcon={<BackIcon />} onClick={() => setStep(1)} disabled={importMutation.isPending}>Back</Button>
+              <Button
+                variant="contained"
+                startIcon={importMutation.isPending ? <CircularProgress size={20} /> : <SaveIcon />}
+                disabled={selected.length === 0 || checking || !message.trim() || importMutation.isPending}
+                onClick={handleStage}
+              >
+                {checking ? 'Checking for duplicates...' : `Stage ${selected.length} as one commit`}
+              </Button>
+            </Stack>
+          </CardContent>
+        </Card>
+      )}
+    </Box>
+  );
+}
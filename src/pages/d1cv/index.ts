@@ -1,5 +1,6 @@
 export { D1CVTechnologiesPage } from './TechnologiesPage';
 export { D1CVTechnologyFormPage } from './TechnologyFormPage';
+export { D1CVTechnologyImportPage } from './TechnologyImportPage';
 export { D1CVExperiencePage } from './ExperiencePage';
 export { D1CVEducationPage } from './EducationPage';
 export { ExperienceFormPage } from './ExperienceFormPage';
@@ -1,6 +1,12 @@
 export { DashboardPage } from './DashboardPage';
 export { StagedChangesPage } from './StagedChangesPage';
 export { CommitsPage } from './CommitsPage';
+export { PreviewPage } from './PreviewPage';
+export { JobsPage } from './JobsPage';
+export { AuditPage } from './AuditPage';
+export { BackupPage } from './BackupPage';
+export { CVExportPage } from './CVExportPage';
+export { CVVariantsPage } from './CVVariantsPage';
 export { SettingsPage } from './SettingsPage';
 
 // Legacy exports (redirected to D1CV)
@@ -10,7 +10,7 @@
 
 import { createContext, useContext, ReactNode } from 'react';
 import type { IApiClient } from '@/types';
-import { ApiClient } from './api';
+import { apiClient as defaultClient } from './api';
 
 // Create context with undefined default (must be provided)
 const ApiContext = createContext<IApiClient | undefined>(undefined);
@@ -20,14 +20,10 @@ interface ApiProviderProps {
   client?: IApiClient;
 }
 
-// Default client instance
-const defaultClient = new ApiClient(
-  import.meta.env.VITE_API_URL || '/api'
-);
-
 /**
  * Provider component for API client
  * Wrap your app with this to provide API access to all components
+ * Pass `client` to swap the backend, e.g. a MockApiClient in tests or demos
  */
 export function ApiProvider({ children, client = defaultClient }: ApiProviderProps) {
   return (
@@ -0,0 +1,50 @@
+/**
+ * Job Connection Context - Dependency Inversion Principle (DIP)
+ *
+ * Provides the shared JobConnection via React Context, mirroring
+ * SessionContext, so the app bar and any page tracking push jobs read
+ * from one socket instead of opening their own.
+ */
+
+import { createContext, useContext, useSyncExternalStore, ReactNode } from 'react';
+import type { JobConnection, JobConnectionSnapshot } from './jobs';
+
+const JobConnectionContext = createContext<JobConnection | undefined>(undefined);
+
+interface JobConnectionProviderProps {
+  children: ReactNode;
+  connection: JobConnection;
+}
+
+/**
+ * Provider component for the job connection
+ */
+export function JobConnectionProvider({ children, connection }: JobConnectionProviderProps) {
+  return (
+    <JobConnectionContext.Provider value={connection}>
+      {children}
+    </JobConnectionContext.Provider>
+  );
+}
+
+/**
+ * Hook to access the job connection
+ * Throws if used outside of JobConnectionProvider
+ */
+export function useJobConnection(): JobConnection {
+  const context = useContext(JobConnectionContext);
+
+  if (context === undefined) {
+    throw new Error('useJobConnection must be used within a JobConnectionProvider');
+  }
+
+  return context;
+}
+
+/**
+ * Subscribe to the connection status and job updates
+ */
+export function useJobConnectionState(): JobConnectionSnapshot {
+  const connection = useJobConnection();
+  return useSyncExternalStore(connection.subscribe, connection.getSnapshot);
+}
@@ -0,0 +1,50 @@
+/**
+ * Session Context - Dependency Inversion Principle (DIP)
+ *
+ * Provides the SessionManager via React Context, mirroring ApiContext,
+ * so components can react to Cloudflare Access expiry without importing
+ * a singleton.
+ */
+
+import { createContext, useContext, useSyncExternalStore, ReactNode } from 'react';
+import type { SessionManager, SessionSnapshot } from './session';
+
+const SessionContext = createContext<SessionManager | undefined>(undefined);
+
+interface SessionProviderProps {
+  children: ReactNode;
+  session: SessionManager;
+}
+
+/**
+ * Provider component for the session manager
+ */
+export function SessionProvider({ children, session }: SessionProviderProps) {
+  return (
+    <SessionContext.Provider value={session}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
+
+/**
+ * Hook to access the session manager
+ * Throws if used outside of SessionProvider
+ */
+export function useSessionManager(): SessionManager {
+  const context = useContext(SessionContext);
+
+  if (context === undefined) {
+    throw new Error('useSessionManager must be used within a SessionProvider');
+  }
+
+  return context;
+}
+
+/**
+ * Subscribe to the current session state
+ */
+export function useSession(): SessionSnapshot {
+  const session = useSessionManager();
+  return useSyncExternalStore(session.subscribe, session.getSnapshot);
+}
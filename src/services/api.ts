@@ -10,38 +10,182 @@
  * - A7:2017 - XSS: Content-Type enforcement
  */
 
-import type { IApiClient } from '@/types';
+import type { IApiClient, ApiConfig, RequestOptions } from '@/types';
 import { sanitizeObject } from '@utils/sanitize';
+import { ApiError, abortedError, validateResponse } from './errors';
+import { MockApiClient } from './mock';
+
+export { ApiError };
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
 
 // Request timeout in milliseconds (OWASP: DoS prevention)
 const REQUEST_TIMEOUT = 30000;
 
+// Retry defaults - small budget so a dead backend still fails fast
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 300;
+const DEFAULT_MAX_RETRY_DELAY = 5000;
+
+// Header the backend uses to deduplicate replayed mutations
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Transient failures worth another attempt; anything else is final
+const RETRYABLE_CODES = new Set(['NETWORK_ERROR', 'TIMEOUT']);
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+/**
+ * Generate a unique key for a logical mutation, for callers opting in via
+ * RequestOptions.idempotencyKey against endpoints that deduplicate by it
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * Wait between attempts, bailing out early if the caller aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortedError());
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(abortedError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Append query params to an endpoint, skipping undefined values
+ */
+function withQueryParams(endpoint: string, params?: RequestOptions['params']): string {
+  if (!params) {
+    return endpoint;
+  }
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null) {
+      search.append(key, String(value));
+    }
+  }
+  const query = search.toString();
+  if (!query) {
+    return endpoint;
+  }
+  return `${endpoint}${endpoint.includes('?') ? '&' : '?'}${query}`;
+}
+
+/**
+ * Sanitize a request body (OWASP: sanitize input before sending)
+ */
+function sanitizeBody(data: unknown): unknown {
+  return typeof data === 'object' && data !== null
+    ? sanitizeObject(data as Record<string, unknown>)
+    : data;
+}
+
 export class ApiClient implements IApiClient {
   private baseUrl: string;
+  private timeout: number;
+  private retries: number;
+  private retryDelay: number;
+  private maxRetryDelay: number;
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, config: Omit<ApiConfig, 'baseUrl'> = {}) {
     this.baseUrl = baseUrl;
+    this.timeout = config.timeout ?? REQUEST_TIMEOUT;
+    this.retries = Math.max(0, config.retries ?? DEFAULT_RETRIES);
+    this.retryDelay = config.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.maxRetryDelay = config.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+  }
+
+  /**
+   * Only GETs and mutations carrying an idempotency key are safe to replay
+   */
+  private isRetryable<T>(init: RequestInit, options: RequestOptions<T>): boolean {
+    const method = (init.method || 'GET').toUpperCase();
+    return method === 'GET' || Boolean(options.idempotencyKey);
+  }
+
+  /**
+   * Exponential backoff with full jitter: random delay in [0, base * 2^(attempt-1)]
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.maxRetryDelay, this.retryDelay * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
   }
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    init: RequestInit,
+    options: RequestOptions<T> = {}
+  ): Promise<T> {
+    const maxAttempts = this.isRetryable(init, options) ? this.retries + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.attempt<T>(endpoint, init, options);
+      } catch (error) {
+        if (!(error instanceof ApiError)) {
+          throw error;
+        }
+        error.attempts = attempt;
+
+        const transient = RETRYABLE_CODES.has(error.code ?? '') ||
+          RETRYABLE_STATUSES.has(error.status);
+        if (!transient || attempt >= maxAttempts) {
+          throw error;
+        }
+
+        await sleep(this.backoffDelay(attempt), options.signal);
+      }
+    }
+  }
+
+  private async attempt<T>(
+    endpoint: string,
+    init: RequestInit,
+    options: RequestOptions<T>
   ): Promise<T> {
     // Always use the base URL for API calls
-    const url = `${this.baseUrl}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
+    const path = withQueryParams(endpoint, options.params);
+    const url = `${this.baseUrl}${path.startsWith('/') ? path : `/${path}`}`;
+
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw abortedError();
+    }
 
     // OWASP: Implement timeout to prevent hanging requests (DoS)
+    // The caller's signal (e.g. React Query cancellation) aborts the same controller
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, options.timeout ?? this.timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
       const response = await fetch(url, {
-        ...options,
+        ...init,
         signal: controller.signal,
         headers: {
           'Content-Type': 'application/json',
+          ...init.headers,
+          ...(options.idempotencyKey && { [IDEMPOTENCY_KEY_HEADER]: options.idempotencyKey }),
           ...options.headers,
         },
         // Include credentials for cross-origin requests
@@ -49,6 +193,7 @@ export class ApiClient implements IApiClient {
       });
 
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
 
       // Check if we got redirected to login page (HTML instead of JSON)
       const contentType = response.headers.get('content-type') || '';
@@ -79,15 +224,23 @@ export class ApiClient implements IApiClient {
         );
       }
 
-      return response.json();
+      const body: unknown = await response.json().catch(() => {
+        throw new ApiError('Invalid response format', 500, 'INVALID_RESPONSE');
+      });
+
+      return options.schema ? validateResponse(endpoint, options.schema, body, response.status) : body as T;
     } catch (error) {
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
       
       if (error instanceof ApiError) {
         throw error;
       }
       
       if (error instanceof Error && error.name === 'AbortError') {
+        if (!timedOut) {
+          throw abortedError();
+        }
         throw new ApiError('Request timeout', 408, 'TIMEOUT');
       }
       
@@ -99,55 +252,52 @@ export class ApiClient implements IApiClient {
     }
   }
 
-  async get<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: 'GET' });
+  async get<T>(endpoint: string, options?: RequestOptions<T>): Promise<T> {
+    return this.request<T>(endpoint, { method: 'GET' }, options);
   }
 
-  async post<T>(endpoint: string, data: unknown): Promise<T> {
-    // OWASP: Sanitize input before sending
-    const sanitizedData = typeof data === 'object' && data !== null
-      ? sanitizeObject(data as Record<string, unknown>)
-      : data;
-
+  async post<T>(endpoint: string, data: unknown, options?: RequestOptions<T>): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'POST',
-      body: JSON.stringify(sanitizedData),
-    });
+      body: JSON.stringify(sanitizeBody(data)),
+    }, options);
   }
 
-  async put<T>(endpoint: string, data: unknown): Promise<T> {
-    // OWASP: Sanitize input before sending
-    const sanitizedData = typeof data === 'object' && data !== null
-      ? sanitizeObject(data as Record<string, unknown>)
-      : data;
-
+  async put<T>(endpoint: string, data: unknown, options?: RequestOptions<T>): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'PUT',
-      body: JSON.stringify(sanitizedData),
-    });
+      body: JSON.stringify(sanitizeBody(data)),
+    }, options);
   }
 
-  async delete<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: 'DELETE' });
+  async delete<T>(endpoint: string, options?: RequestOptions<T>): Promise<T> {
+    return this.request<T>(endpoint, { method: 'DELETE' }, options);
   }
 }
 
 /**
- * Custom API Error class for better error handling
- * Includes status code and error code for programmatic handling
+ * Parse an optional numeric env var, ignoring blanks and garbage
+ */
+function numericEnv(value: string | undefined): number | undefined {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Build the default client: the in-memory mock backend when
+ * VITE_MOCK_API=true, otherwise the HTTP client for the admin worker
  */
-export class ApiError extends Error {
-  constructor(
-    message: string,
-    public status: number,
-    public code?: string
-  ) {
-    super(message);
-    this.name = 'ApiError';
+function createDefaultClient(): IApiClient {
+  if (import.meta.env.VITE_MOCK_API === 'true') {
+    return new MockApiClient({
+      latency: numericEnv(import.meta.env.VITE_MOCK_LATENCY),
+      errorRate: numericEnv(import.meta.env.VITE_MOCK_ERROR_RATE),
+    });
   }
+  return new ApiClient(API_BASE_URL);
 }
 
 // Default instance for backward compatibility
 // Prefer using ApiContext for new code (Dependency Inversion)
-export const apiClient = new ApiClient(API_BASE_URL);
+export const apiClient: IApiClient = createDefaultClient();
 
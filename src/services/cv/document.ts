@@ -0,0 +1,231 @@
+/**
+ * CV Document Model
+ *
+ * Portfolio records composed into the sections of a printable CV. The
+ * document is plain data, so each output format (HTML for preview and
+ * PDF, WordprocessingML for DOCX) renders the same content.
+ */
+
+import type {
+  ContactInfo,
+  ProfileInfo,
+  Experience,
+  Education,
+  D1CVTechnology,
+} from '@/types';
+
+export type CVTemplateId = 'classic' | 'modern' | 'compact';
+
+export interface CVTemplate {
+  id: CVTemplateId;
+  label: string;
+  description: string;
+  /** CSS font stack; the first family is also used in DOCX */
+  font: string;
+  /** Headings and rules, as a hex colour without the # */
+  accent: string;
+  /** Body text size in points */
+  fontSize: number;
+  /** Section headings in capitals */
+  uppercaseHeadings: boolean;
+  /** Achievement descriptions next to their titles, or titles only */
+  achievementDetail: boolean;
+}
+
+export const CV_TEMPLATES: Record<CVTemplateId, CVTemplate> = {
+  classic: {
+    id: 'classic',
+    label: 'Classic',
+    description: 'Serif type with full achievement detail',
+    font: 'Georgia, "Times New Roman", serif',
+    accent: '222222',
+    fontSize: 11,
+    uppercaseHeadings: true,
+    achievementDetail: true,
+  },
+  modern: {
+    id: 'modern',
+    label: 'Modern',
+    description: 'Sans-serif type with coloured headings',
+    font: 'Calibri, "Segoe UI", Arial, sans-serif',
+    accent: '1565C0',
+    fontSize: 10.5,
+    uppercaseHeadings: false,
+    achievementDetail: true,
+  },
+  compact: {
+    id: 'compact',
+    label: 'Compact',
+    description: 'Small type and achievement titles only, to fit fewer pages',
+    font: 'Arial, Helvetica, sans-serif',
+    accent: '37474F',
+    fontSize: 9.5,
+    uppercaseHeadings: true,
+    achievementDetail: false,
+  },
+};
+
+export interface CVExportOptions {
+  template: CVTemplateId;
+  /** Leave out experience, education and technologies marked inactive */
+  hideInactive: boolean;
+  /** How many technologies the skills section lists, best first */
+  topTechnologies: number;
+  /** Order technologies by proficiency; off keeps the order given (variants) */
+  rankTechnologies: boolean;
+  includeSummary: boolean;
+  includeExperience: boolean;
+  includeEducation: boolean;
+  includeTechnologies: boolean;
+}
+
+export const DEFAULT_CV_OPTIONS: CVExportOptions = {
+  template: 'classic',
+  hideInactive: true,
+  topTechnologies: 15,
+  rankTechnologies: true,
+  includeSummary: true,
+  includeExperience: true,
+  includeEducation: true,
+  includeTechnologies: true,
+};
+
+export interface CVSource {
+  contact: ContactInfo | null;
+  profile: ProfileInfo | null;
+  experiences: Experience[];
+  education: Education[];
+  technologies: D1CVTechnology[];
+}
+
+export interface CVExperienceEntry {
+  role: string;
+  company: string;
+  location: string;
+  period: string;
+  /** Reporting line and operating level, when recorded */
+  context: string;
+  description: string;
+  groups: Array<{
+    title: string;
+    achievements: Array<{ title: string; description: string }>;
+  }>;
+  technologies: string;
+}
+
+export interface CVEducationEntry {
+  institution: string;
+  degree: string;
+  location: string;
+  period: string;
+  description: string;
+  focusAreas: string[];
+}
+
+export interface CVSkillGroup {
+  category: string;
+  skills: string[];
+}
+
+export interface CVDocument {
+  name: string;
+  title: string;
+  /** Email, phone, location and links, in display order */
+  contactLine: string[];
+  summary: string;
+  keyAchievements: string[];
+  experience: CVExperienceEntry[];
+  education: CVEducationEntry[];
+  skills: CVSkillGroup[];
+}
+
+function isShown(item: { is_active?: boolean }, options: CVExportOptions): boolean {
+  return !options.hideInactive || item.is_active !== false;
+}
+
+function byDisplayOrder<T extends { display_order?: number }>(items: T[]): T[] {
+  return [...items].sort((a, b) => (a.display_order ?? 0) - (b.display_order ?? 0));
+}
+
+/**
+ * The technologies the skills section lists
+ * Strongest first (proficiency, then years of use) unless the order given is kept.
+ */
+export function topTechnologies(technologies: D1CVTechnology[], options: CVExportOptions): D1CVTechnology[] {
+  const shown = technologies.filter(tech => isShown(tech, options));
+  const ranked = options.rankTechnologies
+    ? shown.sort((a, b) => b.proficiency_percent - a.proficiency_percent || b.experience_years - a.experience_years)
+    : shown;
+  return ranked.slice(0, Math.max(0, options.topTechnologies));
+}
+
+/**
+ * Group technologies by category, keeping the order of their strongest member
+ */
+function skillGroups(technologies: D1CVTechnology[]): CVSkillGroup[] {
+  const groups = new Map<string, string[]>();
+  for (const tech of technologies) {
+    const category = tech.category || 'Other';
+    groups.set(category, [...(groups.get(category) ?? []), tech.name]);
+  }
+  return [...groups].map(([category, skills]) => ({ category, skills }));
+}
+
+function yearRange(start?: string, end?: string): string {
+  return [start, end].filter(Boolean).join(' – ');
+}
+
+/**
+ * Compose the CV from portfolio records
+ */
+export function composeCV(source: CVSource, options: CVExportOptions): CVDocument {
+  const { contact, profile } = source;
+
+  return {
+    name: contact?.name ?? '',
+    title: profile?.title ?? '',
+    contactLine: [
+      contact?.email,
+      contact?.phone,
+      contact?.location,
+      contact?.linkedin_url,
+      contact?.github_url,
+      contact?.portfolio_url,
+    ].filter((value): value is string => Boolean(value)),
+    summary: options.includeSummary ? profile?.summary ?? '' : '',
+    keyAchievements: options.includeSummary ? profile?.keyAchievements ?? [] : [],
+    experience: options.includeExperience
+      ? byDisplayOrder(source.experiences.filter(item => isShown(item, options))).map(item => ({
+        role: item.role,
+        company: item.company,
+        location: item.location,
+        period: item.period,
+        context: [item.reporting && `Reporting to ${item.reporting}`, item.operatingLevel].filter(Boolean).join(' · '),
+        description: item.description,
+        groups: item.categories
+          .map(category => ({ title: category.title, achievements: category.achievements }))
+          .filter(group => group.achievements.length > 0),
+        technologies: item.technologies,
+      }))
+      : [],
+    education: options.includeEducation
+      ? byDisplayOrder(source.education.filter(item => isShown(item, options))).map(item => ({
+        institution: item.institution,
+        degree: item.degree,
+        location: item.location,
+        period: yearRange(item.start_year, item.end_year),
+        description: item.description,
+        focusAreas: item.focusAreas,
+      }))
+      : [],
+    skills: options.includeTechnologies ? skillGroups(topTechnologies(source.technologies, options)) : [],
+  };
+}
+
+/**
+ * File name for an export, e.g. `Jane-Doe-CV.pdf`
+ */
+export function cvFileName(document: CVDocument, extension: string): string {
+  const name = document.name.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+  return `${name || 'CV'}${name ? '-CV' : ''}.${extension}`;
+}
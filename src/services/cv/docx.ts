@@ -0,0 +1,213 @@
+/**
+ * CV DOCX Renderer
+ *
+ * Writes the CV as an Office Open XML word-processing document: a ZIP of
+ * the package relationships, a style sheet built from the template and
+ * the document body. Only the parts Word needs are written, so the file
+ * opens in Word, Google Docs and LibreOffice alike.
+ */
+
+import { escapeMarkup, sanitizeUrl } from '@utils/sanitize';
+import { createZip } from '@utils/zip';
+import type { CVDocument, CVTemplate } from './document';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// A4 with 16 mm margins, in twentieths of a point
+const PAGE = { width: 11906, height: 16838, margin: 907 };
+const TEXT_WIDTH = PAGE.width - 2 * PAGE.margin;
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  /** Hex colour without the # */
+  color?: string;
+}
+
+interface ParagraphStyle {
+  style?: string;
+  /** Right-aligned tab stop at the margin, for dates opposite a heading */
+  rightTab?: boolean;
+  /** Left indent in twips */
+  indent?: number;
+  /** Space after in twips */
+  after?: number;
+}
+
+function run(value: string, style: RunStyle = {}): string {
+  const props = [
+    style.bold && '<w:b/>',
+    style.italic && '<w:i/>',
+    style.color && `<w:color w:val="${style.color}"/>`,
+  ].filter(Boolean).join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeMarkup(value)}</w:t></w:r>`;
+}
+
+const TAB = '<w:r><w:tab/></w:r>';
+
+function paragraph(content: string, style: ParagraphStyle = {}): string {
+  const props = [
+    style.style && `<w:pStyle w:val="${style.style}"/>`,
+    style.rightTab && `<w:tabs><w:tab w:val="right" w:pos="${TEXT_WIDTH}"/></w:tabs>`,
+    style.after !== undefined && `<w:spacing w:after="${style.after}"/>`,
+    style.indent && `<w:ind w:left="${style.indent}" w:hanging="200"/>`,
+  ].filter(Boolean).join('');
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+function bullet(content: string): string {
+  return paragraph(run('• ') + content, { indent: 360, after: 40 });
+}
+
+/**
+ * Collects external links; each needs a relationship id in the document part
+ */
+class Links {
+  readonly targets: string[] = [];
+
+  hyperlink(label: string, url: string): string {
+    this.targets.push(url);
+    return `<w:hyperlink r:id="rIdLink${this.targets.length}">${run(label, { color: '1565C0' })}</w:hyperlink>`;
+  }
+}
+
+function contactLine(doc: CVDocument, links: Links): string {
+  return doc.contactLine.map((item, index) => {
+    const url = sanitizeUrl(item);
+    const separator = index > 0 ? run(' | ', { color: '777777' }) : '';
+    return separator + (url ? links.hyperlink(item.replace(/^https?:\/\//, ''), url) : run(item, { color: '555555' }));
+  }).join('');
+}
+
+function body(doc: CVDocument, template: CVTemplate, links: Links): string {
+  const parts: string[] = [
+    paragraph(run(doc.name), { style: 'Title' }),
+  ];
+  if (doc.title) {
+    parts.push(paragraph(run(doc.title), { style: 'Subtitle' }));
+  }
+  if (doc.contactLine.length) {
+    parts.push(paragraph(contactLine(doc, links), { after: 120 }));
+  }
+
+  if (doc.summary || doc.keyAchievements.length) {
+    parts.push(paragraph(run('Profile'), { style: 'Heading1' }));
+    if (doc.summary) {
+      parts.push(paragraph(run(doc.summary)));
+    }
+    parts.push(...doc.keyAchievements.map(achievement => bullet(run(achievement))));
+  }
+
+  if (doc.experience.length) {
+    parts.push(paragraph(run('Experience'), { style: 'Heading1' }));
+    for (const entry of doc.experience) {
+      const where = [entry.company, entry.location].filter(Boolean).join(' · ');
+      parts.push(paragraph(run(entry.role, { bold: true }) + run(`, ${where}`) + TAB + run(entry.period, { color: '666666' }), { rightTab: true, after: 0 }));
+      if (entry.context) {
+        parts.push(paragraph(run(entry.context, { italic: true, color: '666666' }), { after: 40 }));
+      }
+      if (entry.description) {
+        parts.push(paragraph(run(entry.description)));
+      }
+      for (const group of entry.groups) {
+        parts.push(paragraph(run(group.title), { style: 'Heading2' }));
+        parts.push(...group.achievements.map(achievement => bullet(
+          run(achievement.title, { bold: true })
+          + (template.achievementDetail && achievement.description ? run(` — ${achievement.description}`) : '')
+        )));
+      }
+      if (entry.technologies) {
+        parts.push(paragraph(run(`Technologies: ${entry.technologies}`, { color: '666666' })));
+      }
+    }
+  }
+
+  if (doc.education.length) {
+    parts.push(paragraph(run('Education'), { style: 'Heading1' }));
+    for (const entry of doc.education) {
+      const heading = entry.degree ? `, ${entry.institution}` : '';
+      const location = entry.location ? ` · ${entry.location}` : '';
+      parts.push(paragraph(run(entry.degree || entry.institution, { bold: true }) + run(heading + location) + TAB + run(entry.period, { color: '666666' }), { rightTab: true, after: 40 }));
+      if (entry.description) {
+        parts.push(paragraph(run(entry.description)));
+      }
+      if (entry.focusAreas.length) {
+        parts.push(paragraph(run(`Focus: ${entry.focusAreas.join(', ')}`, { color: '666666' })));
+      }
+    }
+  }
+
+  if (doc.skills.length) {
+    parts.push(paragraph(run('Skills'), { style: 'Heading1' }));
+    parts.push(...doc.skills.map(group => paragraph(run(`${group.category}: `, { bold: true }) + run(group.skills.join(', ')), { after: 40 })));
+  }
+
+  return parts.join('');
+}
+
+function documentXml(doc: CVDocument, template: CVTemplate, links: Links): string {
+  return `${XML_HEADER}<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>${body(doc, template, links)}`
+    + `<w:sectPr><w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/>`
+    + `<w:pgMar w:top="${PAGE.margin}" w:right="${PAGE.margin}" w:bottom="${PAGE.margin}" w:left="${PAGE.margin}" w:header="0" w:footer="0" w:gutter="0"/>`
+    + '</w:sectPr></w:body></w:document>';
+}
+
+function stylesXml(template: CVTemplate): string {
+  const font = escapeMarkup(template.font.split(',')[0].replace(/"/g, '').trim());
+  // Word sizes are in half-points
+  const size = (points: number) => Math.round(points * 2);
+  const caps = template.uppercaseHeadings ? '<w:caps/>' : '';
+  const style = (id: string, name: string, pPr: string, rPr: string) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>`
+    + `<w:pPr>${pPr}</w:pPr><w:rPr>${rPr}</w:rPr></w:style>`;
+
+  return `${XML_HEADER}<w:styles xmlns:w="${W_NS}">`
+    + `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/>`
+    + `<w:sz w:val="${size(template.fontSize)}"/><w:color w:val="222222"/></w:rPr></w:rPrDefault>`
+    + '<w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+    + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>'
+    + style('Title', 'Title', '<w:spacing w:after="0"/>', `<w:b/><w:color w:val="${template.accent}"/><w:sz w:val="${size(template.fontSize * 2.1)}"/>`)
+    + style('Subtitle', 'Subtitle', '<w:spacing w:after="40"/>', `<w:sz w:val="${size(template.fontSize * 1.2)}"/>`)
+    + style('Heading1', 'heading 1',
+      `<w:keepNext/><w:spacing w:before="240" w:after="80"/><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="${template.accent}"/></w:pBdr><w:outlineLvl w:val="0"/>`,
+      `<w:b/>${caps}<w:color w:val="${template.accent}"/><w:sz w:val="${size(template.fontSize * 1.15)}"/>`)
+    + style('Heading2', 'heading 2', '<w:keepNext/><w:spacing w:before="80" w:after="20"/><w:outlineLvl w:val="1"/>', '<w:b/>')
+    + '</w:styles>';
+}
+
+function documentRelsXml(links: Links): string {
+  const external = links.targets.map((url, index) =>
+    `<Relationship Id="rIdLink${index + 1}" Type="${R_NS}/hyperlink" Target="${escapeMarkup(url)}" TargetMode="External"/>`);
+  return `${XML_HEADER}<Relationships xmlns="${REL_NS}">`
+    + `<Relationship Id="rIdStyles" Type="${R_NS}/styles" Target="styles.xml"/>${external.join('')}</Relationships>`;
+}
+
+const CONTENT_TYPES = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+  + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+  + '</Types>';
+
+const PACKAGE_RELS = `${XML_HEADER}<Relationships xmlns="${REL_NS}">`
+  + `<Relationship Id="rId1" Type="${R_NS}/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+/**
+ * Render the CV as a .docx file
+ */
+export function renderCVDocx(doc: CVDocument, template: CVTemplate): Uint8Array {
+  const links = new Links();
+  const document = documentXml(doc, template, links);
+  return createZip([
+    { name: '[Content_Types].xml', content: CONTENT_TYPES },
+    { name: '_rels/.rels', content: PACKAGE_RELS },
+    { name: 'word/document.xml', content: document },
+    { name: 'word/_rels/document.xml.rels', content: documentRelsXml(links) },
+    { name: 'word/styles.xml', content: stylesXml(template) },
+  ]);
+}
@@ -0,0 +1,113 @@
+/**
+ * CV HTML Renderer
+ *
+ * A standalone HTML page with print styles, used for the on-screen
+ * preview and for PDF: the browser's print engine lays out the pages and
+ * saves them as PDF, so no PDF library ships with the portal.
+ */
+
+import { escapeMarkup, sanitizeUrl } from '@utils/sanitize';
+import type { CVDocument, CVTemplate } from './document';
+
+function text(value: string): string {
+  return escapeMarkup(value);
+}
+
+/**
+ * Links become anchors only when they are http(s) URLs
+ */
+function contactItem(value: string): string {
+  const url = sanitizeUrl(value);
+  return url ? `<a href="${text(url)}">${text(value.replace(/^https?:\/\//, ''))}</a>` : text(value);
+}
+
+function section(title: string, body: string): string {
+  return body ? `<section><h2>${text(title)}</h2>${body}</section>` : '';
+}
+
+function experienceHtml(doc: CVDocument, template: CVTemplate): string {
+  return doc.experience.map(entry => `
+    <div class="entry">
+      <div class="entry-head">
+        <span><strong>${text(entry.role)}</strong>, ${text(entry.company)}${entry.location ? ` · ${text(entry.location)}` : ''}</span>
+        <span class="period">${text(entry.period)}</span>
+      </div>
+      ${entry.context ? `<div class="muted">${text(entry.context)}</div>` : ''}
+      ${entry.description ? `<p>${text(entry.description)}</p>` : ''}
+      ${entry.groups.map(group => `
+        <h3>${text(group.title)}</h3>
+        <ul>${group.achievements.map(a => `<li><strong>${text(a.title)}</strong>${template.achievementDetail && a.description ? ` — ${text(a.description)}` : ''}</li>`).join('')}</ul>
+      `).join('')}
+      ${entry.technologies ? `<div class="muted">Technologies: ${text(entry.technologies)}</div>` : ''}
+    </div>`).join('');
+}
+
+function educationHtml(doc: CVDocument): string {
+  return doc.education.map(entry => `
+    <div class="entry">
+      <div class="entry-head">
+        <span><strong>${text(entry.degree || entry.institution)}</strong>${entry.degree ? `, ${text(entry.institution)}` : ''}${entry.location ? ` · ${text(entry.location)}` : ''}</span>
+        <span class="period">${text(entry.period)}</span>
+      </div>
+      ${entry.description ? `<p>${text(entry.description)}</p>` : ''}
+      ${entry.focusAreas.length ? `<div class="muted">Focus: ${text(entry.focusAreas.join(', '))}</div>` : ''}
+    </div>`).join('');
+}
+
+function styles(template: CVTemplate): string {
+  return `
+    @page { size: A4; margin: 16mm; }
+    body { font-family: ${template.font}; font-size: ${template.fontSize}pt; line-height: 1.35; color: #222; margin: 0; }
+    main { max-width: 180mm; margin: 0 auto; padding: 8mm 0; }
+    h1 { font-size: 2.1em; margin: 0; color: #${template.accent}; }
+    .title { font-size: 1.2em; margin: 2px 0 6px; }
+    .contact { color: #555; }
+    .contact span + span::before { content: ' | '; }
+    a { color: inherit; text-decoration: none; }
+    h2 { font-size: 1.15em; color: #${template.accent}; border-bottom: 1px solid #${template.accent}; margin: 14px 0 6px; padding-bottom: 2px;${template.uppercaseHeadings ? ' text-transform: uppercase; letter-spacing: 0.05em;' : ''} }
+    h3 { font-size: 1em; margin: 6px 0 2px; }
+    p { margin: 4px 0; }
+    ul { margin: 2px 0 4px; padding-left: 18px; }
+    .entry { margin-bottom: 10px; break-inside: avoid; }
+    .entry-head { display: flex; justify-content: space-between; gap: 12px; }
+    .period, .muted { color: #666; }
+    .period { white-space: nowrap; }
+    .skills div { margin: 2px 0; }
+    @media print { main { padding: 0; } }
+  `;
+}
+
+/**
+ * Render the CV as a complete HTML document
+ */
+export function renderCVHtml(doc: CVDocument, template: CVTemplate): string {
+  const summary = [
+    doc.summary ? `<p>${text(doc.summary)}</p>` : '',
+    doc.keyAchievements.length ? `<ul>${doc.keyAchievements.map(a => `<li>${text(a)}</li>`).join('')}</ul>` : '',
+  ].join('');
+  const skills = doc.skills.length
+    ? `<div class="skills">${doc.skills.map(group => `<div><strong>${text(group.category)}:</strong> ${text(group.skills.join(', '))}</div>`).join('')}</div>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${text(doc.name || 'CV')}</title>
+<style>${styles(template)}</style>
+</head>
+<body>
+<main>
+  <header>
+    <h1>${text(doc.name)}</h1>
+    ${doc.title ? `<div class="title">${text(doc.title)}</div>` : ''}
+    <div class="contact">${doc.contactLine.map(item => `<span>${contactItem(item)}</span>`).join('')}</div>
+  </header>
+  ${section('Profile', summary)}
+  ${section('Experience', experienceHtml(doc, template))}
+  ${section('Education', educationHtml(doc))}
+  ${section('Skills', skills)}
+</main>
+</body>
+</html>`;
+}
@@ -0,0 +1,33 @@
+/**
+ * CV document export barrel
+ */
+
+export { composeCV, topTechnologies, cvFileName, CV_TEMPLATES, DEFAULT_CV_OPTIONS } from './document';
+export type {
+  CVTemplateId,
+  CVTemplate,
+  CVExportOptions,
+  CVSource,
+  CVDocument,
+  CVExperienceEntry,
+  CVEducationEntry,
+  CVSkillGroup,
+} from './document';
+export { renderCVHtml } from './html';
+export { renderCVDocx, DOCX_MIME_TYPE } from './docx';
+export { parsePeriod, formatPeriod, parseIsoDate, isoDate, displayDate } from './period';
+export type { Period, PeriodDate } from './period';
+export { toJsonResume, parseJsonResume, isJsonResume, highlightText, JSON_RESUME_SCHEMA_URL } from './jsonResume';
+export type { JsonResume, JsonResumeProfile, JsonResumeWork, JsonResumeEducation, JsonResumeSkill } from './jsonResume';
+export { linkedInFiles, renderLinkedInExport } from './linkedin';
+export {
+  applyVariant,
+  createVariant,
+  readVariants,
+  experienceKey,
+  rankByRelevance,
+  jobDescriptionQueries,
+  mentions,
+  cvVariantSchema,
+} from './variant';
+export type { CVVariant, CVVariantExperience, TechnologyRelevance } from './variant';
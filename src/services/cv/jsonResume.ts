@@ -0,0 +1,247 @@
+/**
+ * JSON Resume
+ *
+ * The open résumé format (https://jsonresume.org/schema), read and written
+ * by résumé builders, themes and job boards. Exports map every portfolio
+ * record; imports accept any valid JSON Resume, ignoring sections the
+ * portfolio has no place for (projects, awards, languages, ...).
+ */
+
+import { s, parseWithSchema, SchemaMismatchError } from '@utils/schema';
+import type { Schema } from '@/types';
+import type { CVSource } from './document';
+import { parsePeriod, isoDate } from './period';
+
+export const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+export interface JsonResumeProfile {
+  network?: string;
+  username?: string;
+  url?: string;
+}
+
+export interface JsonResumeWork {
+  name?: string;
+  position?: string;
+  location?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+}
+
+export interface JsonResumeEducation {
+  institution?: string;
+  url?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+  score?: string;
+  courses?: string[];
+}
+
+export interface JsonResumeSkill {
+  name?: string;
+  level?: string;
+  keywords?: string[];
+}
+
+export interface JsonResume {
+  $schema?: string;
+  basics?: {
+    name?: string;
+    label?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: {
+      address?: string;
+      postalCode?: string;
+      city?: string;
+      countryCode?: string;
+      region?: string;
+    };
+    profiles?: JsonResumeProfile[];
+  };
+  work?: JsonResumeWork[];
+  education?: JsonResumeEducation[];
+  skills?: JsonResumeSkill[];
+  meta?: {
+    version?: string;
+    lastModified?: string;
+  };
+}
+
+const stringList = s.optional(s.array(s.string()));
+
+const jsonResumeSchema: Schema<JsonResume> = s.object({
+  $schema: s.optional(s.string()),
+  basics: s.optional(s.object({
+    name: s.optional(s.string()),
+    label: s.optional(s.string()),
+    email: s.optional(s.string()),
+    phone: s.optional(s.string()),
+    url: s.optional(s.string()),
+    summary: s.optional(s.string()),
+    location: s.optional(s.object({
+      address: s.optional(s.string()),
+      postalCode: s.optional(s.string()),
+      city: s.optional(s.string()),
+      countryCode: s.optional(s.string()),
+      region: s.optional(s.string()),
+    })),
+    profiles: s.optional(s.array(s.object({
+      network: s.optional(s.string()),
+      username: s.optional(s.string()),
+      url: s.optional(s.string()),
+    }))),
+  })),
+  work: s.optional(s.array(s.object({
+    name: s.optional(s.string()),
+    position: s.optional(s.string()),
+    location: s.optional(s.string()),
+    url: s.optional(s.string()),
+    startDate: s.optional(s.string()),
+    endDate: s.optional(s.string()),
+    summary: s.optional(s.string()),
+    highlights: stringList,
+  }))),
+  education: s.optional(s.array(s.object({
+    institution: s.optional(s.string()),
+    url: s.optional(s.string()),
+    area: s.optional(s.string()),
+    studyType: s.optional(s.string()),
+    startDate: s.optional(s.string()),
+    endDate: s.optional(s.string()),
+    score: s.optional(s.string()),
+    courses: stringList,
+  }))),
+  skills: s.optional(s.array(s.object({
+    name: s.optional(s.string()),
+    level: s.optional(s.string()),
+    keywords: stringList,
+  }))),
+  meta: s.optional(s.object({
+    version: s.optional(s.string()),
+    lastModified: s.optional(s.string()),
+  })),
+});
+
+/**
+ * Achievement text as a single highlight line
+ */
+export function highlightText(achievement: { title: string; description: string }): string {
+  return achievement.description ? `${achievement.title}: ${achievement.description}` : achievement.title;
+}
+
+/**
+ * Last path segment of a profile URL, e.g. `jane` for github.com/jane
+ */
+function profileUsername(url: string): string | undefined {
+  try {
+    return new URL(url).pathname.split('/').filter(Boolean).pop();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * "City, Region" as JSON Resume's structured location
+ */
+function splitLocation(location: string | undefined): { city?: string; region?: string } | undefined {
+  if (!location) {
+    return undefined;
+  }
+  const [city, ...rest] = location.split(',').map(part => part.trim());
+  return rest.length ? { city, region: rest.join(', ') } : { city };
+}
+
+function omitBlank<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) =>
+    v !== undefined && v !== '' && !(Array.isArray(v) && v.length === 0))) as T;
+}
+
+/**
+ * Map the portfolio onto JSON Resume
+ * Experience categories are flattened into highlights, and technologies
+ * become one skill per category with the technologies as keywords.
+ */
+export function toJsonResume(source: CVSource, lastModified: string = new Date().toISOString()): JsonResume {
+  const { contact, profile } = source;
+  const links: Array<[string, string | undefined]> = [
+    ['LinkedIn', contact?.linkedin_url],
+    ['GitHub', contact?.github_url],
+  ];
+  const profiles: JsonResumeProfile[] = links.flatMap(([network, url]) => (url ? [{ network, username: profileUsername(url), url }] : []));
+
+  const skills = new Map<string, string[]>();
+  for (const tech of source.technologies.filter(t => t.is_active)) {
+    const category = tech.category || 'Other';
+    skills.set(category, [...(skills.get(category) ?? []), tech.name]);
+  }
+
+  return {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: omitBlank({
+      name: contact?.name,
+      label: profile?.title,
+      email: contact?.email,
+      phone: contact?.phone,
+      url: contact?.portfolio_url,
+      summary: profile?.summary,
+      location: splitLocation(contact?.location),
+      profiles,
+    }),
+    work: source.experiences.map(item => {
+      const period = parsePeriod(item.period);
+      return omitBlank({
+        name: item.company,
+        position: item.role,
+        location: item.location,
+        startDate: period.start && isoDate(period.start),
+        endDate: period.end && period.end !== 'present' ? isoDate(period.end) : undefined,
+        summary: item.description,
+        highlights: item.categories.flatMap(category => category.achievements.map(highlightText)),
+      });
+    }),
+    education: source.education.map(item => omitBlank({
+      institution: item.institution,
+      studyType: item.degree,
+      startDate: item.start_year,
+      endDate: item.end_year,
+      courses: item.focusAreas,
+    })),
+    skills: [...skills].map(([name, keywords]) => ({ name, keywords })),
+    meta: { version: 'v1.0.0', lastModified },
+  };
+}
+
+/**
+ * Whether parsed JSON looks like a JSON Resume rather than another format
+ */
+export function isJsonResume(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const resume = value as Record<string, unknown>;
+  return typeof resume.$schema === 'string'
+    ? resume.$schema.includes('jsonresume')
+    : 'basics' in resume || 'work' in resume;
+}
+
+/**
+ * Validate a parsed JSON Resume
+ */
+export function parseJsonResume(value: unknown): JsonResume {
+  try {
+    return parseWithSchema(jsonResumeSchema, value);
+  } catch (error) {
+    if (error instanceof SchemaMismatchError) {
+      throw new Error(`Not a valid JSON Resume: ${error.message}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * LinkedIn Export
+ *
+ * The CSV files of LinkedIn's own data export (Profile, Positions,
+ * Education, Skills), with the same file names, columns and date style,
+ * so tools that read a LinkedIn archive read the portfolio too. The files
+ * are bundled in one ZIP, as LinkedIn delivers them.
+ */
+
+import { toCsv } from '@utils/csv';
+import { createZip, type ZipEntry } from '@utils/zip';
+import type { CVSource } from './document';
+import { parsePeriod, displayDate } from './period';
+import { highlightText } from './jsonResume';
+
+const PROFILE_COLUMNS = ['First Name', 'Last Name', 'Headline', 'Summary', 'Geo Location', 'Websites'];
+const POSITION_COLUMNS = ['Company Name', 'Title', 'Description', 'Location', 'Started On', 'Finished On'];
+const EDUCATION_COLUMNS = ['School Name', 'Start Date', 'End Date', 'Notes', 'Degree Name', 'Activities'];
+const SKILL_COLUMNS = ['Name'];
+
+// Spreadsheet apps only detect UTF-8 CSV with a byte order mark
+const BOM = '\uFEFF';
+
+/**
+ * The CSV files of a LinkedIn data export, by file name
+ */
+export function linkedInFiles(source: CVSource): ZipEntry[] {
+  const { contact, profile } = source;
+  const [firstName = '', ...lastNames] = (contact?.name ?? '').trim().split(/\s+/);
+  const websites = [contact?.portfolio_url, contact?.github_url, contact?.linkedin_url].filter(Boolean).join(', ');
+
+  const positions = source.experiences.map(item => {
+    const period = parsePeriod(item.period);
+    const highlights = item.categories.flatMap(category => category.achievements.map(a => `• ${highlightText(a)}`));
+    return [
+      item.company,
+      item.role,
+      [item.description, ...highlights].filter(Boolean).join('\n'),
+      item.location,
+      period.start ? displayDate(period.start) : '',
+      period.end && period.end !== 'present' ? displayDate(period.end) : '',
+    ];
+  });
+
+  return [
+    { name: 'Profile.csv', content: BOM + toCsv(PROFILE_COLUMNS, [[firstName, lastNames.join(' '), profile?.title, profile?.summary, contact?.location, websites]]) },
+    { name: 'Positions.csv', content: BOM + toCsv(POSITION_COLUMNS, positions) },
+    {
+      name: 'Education.csv',
+      content: BOM + toCsv(EDUCATION_COLUMNS, source.education.map(item =>
+        [item.institution, item.start_year, item.end_year, item.description, item.degree, item.focusAreas.join(', ')])),
+    },
+    { name: 'Skills.csv', content: BOM + toCsv(SKILL_COLUMNS, source.technologies.filter(t => t.is_active).map(t => [t.name])) },
+  ];
+}
+
+/**
+ * The LinkedIn-style CSV files as one ZIP archive
+ */
+export function renderLinkedInExport(source: CVSource): Uint8Array {
+  return createZip(linkedInFiles(source));
+}
@@ -0,0 +1,82 @@
+/**
+ * Employment Periods
+ *
+ * The portfolio stores periods as display text ("Jan 2020 - Present",
+ * "2017 - 2021"); other formats want separate, machine-readable dates.
+ * These helpers convert between the two, best effort: text that is not
+ * a recognisable date is left out rather than guessed.
+ */
+
+export interface PeriodDate {
+  year: number;
+  /** 1-12, when the period gives one */
+  month?: number;
+}
+
+export interface Period {
+  start?: PeriodDate;
+  /** 'present' for ongoing roles; undefined when the period has no end */
+  end?: PeriodDate | 'present';
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const ONGOING = /^(present|current|now|today|ongoing)$/i;
+
+function parseDate(text: string): PeriodDate | undefined {
+  const value = text.trim();
+  let match = /^(\d{4})(?:-(\d{1,2})(?:-\d{1,2})?)?$/.exec(value);
+  if (match) {
+    return { year: Number(match[1]), ...(match[2] && { month: Number(match[2]) }) };
+  }
+  match = /^(\d{1,2})\/(\d{4})$/.exec(value);
+  if (match) {
+    return { year: Number(match[2]), month: Number(match[1]) };
+  }
+  match = /^([a-z]+)\.?\s+(\d{4})$/i.exec(value);
+  const month = match ? MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) : -1;
+  return match && month >= 0 ? { year: Number(match[2]), month: month + 1 } : undefined;
+}
+
+/**
+ * Read a period such as "Mar 2019 – Present" or "2017 - 2021"
+ */
+export function parsePeriod(text: string): Period {
+  const [from = '', to] = text.split(/\s+[-–—]\s+|\s*[–—]\s*|(?<=\d{4})-(?=\d{4}|[a-z])|\s+to\s+/i);
+  const start = parseDate(from);
+  if (to === undefined) {
+    return { start };
+  }
+  return { start, end: ONGOING.test(to.trim()) ? 'present' : parseDate(to) };
+}
+
+/**
+ * ISO 8601 date, as precise as the period: `2020-03` or `2020`
+ */
+export function isoDate(date: PeriodDate): string {
+  return date.month ? `${date.year}-${String(date.month).padStart(2, '0')}` : String(date.year);
+}
+
+/**
+ * Display text as the portfolio writes it: `Mar 2020` or `2020`
+ */
+export function displayDate(date: PeriodDate): string {
+  return date.month ? `${MONTH_LABELS[date.month - 1]} ${date.year}` : String(date.year);
+}
+
+/**
+ * Period display text from separate dates; a missing end means ongoing
+ */
+export function formatPeriod(start: PeriodDate | undefined, end: PeriodDate | undefined): string {
+  if (!start) {
+    return end ? displayDate(end) : '';
+  }
+  return `${displayDate(start)} - ${end ? displayDate(end) : 'Present'}`;
+}
+
+/**
+ * Parse an ISO 8601 date (or year-month, or year) from another format
+ */
+export function parseIsoDate(text: string | undefined): PeriodDate | undefined {
+  return text ? parseDate(text) : undefined;
+}
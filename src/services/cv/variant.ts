@@ -0,0 +1,184 @@
+/**
+ * CV Variants
+ *
+ * A variant tailors the CV to one job application: which experiences
+ * and achievements appear and in what order, which technologies are
+ * listed, and an optional profile summary written for the role. Records
+ * are referenced by name (company and role, achievement title,
+ * technology name) rather than by id or position, so a variant keeps
+ * working when records are re-created or reordered.
+ */
+
+import { s, parseWithSchema } from '@utils/schema';
+import type { Schema, Experience, D1CVTechnologyWithAIMatch } from '@/types';
+import type { CVSource } from './document';
+
+export interface CVVariantExperience {
+  /** `experienceKey` of the experience */
+  key: string;
+  /** Achievement titles to keep, in order; undefined keeps them all */
+  achievements?: string[];
+}
+
+export interface CVVariant {
+  id: string;
+  name: string;
+  /** Replaces the profile summary when set */
+  summary?: string;
+  /** The job description the variant was tailored to */
+  jobDescription?: string;
+  experiences: CVVariantExperience[];
+  /** Technology names, most relevant first */
+  technologies: string[];
+  updated_at: string;
+}
+
+export const cvVariantSchema: Schema<CVVariant> = s.object({
+  id: s.string(),
+  name: s.string(),
+  summary: s.optional(s.string()),
+  jobDescription: s.optional(s.string()),
+  experiences: s.array(s.object({
+    key: s.string(),
+    achievements: s.optional(s.array(s.string())),
+  })),
+  technologies: s.array(s.string()),
+  updated_at: s.string(),
+});
+
+/**
+ * Name-based reference to an experience, stable across environments
+ */
+export function experienceKey(experience: Pick<Experience, 'company' | 'role'>): string {
+  return `${experience.company}|${experience.role}`.toLowerCase();
+}
+
+/**
+ * Stored variants (`{ variants: [...] }`), skipping entries that do not parse
+ */
+export function readVariants(content: { variants?: unknown } | undefined): CVVariant[] {
+  const variants = Array.isArray(content?.variants) ? content.variants : [];
+  return variants.flatMap((variant: unknown) => {
+    try {
+      return [parseWithSchema(cvVariantSchema, variant)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * A variant covering every active experience and technology, to trim down from
+ */
+export function createVariant(source: CVSource, name: string, now: Date = new Date()): CVVariant {
+  return {
+    id: `${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    experiences: [...source.experiences]
+      .filter(item => item.is_active !== false)
+      .sort((a, b) => (a.display_order ?? 0) - (b.display_order ?? 0))
+      .map(item => ({ key: experienceKey(item) })),
+    technologies: source.technologies
+      .filter(tech => tech.is_active)
+      .sort((a, b) => b.proficiency_percent - a.proficiency_percent)
+      .map(tech => tech.name),
+    updated_at: now.toISOString(),
+  };
+}
+
+function tailorExperience(experience: Experience, selection: CVVariantExperience, order: number): Experience {
+  const { achievements } = selection;
+  const rank = (title: string) => achievements?.indexOf(title) ?? 0;
+  return {
+    ...experience,
+    is_active: true,
+    display_order: order,
+    categories: experience.categories.map(category => ({
+      ...category,
+      achievements: category.achievements
+        .filter(achievement => rank(achievement.title) >= 0)
+        .sort((a, b) => rank(a.title) - rank(b.title)),
+    })),
+  };
+}
+
+/**
+ * The portfolio as the variant presents it
+ * Selected records are shown even when inactive in the base data, and
+ * keep the variant's order; records the variant no longer finds (renamed
+ * or deleted since) are left out.
+ */
+export function applyVariant(source: CVSource, variant: CVVariant): CVSource {
+  const experiences = new Map(source.experiences.map(item => [experienceKey(item), item]));
+  const technologies = new Map(source.technologies.map(tech => [tech.name.toLowerCase(), tech]));
+
+  return {
+    ...source,
+    profile: source.profile && variant.summary?.trim()
+      ? { ...source.profile, summary: variant.summary }
+      : source.profile,
+    experiences: variant.experiences.flatMap((selection, index) => {
+      const experience = experiences.get(selection.key);
+      return experience ? [tailorExperience(experience, selection, index)] : [];
+    }),
+    technologies: variant.technologies.flatMap(name => {
+      const tech = technologies.get(name.toLowerCase());
+      return tech ? [{ ...tech, is_active: true }] : [];
+    }),
+  };
+}
+
+// =============================================================================
+// JOB DESCRIPTION RELEVANCE
+// =============================================================================
+
+const MAX_QUERIES = 12;
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * Short search queries from a job description, one per line or sentence
+ * Semantic search matches short phrases better than a whole posting.
+ */
+export function jobDescriptionQueries(jobDescription: string): string[] {
+  const phrases = jobDescription
+    .split(/[\n\r•;]+|(?<=[.!?])\s+/)
+    .map(phrase => phrase.replace(/^[\s*-]+/, '').trim().slice(0, MAX_QUERY_LENGTH))
+    .filter(phrase => phrase.length >= 2);
+  return [...new Set(phrases)].slice(0, MAX_QUERIES);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether the job description names the technology outright
+ */
+export function mentions(jobDescription: string, name: string): boolean {
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(name)}(?![\\p{L}\\p{N}])`, 'iu').test(jobDescription);
+}
+
+export interface TechnologyRelevance {
+  name: string;
+  /** 0-1: 1 when named outright, otherwise the best similarity score */
+  score: number;
+}
+
+/**
+ * Technologies by relevance to a job description, most relevant first
+ * `similarity` holds AI Agent scores by stable id, when they were fetched;
+ * ties keep the stronger technology first.
+ */
+export function rankByRelevance(
+  technologies: D1CVTechnologyWithAIMatch[],
+  jobDescription: string,
+  similarity: Record<string, number> = {},
+): TechnologyRelevance[] {
+  return technologies
+    .map(tech => ({
+      tech,
+      score: mentions(jobDescription, tech.name) ? 1 : similarity[tech.aiMatch?.stable_id ?? ''] ?? 0,
+    }))
+    .sort((a, b) => b.score - a.score || b.tech.proficiency_percent - a.tech.proficiency_percent)
+    .map(({ tech, score }) => ({ name: tech.name, score }));
+}
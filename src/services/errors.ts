@@ -0,0 +1,56 @@
+/**
+ * API Errors - shared by every IApiClient implementation
+ *
+ * Lives apart from the HTTP client so alternative clients (e.g. the mock
+ * backend) raise exactly the same errors without importing fetch logic.
+ */
+
+import type { Schema } from '@/types';
+import { parseWithSchema, SchemaMismatchError } from '@utils/schema';
+
+/**
+ * Custom API Error class for better error handling
+ * Includes status code and error code for programmatic handling,
+ * the number of attempts made before giving up, and for
+ * SCHEMA_MISMATCH the path of the offending response field
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public attempts: number = 1,
+    public field?: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Error raised when the caller cancels a request via its AbortSignal
+ */
+export function abortedError(): ApiError {
+  return new ApiError('Request aborted', 0, 'ABORTED');
+}
+
+/**
+ * Check a response body against its schema at the API boundary
+ * Mismatches become SCHEMA_MISMATCH errors naming the offending field
+ */
+export function validateResponse<T>(endpoint: string, schema: Schema<T>, body: unknown, status: number): T {
+  try {
+    return parseWithSchema(schema, body);
+  } catch (error) {
+    if (error instanceof SchemaMismatchError) {
+      throw new ApiError(
+        `Unexpected response from ${endpoint}: ${error.message}`,
+        status,
+        'SCHEMA_MISMATCH',
+        1,
+        error.field
+      );
+    }
+    throw error;
+  }
+}
@@ -8,5 +8,19 @@
 // API client (concrete implementation - use for initialization only)
 export { apiClient, ApiClient, ApiError } from './api';
 
+// In-memory backend for offline development and tests (VITE_MOCK_API=true)
+export { MockApiClient, createMockSeed } from './mock';
+
 // API Context (Dependency Inversion - prefer this in components)
 export { ApiProvider, useApiClient } from './ApiContext';
+
+// Session expiry detection and re-auth (Cloudflare Access)
+export { SessionManager, SessionAwareApiClient, bindQueryClientToSession } from './session';
+export { SessionProvider, useSession, useSessionManager } from './SessionContext';
+
+// Live push job status (WebSocket with REST polling fallback)
+export { JobConnection, jobSocketUrl } from './jobs';
+export { JobConnectionProvider, useJobConnection, useJobConnectionState } from './JobConnectionContext';
+
+// Printable CV documents (HTML for preview and PDF, DOCX) and résumé formats
+export { composeCV, renderCVHtml, renderCVDocx, toJsonResume, parseJsonResume, renderLinkedInExport } from './cv';
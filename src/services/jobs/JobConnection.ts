@@ -0,0 +1,454 @@
+/**
+ * Job Connection - shared live feed of push job status
+ *
+ * One connection per app to the JobOrchestrator Durable Object, shared by
+ * every component that tracks push jobs:
+ * - Reconnects with exponential backoff and jitter, so a worker deploy
+ *   does not get hammered by every open tab at once
+ * - Remembers the sequence number of the last event it saw and asks for
+ *   everything after it when it resubscribes, so jobs that finished while
+ *   the socket was down are not lost; the connect handshake resets that
+ *   position when a restarted server starts numbering from 1 again
+ * - Falls back to polling `/v2/jobs/:id` when WebSockets keep failing
+ *   (proxies and corporate firewalls that block upgrades), while still
+ *   trying to get the socket back in the background
+ *
+ * React binds to it through JobConnectionProvider/useJobConnectionState.
+ */
+
+import type { Schema } from '@/types';
+import { s, parseWithSchema } from '@utils/schema';
+
+export type JobTarget = 'both' | 'd1cv' | 'ai-agent';
+export type JobOverallStatus = 'pending' | 'in-progress' | 'd1cv-done' | 'ai-done' | 'completed' | 'failed';
+export type JobSideStatus = 'pending' | 'in-progress' | 'success' | 'failed' | 'skipped';
+
+export interface JobSideResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+export interface DOJobStatus {
+  jobId: string;
+  commitId: string;
+  target: JobTarget;
+  overallStatus: JobOverallStatus;
+  d1cvStatus: JobSideStatus;
+  aiAgentStatus: JobSideStatus;
+  d1cvResult?: JobSideResult;
+  aiAgentResult?: JobSideResult;
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export type JobConnectionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'polling';
+
+export interface JobConnectionSnapshot {
+  status: JobConnectionStatus;
+  /** Latest status of every subscribed job, by job id */
+  jobs: ReadonlyMap<string, DOJobStatus>;
+  activeJobs: DOJobStatus[];
+  error: string | null;
+  /** When the next reconnect attempt is due (epoch ms), if one is scheduled */
+  retryAt: number | null;
+}
+
+/**
+ * Minimal WebSocket surface, injectable for tests
+ */
+export interface JobSocket {
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onopen: (() => void) | null;
+  onmessage: ((event: { data: string }) => void) | null;
+  onclose: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+export interface JobConnectionOptions {
+  /** WebSocket endpoint; null when sockets are unavailable and only polling works */
+  url: string | null;
+  /** Fetch one job over REST (`GET /v2/jobs/:id`) */
+  poll: (jobId: string, signal?: AbortSignal) => Promise<DOJobStatus>;
+  /** Opens the socket; defaults to the browser WebSocket */
+  createSocket?: (url: string) => JobSocket;
+  /** Jitter source; defaults to Math.random */
+  random?: () => number;
+}
+
+interface JobMessage {
+  type: 'connected' | 'status' | 'active-jobs' | 'pong' | 'error';
+  /**
+   * Position of the event in the server's stream; replays resend the same numbers.
+   * On 'connected' it is the server's latest position.
+   */
+  seq?: number;
+  jobId?: string;
+  /** Job status for 'status', a list of them for 'active-jobs'; validated before use */
+  data?: unknown;
+  timestamp: string;
+  message?: string;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://api.admin.{YOUR_DOMAIN}';
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+// Consecutive failed connects before status is fetched over REST instead
+const POLL_AFTER_FAILURES = 3;
+const POLL_INTERVAL = 5000;
+const PING_INTERVAL = 30000;
+
+const TERMINAL_STATUSES: JobOverallStatus[] = ['completed', 'failed'];
+
+const sideStatusSchema = s.oneOf('pending', 'in-progress', 'success', 'failed', 'skipped');
+const sideResultSchema = s.optional(s.object({
+  success: s.boolean(),
+  message: s.optional(s.string()),
+  error: s.optional(s.string()),
+}));
+
+export const jobStatusSchema: Schema<DOJobStatus> = s.object({
+  jobId: s.string(),
+  commitId: s.string(),
+  target: s.oneOf('both', 'd1cv', 'ai-agent'),
+  overallStatus: s.oneOf('pending', 'in-progress', 'd1cv-done', 'ai-done', 'completed', 'failed'),
+  d1cvStatus: sideStatusSchema,
+  aiAgentStatus: sideStatusSchema,
+  d1cvResult: sideResultSchema,
+  aiAgentResult: sideResultSchema,
+  startedAt: s.string(),
+  updatedAt: s.string(),
+  completedAt: s.optional(s.string()),
+});
+
+const activeJobsSchema = s.array(jobStatusSchema);
+
+/**
+ * Validate an event payload; malformed ones are dropped, like unparseable frames
+ */
+function parseEventData<T>(schema: Schema<T>, value: unknown): T | null {
+  try {
+    return parseWithSchema(schema, value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * WebSocket endpoint of the admin worker
+ */
+export function jobSocketUrl(apiBaseUrl: string = API_BASE_URL): string {
+  return `${apiBaseUrl.replace('https://', 'wss://').replace('http://', 'ws://')}/v2/ws`;
+}
+
+/**
+ * Delay before reconnect attempt `attempt` (0-based)
+ * Doubles per attempt up to a cap; the upper half is randomised ("equal
+ * jitter") so clients dropped together do not retry together
+ */
+export function reconnectDelay(attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempt);
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+export function isTerminalJob(job: DOJobStatus): boolean {
+  return TERMINAL_STATUSES.includes(job.overallStatus);
+}
+
+function browserSocket(url: string): JobSocket {
+  return new WebSocket(url) as unknown as JobSocket;
+}
+
+export class JobConnection {
+  private snapshot: JobConnectionSnapshot = { status: 'idle', jobs: new Map(), activeJobs: [], error: null, retryAt: null };
+  private listeners = new Set<() => void>();
+  private subscriptions = new Set<string>();
+  private url: string | null;
+  private poll: JobConnectionOptions['poll'];
+  private createSocket: (url: string) => JobSocket;
+  private random: () => number;
+  private socket: JobSocket | null = null;
+  private open = false;
+  private started = false;
+  private failures = 0;
+  private lastSeq = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private polling = new Map<string, AbortController>();
+
+  constructor(options: JobConnectionOptions) {
+    this.url = options.url;
+    this.poll = options.poll;
+    this.createSocket = options.createSocket ?? browserSocket;
+    this.random = options.random ?? Math.random;
+  }
+
+  // ---------------------------------------------------------------------------
+  // State (useSyncExternalStore contract)
+  // ---------------------------------------------------------------------------
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): JobConnectionSnapshot => this.snapshot;
+
+  private setSnapshot(patch: Partial<JobConnectionSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.listeners.forEach(listener => listener());
+  }
+
+  private setJob(job: DOJobStatus): void {
+    const known = this.snapshot.jobs.get(job.jobId);
+    // Polls and replays can arrive after a newer live event
+    if (known && known.updatedAt > job.updatedAt) {
+      return;
+    }
+    this.setSnapshot({ jobs: new Map(this.snapshot.jobs).set(job.jobId, job) });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Connection lifecycle
+  // ---------------------------------------------------------------------------
+
+  connect(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.failures = 0;
+    if (this.url === null) {
+      this.startPolling();
+      return;
+    }
+    this.setSnapshot({ status: 'connecting', error: null });
+    this.openSocket(this.url);
+  }
+
+  disconnect(): void {
+    this.started = false;
+    this.clearReconnect();
+    this.stopPing();
+    this.stopPolling();
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      this.open = false;
+      socket.close(1000, 'User disconnect');
+    }
+    this.setSnapshot({ status: 'idle', retryAt: null });
+  }
+
+  private openSocket(url: string): void {
+    let socket: JobSocket;
+    try {
+      socket = this.createSocket(url);
+    } catch (error) {
+      this.setSnapshot({ error: `Failed to create WebSocket: ${error instanceof Error ? error.message : String(error)}` });
+      this.handleClose();
+      return;
+    }
+    this.socket = socket;
+    socket.onopen = () => this.handleOpen();
+    socket.onmessage = (event) => this.handleMessage(event.data);
+    socket.onerror = () => this.setSnapshot({ error: 'WebSocket connection error' });
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.handleClose();
+      }
+    };
+  }
+
+  private handleOpen(): void {
+    this.open = true;
+    this.failures = 0;
+    this.stopPolling();
+    this.setSnapshot({ status: 'connected', error: null, retryAt: null });
+
+    // Resubscribe and ask for whatever happened while we were away
+    this.subscriptions.forEach(jobId => this.send({ type: 'subscribe', jobId, since: this.lastSeq }));
+
+    this.pingTimer = setInterval(() => this.send({ type: 'ping' }), PING_INTERVAL);
+  }
+
+  private handleClose(): void {
+    this.socket = null;
+    this.open = false;
+    this.stopPing();
+    if (!this.started || this.url === null) {
+      return;
+    }
+
+    const delay = reconnectDelay(this.failures, this.random);
+    this.failures += 1;
+    if (this.failures >= POLL_AFTER_FAILURES) {
+      this.startPolling();
+    }
+    const url = this.url;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket(url);
+    }, delay);
+    this.setSnapshot({
+      status: this.pollTimer !== null ? 'polling' : 'reconnecting',
+      retryAt: Date.now() + delay,
+    });
+  }
+
+  private handleMessage(raw: string): void {
+    let message: JobMessage;
+    try {
+      message = JSON.parse(raw) as JobMessage;
+    } catch {
+      // Not ours to act on; the next status event or poll catches us up
+      return;
+    }
+
+    if (message.type === 'connected') {
+      // Behind our position means the server restarted and numbers from 1 again
+      if (typeof message.seq === 'number' && message.seq < this.lastSeq) {
+        this.lastSeq = message.seq;
+      }
+      return;
+    }
+
+    if (typeof message.seq === 'number') {
+      if (message.seq <= this.lastSeq) {
+        return;
+      }
+      this.lastSeq = message.seq;
+    }
+
+    switch (message.type) {
+      case 'status': {
+        const job = parseEventData(jobStatusSchema, message.data);
+        if (job) {
+          this.setJob(job);
+        }
+        break;
+      }
+      case 'active-jobs': {
+        const activeJobs = parseEventData(activeJobsSchema, message.data);
+        if (activeJobs) {
+          this.setSnapshot({ activeJobs });
+        }
+        break;
+      }
+      case 'error':
+        this.setSnapshot({ error: typeof message.data === 'string' ? message.data : message.message ?? 'Unknown error' });
+        break;
+      default:
+        break;
+    }
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.socket && this.open) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer !== null) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // REST fallback
+  // ---------------------------------------------------------------------------
+
+  private startPolling(): void {
+    if (this.pollTimer !== null) {
+      return;
+    }
+    this.pollTimer = setInterval(() => this.pollAll(), POLL_INTERVAL);
+    this.setSnapshot({ status: 'polling' });
+    this.pollAll();
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer !== null) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.polling.forEach(controller => controller.abort());
+    this.polling.clear();
+  }
+
+  private pollAll(): void {
+    this.subscriptions.forEach(jobId => this.pollJob(jobId));
+  }
+
+  private pollJob(jobId: string): void {
+    const known = this.snapshot.jobs.get(jobId);
+    // 'all' is a socket-only feed, and finished jobs no longer change
+    if (jobId === 'all' || this.polling.has(jobId) || (known && isTerminalJob(known))) {
+      return;
+    }
+    const controller = new AbortController();
+    this.polling.set(jobId, controller);
+    this.poll(jobId, controller.signal)
+      .then((job) => {
+        if (!controller.signal.aborted && this.subscriptions.has(jobId)) {
+          this.setJob(job);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!controller.signal.aborted) {
+          this.setSnapshot({ error: error instanceof Error ? error.message : 'Job status request failed' });
+        }
+      })
+      .finally(() => {
+        if (this.polling.get(jobId) === controller) {
+          this.polling.delete(jobId);
+        }
+      });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Subscriptions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Track a job ('all' for every job the server knows about)
+   */
+  watch(jobId: string): void {
+    this.subscriptions.add(jobId);
+    this.send({ type: 'subscribe', jobId });
+    if (this.pollTimer !== null) {
+      this.pollJob(jobId);
+    }
+  }
+
+  unwatch(jobId: string): void {
+    this.subscriptions.delete(jobId);
+    this.send({ type: 'unsubscribe', jobId });
+    this.polling.get(jobId)?.abort();
+    this.polling.delete(jobId);
+    if (this.snapshot.jobs.has(jobId)) {
+      const jobs = new Map(this.snapshot.jobs);
+      jobs.delete(jobId);
+      this.setSnapshot({ jobs });
+    }
+  }
+
+  requestActiveJobs(): void {
+    this.send({ type: 'list-active' });
+  }
+}
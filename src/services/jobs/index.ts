@@ -0,0 +1,18 @@
+/**
+ * Job connection barrel export
+ */
+
+export { JobConnection, jobStatusSchema, jobSocketUrl, reconnectDelay, isTerminalJob } from './JobConnection';
+export type {
+  DOJobStatus,
+  JobTarget,
+  JobOverallStatus,
+  JobSideStatus,
+  JobSideResult,
+  JobConnectionStatus,
+  JobConnectionSnapshot,
+  JobConnectionOptions,
+  JobSocket,
+} from './JobConnection';
+export { watchJobOutcomes, jobOutcomeMessage, notificationsSupported, showJobNotification } from './notifications';
+export type { JobOutcomeMessage } from './notifications';
@@ -0,0 +1,81 @@
+/**
+ * Job outcome notifications
+ *
+ * Pushes run on the worker, so the user has usually moved on to another
+ * page (or tab) by the time one finishes. These helpers spot jobs that
+ * have just finished on the shared connection and describe them for a
+ * desktop notification.
+ */
+
+import { isTerminalJob, type DOJobStatus, type JobConnection, type JobOverallStatus, type JobTarget } from './JobConnection';
+
+export interface JobOutcomeMessage {
+  title: string;
+  body: string;
+}
+
+const TARGET_LABELS: Record<JobTarget, string> = {
+  both: 'D1CV and AI Agent',
+  d1cv: 'D1CV',
+  'ai-agent': 'AI Agent',
+};
+
+/**
+ * Call `onFinished` once for each job that reaches completed or failed
+ * Jobs already finished when watching starts are not reported again.
+ * Returns the unsubscribe function.
+ */
+export function watchJobOutcomes(connection: JobConnection, onFinished: (job: DOJobStatus) => void): () => void {
+  const seen = new Map<string, JobOverallStatus>();
+  connection.getSnapshot().jobs.forEach(job => seen.set(job.jobId, job.overallStatus));
+
+  return connection.subscribe(() => {
+    connection.getSnapshot().jobs.forEach(job => {
+      const previous = seen.get(job.jobId);
+      seen.set(job.jobId, job.overallStatus);
+      if (previous !== job.overallStatus && isTerminalJob(job)) {
+        onFinished(job);
+      }
+    });
+  });
+}
+
+/**
+ * Title and body describing a finished job
+ */
+export function jobOutcomeMessage(job: DOJobStatus): JobOutcomeMessage {
+  const target = TARGET_LABELS[job.target];
+  if (job.overallStatus === 'failed') {
+    const error = job.d1cvResult?.error ?? job.aiAgentResult?.error;
+    return {
+      title: `Push to ${target} failed`,
+      body: `Commit ${job.commitId}${error ? `: ${error}` : ''}`,
+    };
+  }
+  return {
+    title: `Push to ${target} completed`,
+    body: `Commit ${job.commitId} is live`,
+  };
+}
+
+export function notificationsSupported(): boolean {
+  return typeof Notification !== 'undefined';
+}
+
+/**
+ * Show a desktop notification for a finished job, if the user allowed them
+ * Returns false when the caller should fall back to an in-app message.
+ */
+export function showJobNotification(job: DOJobStatus, onClick: () => void): boolean {
+  if (!notificationsSupported() || Notification.permission !== 'granted') {
+    return false;
+  }
+  const { title, body } = jobOutcomeMessage(job);
+  const notification = new Notification(title, { body, tag: job.jobId });
+  notification.onclick = () => {
+    window.focus();
+    onClick();
+    notification.close();
+  };
+  return true;
+}
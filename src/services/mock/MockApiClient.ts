@@ -0,0 +1,229 @@
+/**
+ * Mock API Client - in-memory backend for offline development and tests
+ *
+ * Implements IApiClient against seedable fixtures instead of the
+ * Cloudflare workers, so the portal can be demoed and end-to-end tested
+ * without credentials. Responses go through the same schemas and raise
+ * the same ApiError codes as the HTTP client.
+ *
+ * Enable with VITE_MOCK_API=true, or inject directly:
+ *   <ApiProvider client={new MockApiClient({ latency: 0 })}>
+ */
+
+import type { IApiClient, RequestOptions, HttpMethod } from '@/types';
+import { ApiError, abortedError, validateResponse } from '../errors';
+import { createMockSeed, type MockDatabase } from './fixtures';
+import { mockRoutes, type MockRoute } from './routes';
+
+/**
+ * Latency range in milliseconds; a single number means a fixed delay
+ */
+export type MockLatency = number | { min: number; max: number };
+
+export interface MockApiConfig {
+  /** Initial state; defaults to createMockSeed() */
+  seed?: MockDatabase;
+  /** Simulated network latency (default 150-600ms) */
+  latency?: MockLatency;
+  /** Probability (0-1) that any request fails with a 503 */
+  errorRate?: number;
+  /** Random source, injectable for deterministic tests */
+  random?: () => number;
+}
+
+/**
+ * A one-off failure queued with failNext()
+ */
+export interface MockFailure {
+  status: number;
+  code?: string;
+  message?: string;
+}
+
+interface CompiledRoute {
+  route: MockRoute;
+  regex: RegExp;
+  keys: string[];
+}
+
+interface QueuedFailure {
+  method?: HttpMethod;
+  match: string | RegExp;
+  failure: MockFailure;
+}
+
+const DEFAULT_LATENCY: MockLatency = { min: 150, max: 600 };
+
+/**
+ * Compile `/api/d1cv/experience/:id` into a regex with named segments
+ */
+function compile(route: MockRoute): CompiledRoute {
+  const keys: string[] = [];
+  const source = route.pattern
+    .split('/')
+    .map(segment => {
+      if (segment.startsWith(':')) {
+        keys.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  return { route, regex: new RegExp(`^${source}/?$`), keys };
+}
+
+function toQuery(params: RequestOptions['params']): URLSearchParams {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params ?? {})) {
+    if (value !== undefined && value !== null) {
+      query.append(key, String(value));
+    }
+  }
+  return query;
+}
+
+export class MockApiClient implements IApiClient {
+  private db: MockDatabase;
+  private latency: MockLatency;
+  private errorRate: number;
+  private random: () => number;
+  private routes: CompiledRoute[] = mockRoutes.map(compile);
+  private failures: QueuedFailure[] = [];
+
+  constructor(config: MockApiConfig = {}) {
+    this.db = config.seed ?? createMockSeed();
+    this.latency = config.latency ?? DEFAULT_LATENCY;
+    this.errorRate = config.errorRate ?? 0;
+    this.random = config.random ?? Math.random;
+  }
+
+  /**
+   * Current backend state (for assertions in tests)
+   */
+  get state(): MockDatabase {
+    return this.db;
+  }
+
+  /**
+   * Restore the fixtures, discarding every change and queued failure
+   */
+  reset(seed: MockDatabase = createMockSeed()): void {
+    this.db = seed;
+    this.failures = [];
+  }
+
+  /**
+   * Make the next request whose path matches fail once
+   *
+   * @example
+   * client.failNext('/v2/push/ai', { status: 502, message: 'AI Agent unavailable' });
+   */
+  failNext(match: string | RegExp, failure: MockFailure, method?: HttpMethod): void {
+    this.failures.push({ match, failure, method });
+  }
+
+  async get<T>(endpoint: string, options?: RequestOptions<T>): Promise<T> {
+    return this.request<T>('GET', endpoint, undefined, options);
+  }
+
+  async post<T>(endpoint: string, data: unknown, options?: RequestOptions<T>): Promise<T> {
+    return this.request<T>('POST', endpoint, data, options);
+  }
+
+  async put<T>(endpoint: string, data: unknown, options?: RequestOptions<T>): Promise<T> {
+    return this.request<T>('PUT', endpoint, data, options);
+  }
+
+  async delete<T>(endpoint: string, options?: RequestOptions<T>): Promise<T> {
+    return this.request<T>('DELETE', endpoint, undefined, options);
+  }
+
+  private async request<T>(
+    method: HttpMethod,
+    endpoint: string,
+    data: unknown,
+    options: RequestOptions<T> = {}
+  ): Promise<T> {
+    const [rawPath, rawQuery = ''] = endpoint.split('?');
+    const path = rawPath.startsWith('/') ? rawPath : `/${rawPath}`;
+    const query = new URLSearchParams(rawQuery);
+    toQuery(options.params).forEach((value, key) => query.append(key, value));
+
+    await this.delay(options.signal);
+    this.injectFailure(method, path);
+
+    const body = this.dispatch(method, path, query, data);
+
+    // Round-trip through JSON so callers never share references with the store
+    const json: unknown = body === undefined ? undefined : JSON.parse(JSON.stringify(body));
+    return options.schema ? validateResponse(endpoint, options.schema, json, 200) : json as T;
+  }
+
+  private dispatch(method: HttpMethod, path: string, query: URLSearchParams, data: unknown): unknown {
+    let pathMatched = false;
+
+    for (const { route, regex, keys } of this.routes) {
+      const match = regex.exec(path);
+      if (!match) {
+        continue;
+      }
+      pathMatched = true;
+      if (route.method !== method) {
+        continue;
+      }
+      const params: Record<string, string> = {};
+      keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(match[index + 1]);
+      });
+      const body = typeof data === 'object' && data !== null ? data as Record<string, unknown> : {};
+      return route.handler(this.db, { params, query, body });
+    }
+
+    if (pathMatched) {
+      throw new ApiError(`Method ${method} not allowed for ${path}`, 405, 'METHOD_NOT_ALLOWED');
+    }
+    throw new ApiError(`No mock route for ${method} ${path}`, 404, 'NOT_FOUND');
+  }
+
+  /**
+   * Raise a queued or random failure for this request, if any
+   */
+  private injectFailure(method: HttpMethod, path: string): void {
+    const index = this.failures.findIndex(({ match, method: only }) =>
+      (!only || only === method) && (typeof match === 'string' ? path.startsWith(match) : match.test(path)));
+
+    if (index !== -1) {
+      const [{ failure }] = this.failures.splice(index, 1);
+      throw new ApiError(failure.message ?? `HTTP ${failure.status}`, failure.status, failure.code);
+    }
+
+    if (this.errorRate > 0 && this.random() < this.errorRate) {
+      throw new ApiError('Service temporarily unavailable (simulated)', 503, 'SERVICE_UNAVAILABLE');
+    }
+  }
+
+  /**
+   * Simulated network latency, cancelled early if the caller aborts
+   */
+  private delay(signal?: AbortSignal): Promise<void> {
+    const ms = typeof this.latency === 'number'
+      ? this.latency
+      : this.latency.min + this.random() * (this.latency.max - this.latency.min);
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortedError());
+        return;
+      }
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(abortedError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
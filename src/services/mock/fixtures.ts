@@ -0,0 +1,535 @@
+/**
+ * Mock Backend Fixtures
+ *
+ * Seed data for the in-memory backend. Every call to createMockSeed()
+ * returns a fresh copy, so tests and demos can mutate state freely and
+ * reset it between runs.
+ */
+
+import type {
+  TechnologyCategory,
+  D1CVTechnology,
+  AIAgentTechnology,
+  StagedChange as LegacyStagedChange,
+  Experience,
+  Education,
+  ContactInfo,
+  ProfileInfo,
+  ContentSection,
+  VectorizeStatus,
+} from '@/types';
+import type { StagedChange, Commit } from '@hooks/useCommits';
+import type { AuditEntry } from '@hooks/useAudit';
+import type { DOJobStatus } from '../jobs';
+import type { CVVariant } from '../cv';
+
+/**
+ * Complete state of the mock backend
+ * Mirrors the tables behind the admin worker: D1CV production data,
+ * the AI Agent database, both staging queues and the v2 commit log.
+ */
+export interface MockDatabase {
+  categories: TechnologyCategory[];
+  technologies: D1CVTechnology[];
+  aiTechnologies: AIAgentTechnology[];
+  aiCategories: string[];
+  vectorize: VectorizeStatus;
+  /** Legacy staging queues (/stage, /api/staged) */
+  stagedD1CV: LegacyStagedChange[];
+  stagedAI: LegacyStagedChange[];
+  /** v2 git-like workflow (/v2/*) */
+  changes: StagedChange[];
+  commits: Commit[];
+  /** Push jobs as the JobOrchestrator reports them (/v2/jobs) */
+  jobs: DOJobStatus[];
+  /** Every admin write, oldest first (/v2/audit) */
+  audit: AuditEntry[];
+  /** Tailored CV variants; admin-only, never pushed (/v2/cv-variants) */
+  cvVariants: CVVariant[];
+  experiences: Experience[];
+  education: Education | null;
+  contact: ContactInfo;
+  profile: ProfileInfo;
+  sections: Record<string, ContentSection>;
+  /** Monotonic counter used for generated ids */
+  sequence: number;
+}
+
+const SEED_DATE = '2025-01-15T09:30:00.000Z';
+
+const categories: TechnologyCategory[] = [
+  { id: 1, name: 'Frontend', icon: 'web', display_order: 1 },
+  { id: 2, name: 'Backend', icon: 'dns', display_order: 2 },
+  { id: 3, name: 'Cloud & DevOps', icon: 'cloud', display_order: 3 },
+  { id: 4, name: 'Data', icon: 'storage', display_order: 4 },
+];
+
+function tech(
+  id: number,
+  name: string,
+  categoryId: number,
+  years: number,
+  proficiency: number,
+  level: string
+): D1CVTechnology {
+  return {
+    id,
+    name,
+    category_id: categoryId,
+    category: categories.find(c => c.id === categoryId)?.name,
+    experience: `${years}+ years of production use`,
+    experience_years: years,
+    proficiency_percent: proficiency,
+    level,
+    display_order: id,
+    is_active: true,
+    created_at: SEED_DATE,
+    updated_at: SEED_DATE,
+  };
+}
+
+const technologies: D1CVTechnology[] = [
+  tech(1, 'React', 1, 7, 95, 'Expert'),
+  tech(2, 'TypeScript', 1, 7, 95, 'Expert'),
+  tech(3, 'Angular', 1, 5, 85, 'Advanced'),
+  tech(4, 'Material UI', 1, 4, 80, 'Advanced'),
+  tech(5, 'Node.js', 2, 8, 90, 'Expert'),
+  tech(6, 'Go', 2, 2, 60, 'Intermediate'),
+  tech(7, 'GraphQL', 2, 3, 70, 'Advanced'),
+  tech(8, 'Cloudflare Workers', 3, 3, 85, 'Advanced'),
+  tech(9, 'Docker', 3, 6, 85, 'Advanced'),
+  tech(10, 'Terraform', 3, 2, 55, 'Intermediate'),
+  tech(11, 'PostgreSQL', 4, 8, 85, 'Advanced'),
+  tech(12, 'SQLite', 4, 3, 75, 'Advanced'),
+];
+
+function aiTech(
+  id: number,
+  source: D1CVTechnology,
+  stableId: string,
+  enrichment: Pick<AIAgentTechnology, 'summary' | 'action' | 'effect' | 'outcome' | 'related_project' | 'employer' | 'recency'>
+): AIAgentTechnology {
+  return {
+    id,
+    stable_id: stableId,
+    name: source.name,
+    experience: source.experience,
+    experience_years: source.experience_years,
+    proficiency_percent: source.proficiency_percent,
+    level: source.level,
+    category: source.category,
+    ...enrichment,
+    created_at: SEED_DATE,
+    updated_at: SEED_DATE,
+  };
+}
+
+function byName(name: string): D1CVTechnology {
+  const found = technologies.find(t => t.name === name);
+  if (!found) {
+    throw new Error(`Unknown fixture technology: ${name}`);
+  }
+  return found;
+}
+
+const aiTechnologies: AIAgentTechnology[] = [
+  aiTech(101, byName('React'), 'react-frontend', {
+    summary: 'Component-driven UIs for data-heavy admin and customer products',
+    action: 'Led the migration of a legacy SPA to React with a shared design system',
+    effect: 'Halved the time to ship new screens',
+    outcome: 'Design system adopted by four product teams',
+    related_project: 'Customer Portal',
+    employer: 'Acme Corp',
+    recency: 'current',
+  }),
+  aiTech(102, byName('TypeScript'), 'typescript-frontend', {
+    summary: 'Strict TypeScript across frontend and edge workers',
+    action: 'Introduced strict mode and typed API contracts',
+    effect: 'Caught contract drift at build time',
+    outcome: 'Production incidents from type errors dropped sharply',
+    related_project: 'CV Admin Portal',
+    employer: 'Acme Corp',
+    recency: 'current',
+  }),
+  aiTech(103, byName('Angular'), 'angular-frontend', {
+    summary: 'Enterprise Angular applications with RxJS state',
+    action: 'Maintained a large Angular dashboard',
+    effect: 'Kept a legacy product stable during a rewrite',
+    outcome: 'Zero-downtime cutover',
+    related_project: 'Operations Dashboard',
+    employer: 'Globex',
+    recency: 'recent',
+  }),
+  aiTech(104, byName('Node.js'), 'nodejs-backend', {
+    summary: 'REST and event-driven services on Node.js',
+    action: 'Designed the order-processing service',
+    effect: 'Handled seasonal peaks without manual scaling',
+    outcome: 'Sustained 5x traffic during launches',
+    related_project: 'Order Service',
+    employer: 'Globex',
+    recency: 'current',
+  }),
+  aiTech(105, byName('Cloudflare Workers'), 'cloudflare-workers-cloud', {
+    summary: 'Edge APIs on Workers with D1 and Vectorize',
+    action: 'Built the CV API and AI agent on the edge',
+    effect: 'Global latency under 50ms',
+    outcome: 'Portfolio and chatbot served entirely from the edge',
+    related_project: 'Portfolio Platform',
+    employer: 'Personal',
+    recency: 'current',
+  }),
+  aiTech(106, byName('PostgreSQL'), 'postgresql-data', {
+    summary: 'Relational modelling and query tuning',
+    action: 'Reworked reporting queries and indexes',
+    effect: 'Report generation went from minutes to seconds',
+    outcome: 'Finance team closed month-end a day earlier',
+    related_project: 'Reporting Suite',
+    employer: 'Initech',
+    recency: 'recent',
+  }),
+  // Present in the AI Agent only, so the "missing in D1CV" view has data
+  {
+    id: 107,
+    stable_id: 'kafka-data',
+    name: 'Kafka',
+    experience: '2 years',
+    experience_years: 2,
+    proficiency_percent: 55,
+    level: 'Intermediate',
+    category: 'Data',
+    summary: 'Event streaming between order and fulfilment services',
+    recency: 'legacy',
+    created_at: SEED_DATE,
+    updated_at: SEED_DATE,
+  },
+];
+
+function seedStaged(): Pick<MockDatabase, 'stagedD1CV' | 'stagedAI'> {
+  return {
+    stagedD1CV: [
+      {
+        id: 1,
+        operation: 'INSERT',
+        entity_type: 'technology',
+        payload: {
+          name: 'Svelte',
+          category_id: 1,
+          experience: '1 year on side projects',
+          experience_years: 1,
+          proficiency_percent: 45,
+          level: 'Beginner',
+          is_active: true,
+        },
+        status: 'pending',
+        created_at: SEED_DATE,
+      },
+    ],
+    stagedAI: [
+      {
+        id: 1,
+        operation: 'INSERT',
+        entity_type: 'technology',
+        stable_id: 'svelte-frontend',
+        payload: {
+          stable_id: 'svelte-frontend',
+          summary: 'Lightweight reactive UIs',
+          recency: 'current',
+          category: 'Frontend',
+        },
+        status: 'pending',
+        requires_reindex: true,
+        created_at: SEED_DATE,
+      },
+    ],
+  };
+}
+
+function seedCommitLog(): Pick<MockDatabase, 'changes' | 'commits' | 'jobs' | 'audit'> {
+  return {
+    changes: [
+      {
+        id: 'chg_1',
+        entity_type: 'technology',
+        entity_id: '6',
+        stable_id: null,
+        action: 'UPDATE',
+        target: 'd1cv',
+        payload: JSON.stringify({ name: 'Go', experience_years: 3, proficiency_percent: 70, level: 'Advanced' }),
+        commit_id: null,
+        created_at: SEED_DATE,
+      },
+      {
+        id: 'chg_2',
+        entity_type: 'technology',
+        entity_id: null,
+        stable_id: 'rust-backend',
+        action: 'CREATE',
+        target: 'both',
+        payload: JSON.stringify({
+          name: 'Rust',
+          category_id: 2,
+          experience: 'Hobby projects',
+          experience_years: 1,
+          proficiency_percent: 35,
+          level: 'Beginner',
+          summary: 'Systems programming for CLI tooling',
+          recency: 'current',
+        }),
+        commit_id: 'cmt_2',
+        created_at: SEED_DATE,
+      },
+      {
+        id: 'chg_3',
+        entity_type: 'technology',
+        entity_id: '4',
+        stable_id: null,
+        action: 'UPDATE',
+        target: 'd1cv',
+        payload: JSON.stringify({ name: 'Material UI', experience_years: 4 }),
+        pre_image: JSON.stringify({
+          name: 'Material UI',
+          category_id: 1,
+          experience: '4+ years of production use',
+          experience_years: 3,
+          proficiency_percent: 80,
+          level: 'Advanced',
+          is_active: true,
+          display_order: 4,
+        }),
+        commit_id: 'cmt_1',
+        created_at: SEED_DATE,
+      },
+    ],
+    commits: [
+      {
+        id: 'cmt_1',
+        message: 'Update Material UI experience',
+        status: 'applied_all',
+        target: 'd1cv',
+        error_message: null,
+        error_target: null,
+        created_by: 'admin@example.com',
+        created_at: SEED_DATE,
+        applied_at: SEED_DATE,
+        applied_by: 'admin@example.com',
+      },
+      {
+        id: 'cmt_2',
+        message: 'Add Rust',
+        status: 'pending',
+        target: 'both',
+        error_message: null,
+        error_target: null,
+        created_by: 'admin@example.com',
+        created_at: SEED_DATE,
+        applied_at: null,
+        applied_by: null,
+      },
+    ],
+    jobs: [
+      {
+        jobId: 'job_1',
+        commitId: 'cmt_1',
+        target: 'd1cv',
+        overallStatus: 'failed',
+        d1cvStatus: 'failed',
+        aiAgentStatus: 'skipped',
+        d1cvResult: { success: false, error: 'D1_ERROR: database is locked' },
+        startedAt: '2025-01-15T09:20:00.000Z',
+        updatedAt: '2025-01-15T09:20:04.000Z',
+        completedAt: '2025-01-15T09:20:04.000Z',
+      },
+      {
+        jobId: 'job_2',
+        commitId: 'cmt_1',
+        target: 'd1cv',
+        overallStatus: 'completed',
+        d1cvStatus: 'success',
+        aiAgentStatus: 'skipped',
+        d1cvResult: { success: true, message: 'Applied 1 change(s)' },
+        startedAt: '2025-01-15T09:29:55.000Z',
+        updatedAt: '2025-01-15T09:30:00.000Z',
+        completedAt: '2025-01-15T09:30:00.000Z',
+      },
+    ],
+    audit: [
+      {
+        id: 'aud_1',
+        actor: 'admin@example.com',
+        action: 'change.stage',
+        entity_type: 'change',
+        entity_id: 'chg_3',
+        before: null,
+        after: JSON.stringify({ name: 'Material UI', experience_years: 4 }),
+        created_at: '2025-01-15T09:10:00.000Z',
+      },
+      {
+        id: 'aud_2',
+        actor: 'admin@example.com',
+        action: 'commit.create',
+        entity_type: 'commit',
+        entity_id: 'cmt_1',
+        before: null,
+        after: JSON.stringify({ message: 'Update Material UI experience', status: 'pending' }),
+        created_at: '2025-01-15T09:15:00.000Z',
+      },
+      {
+        id: 'aud_3',
+        actor: 'admin@example.com',
+        action: 'commit.push.d1cv',
+        entity_type: 'commit',
+        entity_id: 'cmt_1',
+        before: JSON.stringify({ status: 'pending' }),
+        after: JSON.stringify({ status: 'applied_all' }),
+        created_at: SEED_DATE,
+      },
+      {
+        id: 'aud_4',
+        actor: 'editor@example.com',
+        action: 'd1cv.cache.purge',
+        entity_type: 'cache',
+        entity_id: null,
+        before: null,
+        after: null,
+        created_at: '2025-01-15T09:31:00.000Z',
+      },
+    ],
+  };
+}
+
+const experiences: Experience[] = [
+  {
+    id: 1,
+    company: 'Acme Corp',
+    location: 'Remote',
+    period: '2021 - Present',
+    role: 'Staff Frontend Engineer',
+    reporting: 'VP Engineering',
+    operatingLevel: 'Staff',
+    description: 'Owns the frontend platform and design system.',
+    categories: [
+      {
+        title: 'Platform',
+        achievements: [
+          { title: 'Design system', description: 'Built a shared component library used by four teams.' },
+          { title: 'Build times', description: 'Cut CI build times by 60% with incremental builds.' },
+        ],
+      },
+    ],
+    technologies: 'React, TypeScript, Material UI, Cloudflare Workers',
+    display_order: 1,
+    is_active: true,
+  },
+  {
+    id: 2,
+    company: 'Globex',
+    location: 'London, UK',
+    period: '2017 - 2021',
+    role: 'Senior Software Engineer',
+    description: 'Full-stack work on order processing and internal dashboards.',
+    categories: [
+      {
+        title: 'Delivery',
+        achievements: [
+          { title: 'Order service', description: 'Designed the event-driven order pipeline.' },
+        ],
+      },
+    ],
+    technologies: 'Node.js, Angular, PostgreSQL, Kafka',
+    display_order: 2,
+    is_active: true,
+  },
+];
+
+const education: Education = {
+  id: 1,
+  institution: 'University of Example',
+  degree: 'BSc Computer Science',
+  location: 'Example City',
+  focusAreas: ['Distributed Systems', 'Human-Computer Interaction'],
+  description: 'Graduated with honours.',
+  start_year: '2009',
+  end_year: '2013',
+  display_order: 1,
+  is_active: true,
+};
+
+const contact: ContactInfo = {
+  id: 1,
+  name: 'Sam Rivera',
+  email: 'sam.rivera@example.com',
+  phone: '+1 555 0100',
+  linkedin_url: 'https://www.linkedin.com/in/example',
+  github_url: 'https://github.com/example',
+  portfolio_url: 'https://portfolio.example.com',
+  location: 'Remote',
+  work_authorization: 'Authorized to work in the EU and UK',
+  availability: 'Open to opportunities',
+  work_preference: 'Remote or hybrid',
+};
+
+const profile: ProfileInfo = {
+  id: 1,
+  title: 'Staff Frontend Engineer',
+  summary: 'Frontend engineer focused on design systems, edge platforms and developer experience.',
+  keyAchievements: [
+    'Built a design system adopted by four product teams',
+    'Moved a portfolio platform entirely to the edge',
+  ],
+};
+
+const sections: Record<string, ContentSection> = {
+  home: {
+    id: 1,
+    section_type: 'home',
+    section_name: 'Home',
+    json_content: {
+      headline: 'Building fast, accessible products',
+      intro: 'I design and ship frontend platforms.',
+    },
+    display_order: 1,
+    is_active: true,
+  },
+  achievements: {
+    id: 2,
+    section_type: 'achievements',
+    section_name: 'Achievements',
+    json_content: {
+      items: [
+        { title: 'Design system', description: 'Adopted by four teams' },
+      ],
+    },
+    display_order: 2,
+    is_active: true,
+  },
+};
+
+/**
+ * Build a fresh copy of the default fixtures
+ * Pass overrides to replace whole tables (e.g. an empty technology list)
+ */
+export function createMockSeed(overrides: Partial<MockDatabase> = {}): MockDatabase {
+  const seed: MockDatabase = {
+    categories,
+    technologies,
+    aiTechnologies,
+    aiCategories: categories.map(c => c.name),
+    vectorize: {
+      healthy: true,
+      indexName: 'cv-technologies',
+      documentCount: aiTechnologies.length,
+      lastUpdated: SEED_DATE,
+    },
+    ...seedStaged(),
+    ...seedCommitLog(),
+    experiences,
+    education,
+    contact,
+    profile,
+    sections,
+    cvVariants: [],
+    sequence: 100,
+    ...overrides,
+  };
+  return structuredClone(seed);
+}
@@ -0,0 +1,8 @@
+/**
+ * Mock backend barrel export
+ */
+
+export { MockApiClient } from './MockApiClient';
+export type { MockApiConfig, MockFailure, MockLatency } from './MockApiClient';
+export { createMockSeed } from './fixtures';
+export type { MockDatabase } from './fixtures';
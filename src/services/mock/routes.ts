@@ -0,0 +1,1954 @@
+/**
+ * Mock Backend Routes
+ *
+ * In-memory handlers for the admin worker endpoints used by the portal.
+ * Handlers return the same JSON shapes as the real backend (validated by
+ * the same response schemas) and throw ApiError for HTTP failures.
+ */
+
+import type {
+  HttpMethod,
+  D1CVTechnology,
+  AIAgentTechnology,
+  StagedChange as LegacyStagedChange,
+  StagedOperation,
+  ApplyDetail,
+  Experience,
+  Education,
+  Technology,
+} from '@/types';
+import type { StagedChange, Commit, CommitStatus, Target, Action, EntityType, ChangePushResult, ChangeConflict } from '@hooks/useCommits';
+import type { AuditEntry } from '@hooks/useAudit';
+import { ApiError } from '../errors';
+import type { CVVariant } from '../cv';
+import { isTerminalJob, type DOJobStatus, type JobSideStatus } from '../jobs';
+import type { MockDatabase } from './fixtures';
+
+export interface MockRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+}
+
+export interface MockRoute {
+  method: HttpMethod;
+  /** Path with `:name` segments, e.g. `/api/d1cv/experience/:id` */
+  pattern: string;
+  handler: (db: MockDatabase, request: MockRequest) => unknown;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+type Payload = Record<string, unknown>;
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function nextId(db: MockDatabase): number {
+  db.sequence += 1;
+  return db.sequence;
+}
+
+function notFound(what: string): never {
+  throw new ApiError(`${what} not found`, 404, 'NOT_FOUND');
+}
+
+function badRequest(message: string): never {
+  throw new ApiError(message, 400, 'VALIDATION_ERROR');
+}
+
+function sameName(a: string | undefined, b: string): boolean {
+  return typeof a === 'string' && a.toLowerCase() === b.toLowerCase();
+}
+
+function asPayload(value: unknown): Payload {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Payload : {};
+}
+
+function parsePayload(payload: string | null): Payload {
+  if (!payload) {
+    return {};
+  }
+  try {
+    return asPayload(JSON.parse(payload));
+  } catch {
+    return {};
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Read a positive integer paging param (`page`, `limit`) from the query
+ */
+function pageParam(query: URLSearchParams, name: string, fallback: number, max = Infinity): number {
+  const raw = query.get(name);
+  if (raw === null) {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1 || value > max) {
+    badRequest(`${name} must be an integer between 1 and ${max}`);
+  }
+  return value;
+}
+
+function numberParam(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id)) {
+    badRequest(`Invalid id: ${value}`);
+  }
+  return id;
+}
+
+function categoryName(db: MockDatabase, categoryId: unknown): string | undefined {
+  return db.categories.find(c => c.id === categoryId)?.name;
+}
+
+function stableIdFor(name: string, category?: string): string {
+  const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return category ? `${slug(name)}-${slug(category)}` : slug(name);
+}
+
+function findAITechnology(db: MockDatabase, name: string): AIAgentTechnology | undefined {
+  return db.aiTechnologies.find(t => sameName(t.name, name));
+}
+
+/**
+ * Copy known D1CV columns from a payload onto a technology row
+ */
+function applyD1CVFields(db: MockDatabase, target: D1CVTechnology, payload: Payload): D1CVTechnology {
+  const fields = ['name', 'experience', 'experience_years', 'proficiency_percent', 'level', 'category_id', 'display_order', 'is_active'] as const;
+  const updated: Record<string, unknown> = { ...target };
+  for (const field of fields) {
+    if (payload[field] !== undefined) {
+      updated[field] = payload[field];
+    }
+  }
+  const result = updated as unknown as D1CVTechnology;
+  result.category = categoryName(db, result.category_id) ?? result.category;
+  result.updated_at = now();
+  return result;
+}
+
+/**
+ * Copy known AI Agent columns from a payload onto a technology row
+ */
+function applyAIFields(target: AIAgentTechnology, payload: Payload): AIAgentTechnology {
+  const fields = [
+    'name', 'experience', 'experience_years', 'proficiency_percent', 'level', 'category',
+    'summary', 'action', 'effect', 'outcome', 'related_project', 'employer', 'recency',
+  ] as const;
+  const updated: Record<string, unknown> = { ...target };
+  for (const field of fields) {
+    if (payload[field] !== undefined) {
+      updated[field] = payload[field];
+    }
+  }
+  const result = updated as unknown as AIAgentTechnology;
+  result.updated_at = now();
+  return result;
+}
+
+type Operation = StagedOperation;
+
+/**
+ * Apply a technology change to the D1CV table
+ * Technologies are matched by id when given, otherwise by name
+ * Returns the id of the row written
+ */
+function writeD1CVTechnology(db: MockDatabase, operation: Operation, payload: Payload, entityId?: number): number {
+  const name = typeof payload.name === 'string' ? payload.name : '';
+  const index = db.technologies.findIndex(t => (entityId !== undefined && t.id === entityId) || sameName(t.name, name));
+
+  if (operation === 'INSERT') {
+    if (index !== -1) {
+      throw new ApiError(`Technology already exists: ${name}`, 409, 'CONFLICT');
+    }
+    const id = nextId(db);
+    const created: D1CVTechnology = {
+      id,
+      name,
+      experience: '',
+      experience_years: 0,
+      proficiency_percent: 0,
+      level: 'Beginner',
+      is_active: true,
+      display_order: id,
+      created_at: now(),
+    };
+    db.technologies.push(applyD1CVFields(db, created, payload));
+    return id;
+  }
+
+  if (index === -1) {
+    notFound(`Technology ${name || entityId}`);
+  }
+  const { id } = db.technologies[index];
+  if (operation === 'DELETE') {
+    db.technologies.splice(index, 1);
+  } else {
+    db.technologies[index] = applyD1CVFields(db, db.technologies[index], payload);
+  }
+  return id;
+}
+
+/**
+ * Apply a technology change to the AI Agent table
+ * Technologies are matched by stable_id, falling back to name
+ * Returns the stable_id of the row written
+ */
+function writeAITechnology(db: MockDatabase, operation: Operation, payload: Payload, stableId?: string): string {
+  const name = typeof payload.name === 'string' ? payload.name : '';
+  const index = db.aiTechnologies.findIndex(t => (stableId && t.stable_id === stableId) || sameName(t.name, name));
+
+  if (operation === 'INSERT') {
+    const base: AIAgentTechnology = index !== -1 ? db.aiTechnologies[index] : {
+      id: nextId(db),
+      stable_id: stableId || stableIdFor(name, typeof payload.category === 'string' ? payload.category : undefined),
+      name,
+      experience: '',
+      experience_years: 0,
+      proficiency_percent: 0,
+      level: 'Beginner',
+      created_at: now(),
+    };
+    const created = applyAIFields(base, payload);
+    if (index === -1) {
+      db.aiTechnologies.push(created);
+    } else {
+      db.aiTechnologies[index] = created;
+    }
+    return created.stable_id;
+  }
+
+  if (index === -1) {
+    notFound(`AI technology ${stableId || name}`);
+  }
+  const { stable_id: written } = db.aiTechnologies[index];
+  if (operation === 'DELETE') {
+    db.aiTechnologies.splice(index, 1);
+  } else {
+    db.aiTechnologies[index] = applyAIFields(db.aiTechnologies[index], payload);
+  }
+  return written;
+}
+
+function markReindexed(db: MockDatabase): void {
+  db.vectorize = {
+    ...db.vectorize,
+    documentCount: db.aiTechnologies.length,
+    lastUpdated: now(),
+  };
+}
+
+// =============================================================================
+// AUDIT LOG
+// =============================================================================
+
+/**
+ * The worker takes the actor from the Cloudflare Access identity
+ * (Cf-Access-Authenticated-User-Email); the mock has a single session
+ */
+const MOCK_ACTOR = 'mock@localhost';
+
+interface AuditSpec {
+  /** Dotted action name, e.g. `experience.update` */
+  action: string;
+  entity_type: string;
+  /** Id of the record touched; creates only know it from the response */
+  entityId?: (request: MockRequest, response?: unknown) => string | number | null | undefined;
+  /** The record as stored, read before and after the handler runs */
+  snapshot?: (db: MockDatabase, entityId: string | null, request: MockRequest) => unknown;
+}
+
+function auditJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+function responseId(_request: MockRequest, response?: unknown): string | number | undefined {
+  const id = (response as { id?: unknown } | undefined)?.id;
+  return typeof id === 'string' || typeof id === 'number' ? id : undefined;
+}
+
+function paramId(request: MockRequest): string {
+  return request.params.id;
+}
+
+/**
+ * Record a successful write in the audit log
+ * Without a snapshot the request body stands in for the "after" state.
+ */
+function audited(spec: AuditSpec, handler: MockRoute['handler']): MockRoute['handler'] {
+  return (db, request) => {
+    const knownId = spec.entityId?.(request);
+    const before = spec.snapshot?.(db, knownId == null ? null : String(knownId), request);
+    const response = handler(db, request);
+    const entityId = spec.entityId?.(request, response) ?? null;
+    const after = spec.snapshot
+      ? spec.snapshot(db, entityId === null ? null : String(entityId), request)
+      : Object.keys(request.body).length > 0 ? request.body : undefined;
+
+    db.audit.push({
+      id: `aud_${nextId(db)}`,
+      actor: MOCK_ACTOR,
+      action: spec.action,
+      entity_type: spec.entity_type,
+      entity_id: entityId === null ? null : String(entityId),
+      before: auditJson(before),
+      after: auditJson(after),
+      created_at: now(),
+    });
+    return response;
+  };
+}
+
+function matchesAuditSearch(entry: AuditEntry, search: string): boolean {
+  const needle = search.toLowerCase();
+  return [entry.actor, entry.action, entry.entity_type, entry.entity_id, entry.before, entry.after]
+    .some(field => field?.toLowerCase().includes(needle));
+}
+
+function distinct(values: string[]): string[] {
+  return [...new Set(values)].sort();
+}
+
+/**
+ * Audit entries, newest first, with the filter facets of the whole log
+ * `action` also matches by prefix, so `commit` finds every commit action
+ */
+function listAudit(db: MockDatabase, query: URLSearchParams) {
+  const search = query.get('q')?.trim();
+  const actor = query.get('actor');
+  const action = query.get('action');
+  const entityType = query.get('entity_type');
+  const from = query.get('from');
+  const to = query.get('to');
+  const page = pageParam(query, 'page', 1);
+  const limit = pageParam(query, 'limit', DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+  const entries = db.audit
+    .filter(entry => !search || matchesAuditSearch(entry, search))
+    .filter(entry => !actor || entry.actor === actor)
+    .filter(entry => !action || entry.action === action || entry.action.startsWith(`${action}.`))
+    .filter(entry => !entityType || entry.entity_type === entityType)
+    .filter(entry => (!from || entry.created_at >= from) && (!to || entry.created_at <= to))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id, undefined, { numeric: true }));
+
+  return {
+    entries: entries.slice((page - 1) * limit, page * limit),
+    total: entries.length,
+    page,
+    limit,
+    facets: {
+      actors: distinct(db.audit.map(entry => entry.actor)),
+      actions: distinct(db.audit.map(entry => entry.action)),
+      entity_types: distinct(db.audit.map(entry => entry.entity_type)),
+    },
+  };
+}
+
+// =============================================================================
+// TECHNOLOGIES
+// =============================================================================
+
+function toLegacyTechnology(db: MockDatabase, tech: D1CVTechnology): Technology {
+  const ai = findAITechnology(db, tech.name);
+  return {
+    ...tech,
+    ai_synced: Boolean(ai),
+    summary: ai?.summary,
+    action: ai?.action,
+    effect: ai?.effect,
+    outcome: ai?.outcome,
+    related_project: ai?.related_project,
+    employer: ai?.employer,
+    recency: ai?.recency,
+  };
+}
+
+/**
+ * D1CV public API shape: hero skills plus technologies grouped by category,
+ * with camelCase numeric fields (normalized by the hooks)
+ */
+function d1cvTechnologiesPayload(db: MockDatabase) {
+  const toPublic = (tech: D1CVTechnology) => ({
+    id: tech.id,
+    name: tech.name,
+    experience: tech.experience,
+    experienceYears: tech.experience_years,
+    proficiencyPercent: tech.proficiency_percent,
+    level: tech.level,
+    category_id: tech.category_id,
+    display_order: tech.display_order,
+    is_active: tech.is_active,
+  });
+
+  return {
+    heroSkills: [],
+    technologyCategories: db.categories.map(category => ({
+      name: category.name,
+      icon: category.icon,
+      technologies: db.technologies.filter(t => t.category_id === category.id).map(toPublic),
+    })),
+  };
+}
+
+function withAIMatch(db: MockDatabase, tech: D1CVTechnology) {
+  const aiMatch = findAITechnology(db, tech.name) ?? null;
+  return { ...tech, hasAiMatch: Boolean(aiMatch), aiMatch };
+}
+
+const technologyRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/api/technologies',
+    handler: (db) => db.technologies.map(tech => toLegacyTechnology(db, tech)),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/technologies/count',
+    handler: (db) => {
+      const byCategory: Record<string, number> = {};
+      for (const tech of db.technologies) {
+        const key = tech.category || 'Uncategorized';
+        byCategory[key] = (byCategory[key] || 0) + 1;
+      }
+      return {
+        total: db.technologies.length,
+        active: db.technologies.filter(t => t.is_active).length,
+        byCategory,
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/technologies/:id',
+    handler: (db, { params }) => {
+      const tech = db.technologies.find(t => t.id === numberParam(params.id));
+      return tech ? toLegacyTechnology(db, tech) : notFound(`Technology ${params.id}`);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/d1cv/technologies',
+    handler: d1cvTechnologiesPayload,
+  },
+  {
+    method: 'GET',
+    pattern: '/api/d1cv/technologies/with-ai-match',
+    handler: (db) => {
+      const technologies = db.technologies.map(tech => withAIMatch(db, tech));
+      const withAiMatch = technologies.filter(t => t.hasAiMatch).length;
+      return {
+        technologies,
+        stats: {
+          total: technologies.length,
+          withAiMatch,
+          withoutAiMatch: technologies.length - withAiMatch,
+        },
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/d1cv/technologies/:name',
+    handler: (db, { params }) =>
+      db.technologies.find(t => sameName(t.name, params.name)) ?? notFound(`Technology ${params.name}`),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/d1cv/categories',
+    handler: (db) => db.categories,
+  },
+  {
+    method: 'POST',
+    pattern: '/api/d1cv/cache/purge',
+    handler: audited({ action: 'd1cv.cache.purge', entity_type: 'cache' }, () => ({ success: true, message: 'Cache purged', purged: 3 })),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/technology/unified/:name',
+    handler: (db, { params, query }) => {
+      const aiId = query.get('aiId');
+      const d1cv = db.technologies.find(t => sameName(t.name, params.name)) ?? null;
+      const ai = (aiId ? db.aiTechnologies.find(t => t.stable_id === aiId) : undefined) ?? findAITechnology(db, params.name) ?? null;
+      const stagedD1CV = db.stagedD1CV.find(row =>
+        row.status === 'pending' && sameName(asPayload(row.payload).name as string | undefined, params.name));
+      const stagedAI = stagedD1CV ? db.stagedAI.find(row => row.status === 'pending' && row.id === stagedD1CV.id) : undefined;
+
+      if (!d1cv && !stagedD1CV) {
+        return { found: false, source: 'none', message: `No technology named ${params.name}` };
+      }
+
+      return {
+        found: true,
+        source: stagedD1CV ? 'staged' : 'production',
+        d1cv: { found: Boolean(d1cv), data: d1cv },
+        aiAgent: {
+          found: Boolean(stagedAI || ai),
+          source: stagedAI ? 'staged' : ai ? 'production' : 'none',
+          data: stagedAI ? stagedAI.payload : ai,
+        },
+        staged: {
+          found: Boolean(stagedD1CV),
+          operation: stagedD1CV?.operation ?? null,
+          staged_id: stagedD1CV?.id ?? null,
+          ai_staged_id: stagedAI?.id ?? null,
+          d1cvData: stagedD1CV ? { ...d1cv, ...stagedD1CV.payload } : null,
+          aiData: stagedAI?.payload ?? null,
+        },
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/similarity/:name',
+    handler: (db, { params }) => ({
+      query: params.name,
+      matches: db.aiTechnologies
+        .map(tech => ({
+          stable_id: tech.stable_id,
+          name: tech.name,
+          score: similarity(params.name, tech.name),
+          category: tech.category,
+          summary: tech.summary,
+        }))
+        .filter(match => match.score > 0.3),
+    }),
+  },
+];
+
+/**
+ * Dice coefficient over character bigrams - crude, but good enough to
+ * make "React" and "ReactJS" look alike in demos
+ */
+function similarity(a: string, b: string): number {
+  const bigrams = (value: string) => {
+    const normalized = value.toLowerCase().replace(/\s+/g, '');
+    const result: string[] = [];
+    for (let i = 0; i < normalized.length - 1; i++) {
+      result.push(normalized.slice(i, i + 2));
+    }
+    return result;
+  };
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) {
+    return sameName(a, b) ? 1 : 0;
+  }
+  const remaining = [...right];
+  let shared = 0;
+  for (const gram of left) {
+    const index = remaining.indexOf(gram);
+    if (index !== -1) {
+      shared += 1;
+      remaining.splice(index, 1);
+    }
+  }
+  return Math.round((2 * shared / (left.length + right.length)) * 100) / 100;
+}
+
+// =============================================================================
+// AI AGENT
+// =============================================================================
+
+const aiAgentRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/api/ai-agent/technologies',
+    handler: (db) => db.aiTechnologies,
+  },
+  {
+    method: 'GET',
+    pattern: '/api/ai-agent/technologies/:stableId',
+    handler: (db, { params }) =>
+      db.aiTechnologies.find(t => t.stable_id === params.stableId) ?? notFound(`AI technology ${params.stableId}`),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/ai-agent/categories',
+    handler: (db) => ({ categories: db.aiCategories, count: db.aiCategories.length }),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/ai-agent/vectorize/status',
+    handler: (db) => db.vectorize,
+  },
+  {
+    method: 'POST',
+    pattern: '/api/ai-agent/vectorize/reindex',
+    handler: audited({ action: 'ai-agent.vectorize.reindex', entity_type: 'vectorize', snapshot: (db) => db.vectorize }, (db) => {
+      markReindexed(db);
+      return { success: true, message: `Reindexed ${db.vectorize.documentCount} technologies` };
+    }),
+  },
+];
+
+// =============================================================================
+// LEGACY STAGING (/stage, /api/staged, /api/apply)
+// =============================================================================
+
+function stage(db: MockDatabase, { body }: MockRequest) {
+  const operation = body.operation;
+  if (operation !== 'INSERT' && operation !== 'UPDATE' && operation !== 'DELETE') {
+    badRequest('operation must be INSERT, UPDATE or DELETE');
+  }
+  const entityType = typeof body.entity_type === 'string' ? body.entity_type : 'technology';
+  const entityName = typeof body.entity_name === 'string' ? body.entity_name : undefined;
+  const d1cvPayload = asPayload(body.d1cv_payload);
+  const name = (d1cvPayload.name as string | undefined) ?? entityName;
+  if (!name) {
+    badRequest('d1cv_payload.name or entity_name is required');
+  }
+
+  const existing = db.technologies.find(t => sameName(t.name, entityName ?? name));
+  const id = nextId(db);
+  db.stagedD1CV.push({
+    id,
+    operation,
+    entity_type: entityType,
+    entity_id: typeof body.entity_id === 'number' ? body.entity_id : existing?.id,
+    payload: { ...d1cvPayload, name },
+    status: 'pending',
+    created_at: now(),
+  });
+
+  let stableId: string | undefined;
+  if (body.ai_payload) {
+    const aiPayload = asPayload(body.ai_payload);
+    stableId = findAITechnology(db, name)?.stable_id
+      ?? stableIdFor(name, typeof aiPayload.category === 'string' ? aiPayload.category : undefined);
+    // AI rows share the D1CV row id so the pair can be looked up together
+    db.stagedAI.push({
+      id,
+      operation,
+      entity_type: entityType,
+      stable_id: stableId,
+      payload: { ...aiPayload, name, stable_id: stableId },
+      status: 'pending',
+      requires_reindex: true,
+      created_at: now(),
+    });
+  }
+
+  return {
+    success: true,
+    staged: { d1cv_id: id, ai_id: stableId ? id : undefined, stable_id: stableId },
+    message: `Staged ${operation} for ${name}`,
+  };
+}
+
+const LEGACY_STAGE_AUDIT: AuditSpec = {
+  action: 'legacy.stage',
+  entity_type: 'legacy_staged',
+  entityId: (_request, response) => (response as ReturnType<typeof stage> | undefined)?.staged.d1cv_id,
+  snapshot: (db, id) => (id ? db.stagedD1CV.find(row => String(row.id) === id) : undefined),
+};
+
+function legacyRowSnapshot(db: MockDatabase, id: string | null, { params }: MockRequest) {
+  const queue = params.type === 'ai' ? db.stagedAI : db.stagedD1CV;
+  return queue.find(row => String(row.id) === id);
+}
+
+function pendingTechnologyRow(db: MockDatabase, name: string): LegacyStagedChange | undefined {
+  return db.stagedD1CV.find(row =>
+    row.status === 'pending' && row.entity_type === 'technology' && sameName(row.payload.name as string | undefined, name));
+}
+
+function countByStatus(rows: LegacyStagedChange[]) {
+  return {
+    pending: rows.filter(r => r.status === 'pending').length,
+    applied: rows.filter(r => r.status === 'applied').length,
+    failed: rows.filter(r => r.status === 'failed').length,
+    skipped: rows.filter(r => r.status === 'skipped').length,
+  };
+}
+
+/**
+ * Apply every pending row in a legacy queue, recording per-row results
+ */
+function applyQueue(
+  rows: LegacyStagedChange[],
+  write: (row: LegacyStagedChange) => void
+): { applied: number; failed: number; details: ApplyDetail[] } {
+  const details: ApplyDetail[] = [];
+  for (const row of rows.filter(r => r.status === 'pending')) {
+    try {
+      write(row);
+      row.status = 'applied';
+      row.applied_at = now();
+      details.push({ stable_id: row.stable_id, entity_id: row.entity_id, operation: row.operation, status: 'applied' });
+    } catch (error) {
+      row.status = 'failed';
+      row.error_message = error instanceof Error ? error.message : 'Apply failed';
+      details.push({
+        stable_id: row.stable_id,
+        entity_id: row.entity_id,
+        operation: row.operation,
+        status: 'failed',
+        error: row.error_message,
+      });
+    }
+  }
+  return {
+    applied: details.filter(d => d.status === 'applied').length,
+    failed: details.filter(d => d.status === 'failed').length,
+    details,
+  };
+}
+
+const legacyStagingRoutes: MockRoute[] = [
+  { method: 'POST', pattern: '/stage', handler: audited(LEGACY_STAGE_AUDIT, stage) },
+  { method: 'POST', pattern: '/api/stage', handler: audited(LEGACY_STAGE_AUDIT, stage) },
+  {
+    method: 'GET',
+    pattern: '/staged',
+    handler: (db) => ({
+      // The original endpoint returns raw rows with JSON-encoded payloads
+      d1cv: db.stagedD1CV.map(row => ({
+        id: row.id,
+        operation: row.operation,
+        entity_type: row.entity_type,
+        entity_id: row.entity_id ?? null,
+        payload: JSON.stringify(row.payload),
+        status: row.status,
+        created_at: row.created_at,
+        applied_at: row.applied_at ?? null,
+        error_message: row.error_message ?? null,
+      })),
+      ai: db.stagedAI,
+      counts: { d1cv: countByStatus(db.stagedD1CV), ai: countByStatus(db.stagedAI) },
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/staged',
+    handler: (db) => ({ d1cv: db.stagedD1CV, ai: db.stagedAI }),
+  },
+  {
+    method: 'DELETE',
+    pattern: '/api/staged',
+    handler: audited({ action: 'legacy.staged.clear', entity_type: 'legacy_staged' }, (db) => {
+      const deleted = { d1cv: db.stagedD1CV.length, ai: db.stagedAI.length };
+      db.stagedD1CV = [];
+      db.stagedAI = [];
+      return { success: true, deleted };
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/staged/count',
+    handler: (db) => {
+      const today = now().slice(0, 10);
+      const d1cvPending = db.stagedD1CV.filter(r => r.status === 'pending').length;
+      const aiPending = db.stagedAI.filter(r => r.status === 'pending').length;
+      return {
+        pending: d1cvPending + aiPending,
+        d1cvPending,
+        aiPending,
+        appliedToday: [...db.stagedD1CV, ...db.stagedAI]
+          .filter(r => r.status === 'applied' && r.applied_at?.startsWith(today)).length,
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/staged/technology/:name',
+    handler: (db, { params }) => {
+      const row = pendingTechnologyRow(db, params.name);
+      if (!row) {
+        return { found: false, message: `No staged technology named ${params.name}` };
+      }
+      const aiRow = db.stagedAI.find(r => r.id === row.id && r.status === 'pending');
+      return {
+        found: true,
+        staged_id: row.id,
+        ai_staged_id: aiRow?.id ?? null,
+        operation: row.operation,
+        status: row.status,
+        created_at: row.created_at,
+        d1cvData: row.payload,
+        aiData: aiRow?.payload,
+        hasAIData: Boolean(aiRow),
+      };
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/api/staged/technology/:id',
+    handler: audited({ action: 'legacy.staged.update', entity_type: 'legacy_staged', entityId: paramId, snapshot: legacyRowSnapshot }, (db, { params, body }) => {
+      const id = numberParam(params.id);
+      const row = db.stagedD1CV.find(r => r.id === id && r.status === 'pending') ?? notFound(`Staged change ${id}`);
+      if (body.d1cv_payload) {
+        row.payload = { ...row.payload, ...asPayload(body.d1cv_payload) };
+      }
+      const aiPayload = asPayload(body.ai_payload);
+      if (Object.keys(aiPayload).length > 0) {
+        const aiRow = db.stagedAI.find(r => r.id === id);
+        if (aiRow) {
+          aiRow.payload = { ...aiRow.payload, ...aiPayload };
+        } else {
+          const name = row.payload.name as string;
+          const stableId = findAITechnology(db, name)?.stable_id ?? stableIdFor(name);
+          db.stagedAI.push({
+            id,
+            operation: row.operation,
+            entity_type: row.entity_type,
+            stable_id: stableId,
+            payload: { ...aiPayload, name, stable_id: stableId },
+            status: 'pending',
+            requires_reindex: true,
+            created_at: now(),
+          });
+        }
+      }
+      return { success: true, staged_id: id };
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/staged/ai-by-name/:name',
+    handler: (db, { params }) => {
+      const row = pendingTechnologyRow(db, params.name);
+      const aiRow = row ? db.stagedAI.find(r => r.id === row.id && r.status === 'pending') : undefined;
+      if (!row) {
+        return { found: false, hasAIData: false, message: `No staged technology named ${params.name}` };
+      }
+      return {
+        found: true,
+        hasAIData: Boolean(aiRow),
+        d1cv_staged_id: row.id,
+        ai_staged_id: aiRow?.id,
+        stable_id: aiRow?.stable_id,
+        operation: row.operation,
+        aiData: aiRow?.payload,
+      };
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/api/staged/:type/:id',
+    handler: audited({ action: 'legacy.staged.delete', entity_type: 'legacy_staged', entityId: paramId, snapshot: legacyRowSnapshot }, (db, { params }) => {
+      const id = numberParam(params.id);
+      if (params.type !== 'd1cv' && params.type !== 'ai') {
+        badRequest(`Unknown staging queue: ${params.type}`);
+      }
+      const key = params.type === 'd1cv' ? 'stagedD1CV' : 'stagedAI';
+      const before = db[key].length;
+      db[key] = db[key].filter(row => row.id !== id);
+      if (db[key].length === before) {
+        notFound(`Staged change ${id}`);
+      }
+      return { success: true };
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: '/api/apply/d1cv',
+    handler: audited({ action: 'legacy.apply.d1cv', entity_type: 'legacy_staged' }, (db) => {
+      const started = Date.now();
+      const result = applyQueue(db.stagedD1CV, row => {
+        if (row.entity_type !== 'technology') {
+          badRequest(`Unsupported entity type: ${row.entity_type}`);
+        }
+        writeD1CVTechnology(db, row.operation, row.payload, row.entity_id);
+      });
+      return { success: result.failed === 0, ...result, duration_ms: Date.now() - started };
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: '/api/apply/ai',
+    handler: audited({ action: 'legacy.apply.ai', entity_type: 'legacy_staged' }, (db) => {
+      const started = Date.now();
+      const result = applyQueue(db.stagedAI, row => writeAITechnology(db, row.operation, row.payload, row.stable_id));
+      markReindexed(db);
+      return { success: result.failed === 0, ...result, reindexed: true, duration_ms: Date.now() - started };
+    }),
+  },
+];
+
+// =============================================================================
+// D1CV CONTENT (experience, education, contact, profile, sections)
+// =============================================================================
+
+type ExperienceInputCategory = { title: string; achievements?: Array<{ title: string; description: string }> };
+
+function toExperience(body: Payload, existing?: Experience): Experience {
+  const categories = Array.isArray(body.categories)
+    ? (body.categories as ExperienceInputCategory[]).map(category => ({
+      title: category.title,
+      achievements: (category.achievements ?? []).map(a => ({ title: a.title, description: a.description })),
+    }))
+    : existing?.categories ?? [];
+
+  const pick = <K extends string>(key: K, fallback: string) =>
+    typeof body[key] === 'string' ? body[key] as string : fallback;
+
+  return {
+    ...existing,
+    company: pick('company', existing?.company ?? ''),
+    location: pick('location', existing?.location ?? ''),
+    period: pick('period', existing?.period ?? ''),
+    role: pick('role', existing?.role ?? ''),
+    reporting: pick('reporting_to', existing?.reporting ?? '') || undefined,
+    operatingLevel: pick('operating_level', existing?.operatingLevel ?? '') || undefined,
+    description: pick('description', existing?.description ?? ''),
+    technologies: pick('technologies', existing?.technologies ?? ''),
+    display_order: typeof body.display_order === 'number' ? body.display_order : existing?.display_order,
+    categories,
+    is_active: existing?.is_active ?? true,
+  };
+}
+
+function toEducation(body: Payload, existing?: Education): Education {
+  const pick = (key: string, fallback: string) => typeof body[key] === 'string' ? body[key] as string : fallback;
+  return {
+    ...existing,
+    institution: pick('institution', existing?.institution ?? ''),
+    degree: pick('degree', existing?.degree ?? ''),
+    location: pick('location', existing?.location ?? ''),
+    description: pick('description', existing?.description ?? ''),
+    start_year: pick('start_year', existing?.start_year ?? '') || undefined,
+    end_year: pick('end_year', existing?.end_year ?? '') || undefined,
+    focusAreas: Array.isArray(body.focus_areas) ? body.focus_areas as string[] : existing?.focusAreas ?? [],
+    display_order: typeof body.display_order === 'number' ? body.display_order : existing?.display_order,
+    is_active: existing?.is_active ?? true,
+  };
+}
+
+/**
+ * Inverse of toExperience: a production row in the shape the forms stage
+ */
+function fromExperience(experience: Experience): Payload {
+  return {
+    company: experience.company,
+    location: experience.location,
+    period: experience.period,
+    role: experience.role,
+    reporting_to: experience.reporting,
+    operating_level: experience.operatingLevel,
+    description: experience.description,
+    technologies: experience.technologies,
+    display_order: experience.display_order,
+    categories: experience.categories.map(category => ({
+      title: category.title,
+      achievements: category.achievements.map(a => ({ title: a.title, description: a.description })),
+    })),
+  };
+}
+
+function fromEducation(education: Education): Payload {
+  return {
+    institution: education.institution,
+    degree: education.degree,
+    location: education.location,
+    description: education.description,
+    start_year: education.start_year,
+    end_year: education.end_year,
+    focus_areas: education.focusAreas,
+    display_order: education.display_order,
+  };
+}
+
+function writeContact(db: MockDatabase, body: Payload): void {
+  if (typeof body.name !== 'string' || !body.name) {
+    badRequest('name is required');
+  }
+  db.contact = { ...db.contact, ...body, name: body.name };
+}
+
+function writeProfile(db: MockDatabase, body: Payload): void {
+  const { key_achievements: keyAchievements, ...rest } = body;
+  db.profile = {
+    ...db.profile,
+    ...rest,
+    ...(Array.isArray(keyAchievements) && { keyAchievements: keyAchievements as string[] }),
+  };
+}
+
+function writeSection(db: MockDatabase, sectionType: string, body: Payload): void {
+  if (typeof body.json_content !== 'object' || body.json_content === null) {
+    badRequest('json_content is required');
+  }
+  const existing = db.sections[sectionType];
+  db.sections[sectionType] = {
+    ...existing,
+    id: existing?.id ?? nextId(db),
+    section_type: sectionType,
+    section_name: typeof body.section_name === 'string' ? body.section_name : existing?.section_name,
+    json_content: asPayload(body.json_content),
+    display_order: typeof body.display_order === 'number' ? body.display_order : existing?.display_order,
+  };
+}
+
+function experienceSnapshot(db: MockDatabase, id: string | null) {
+  return db.experiences.find(e => String(e.id) === id);
+}
+
+function educationSnapshot(db: MockDatabase, id: string | null) {
+  return db.education && String(db.education.id) === id ? db.education : undefined;
+}
+
+const contentRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/api/d1cv/experience',
+    handler: (db) => ({ experiences: db.experiences }),
+  },
+  {
+    method: 'POST',
+    pattern: '/api/d1cv/experience',
+    handler: audited({ action: 'experience.create', entity_type: 'experience', entityId: responseId, snapshot: experienceSnapshot }, (db, { body }) => {
+      if (typeof body.company !== 'string' || typeof body.role !== 'string') {
+        badRequest('company and role are required');
+      }
+      const id = nextId(db);
+      db.experiences.push({ ...toExperience(body), id });
+      return { success: true, id };
+    }),
+  },
+  {
+    method: 'PUT',
+    pattern: '/api/d1cv/experience/:id',
+    handler: audited({ action: 'experience.update', entity_type: 'experience', entityId: paramId, snapshot: experienceSnapshot }, (db, { params, body }) => {
+      const id = numberParam(params.id);
+      const index = db.experiences.findIndex(e => e.id === id);
+      if (index === -1) {
+        notFound(`Experience ${id}`);
+      }
+      db.experiences[index] = toExperience(body, db.experiences[index]);
+      return { success: true };
+    }),
+  },
+  {
+    method: 'DELETE',
+    pattern: '/api/d1cv/experience/:id',
+    handler: audited({ action: 'experience.delete', entity_type: 'experience', entityId: paramId, snapshot: experienceSnapshot }, (db, { params }) => {
+      const id = numberParam(params.id);
+      if (!db.experiences.some(e => e.id === id)) {
+        notFound(`Experience ${id}`);
+      }
+      db.experiences = db.experiences.filter(e => e.id !== id);
+      return { success: true };
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/d1cv/education',
+    handler: (db) => ({ education: db.education }),
+  },
+  {
+    method: 'POST',
+    pattern: '/api/d1cv/education',
+    handler: audited({ action: 'education.create', entity_type: 'education', entityId: responseId, snapshot: educationSnapshot }, (db, { body }) => {
+      if (typeof body.institution !== 'string') {
+        badRequest('institution is required');
+      }
+      const id = nextId(db);
+      db.education = { ...toEducation(body), id };
+      return { success: true, id };
+    }),
+  },
+  {
+    method: 'PUT',
+    pattern: '/api/d1cv/education/:id',
+    handler: audited({ action: 'education.update', entity_type: 'education', entityId: paramId, snapshot: educationSnapshot }, (db, { params, body }) => {
+      const id = numberParam(params.id);
+      if (db.education?.id !== id) {
+        notFound(`Education ${id}`);
+      }
+      db.education = toEducation(body, db.education);
+      return { success: true };
+    }),
+  },
+  {
+    method: 'DELETE',
+    pattern: '/api/d1cv/education/:id',
+    handler: audited({ action: 'education.delete', entity_type: 'education', entityId: paramId, snapshot: educationSnapshot }, (db, { params }) => {
+      const id = numberParam(params.id);
+      if (db.education?.id !== id) {
+        notFound(`Education ${id}`);
+      }
+      db.education = null;
+      return { success: true };
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/d1cv/contact',
+    handler: (db) => db.contact,
+  },
+  {
+    method: 'PUT',
+    pattern: '/api/d1cv/contact',
+    handler: audited({ action: 'contact.update', entity_type: 'contact', snapshot: (db) => db.contact }, (db, { body }) => {
+      writeContact(db, body);
+      return { success: true };
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/d1cv/profile',
+    handler: (db) => db.profile,
+  },
+  {
+    method: 'PUT',
+    pattern: '/api/d1cv/profile',
+    handler: audited({ action: 'profile.update', entity_type: 'profile', snapshot: (db) => db.profile }, (db, { body }) => {
+      writeProfile(db, body);
+      return { success: true };
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/d1cv/sections/:type',
+    handler: (db, { params }) => db.sections[params.type] ?? notFound(`Section ${params.type}`),
+  },
+  {
+    method: 'PUT',
+    pattern: '/api/d1cv/sections/:type',
+    handler: audited({ action: 'section.update', entity_type: 'section', entityId: ({ params }) => params.type, snapshot: (db, type) => (type ? db.sections[type] : undefined) }, (db, { params, body }) => {
+      writeSection(db, params.type, body);
+      return { success: true };
+    }),
+  },
+];
+
+// =============================================================================
+// V2 GIT-LIKE WORKFLOW (/v2/*)
+// =============================================================================
+
+const ACTIONS: Action[] = ['CREATE', 'UPDATE', 'DELETE'];
+const TARGETS: Target[] = ['d1cv', 'ai-agent', 'both'];
+const ENTITY_TYPES: EntityType[] = ['technology', 'project', 'experience', 'education', 'contact', 'profile', 'section'];
+/** Single-record content is edited in place, never created or deleted */
+const UPDATE_ONLY_TYPES: EntityType[] = ['contact', 'profile', 'section'];
+const COMMIT_STATUSES: CommitStatus[] = ['pending', 'applied_d1cv', 'applied_ai', 'applied_all', 'failed'];
+
+const OPERATION_FOR_ACTION: Record<Action, Operation> = {
+  CREATE: 'INSERT',
+  UPDATE: 'UPDATE',
+  DELETE: 'DELETE',
+};
+
+function oneOf<T extends string>(values: readonly T[], value: unknown, field: string): T {
+  if (typeof value !== 'string' || !(values as readonly string[]).includes(value)) {
+    badRequest(`${field} must be one of ${values.join(', ')}`);
+  }
+  return value as T;
+}
+
+function findCommit(db: MockDatabase, id: string): Commit {
+  return db.commits.find(c => c.id === id) ?? notFound(`Commit ${id}`);
+}
+
+function commitSnapshot(db: MockDatabase, id: string | null) {
+  return db.commits.find(c => c.id === id);
+}
+
+function changeSnapshot(db: MockDatabase, id: string | null) {
+  return db.changes.find(c => c.id === id);
+}
+
+function pushedCommitId({ body }: MockRequest) {
+  return typeof body.commit_id === 'string' ? body.commit_id : null;
+}
+
+/**
+ * Targets of the combined commit: a single shared target, otherwise both
+ */
+function commitTarget(changes: StagedChange[]): Target {
+  const targets = new Set(changes.map(c => c.target));
+  return targets.size === 1 ? changes[0].target : 'both';
+}
+
+/**
+ * Snapshot of the D1CV record a change is about to overwrite, in the
+ * staged payload shape so a revert can stage it back unchanged
+ */
+function d1cvPreImage(db: MockDatabase, change: StagedChange, entityId?: number): Payload | null {
+  switch (change.entity_type) {
+    case 'technology': {
+      const payload = parsePayload(change.payload);
+      const name = typeof payload.name === 'string' ? payload.name : '';
+      const tech = db.technologies.find(t => (entityId !== undefined && t.id === entityId) || sameName(t.name, name));
+      return tech ? {
+        name: tech.name,
+        category_id: tech.category_id,
+        experience: tech.experience,
+        experience_years: tech.experience_years,
+        proficiency_percent: tech.proficiency_percent,
+        level: tech.level,
+        is_active: tech.is_active,
+        display_order: tech.display_order,
+      } : null;
+    }
+    case 'experience': {
+      const experience = db.experiences.find(e => e.id === entityId);
+      return experience ? fromExperience(experience) : null;
+    }
+    case 'education':
+      return db.education ? fromEducation(db.education) : null;
+    case 'contact': {
+      const contact: Payload = { ...db.contact };
+      delete contact.id;
+      return contact;
+    }
+    case 'profile':
+      return { title: db.profile.title, summary: db.profile.summary, key_achievements: db.profile.keyAchievements };
+    case 'section': {
+      const section = change.entity_id ? db.sections[change.entity_id] : undefined;
+      return section ? {
+        section_name: section.section_name,
+        json_content: section.json_content,
+        display_order: section.display_order,
+      } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function aiPreImage(db: MockDatabase, change: StagedChange): Payload | null {
+  const payload = parsePayload(change.payload);
+  const tech = change.stable_id
+    ? db.aiTechnologies.find(t => t.stable_id === change.stable_id)
+    : typeof payload.name === 'string' ? findAITechnology(db, payload.name) : undefined;
+  if (!tech) {
+    return null;
+  }
+  const { name, summary, action, effect, outcome, related_project, employer, recency, category } = tech;
+  return { name, summary, action, effect, outcome, related_project, employer, recency, category };
+}
+
+/**
+ * Record what a push overwrote; each side adds its own fields, so a
+ * change pushed to both ends up with the combined pre-image
+ */
+function capturePreImage(change: StagedChange, snapshot: Payload | null): void {
+  if (change.action === 'CREATE' || !snapshot) {
+    return;
+  }
+  const existing = change.pre_image ? parsePayload(change.pre_image) : {};
+  change.pre_image = JSON.stringify({ ...snapshot, ...existing });
+}
+
+type PushTarget = 'd1cv' | 'ai-agent';
+
+/**
+ * Whether a change writes to a side at all (the AI Agent only holds technologies)
+ */
+function touchesSide(change: StagedChange, side: PushTarget): boolean {
+  return side === 'd1cv'
+    ? change.target !== 'ai-agent'
+    : change.target !== 'd1cv' && change.entity_type === 'technology';
+}
+
+/**
+ * The record a change edits as one side currently has it (null when it does not exist)
+ */
+function sideImage(db: MockDatabase, change: StagedChange, side: PushTarget): Payload | null {
+  if (!touchesSide(change, side)) {
+    return null;
+  }
+  return side === 'd1cv'
+    ? d1cvPreImage(db, change, change.entity_id ? Number(change.entity_id) : undefined)
+    : aiPreImage(db, change);
+}
+
+function currentImage(db: MockDatabase, change: StagedChange): Payload | null {
+  const d1cv = sideImage(db, change, 'd1cv');
+  const ai = sideImage(db, change, 'ai-agent');
+  return d1cv || ai ? { ...ai, ...d1cv } : null;
+}
+
+/**
+ * Stable FNV-1a hash of a record, standing in for the real backend's content hash
+ */
+function hashRecord(record: Payload | null): string {
+  const text = JSON.stringify(record, record ? Object.keys(record).sort() : undefined);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Record the production record a change was staged against
+ */
+function captureBase(db: MockDatabase, change: StagedChange): void {
+  if (change.action === 'CREATE') {
+    return;
+  }
+  const base = currentImage(db, change);
+  change.base_image = base && JSON.stringify(base);
+  change.base_hash = base && hashRecord(base);
+}
+
+/**
+ * Whether production drifted from a change's base on the given sides,
+ * in a field the change writes (or at all, for a DELETE)
+ * Changes staged before bases were recorded are never reported
+ */
+function detectConflict(db: MockDatabase, change: StagedChange, sides: PushTarget[]): ChangeConflict | null {
+  if (change.action === 'CREATE' || !change.base_image) {
+    return null;
+  }
+  const pending = sides.filter(side => {
+    const status = change[PUSH_STATUS_FIELD[side]];
+    return touchesSide(change, side) && status !== 'applied' && status !== 'skipped';
+  });
+  if (pending.length === 0 || hashRecord(currentImage(db, change)) === change.base_hash) {
+    return null;
+  }
+
+  const base = parsePayload(change.base_image);
+  const mine = parsePayload(change.payload);
+  let theirs: Payload = {};
+  const fields = new Set<string>();
+  for (const side of pending) {
+    const image = sideImage(db, change, side);
+    if (!image) {
+      // Deleted since staging: every field the change writes is in conflict
+      return { change_id: change.id, fields: Object.keys(mine), base, theirs: null };
+    }
+    theirs = { ...theirs, ...image };
+    const keys = change.action === 'DELETE' ? Object.keys(image) : Object.keys(mine).filter(key => key in image);
+    for (const key of keys) {
+      if (key in base && JSON.stringify(base[key]) !== JSON.stringify(image[key])) {
+        fields.add(key);
+      }
+    }
+  }
+  return fields.size > 0 ? { change_id: change.id, fields: [...fields], base, theirs } : null;
+}
+
+/**
+ * Write one committed change to the D1CV side
+ * Returns the counter to bump, or null when the change does not touch D1CV
+ */
+function pushChangeToD1CV(db: MockDatabase, change: StagedChange): 'inserted' | 'updated' | 'deleted' | null {
+  if (change.target === 'ai-agent') {
+    return null;
+  }
+  const payload = parsePayload(change.payload);
+  const entityId = change.entity_id ? Number(change.entity_id) : undefined;
+  capturePreImage(change, d1cvPreImage(db, change, entityId));
+
+  switch (change.entity_type) {
+    case 'technology':
+      change.entity_id = String(writeD1CVTechnology(db, OPERATION_FOR_ACTION[change.action], payload, entityId));
+      break;
+    case 'experience': {
+      const index = db.experiences.findIndex(e => e.id === entityId);
+      if (change.action === 'CREATE') {
+        const id = nextId(db);
+        db.experiences.push({ ...toExperience(payload), id });
+        change.entity_id = String(id);
+      } else if (index === -1) {
+        notFound(`Experience ${change.entity_id}`);
+      } else if (change.action === 'DELETE') {
+        db.experiences.splice(index, 1);
+      } else {
+        db.experiences[index] = toExperience(payload, db.experiences[index]);
+      }
+      break;
+    }
+    case 'education':
+      if (change.action === 'CREATE') {
+        db.education = { ...toEducation(payload), id: nextId(db) };
+        change.entity_id = String(db.education.id);
+      } else {
+        db.education = change.action === 'DELETE' ? null : toEducation(payload, db.education ?? undefined);
+      }
+      break;
+    case 'contact':
+      writeContact(db, payload);
+      break;
+    case 'profile':
+      writeProfile(db, payload);
+      break;
+    case 'section':
+      if (!change.entity_id) {
+        badRequest('Section changes need the section type as entity_id');
+      }
+      writeSection(db, change.entity_id, payload);
+      break;
+    default:
+      badRequest(`Unsupported entity type: ${change.entity_type}`);
+  }
+
+  return change.action === 'CREATE' ? 'inserted' : change.action === 'UPDATE' ? 'updated' : 'deleted';
+}
+
+/**
+ * Write one committed change to the AI Agent side (technologies only)
+ */
+function pushChangeToAI(db: MockDatabase, change: StagedChange): 'inserted' | 'updated' | 'deleted' | null {
+  if (change.target === 'd1cv' || change.entity_type !== 'technology') {
+    return null;
+  }
+  capturePreImage(change, aiPreImage(db, change));
+  change.stable_id = writeAITechnology(db, OPERATION_FOR_ACTION[change.action], parsePayload(change.payload), change.stable_id ?? undefined);
+  return change.action === 'CREATE' ? 'inserted' : change.action === 'UPDATE' ? 'updated' : 'deleted';
+}
+
+const PUSH_STATUS_FIELD = { 'd1cv': 'd1cv_status', 'ai-agent': 'ai_status' } as const;
+
+/**
+ * A side is done once the commit does not target it, or every change
+ * has been applied (or had nothing to write) there
+ */
+function sideDone(commit: Commit, changes: StagedChange[], side: PushTarget): boolean {
+  if (commit.target !== 'both' && commit.target !== side) {
+    return true;
+  }
+  const field = PUSH_STATUS_FIELD[side];
+  return changes.every(c => c[field] === 'applied' || c[field] === 'skipped');
+}
+
+/**
+ * Record the job for a push; the mock writes synchronously, so the job is
+ * already finished by the time the push responds
+ */
+function recordJob(db: MockDatabase, commit: Commit, side: PushTarget, startedAt: string, error: string | null): string {
+  const outcome: JobSideStatus = error ? 'failed' : 'success';
+  const result = error ? { success: false, error } : { success: true, message: `Pushed commit ${commit.id}` };
+  const finishedAt = now();
+  const job: DOJobStatus = {
+    jobId: `job_${nextId(db)}`,
+    commitId: commit.id,
+    target: side,
+    overallStatus: error ? 'failed' : 'completed',
+    d1cvStatus: side === 'd1cv' ? outcome : 'skipped',
+    aiAgentStatus: side === 'ai-agent' ? outcome : 'skipped',
+    ...(side === 'd1cv' ? { d1cvResult: result } : { aiAgentResult: result }),
+    startedAt,
+    updatedAt: finishedAt,
+    completedAt: finishedAt,
+  };
+  db.jobs.push(job);
+  return job.jobId;
+}
+
+const JOB_FILTERS = ['running', 'completed', 'failed'] as const;
+
+/**
+ * Job history, newest first, filtered by outcome and start time
+ * `page` is 1-based; `from`/`to` are ISO timestamps, both inclusive
+ */
+function listJobs(db: MockDatabase, query: URLSearchParams) {
+  const status = query.get('status');
+  const filter = status ? oneOf(JOB_FILTERS, status, 'status') : null;
+  const from = query.get('from');
+  const to = query.get('to');
+  const page = pageParam(query, 'page', 1);
+  const limit = pageParam(query, 'limit', DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+  const jobs = db.jobs
+    .filter(job => !filter || (filter === 'running' ? !isTerminalJob(job) : job.overallStatus === filter))
+    .filter(job => (!from || job.startedAt >= from) && (!to || job.startedAt <= to))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+  return { jobs: jobs.slice((page - 1) * limit, page * limit), total: jobs.length, page, limit };
+}
+
+/**
+ * Push a commit to one side, advancing its status like the real worker.
+ * Each change is written independently, so one bad change fails the
+ * commit without blocking the rest; re-pushing skips changes already
+ * applied on that side, and `change_ids` narrows a retry further.
+ */
+function push(db: MockDatabase, body: Payload, side: PushTarget) {
+  if (typeof body.commit_id !== 'string') {
+    badRequest('commit_id is required');
+  }
+  const commit = findCommit(db, body.commit_id);
+  if (pushBlocked(commit)) {
+    throw new ApiError(`Commit ${commit.id} needs an approved review before it can be pushed`, 409, 'REVIEW_REQUIRED');
+  }
+  const changes = db.changes.filter(c => c.commit_id === commit.id);
+  const only = Array.isArray(body.change_ids) ? body.change_ids as string[] : null;
+  const result = { inserted: 0, updated: 0, deleted: 0, failed: 0, changes: [] as ChangePushResult[] };
+  const writer = side === 'd1cv' ? pushChangeToD1CV : pushChangeToAI;
+  const field = PUSH_STATUS_FIELD[side];
+  const label = side === 'd1cv' ? 'D1CV' : 'AI Agent';
+  const startedAt = now();
+
+  for (const change of changes) {
+    if ((only && !only.includes(change.id)) || change[field] === 'applied' || change[field] === 'skipped') {
+      continue;
+    }
+    const conflict = detectConflict(db, change, [side]);
+    if (conflict) {
+      // Never overwrite an edit made in production after staging
+      change[field] = 'conflict';
+      change.push_error = conflict.theirs
+        ? `Production changed since this change was staged: ${conflict.fields.join(', ')}`
+        : 'The record was deleted from production since this change was staged';
+      result.failed += 1;
+    } else {
+      try {
+        const outcome = writer(db, change);
+        change[field] = outcome ? 'applied' : 'skipped';
+        change.push_error = null;
+        if (outcome) {
+          result[outcome] += 1;
+        }
+      } catch (error) {
+        change[field] = 'failed';
+        change.push_error = error instanceof Error ? error.message : 'Push failed';
+        result.failed += 1;
+      }
+    }
+    result.changes.push({ change_id: change.id, status: change[field]!, error: change.push_error });
+  }
+
+  const failures = changes.filter(c => c[field] === 'failed' || c[field] === 'conflict');
+  if (failures.length > 0) {
+    commit.status = 'failed';
+    commit.error_message = `${failures.length} of ${changes.length} change(s) failed on ${label}: ${failures[0].push_error}`;
+    commit.error_target = side;
+  } else {
+    const d1cvDone = sideDone(commit, changes, 'd1cv');
+    const aiDone = sideDone(commit, changes, 'ai-agent');
+    commit.status = d1cvDone && aiDone ? 'applied_all' : d1cvDone ? 'applied_d1cv' : aiDone ? 'applied_ai' : 'pending';
+    commit.error_message = null;
+    commit.error_target = null;
+    commit.applied_at = now();
+    commit.applied_by = MOCK_ACTOR;
+  }
+  if (side === 'ai-agent') {
+    markReindexed(db);
+  }
+
+  return {
+    success: failures.length === 0,
+    job_id: recordJob(db, commit, side, startedAt, failures.length > 0 ? commit.error_message : null),
+    result,
+    message: failures.length === 0
+      ? `Pushed ${result.changes.length} change(s) to ${label}`
+      : commit.error_message,
+  };
+}
+
+/**
+ * The mock has a single session, so reviews are recorded under a separate
+ * account to stand in for the second reviewer the real backend requires
+ */
+const MOCK_REVIEWER = 'reviewer@localhost';
+
+function parseSchedule(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    badRequest('scheduled_at must be an ISO timestamp');
+  }
+  if (time <= Date.now()) {
+    badRequest('scheduled_at must be in the future');
+  }
+  return new Date(time).toISOString();
+}
+
+/**
+ * Push every commit whose schedule has passed, like the worker's cron
+ * Commits still waiting on review stay scheduled until approved
+ */
+function runScheduledPushes(db: MockDatabase): void {
+  const due = db.commits.filter(c =>
+    c.scheduled_at && Date.parse(c.scheduled_at) <= Date.now() && c.status !== 'applied_all' && !pushBlocked(c));
+  for (const commit of due) {
+    if (commit.status === 'pending' && commit.target !== 'ai-agent') {
+      push(db, { commit_id: commit.id }, 'd1cv');
+    }
+    if ((commit.status === 'pending' || commit.status === 'applied_d1cv') && commit.target !== 'd1cv') {
+      push(db, { commit_id: commit.id }, 'ai-agent');
+    }
+    // A failed scheduled push waits for a manual retry rather than looping
+    commit.scheduled_at = null;
+  }
+}
+
+function pushBlocked(commit: Commit): boolean {
+  return commit.review_status === 'pending' || commit.review_status === 'rejected';
+}
+
+function reviewCommit(commit: Commit, body: Payload): Commit {
+  const decision = oneOf(['request', 'approve', 'reject'] as const, body.decision, 'decision');
+  if (commit.status !== 'pending') {
+    throw new ApiError('Only commits that have not been pushed can be reviewed', 409, 'CONFLICT');
+  }
+  if (decision === 'request') {
+    commit.review_status = 'pending';
+    commit.approved_by = null;
+    commit.reviewed_at = null;
+    commit.review_comment = null;
+    return commit;
+  }
+  if (commit.review_status !== 'pending') {
+    throw new ApiError('Request a review before approving or rejecting', 409, 'CONFLICT');
+  }
+  if (commit.created_by === MOCK_REVIEWER) {
+    throw new ApiError('Commits must be reviewed by someone other than their author', 403, 'FORBIDDEN');
+  }
+  commit.review_status = decision === 'approve' ? 'approved' : 'rejected';
+  commit.approved_by = MOCK_REVIEWER;
+  commit.reviewed_at = now();
+  commit.review_comment = typeof body.comment === 'string' && body.comment.trim() ? body.comment.trim() : null;
+  return commit;
+}
+
+const INVERSE_ACTION: Record<Action, Action> = { CREATE: 'DELETE', UPDATE: 'UPDATE', DELETE: 'CREATE' };
+
+/**
+ * Stage the inverse of a fully applied commit as a new pending commit
+ * Creates are deleted, and updates and deletes restore their pre-images
+ */
+function revertCommit(db: MockDatabase, original: Commit): Commit {
+  if (original.status !== 'applied_all') {
+    throw new ApiError('Only fully applied commits can be reverted', 409, 'CONFLICT');
+  }
+  if (original.reverted_by) {
+    throw new ApiError(`Commit ${original.id} was already reverted by ${original.reverted_by}`, 409, 'CONFLICT');
+  }
+  const changes = db.changes.filter(c => c.commit_id === original.id);
+  const commit: Commit = {
+    id: `cmt_${nextId(db)}`,
+    message: `Revert "${original.message}"`,
+    status: 'pending',
+    target: commitTarget(changes),
+    error_message: null,
+    error_target: null,
+    created_by: MOCK_ACTOR,
+    created_at: now(),
+    applied_at: null,
+    applied_by: null,
+    reverts: original.id,
+    reverted_by: null,
+  };
+
+  // Undo in reverse order so later changes are unwound first
+  const inverse = [...changes].reverse().map((change): StagedChange => {
+    if (change.action !== 'CREATE' && !change.pre_image) {
+      throw new ApiError(`Change ${change.id} has no pre-image to restore`, 409, 'CONFLICT');
+    }
+    return {
+      id: `chg_${nextId(db)}`,
+      entity_type: change.entity_type,
+      entity_id: change.entity_id,
+      stable_id: change.stable_id,
+      action: INVERSE_ACTION[change.action],
+      target: change.target,
+      payload: change.action === 'CREATE' ? change.payload : change.pre_image ?? null,
+      commit_id: commit.id,
+      created_at: now(),
+    };
+  });
+
+  inverse.forEach(change => captureBase(db, change));
+  db.changes.push(...inverse);
+  db.commits.push(commit);
+  original.reverted_by = commit.id;
+  return commit;
+}
+
+/**
+ * Whether a change reached production on at least one side
+ * Changes pushed before per-side statuses were recorded go by their commit
+ */
+function changeApplied(change: StagedChange, commit: Commit): boolean {
+  if (change.d1cv_status == null && change.ai_status == null) {
+    return commit.status.startsWith('applied');
+  }
+  return change.d1cv_status === 'applied' || change.ai_status === 'applied';
+}
+
+/**
+ * Applied changes to one record with their commits, in push order
+ * Technologies match on the D1CV id or the AI Agent stable id
+ */
+function entityHistory(db: MockDatabase, query: URLSearchParams) {
+  const entityType = oneOf(ENTITY_TYPES, query.get('entity_type'), 'entity_type');
+  const entityId = query.get('entity_id');
+  const stableId = query.get('stable_id');
+  if (!entityId && !stableId) {
+    badRequest('entity_id or stable_id is required');
+  }
+
+  const entries = db.changes.flatMap(change => {
+    const commit = change.commit_id ? db.commits.find(c => c.id === change.commit_id) : undefined;
+    const sameRecord = change.entity_type === entityType
+      && ((entityId !== null && change.entity_id === entityId) || (stableId !== null && change.stable_id === stableId));
+    return commit && sameRecord && changeApplied(change, commit) ? [{ change, commit }] : [];
+  });
+  entries.sort((a, b) =>
+    (a.commit.applied_at ?? a.commit.created_at).localeCompare(b.commit.applied_at ?? b.commit.created_at)
+    || a.change.created_at.localeCompare(b.change.created_at));
+  return { entries };
+}
+
+const v2Routes: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/v2/staged',
+    handler: (db) => {
+      const changes = db.changes.filter(c => c.commit_id === null);
+      return { changes, count: changes.length };
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/v2/staged/:id',
+    handler: audited({ action: 'change.drop', entity_type: 'change', entityId: paramId, snapshot: changeSnapshot }, (db, { params }) => {
+      const change = db.changes.find(c => c.id === params.id) ?? notFound(`Staged change ${params.id}`);
+      if (change.commit_id !== null) {
+        throw new ApiError('Committed changes cannot be deleted', 409, 'CONFLICT');
+      }
+      db.changes = db.changes.filter(c => c.id !== params.id);
+      return { success: true };
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: '/v2/staged/:id/resolve',
+    handler: audited({ action: 'change.resolve', entity_type: 'change', entityId: paramId, snapshot: changeSnapshot }, (db, { params, body }) => {
+      const change = db.changes.find(c => c.id === params.id) ?? notFound(`Staged change ${params.id}`);
+      if (typeof body.payload !== 'object' || body.payload === null) {
+        badRequest('payload is required');
+      }
+      const sides = (['d1cv', 'ai-agent'] as const).filter(side => touchesSide(change, side));
+      if (sides.every(side => change[PUSH_STATUS_FIELD[side]] === 'applied')) {
+        throw new ApiError('Applied changes cannot be resolved', 409, 'CONFLICT');
+      }
+      // Rebase onto production as it is now, so the merge is what gets pushed
+      change.payload = JSON.stringify(body.payload);
+      captureBase(db, change);
+      for (const field of Object.values(PUSH_STATUS_FIELD)) {
+        if (change[field] === 'conflict') {
+          change[field] = null;
+        }
+      }
+      change.push_error = null;
+      return change;
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: '/v2/stage',
+    handler: audited({ action: 'change.stage', entity_type: 'change', entityId: responseId, snapshot: changeSnapshot }, (db, { body }) => {
+      const change: StagedChange = {
+        id: `chg_${nextId(db)}`,
+        entity_type: oneOf(ENTITY_TYPES, body.entity_type, 'entity_type'),
+        entity_id: typeof body.entity_id === 'string' ? body.entity_id : null,
+        stable_id: typeof body.stable_id === 'string' ? body.stable_id : null,
+        action: oneOf(ACTIONS, body.action, 'action'),
+        target: oneOf(TARGETS, body.target, 'target'),
+        payload: body.payload ? JSON.stringify(body.payload) : null,
+        commit_id: null,
+        created_at: now(),
+      };
+      if (UPDATE_ONLY_TYPES.includes(change.entity_type) && change.action !== 'UPDATE') {
+        badRequest(`${change.entity_type} changes must be updates`);
+      }
+      captureBase(db, change);
+      db.changes.push(change);
+      return change;
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: '/v2/commit',
+    handler: audited({ action: 'commit.create', entity_type: 'commit', entityId: responseId, snapshot: commitSnapshot }, (db, { body }) => {
+      if (typeof body.message !== 'string' || !body.message.trim()) {
+        badRequest('message is required');
+      }
+      const ids = Array.isArray(body.change_ids) ? body.change_ids as string[] : null;
+      const changes = db.changes.filter(c => c.commit_id === null && (!ids || ids.includes(c.id)));
+      if (changes.length === 0) {
+        badRequest('Nothing to commit');
+      }
+      const commit: Commit = {
+        id: `cmt_${nextId(db)}`,
+        message: body.message.trim(),
+        status: 'pending',
+        target: body.target ? oneOf(TARGETS, body.target, 'target') : commitTarget(changes),
+        error_message: null,
+        error_target: null,
+        created_by: MOCK_ACTOR,
+        created_at: now(),
+        applied_at: null,
+        applied_by: null,
+        scheduled_at: parseSchedule(body.scheduled_at),
+        review_status: body.require_review === true ? 'pending' : 'not_required',
+      };
+      for (const change of changes) {
+        change.commit_id = commit.id;
+      }
+      db.commits.push(commit);
+      return commit;
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: '/v2/commits',
+    handler: (db, { query }) => {
+      runScheduledPushes(db);
+      const status = query.get('status');
+      const commits = status ? db.commits.filter(c => c.status === oneOf(COMMIT_STATUSES, status, 'status')) : db.commits;
+      return [...commits].sort((a, b) => b.created_at.localeCompare(a.created_at));
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/v2/commits/:id',
+    handler: (db, { params }) => ({
+      ...findCommit(db, params.id),
+      changes: db.changes.filter(c => c.commit_id === params.id),
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: '/v2/history',
+    handler: (db, { query }) => entityHistory(db, query),
+  },
+  {
+    method: 'POST',
+    pattern: '/v2/commits/:id/schedule',
+    handler: audited({ action: 'commit.schedule', entity_type: 'commit', entityId: paramId, snapshot: commitSnapshot }, (db, { params, body }) => {
+      const commit = findCommit(db, params.id);
+      if (commit.status === 'applied_all') {
+        throw new ApiError('Applied commits cannot be scheduled', 409, 'CONFLICT');
+      }
+      commit.scheduled_at = parseSchedule(body.scheduled_at);
+      return commit;
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: '/v2/commits/:id/review',
+    handler: audited({ action: 'commit.review', entity_type: 'commit', entityId: paramId, snapshot: commitSnapshot }, (db, { params, body }) => reviewCommit(findCommit(db, params.id), body)),
+  },
+  {
+    method: 'GET',
+    pattern: '/v2/commits/:id/conflicts',
+    handler: (db, { params }) => {
+      const commit = findCommit(db, params.id);
+      const conflicts = db.changes
+        .filter(c => c.commit_id === commit.id)
+        .map(c => detectConflict(db, c, ['d1cv', 'ai-agent']))
+        .filter((conflict): conflict is ChangeConflict => conflict !== null);
+      return { conflicts };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/v2/commits/:id/revert',
+    handler: audited({ action: 'commit.revert', entity_type: 'commit', entityId: paramId, snapshot: commitSnapshot }, (db, { params }) => revertCommit(db, findCommit(db, params.id))),
+  },
+  {
+    method: 'GET',
+    pattern: '/v2/stats',
+    handler: (db) => {
+      runScheduledPushes(db);
+      return {
+        uncommitted: db.changes.filter(c => c.commit_id === null).length,
+        pending_commits: db.commits.filter(c => c.status === 'pending').length,
+        applied_d1cv: db.commits.filter(c => c.status === 'applied_d1cv').length,
+        applied_all: db.commits.filter(c => c.status === 'applied_all').length,
+        failed: db.commits.filter(c => c.status === 'failed').length,
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/v2/jobs',
+    handler: (db, { query }) => listJobs(db, query),
+  },
+  {
+    method: 'GET',
+    pattern: '/v2/jobs/:id',
+    handler: (db, { params }) => db.jobs.find(j => j.jobId === params.id) ?? notFound(`Job ${params.id}`),
+  },
+  {
+    method: 'POST',
+    pattern: '/v2/push/d1cv',
+    handler: audited({ action: 'commit.push.d1cv', entity_type: 'commit', entityId: pushedCommitId, snapshot: commitSnapshot }, (db, { body }) => push(db, body, 'd1cv')),
+  },
+  {
+    method: 'POST',
+    pattern: '/v2/push/ai',
+    handler: audited({ action: 'commit.push.ai', entity_type: 'commit', entityId: pushedCommitId, snapshot: commitSnapshot }, (db, { body }) => push(db, body, 'ai-agent')),
+  },
+  {
+    method: 'GET',
+    pattern: '/v2/audit',
+    handler: (db, { query }) => listAudit(db, query),
+  },
+];
+
+// =============================================================================
+// CV VARIANTS (/v2/cv-variants) - admin-only, never pushed to D1CV
+// =============================================================================
+
+function cvVariantSnapshot(db: MockDatabase, id: string | null) {
+  return db.cvVariants.find(variant => variant.id === id);
+}
+
+const cvVariantRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/v2/cv-variants',
+    handler: (db) => ({ variants: db.cvVariants }),
+  },
+  {
+    method: 'PUT',
+    pattern: '/v2/cv-variants/:id',
+    handler: audited({ action: 'cv_variant.save', entity_type: 'cv_variant', entityId: paramId, snapshot: cvVariantSnapshot }, (db, { params, body }) => {
+      if (typeof body.name !== 'string' || !body.name.trim()) {
+        badRequest('name is required');
+      }
+      const variant = { ...body, id: params.id } as unknown as CVVariant;
+      const index = db.cvVariants.findIndex(v => v.id === params.id);
+      if (index === -1) {
+        db.cvVariants.push(variant);
+      } else {
+        db.cvVariants[index] = variant;
+      }
+      return variant;
+    }),
+  },
+  {
+    method: 'DELETE',
+    pattern: '/v2/cv-variants/:id',
+    handler: audited({ action: 'cv_variant.delete', entity_type: 'cv_variant', entityId: paramId, snapshot: cvVariantSnapshot }, (db, { params }) => {
+      if (!cvVariantSnapshot(db, params.id)) {
+        notFound(`CV variant ${params.id}`);
+      }
+      db.cvVariants = db.cvVariants.filter(v => v.id !== params.id);
+      return { success: true };
+    }),
+  },
+];
+
+/**
+ * Every route served by the mock backend
+ * Static segments are listed before `:param` routes that could shadow them
+ */
+export const mockRoutes: MockRoute[] = [
+  ...technologyRoutes,
+  ...aiAgentRoutes,
+  ...legacyStagingRoutes,
+  ...contentRoutes,
+  ...v2Routes,
+  ...cvVariantRoutes,
+];
@@ -0,0 +1,380 @@
+/**
+ * Response Schemas - runtime contracts for backend payloads
+ *
+ * Each schema mirrors a type in src/types and is passed to the API client
+ * via the `schema` request option, so shape drift surfaces as a
+ * SCHEMA_MISMATCH ApiError naming the offending field.
+ *
+ * Hook-local response types keep their schemas next to the interface.
+ */
+
+import { s, type Infer } from '@utils/schema';
+import type {
+  Schema,
+  Technology,
+  TechnologyCategory,
+  TechnologiesCount,
+  D1CVTechnology,
+  AIAgentTechnology,
+  VectorizeStatus,
+  D1CVTechnologyWithAIMatch,
+  TechnologiesWithAIMatchResponse,
+  UnifiedTechnologyResponse,
+  UnifiedTechnologyNotFoundResponse,
+  StagedChange,
+  StagedChangesResponse,
+  StagedChangesCount,
+  StageResponse,
+  ApplyResponse,
+  Experience,
+  ExperienceResponse,
+  Education,
+  EducationResponse,
+  ContactInfo,
+  ProfileInfo,
+  ContentSection,
+} from '@/types';
+
+// =============================================================================
+// TECHNOLOGY
+// =============================================================================
+
+const recencySchema = s.oneOf('current', 'recent', 'legacy');
+
+export const technologyCategorySchema: Schema<TechnologyCategory> = s.object({
+  id: s.number(),
+  name: s.string(),
+  icon: s.string(),
+  display_order: s.number(),
+});
+
+const baseTechnologyShape = {
+  name: s.string(),
+  experience: s.string(),
+  experience_years: s.number(),
+  proficiency_percent: s.number(),
+  level: s.string(),
+};
+
+const aiEnrichmentShape = {
+  summary: s.optional(s.string()),
+  action: s.optional(s.string()),
+  effect: s.optional(s.string()),
+  outcome: s.optional(s.string()),
+  related_project: s.optional(s.string()),
+  employer: s.optional(s.string()),
+};
+
+export const technologySchema: Schema<Technology> = s.object({
+  ...baseTechnologyShape,
+  ...aiEnrichmentShape,
+  id: s.number(),
+  category_id: s.optional(s.number()),
+  category: s.optional(s.string()),
+  display_order: s.optional(s.number()),
+  is_active: s.optional(s.flag()),
+  created_at: s.optional(s.string()),
+  updated_at: s.optional(s.string()),
+  ai_synced: s.optional(s.flag()),
+  recency: s.optional(s.string()),
+});
+
+/**
+ * Legacy /api/technologies returns either a bare array or a wrapped list
+ */
+export const technologiesPayloadSchema = s.union(
+  s.array(technologySchema),
+  s.object({
+    data: s.optional(s.array(technologySchema)),
+    technologies: s.optional(s.array(technologySchema)),
+  })
+);
+
+export const technologiesCountSchema: Schema<TechnologiesCount> = s.object({
+  total: s.number(),
+  active: s.number(),
+  byCategory: s.record(s.number()),
+});
+
+export const d1cvTechnologySchema: Schema<D1CVTechnology> = s.object({
+  ...baseTechnologyShape,
+  id: s.number(),
+  category_id: s.optional(s.number()),
+  category: s.optional(s.string()),
+  display_order: s.optional(s.number()),
+  is_active: s.flag(),
+  created_at: s.optional(s.string()),
+  updated_at: s.optional(s.string()),
+});
+
+/**
+ * Raw technology row from the public D1CV API
+ * Field names vary (camelCase vs snake_case), so only the name is required;
+ * the hooks normalize the rest.
+ */
+const rawD1CVTechnologySchema = s.object({
+  id: s.optional(s.number()),
+  name: s.string(),
+});
+
+/**
+ * /api/d1cv/technologies - bare array, wrapped list, or the nested
+ * heroSkills/technologyCategories structure from the D1CV v2 API
+ */
+export const d1cvTechnologiesPayloadSchema = s.union(
+  s.array(rawD1CVTechnologySchema),
+  s.object({
+    heroSkills: s.optional(s.array(rawD1CVTechnologySchema)),
+    technologyCategories: s.optional(s.array(s.object({
+      name: s.string(),
+      icon: s.optional(s.string()),
+      technologies: s.optional(s.array(rawD1CVTechnologySchema)),
+    }))),
+    data: s.optional(s.array(rawD1CVTechnologySchema)),
+    technologies: s.optional(s.array(rawD1CVTechnologySchema)),
+  })
+);
+
+export type D1CVTechnologiesPayload = Infer<typeof d1cvTechnologiesPayloadSchema>;
+
+export const aiAgentTechnologySchema: Schema<AIAgentTechnology> = s.object({
+  ...baseTechnologyShape,
+  ...aiEnrichmentShape,
+  id: s.number(),
+  stable_id: s.string(),
+  category_id: s.optional(s.number()),
+  category: s.optional(s.string()),
+  recency: s.optional(recencySchema),
+  created_at: s.optional(s.string()),
+  updated_at: s.optional(s.string()),
+});
+
+/**
+ * /api/ai-agent/technologies - bare array or wrapped list
+ */
+export const aiAgentTechnologiesPayloadSchema = s.union(
+  s.array(aiAgentTechnologySchema),
+  s.object({
+    data: s.optional(s.array(aiAgentTechnologySchema)),
+    technologies: s.optional(s.array(aiAgentTechnologySchema)),
+  })
+);
+
+export type AIAgentTechnologiesPayload = Infer<typeof aiAgentTechnologiesPayloadSchema>;
+
+export const vectorizeStatusSchema: Schema<VectorizeStatus> = s.object({
+  healthy: s.boolean(),
+  indexName: s.string(),
+  documentCount: s.number(),
+  lastUpdated: s.optional(s.string()),
+});
+
+const d1cvTechnologyWithAIMatchSchema: Schema<D1CVTechnologyWithAIMatch> = s.object({
+  ...baseTechnologyShape,
+  id: s.number(),
+  category_id: s.optional(s.number()),
+  category: s.optional(s.string()),
+  display_order: s.optional(s.number()),
+  is_active: s.flag(),
+  created_at: s.optional(s.string()),
+  updated_at: s.optional(s.string()),
+  hasAiMatch: s.boolean(),
+  aiMatch: s.nullable(aiAgentTechnologySchema),
+  aiFromStaging: s.optional(s.boolean()),
+});
+
+export const technologiesWithAIMatchResponseSchema: Schema<TechnologiesWithAIMatchResponse> = s.object({
+  technologies: s.array(d1cvTechnologyWithAIMatchSchema),
+  stats: s.object({
+    total: s.number(),
+    withAiMatch: s.number(),
+    withoutAiMatch: s.number(),
+  }),
+});
+
+const sourceSchema = s.oneOf('production', 'staged', 'none');
+
+const unifiedFoundSchema: Schema<UnifiedTechnologyResponse> = s.object({
+  found: s.boolean(),
+  source: sourceSchema,
+  message: s.optional(s.string()),
+  d1cv: s.object({
+    found: s.boolean(),
+    data: s.nullable(s.object({
+      id: s.optional(s.number()),
+      name: s.optional(s.string()),
+      category_id: s.optional(s.number()),
+      category: s.optional(s.string()),
+      experience: s.optional(s.string()),
+      experience_years: s.optional(s.number()),
+      proficiency_percent: s.optional(s.number()),
+      level: s.optional(s.string()),
+      is_active: s.optional(s.flag()),
+    })),
+  }),
+  aiAgent: s.object({
+    found: s.boolean(),
+    source: sourceSchema,
+    data: s.nullable(s.object({
+      ...aiEnrichmentShape,
+      recency: s.optional(s.string()),
+      stable_id: s.optional(s.string()),
+    })),
+  }),
+  staged: s.object({
+    found: s.boolean(),
+    operation: s.nullable(s.string()),
+    staged_id: s.nullable(s.number()),
+    ai_staged_id: s.nullable(s.number()),
+    d1cvData: s.nullable(s.record(s.unknown())),
+    aiData: s.nullable(s.record(s.unknown())),
+  }),
+});
+
+const unifiedNotFoundSchema: Schema<UnifiedTechnologyNotFoundResponse> = s.object({
+  found: s.literal(false),
+  source: s.literal('none'),
+  message: s.optional(s.string()),
+});
+
+export const unifiedTechnologyResponseSchema = s.union(unifiedFoundSchema, unifiedNotFoundSchema);
+
+// =============================================================================
+// LEGACY STAGING
+// =============================================================================
+
+const stagedChangeSchema: Schema<StagedChange> = s.object({
+  id: s.number(),
+  operation: s.oneOf('INSERT', 'UPDATE', 'DELETE'),
+  entity_type: s.string(),
+  entity_id: s.optional(s.number()),
+  stable_id: s.optional(s.string()),
+  payload: s.record(s.unknown()),
+  status: s.oneOf('pending', 'applied', 'failed', 'skipped'),
+  requires_reindex: s.optional(s.flag()),
+  created_at: s.string(),
+  applied_at: s.optional(s.string()),
+  error_message: s.optional(s.string()),
+});
+
+export const stagedChangesResponseSchema: Schema<StagedChangesResponse> = s.object({
+  d1cv: s.array(stagedChangeSchema),
+  ai: s.array(stagedChangeSchema),
+});
+
+export const stagedChangesCountSchema: Schema<StagedChangesCount> = s.object({
+  pending: s.number(),
+  d1cvPending: s.number(),
+  aiPending: s.number(),
+  appliedToday: s.number(),
+});
+
+export const stageResponseSchema: Schema<StageResponse> = s.object({
+  success: s.boolean(),
+  staged: s.object({
+    d1cv_id: s.number(),
+    ai_id: s.optional(s.number()),
+    stable_id: s.optional(s.string()),
+  }),
+  message: s.string(),
+});
+
+export const applyResponseSchema: Schema<ApplyResponse> = s.object({
+  success: s.boolean(),
+  applied: s.number(),
+  failed: s.number(),
+  reindexed: s.optional(s.boolean()),
+  duration_ms: s.optional(s.number()),
+  details: s.array(s.object({
+    stable_id: s.optional(s.string()),
+    entity_id: s.optional(s.number()),
+    operation: s.string(),
+    status: s.string(),
+    error: s.optional(s.string()),
+  })),
+});
+
+// =============================================================================
+// EXPERIENCE, EDUCATION, CONTACT, PROFILE, SECTIONS
+// =============================================================================
+
+export const experienceSchema: Schema<Experience> = s.object({
+  id: s.optional(s.number()),
+  company: s.string(),
+  location: s.string(),
+  period: s.string(),
+  role: s.string(),
+  reporting: s.optional(s.string()),
+  operatingLevel: s.optional(s.string()),
+  description: s.string(),
+  categories: s.array(s.object({
+    title: s.string(),
+    achievements: s.array(s.object({
+      title: s.string(),
+      description: s.string(),
+    })),
+  })),
+  technologies: s.string(),
+  display_order: s.optional(s.number()),
+  is_active: s.optional(s.flag()),
+});
+
+export const experienceResponseSchema: Schema<ExperienceResponse> = s.object({
+  experiences: s.array(experienceSchema),
+});
+
+export const educationSchema: Schema<Education> = s.object({
+  id: s.optional(s.number()),
+  institution: s.string(),
+  degree: s.string(),
+  location: s.string(),
+  focusAreas: s.array(s.string()),
+  description: s.string(),
+  start_year: s.optional(s.string()),
+  end_year: s.optional(s.string()),
+  display_order: s.optional(s.number()),
+  is_active: s.optional(s.flag()),
+});
+
+export const educationResponseSchema: Schema<EducationResponse> = s.object({
+  education: s.nullable(educationSchema),
+});
+
+export const contactInfoSchema: Schema<ContactInfo> = s.object({
+  id: s.optional(s.number()),
+  name: s.string(),
+  email: s.optional(s.string()),
+  phone: s.optional(s.string()),
+  linkedin_url: s.optional(s.string()),
+  github_url: s.optional(s.string()),
+  portfolio_url: s.optional(s.string()),
+  location: s.optional(s.string()),
+  work_authorization: s.optional(s.string()),
+  availability: s.optional(s.string()),
+  work_preference: s.optional(s.string()),
+});
+
+export const profileInfoSchema: Schema<ProfileInfo> = s.object({
+  id: s.optional(s.number()),
+  title: s.optional(s.string()),
+  summary: s.optional(s.string()),
+  keyAchievements: s.optional(s.array(s.string())),
+  portfolioProject: s.optional(s.object({
+    title: s.string(),
+    url: s.string(),
+    period: s.string(),
+    description: s.string(),
+    architecturalHighlights: s.array(s.string()),
+    technicalImplementation: s.array(s.string()),
+    businessValue: s.array(s.string()),
+  })),
+});
+
+export const contentSectionSchema: Schema<ContentSection> = s.object({
+  id: s.optional(s.number()),
+  section_type: s.string(),
+  section_name: s.optional(s.string()),
+  json_content: s.record(s.unknown()),
+  display_order: s.optional(s.number()),
+  is_active: s.optional(s.flag()),
+});
@@ -0,0 +1,50 @@
+/**
+ * Session-Aware API Client - Decorator over any IApiClient
+ *
+ * Requests that hit the Cloudflare Access wall (AUTH_REQUIRED) expire the
+ * shared session and are parked in the SessionManager queue instead of
+ * failing. Requests made while the session is already expired are parked
+ * up front. Everything is replayed in order once the user signs back in,
+ * so pages never render their own "session expired" errors.
+ */
+
+import type { IApiClient, RequestOptions, HttpMethod } from '@/types';
+import { SessionManager, isSessionExpiredError } from './SessionManager';
+
+export class SessionAwareApiClient implements IApiClient {
+  constructor(
+    private inner: IApiClient,
+    private session: SessionManager
+  ) {}
+
+  get<T>(endpoint: string, options?: RequestOptions<T>): Promise<T> {
+    return this.run('GET', () => this.inner.get<T>(endpoint, options), options?.signal);
+  }
+
+  post<T>(endpoint: string, data: unknown, options?: RequestOptions<T>): Promise<T> {
+    return this.run('POST', () => this.inner.post<T>(endpoint, data, options), options?.signal);
+  }
+
+  put<T>(endpoint: string, data: unknown, options?: RequestOptions<T>): Promise<T> {
+    return this.run('PUT', () => this.inner.put<T>(endpoint, data, options), options?.signal);
+  }
+
+  delete<T>(endpoint: string, options?: RequestOptions<T>): Promise<T> {
+    return this.run('DELETE', () => this.inner.delete<T>(endpoint, options), options?.signal);
+  }
+
+  private async run<T>(method: HttpMethod, send: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!this.session.isActive) {
+      return this.session.enqueue(method, send, signal);
+    }
+    try {
+      return await send();
+    } catch (error) {
+      if (!isSessionExpiredError(error)) {
+        throw error;
+      }
+      this.session.expire();
+      return this.session.enqueue(method, send, signal);
+    }
+  }
+}
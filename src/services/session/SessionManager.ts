@@ -0,0 +1,315 @@
+/**
+ * Session Manager - central auth state for the Cloudflare Access session
+ *
+ * Owns three things:
+ * - The session status, shared with other tabs over a BroadcastChannel
+ * - A queue of requests that hit the auth wall, replayed in order once
+ *   the session is restored (so unsaved form submissions are not lost)
+ * - The re-login popup and the probe that confirms the session is back
+ *
+ * React binds to it through SessionProvider/useSession; the API client
+ * reports expiry through SessionAwareApiClient.
+ */
+
+import type { HttpMethod } from '@/types';
+import { ApiError, abortedError } from '../errors';
+
+export type SessionStatus = 'active' | 'expired' | 'verifying';
+
+export interface SessionSnapshot {
+  status: SessionStatus;
+  /** Mutations waiting to be replayed after re-login */
+  queuedMutations: number;
+  /** Set when the last re-login attempt did not restore the session */
+  verifyFailed: boolean;
+}
+
+/**
+ * Messages exchanged between tabs (and the login popup)
+ */
+export type SessionMessage = { type: 'expired' } | { type: 'restored' } | { type: 'login-complete' };
+
+/**
+ * Minimal BroadcastChannel surface, injectable for tests
+ */
+export interface SessionChannel {
+  postMessage(message: SessionMessage): void;
+  onmessage: ((event: MessageEvent<SessionMessage>) => void) | null;
+  close(): void;
+}
+
+export interface SessionManagerOptions {
+  /** Cheap authenticated request that succeeds only with a live session */
+  probe: (signal?: AbortSignal) => Promise<unknown>;
+  /** Page opened in the re-login popup; must be behind Cloudflare Access */
+  loginUrl?: string;
+  /** Cross-tab channel; defaults to a BroadcastChannel when available */
+  channel?: SessionChannel | null;
+  /** Opens the re-login popup; defaults to window.open */
+  openWindow?: (url: string) => Window | null;
+}
+
+interface QueuedRequest {
+  method: HttpMethod;
+  replay: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+export const SESSION_CHANNEL_NAME = 'cv-admin-session';
+
+// Served from public/; it announces login-complete and closes itself
+const DEFAULT_LOGIN_URL = '/auth-complete.html';
+
+// How often to check whether the user closed the popup by hand
+const POPUP_POLL_INTERVAL = 500;
+
+/**
+ * True for errors raised when Cloudflare Access bounced the request
+ */
+export function isSessionExpiredError(error: unknown): boolean {
+  return error instanceof ApiError && error.code === 'AUTH_REQUIRED';
+}
+
+function createChannel(): SessionChannel | null {
+  return typeof BroadcastChannel === 'undefined'
+    ? null
+    : new BroadcastChannel(SESSION_CHANNEL_NAME) as SessionChannel;
+}
+
+function openPopup(url: string): Window | null {
+  return window.open(url, 'cv-admin-login', 'popup,width=520,height=680');
+}
+
+export class SessionManager {
+  private snapshot: SessionSnapshot = { status: 'active', queuedMutations: 0, verifyFailed: false };
+  private listeners = new Set<() => void>();
+  private queue: QueuedRequest[] = [];
+  private channel: SessionChannel | null;
+  private probe: SessionManagerOptions['probe'];
+  private loginUrl: string;
+  private openWindow: (url: string) => Window | null;
+  private popupTimer: ReturnType<typeof setInterval> | null = null;
+  private flushing = false;
+
+  constructor(options: SessionManagerOptions) {
+    this.probe = options.probe;
+    this.loginUrl = options.loginUrl ?? DEFAULT_LOGIN_URL;
+    this.openWindow = options.openWindow ?? openPopup;
+    this.channel = options.channel === undefined ? createChannel() : options.channel;
+    if (this.channel) {
+      this.channel.onmessage = (event) => this.handleMessage(event.data);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // State (useSyncExternalStore contract)
+  // ---------------------------------------------------------------------------
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): SessionSnapshot => this.snapshot;
+
+  get isActive(): boolean {
+    return this.snapshot.status === 'active';
+  }
+
+  private setSnapshot(patch: Partial<SessionSnapshot>): void {
+    const next = { ...this.snapshot, ...patch };
+    if (
+      next.status === this.snapshot.status &&
+      next.queuedMutations === this.snapshot.queuedMutations &&
+      next.verifyFailed === this.snapshot.verifyFailed
+    ) {
+      return;
+    }
+    this.snapshot = next;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private countQueuedMutations(): number {
+    return this.queue.filter(item => item.method !== 'GET').length;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Transitions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Report that a request was bounced by Cloudflare Access
+   */
+  expire(): void {
+    if (this.snapshot.status !== 'active') {
+      return;
+    }
+    this.setSnapshot({ status: 'expired', verifyFailed: false });
+    this.channel?.postMessage({ type: 'expired' });
+  }
+
+  /**
+   * Confirm the session with the probe request; on success resume every
+   * tab and replay the queue, otherwise stay expired
+   */
+  async verify(): Promise<boolean> {
+    if (this.snapshot.status === 'verifying') {
+      return false;
+    }
+    this.setSnapshot({ status: 'verifying' });
+    try {
+      await this.probe();
+    } catch {
+      this.setSnapshot({ status: 'expired', verifyFailed: true });
+      return false;
+    }
+    this.restore();
+    this.channel?.postMessage({ type: 'restored' });
+    return true;
+  }
+
+  private restore(): void {
+    this.stopPopupWatch();
+    this.setSnapshot({ status: 'active', verifyFailed: false });
+    void this.flush();
+  }
+
+  private handleMessage(message: SessionMessage): void {
+    switch (message.type) {
+      case 'expired':
+        if (this.snapshot.status === 'active') {
+          this.setSnapshot({ status: 'expired', verifyFailed: false });
+        }
+        break;
+      case 'restored':
+        if (this.snapshot.status !== 'active') {
+          this.restore();
+        }
+        break;
+      case 'login-complete':
+        if (this.snapshot.status !== 'active') {
+          void this.verify();
+        }
+        break;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Re-login popup
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Open the Cloudflare Access login in a popup
+   * The popup page broadcasts login-complete; closing it by hand also
+   * triggers a verification so the modal never gets stuck
+   */
+  openLogin(): void {
+    const popup = this.openWindow(this.loginUrl);
+    if (!popup) {
+      // Popup blocked - fall back to verifying in case another tab logged in
+      void this.verify();
+      return;
+    }
+    this.stopPopupWatch();
+    this.popupTimer = setInterval(() => {
+      if (popup.closed) {
+        this.stopPopupWatch();
+        if (this.snapshot.status === 'expired') {
+          void this.verify();
+        }
+      }
+    }, POPUP_POLL_INTERVAL);
+  }
+
+  private stopPopupWatch(): void {
+    if (this.popupTimer !== null) {
+      clearInterval(this.popupTimer);
+      this.popupTimer = null;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Replay queue
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Hold a request until the session is restored, then run `replay`
+   * The returned promise settles with the replayed result, so callers
+   * (e.g. a form's mutateAsync) simply wait through the re-login
+   */
+  enqueue<T>(method: HttpMethod, replay: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortedError());
+        return;
+      }
+
+      const item: QueuedRequest = {
+        method,
+        replay,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      };
+      this.queue.push(item);
+      this.setSnapshot({ queuedMutations: this.countQueuedMutations() });
+
+      signal?.addEventListener('abort', () => {
+        const index = this.queue.indexOf(item);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          this.setSnapshot({ queuedMutations: this.countQueuedMutations() });
+          reject(abortedError());
+        }
+      }, { once: true });
+
+      if (this.isActive) {
+        void this.flush();
+      }
+    });
+  }
+
+  /**
+   * Replay queued requests one at a time, in the order they were made
+   * Stops early if a replay expires the session again; the rest wait
+   * for the next restore
+   */
+  private async flush(): Promise<void> {
+    if (this.flushing) {
+      return;
+    }
+    this.flushing = true;
+    try {
+      while (this.isActive && this.queue.length > 0) {
+        const item = this.queue[0];
+        try {
+          const result = await item.replay();
+          this.queue.shift();
+          item.resolve(result);
+        } catch (error) {
+          if (isSessionExpiredError(error)) {
+            // Keep the request at the head of the queue for the next restore
+            this.expire();
+            break;
+          }
+          this.queue.shift();
+          item.reject(error);
+        }
+        this.setSnapshot({ queuedMutations: this.countQueuedMutations() });
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * Stop listening to other tabs and the popup
+   */
+  dispose(): void {
+    this.stopPopupWatch();
+    this.channel?.close();
+    this.channel = null;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Session barrel export
+ */
+
+export { SessionManager, isSessionExpiredError, SESSION_CHANNEL_NAME } from './SessionManager';
+export type { SessionStatus, SessionSnapshot, SessionMessage, SessionChannel, SessionManagerOptions } from './SessionManager';
+export { SessionAwareApiClient } from './SessionAwareApiClient';
+export { bindQueryClientToSession } from './queryClient';
@@ -0,0 +1,58 @@
+/**
+ * React Query binding for the session
+ *
+ * While the session is expired React Query is told the app is offline,
+ * which pauses refetches (focus, interval, invalidation) and holds new
+ * mutations before they run. Coming back online resumes paused
+ * mutations, and every query is invalidated so pages show fresh data.
+ */
+
+import { onlineManager, type QueryClient } from '@tanstack/react-query';
+import type { SessionManager } from './SessionManager';
+
+/**
+ * Pause React Query whenever the session is not active
+ * Returns a cleanup function that restores the default online detection
+ */
+export function bindQueryClientToSession(queryClient: QueryClient, session: SessionManager): () => void {
+  let wasActive = session.isActive;
+
+  onlineManager.setEventListener((setOnline) => {
+    const update = () => {
+      const networkOnline = typeof navigator === 'undefined' || navigator.onLine;
+      setOnline(networkOnline && session.isActive);
+    };
+
+    const unsubscribe = session.subscribe(() => {
+      update();
+      if (session.isActive && !wasActive) {
+        void queryClient.invalidateQueries();
+      }
+      wasActive = session.isActive;
+    });
+
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    update();
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  });
+
+  return () => {
+    // Reinstall React Query's default browser listener
+    onlineManager.setEventListener((setOnline) => {
+      const onOnline = () => setOnline(true);
+      const onOffline = () => setOnline(false);
+      window.addEventListener('online', onOnline);
+      window.addEventListener('offline', onOffline);
+      return () => {
+        window.removeEventListener('online', onOnline);
+        window.removeEventListener('offline', onOffline);
+      };
+    });
+  };
+}
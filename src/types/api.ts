@@ -12,18 +12,51 @@ export interface ApiError {
   message: string;
   code?: string;
   status?: number;
+  attempts?: number;
+  field?: string;
   details?: Record<string, unknown>;
 }
 
+/**
+ * Runtime schema for a response payload
+ * Builders live in utils/schema.ts; parse throws on the first mismatch
+ */
+export interface Schema<T> {
+  /** Human-readable expected type, used in error messages */
+  readonly description: string;
+  parse(value: unknown, path?: string): T;
+}
+
+/**
+ * Per-call options accepted by every API client method
+ */
+export interface RequestOptions<T = unknown> {
+  /** Abort signal, e.g. the one React Query passes to queryFn */
+  signal?: AbortSignal;
+  /** Overrides the client-wide timeout for this call (milliseconds) */
+  timeout?: number;
+  /** Extra headers merged over the defaults */
+  headers?: Record<string, string>;
+  /** Query string params; undefined values are skipped */
+  params?: Record<string, string | number | boolean | undefined>;
+  /** Validates the response body; mismatches reject with SCHEMA_MISMATCH */
+  schema?: Schema<T>;
+  /**
+   * Sent as the Idempotency-Key header on every attempt. Mutations are only
+   * retried when they carry one, so set it only for endpoints that deduplicate.
+   */
+  idempotencyKey?: string;
+}
+
 /**
  * API client interface - Dependency Inversion Principle
  * Depend on abstractions, not concretions
  */
 export interface IApiClient {
-  get<T>(endpoint: string): Promise<T>;
-  post<T>(endpoint: string, data: unknown): Promise<T>;
-  put<T>(endpoint: string, data: unknown): Promise<T>;
-  delete<T>(endpoint: string): Promise<T>;
+  get<T>(endpoint: string, options?: RequestOptions<T>): Promise<T>;
+  post<T>(endpoint: string, data: unknown, options?: RequestOptions<T>): Promise<T>;
+  put<T>(endpoint: string, data: unknown, options?: RequestOptions<T>): Promise<T>;
+  delete<T>(endpoint: string, options?: RequestOptions<T>): Promise<T>;
 }
 
 /**
@@ -31,6 +64,12 @@ export interface IApiClient {
  */
 export interface ApiConfig {
   baseUrl: string;
+  /** Per-attempt timeout in milliseconds */
   timeout?: number;
+  /** Extra attempts for GETs and mutations with an idempotencyKey on transient failures */
   retries?: number;
+  /** Base backoff delay in milliseconds, doubled on each attempt and jittered */
+  retryDelay?: number;
+  /** Upper bound for a single backoff delay in milliseconds */
+  maxRetryDelay?: number;
 }
@@ -45,17 +45,6 @@ export interface StagedChangesCount {
   appliedToday: number;
 }
 
-/**
- * Request to stage a new change
- */
-export interface StageRequest {
-  operation: StagedOperation;
-  entityId?: number;
-  entityName?: string; // For D1CV technologies (identified by name, not ID)
-  d1cvPayload: Record<string, unknown>;
-  aiPayload?: Record<string, unknown>;
-}
-
 /**
  * Response from staging a change
  */
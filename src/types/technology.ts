@@ -183,3 +183,58 @@ export interface TechnologiesWithAIMatchResponse {
   };
 }
 
+/**
+ * Response from unified technology lookup endpoint
+ * Combines D1CV, AI Agent, and Staging data in a single request
+ */
+export interface UnifiedTechnologyResponse {
+  found: boolean;
+  source: 'production' | 'staged' | 'none';
+  message?: string;
+  d1cv: {
+    found: boolean;
+    data: {
+      id?: number;
+      name?: string;
+      category_id?: number;
+      category?: string;
+      experience?: string;
+      experience_years?: number;
+      proficiency_percent?: number;
+      level?: string;
+      is_active?: boolean;
+    } | null;
+  };
+  aiAgent: {
+    found: boolean;
+    source: 'production' | 'staged' | 'none';
+    data: {
+      summary?: string;
+      action?: string;
+      effect?: string;
+      outcome?: string;
+      related_project?: string;
+      employer?: string;
+      recency?: string;
+      stable_id?: string;
+    } | null;
+  };
+  staged: {
+    found: boolean;
+    operation: string | null;
+    staged_id: number | null;
+    ai_staged_id: number | null;
+    d1cvData: Record<string, unknown> | null;
+    aiData: Record<string, unknown> | null;
+  };
+}
+
+/**
+ * Response from unified technology lookup when nothing matched
+ * The d1cv/aiAgent/staged sections are omitted in this case
+ */
+export interface UnifiedTechnologyNotFoundResponse {
+  found: false;
+  source: 'none';
+  message?: string;
+}
@@ -0,0 +1,20 @@
+/**
+ * Date Filter Utilities
+ *
+ * Filter forms take local days from date inputs; the API filters on ISO
+ * timestamps, so each day is widened to its first and last instant.
+ */
+
+/**
+ * Start of a local `YYYY-MM-DD` day as an ISO timestamp, or undefined when empty
+ */
+export function dayStart(date: string): string | undefined {
+  return date ? new Date(`${date}T00:00:00`).toISOString() : undefined;
+}
+
+/**
+ * End of a local `YYYY-MM-DD` day as an ISO timestamp, or undefined when empty
+ */
+export function dayEnd(date: string): string | undefined {
+  return date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined;
+}
@@ -0,0 +1,122 @@
+/**
+ * Field-level Diff Utilities
+ *
+ * Compare a production record with a staged payload. Nested objects and
+ * arrays are walked so every changed leaf gets its own row, e.g.
+ * `categories[0].achievements[1].title`.
+ */
+
+export type FieldChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface FieldDiff {
+  /** Dotted path with array indexes */
+  path: string;
+  kind: FieldChangeKind;
+  before: unknown;
+  after: unknown;
+}
+
+export interface DiffOptions {
+  /** Only compare these top-level fields (defaults to every field on either side) */
+  keys?: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Forms send cleared fields as undefined while the database stores ''
+ * or null, so all three count as "no value"
+ */
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Whether two field values are the same, with blanks treated alike
+ */
+export function sameValue(a: unknown, b: unknown): boolean {
+  if (isBlank(a) || isBlank(b)) {
+    return isBlank(a) && isBlank(b);
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Display text for a field value, with an em dash for blanks
+ */
+export function formatFieldValue(value: unknown): string {
+  if (isBlank(value)) {
+    return '—';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function diffValue(path: string, before: unknown, after: unknown, out: FieldDiff[]): void {
+  const arrays = (Array.isArray(before) || isBlank(before)) && (Array.isArray(after) || isBlank(after));
+  if (arrays && (Array.isArray(before) || Array.isArray(after))) {
+    const left = Array.isArray(before) ? before : [];
+    const right = Array.isArray(after) ? after : [];
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      diffValue(`${path}[${i}]`, left[i], right[i], out);
+    }
+    return;
+  }
+
+  const records = (isRecord(before) || isBlank(before)) && (isRecord(after) || isBlank(after));
+  if (records && (isRecord(before) || isRecord(after))) {
+    const left = isRecord(before) ? before : {};
+    const right = isRecord(after) ? after : {};
+    for (const key of new Set([...Object.keys(left), ...Object.keys(right)])) {
+      diffValue(childPath(path, key), left[key], right[key], out);
+    }
+    return;
+  }
+
+  let kind: FieldChangeKind;
+  if (isBlank(before) && isBlank(after)) {
+    kind = 'unchanged';
+  } else if (isBlank(before)) {
+    kind = 'added';
+  } else if (isBlank(after)) {
+    kind = 'removed';
+  } else {
+    kind = sameValue(before, after) ? 'unchanged' : 'changed';
+  }
+  out.push({ path, kind, before, after });
+}
+
+/**
+ * Diff two records field by field
+ * Pass null as `before` for a new record, or as `after` for a deletion
+ */
+export function diffFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+  options: DiffOptions = {}
+): FieldDiff[] {
+  const left = before ?? {};
+  const right = after ?? {};
+  const keys = options.keys ?? [...new Set([...Object.keys(left), ...Object.keys(right)])];
+  const out: FieldDiff[] = [];
+  for (const key of keys) {
+    diffValue(key, left[key], right[key], out);
+  }
+  return out;
+}
+
+/**
+ * Count diff rows by kind
+ */
+export function summarizeDiff(diffs: FieldDiff[]): Record<FieldChangeKind, number> {
+  const summary: Record<FieldChangeKind, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  for (const diff of diffs) {
+    summary[diff.kind] += 1;
+  }
+  return summary;
+}
@@ -0,0 +1,31 @@
+/**
+ * File Download Utilities
+ *
+ * Exports are built in the browser, so they are handed to the user as a
+ * Blob download rather than fetched from a URL.
+ */
+
+/**
+ * How long the Blob URL outlives the click; revoking it straight away can
+ * cancel the download in Safari and older Firefox
+ */
+const REVOKE_DELAY_MS = 1000 * 30;
+
+/**
+ * Save text or binary content as a file through a temporary link
+ */
+export function downloadFile(content: BlobPart, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+/**
+ * Today's date for export file names, e.g. `2025-01-15`
+ */
+export function fileDate(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -2,3 +2,9 @@
  * Utils barrel export
  */
 export * from './sanitize';
+export * from './schema';
+export * from './diff';
+export * from './merge';
+export * from './csv';
+export * from './download';
+export * from './dates';
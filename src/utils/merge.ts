@@ -0,0 +1,85 @@
+/**
+ * Three-way Merge Utilities
+ *
+ * Reconcile a staged edit ("mine") with a production record that changed
+ * after it was staged ("theirs"), using the record as it was when the
+ * edit was staged ("base"). Fields are merged at the top level; nested
+ * values such as experience categories are taken whole from one side.
+ */
+
+import { sameValue } from './diff';
+
+export type MergeSide = 'mine' | 'theirs';
+
+/**
+ * How a field moved since the base:
+ * - unchanged: nobody touched it
+ * - mine / theirs: only that side changed it, so it merges cleanly
+ * - same: both sides made the identical change
+ * - conflict: both sides changed it differently and someone has to pick
+ */
+export type MergeFieldStatus = 'unchanged' | 'mine' | 'theirs' | 'same' | 'conflict';
+
+export interface MergeField {
+  field: string;
+  status: MergeFieldStatus;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+}
+
+/**
+ * Compare each field of the staged payload and the current record against the base
+ */
+export function threeWayMerge(
+  base: Record<string, unknown>,
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>
+): MergeField[] {
+  // Only fields the edit writes matter: a push leaves the rest alone
+  return Object.keys(mine).map((field) => {
+    const mineChanged = !sameValue(base[field], mine[field]);
+    const theirsChanged = !sameValue(base[field], theirs[field]);
+    let status: MergeFieldStatus;
+    if (!mineChanged && !theirsChanged) {
+      status = 'unchanged';
+    } else if (!theirsChanged) {
+      status = 'mine';
+    } else if (!mineChanged) {
+      status = 'theirs';
+    } else {
+      status = sameValue(mine[field], theirs[field]) ? 'same' : 'conflict';
+    }
+    return { field, status, base: base[field], mine: mine[field], theirs: theirs[field] };
+  });
+}
+
+/**
+ * Side a field resolves to when nobody has picked one
+ * Conflicts have no default and must be chosen explicitly
+ */
+export function defaultMergeSide(field: MergeField): MergeSide | null {
+  if (field.status === 'conflict') {
+    return null;
+  }
+  return field.status === 'theirs' ? 'theirs' : 'mine';
+}
+
+/**
+ * Build the resolved payload from the chosen side of each field
+ * Returns null while any conflict is still unresolved
+ */
+export function resolveMerge(
+  fields: MergeField[],
+  choices: Partial<Record<string, MergeSide>>
+): Record<string, unknown> | null {
+  const resolved: Record<string, unknown> = {};
+  for (const field of fields) {
+    const side = choices[field.field] ?? defaultMergeSide(field);
+    if (!side) {
+      return null;
+    }
+    resolved[field.field] = side === 'mine' ? field.mine : field.theirs;
+  }
+  return resolved;
+}
@@ -48,6 +48,19 @@ export function sanitizeForDisplay(input: string): string {
     .replace(/&#x27;/g, "'");
 }
 
+/**
+ * Escape text for HTML or XML markup (element content and quoted attributes)
+ * Unlike sanitizeString this never truncates, for documents built locally
+ */
+export function escapeMarkup(input: string): string {
+  return input
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#x27;');
+}
+
 /**
  * Validate and sanitize an email address
  * OWASP: Input validation for email
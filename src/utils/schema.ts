@@ -0,0 +1,246 @@
+/**
+ * Runtime Schema Utilities
+ *
+ * Small declarative validators for backend payloads. Types only exist at
+ * compile time, so responses are checked at the API boundary to catch
+ * backend drift before it renders as `undefined` in a table.
+ *
+ * Conventions:
+ * - Objects pass unknown keys through (backends add fields over time)
+ * - `optional` accepts null as well as undefined, since D1 returns NULL
+ *   for empty columns; the key is dropped so the value matches `T | undefined`
+ * - `flag` accepts SQLite 0/1 integers and coerces them to booleans
+ */
+
+import type { Schema } from '@/types';
+
+/**
+ * Thrown when a value does not match its schema
+ * `field` is the dotted path to the offending value, e.g. `experiences[2].role`
+ */
+export class SchemaMismatchError extends Error {
+  constructor(
+    public field: string,
+    public expected: string,
+    public received: string
+  ) {
+    super(`${field || 'response'}: expected ${expected}, received ${received}`);
+    this.name = 'SchemaMismatchError';
+  }
+}
+
+/**
+ * Describe a value's runtime type for error messages
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(description: string, guard: (value: unknown) => value is T): Schema<T> {
+  return {
+    description,
+    parse(value, path = '') {
+      if (!guard(value)) {
+        throw new SchemaMismatchError(path, description, describe(value));
+      }
+      return value;
+    },
+  };
+}
+
+function string(): Schema<string> {
+  return primitive('string', (value): value is string => typeof value === 'string');
+}
+
+function number(): Schema<number> {
+  return primitive('number', (value): value is number => typeof value === 'number' && !Number.isNaN(value));
+}
+
+function boolean(): Schema<boolean> {
+  return primitive('boolean', (value): value is boolean => typeof value === 'boolean');
+}
+
+/**
+ * Boolean stored as a SQLite integer (0/1) or a real boolean
+ */
+function flag(): Schema<boolean> {
+  return {
+    description: 'boolean',
+    parse(value, path = '') {
+      if (typeof value === 'boolean') return value;
+      if (value === 0 || value === 1) return value === 1;
+      throw new SchemaMismatchError(path, 'boolean', describe(value));
+    },
+  };
+}
+
+/**
+ * Accept anything (opaque JSON blobs such as content sections)
+ */
+function unknown(): Schema<unknown> {
+  return { description: 'unknown', parse: (value) => value };
+}
+
+/**
+ * Exactly one primitive value (used for discriminants such as `found: false`)
+ */
+function literal<const T extends string | number | boolean>(expected: T): Schema<T> {
+  return primitive(JSON.stringify(expected), (value): value is T => value === expected);
+}
+
+/**
+ * One of a fixed set of string values
+ */
+function oneOf<const T extends string>(...values: T[]): Schema<T> {
+  const description = values.map(v => `'${v}'`).join(' | ');
+  return primitive(description, (value): value is T => typeof value === 'string' && (values as string[]).includes(value));
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    description: `${item.description}[]`,
+    parse(value, path = '') {
+      if (!Array.isArray(value)) {
+        throw new SchemaMismatchError(path, `${item.description}[]`, describe(value));
+      }
+      return value.map((entry, index) => item.parse(entry, `${path}[${index}]`));
+    },
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Object with arbitrary string keys and uniformly typed values
+ */
+function record<T>(valueSchema: Schema<T>): Schema<Record<string, T>> {
+  return {
+    description: 'object',
+    parse(value, path = '') {
+      if (!isPlainObject(value)) {
+        throw new SchemaMismatchError(path, 'object', describe(value));
+      }
+      const out: Record<string, T> = {};
+      for (const [key, entry] of Object.entries(value)) {
+        out[key] = valueSchema.parse(entry, joinPath(path, key));
+      }
+      return out;
+    },
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+type ShapeOutput<S extends Shape> = { [K in keyof S]: S[K] extends Schema<infer T> ? T : never };
+
+function object<S extends Shape>(shape: S): Schema<ShapeOutput<S>> {
+  return {
+    description: 'object',
+    parse(value, path = '') {
+      if (!isPlainObject(value)) {
+        throw new SchemaMismatchError(path, 'object', describe(value));
+      }
+      const out: Record<string, unknown> = { ...value };
+      for (const [key, fieldSchema] of Object.entries(shape)) {
+        const parsed = fieldSchema.parse(value[key], joinPath(path, key));
+        if (parsed === undefined) {
+          delete out[key];
+        } else {
+          out[key] = parsed;
+        }
+      }
+      return out as ShapeOutput<S>;
+    },
+  };
+}
+
+function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return {
+    description: `${inner.description} | undefined`,
+    parse(value, path = '') {
+      if (value === undefined || value === null) return undefined;
+      return inner.parse(value, path);
+    },
+  };
+}
+
+function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return {
+    description: `${inner.description} | null`,
+    parse(value, path = '') {
+      if (value === null) return null;
+      return inner.parse(value, path);
+    },
+  };
+}
+
+/**
+ * First matching alternative wins
+ * Reports the deepest mismatch when no alternative matches, since that is
+ * almost always the shape the backend was trying to send
+ */
+function union<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  const description = `${a.description} | ${b.description}`;
+  return {
+    description,
+    parse(value, path = '') {
+      try {
+        return a.parse(value, path);
+      } catch (errorA) {
+        try {
+          return b.parse(value, path);
+        } catch (errorB) {
+          if (!(errorA instanceof SchemaMismatchError) || !(errorB instanceof SchemaMismatchError)) {
+            throw errorB;
+          }
+          const deepest = errorA.field.length >= errorB.field.length ? errorA : errorB;
+          if (deepest.field === path) {
+            throw new SchemaMismatchError(path, description, describe(value));
+          }
+          throw deepest;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Schema builders
+ *
+ * @example
+ * const statsSchema = s.object({ total: s.number(), label: s.optional(s.string()) });
+ */
+export const s = {
+  string,
+  number,
+  boolean,
+  flag,
+  unknown,
+  literal,
+  oneOf,
+  array,
+  record,
+  object,
+  optional,
+  nullable,
+  union,
+};
+
+/**
+ * Static type produced by a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Validate a value, throwing SchemaMismatchError on the first offending field
+ */
+export function parseWithSchema<T>(schema: Schema<T>, value: unknown): T {
+  return schema.parse(value, '');
+}
@@ -2,6 +2,12 @@
 
 interface ImportMetaEnv {
   readonly VITE_API_URL: string;
+  /** 'true' serves every request from the in-memory mock backend */
+  readonly VITE_MOCK_API?: string;
+  /** Fixed mock latency in milliseconds (default: random 150-600) */
+  readonly VITE_MOCK_LATENCY?: string;
+  /** Probability (0-1) that a mock request fails with a 503 */
+  readonly VITE_MOCK_ERROR_RATE?: string;
 }
 
 interface ImportMeta {
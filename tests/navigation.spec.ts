@@ -28,24 +28,20 @@ test.describe('Navigation', () => {
         await expect(page).toHaveURL(/\/technologies/);
     });
 
-    test('should navigate to Staged Changes page', async ({ page }) => {
+    test('should navigate to Commits page', async ({ page }) => {
         await page.goto('/dashboard');
 
         // Use first() for elements that appear in both mobile and desktop drawers
-        const stagedButton = page.getByRole('button', { name: 'Staged Changes' }).first();
-        await stagedButton.click();
+        const commitsButton = page.getByRole('button', { name: 'Commits' }).first();
+        await commitsButton.click();
 
-        await expect(page).toHaveURL(/\/staged/);
+        await expect(page).toHaveURL(/\/commits/);
     });
 
-    test('should navigate to Commits page directly', async ({ page }) => {
-        // Note: Commits nav item is defined but not rendered in sidebar
-        // Navigate directly to test the route works
-        await page.goto('/commits');
+    test('should still serve the legacy staging migration view', async ({ page }) => {
+        await page.goto('/staged');
 
-        // Should either show commits page or redirect appropriately
-        const url = page.url();
-        expect(url).toMatch(/\/commits/);
+        await expect(page.getByRole('heading', { name: 'Legacy Staged Changes' })).toBeVisible();
     });
 
     test('should have a working sidebar', async ({ page }) => {
@@ -61,10 +57,10 @@ test.describe('Navigation', () => {
     test('should maintain sidebar state across navigation', async ({ page }) => {
         await page.goto('/d1cv/technologies');
 
-        // Navigate to staged changes
-        const stagedButton = page.getByRole('button', { name: 'Staged Changes' }).first();
-        await stagedButton.click();
-        await expect(page).toHaveURL(/\/staged/);
+        // Navigate to commits
+        const commitsButton = page.getByRole('button', { name: 'Commits' }).first();
+        await commitsButton.click();
+        await expect(page).toHaveURL(/\/commits/);
 
         // Navigate back to technologies
         const techButton = page.locator('[role="button"]').filter({ hasText: 'Technologies' }).first();
@@ -174,13 +174,13 @@ test.describe('Technology Form - Submission', () => {
         // Wait for navigation or error
         await page.waitForTimeout(1000);
 
-        // Should redirect to staged changes page or show error
+        // Should redirect to the commits page or show error
         const currentUrl = page.url();
-        const redirectedToStaged = currentUrl.includes('/staged');
+        const redirectedToCommits = currentUrl.includes('/commits');
         const stayedOnForm = currentUrl.includes('/new');
 
         // Either succeeded and redirected, or validation error kept us on form
-        expect(redirectedToStaged || stayedOnForm).toBeTruthy();
+        expect(redirectedToCommits || stayedOnForm).toBeTruthy();
     });
 
     test('should show validation errors for empty required fields', async ({ page }) => {
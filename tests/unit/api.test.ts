@@ -6,7 +6,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { ApiClient, ApiError } from '@services/api';
+import { ApiClient, ApiError, IDEMPOTENCY_KEY_HEADER } from '@services/api';
+import { s } from '@utils/schema';
 
 describe('ApiClient', () => {
     let client: ApiClient;
@@ -216,6 +217,206 @@ describe('ApiClient', () => {
         });
     });
 
+    describe('Retry behaviour', () => {
+        const jsonResponse = (data: unknown) => ({
+            ok: true,
+            headers: new Headers({ 'content-type': 'application/json' }),
+            json: async () => data,
+        });
+
+        beforeEach(() => {
+            client = new ApiClient('http://localhost:8787/api', { retries: 2, retryDelay: 0 });
+        });
+
+        it('should retry GET requests on network errors', async () => {
+            mockFetch
+                .mockRejectedValueOnce(new Error('Network failure'))
+                .mockResolvedValueOnce(jsonResponse({ ok: 1 }));
+
+            const result = await client.get('/test');
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            expect(result).toEqual({ ok: 1 });
+        });
+
+        it('should surface the attempt count when retries are exhausted', async () => {
+            mockFetch.mockRejectedValue(new Error('Network failure'));
+
+            try {
+                await client.get('/test');
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect(error).toBeInstanceOf(ApiError);
+                expect((error as ApiError).code).toBe('NETWORK_ERROR');
+                expect((error as ApiError).attempts).toBe(3);
+            }
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('should not retry client errors', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 400,
+                headers: new Headers({ 'content-type': 'application/json' }),
+                json: async () => ({ message: 'Bad request' }),
+            });
+
+            try {
+                await client.get('/test');
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as ApiError).status).toBe(400);
+                expect((error as ApiError).attempts).toBe(1);
+            }
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not retry mutations without an idempotency key', async () => {
+            mockFetch.mockRejectedValue(new Error('Network failure'));
+
+            await expect(client.post('/v2/push/d1cv', { commit_id: 'abc' })).rejects.toMatchObject({
+                code: 'NETWORK_ERROR',
+                attempts: 1,
+            });
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(mockFetch.mock.calls[0][1].headers).not.toHaveProperty(IDEMPOTENCY_KEY_HEADER);
+        });
+
+        it('should retry keyed mutations with the same idempotency key', async () => {
+            mockFetch
+                .mockRejectedValueOnce(new Error('Network failure'))
+                .mockResolvedValueOnce(jsonResponse({ success: true }));
+
+            await client.post('/v2/push/d1cv', { commit_id: 'abc' }, { idempotencyKey: 'push-abc' });
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            expect(mockFetch.mock.calls[0][1].headers[IDEMPOTENCY_KEY_HEADER]).toBe('push-abc');
+            expect(mockFetch.mock.calls[1][1].headers[IDEMPOTENCY_KEY_HEADER]).toBe('push-abc');
+        });
+
+        it('should not retry when retries are disabled', async () => {
+            client = new ApiClient('http://localhost:8787/api', { retries: 0 });
+            mockFetch.mockRejectedValue(new Error('Network failure'));
+
+            await expect(client.get('/test')).rejects.toMatchObject({ attempts: 1 });
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Per-call options', () => {
+        const jsonResponse = (data: unknown) => ({
+            ok: true,
+            headers: new Headers({ 'content-type': 'application/json' }),
+            json: async () => data,
+        });
+
+        // Mimics fetch rejecting once its signal is aborted
+        const hangingFetch = (_url: string, init: RequestInit) =>
+            new Promise((_resolve, reject) => {
+                init.signal?.addEventListener('abort', () => {
+                    reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+                });
+            });
+
+        it('should append query params and skip undefined values', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse([]));
+
+            await client.get('/v2/commits', { params: { status: 'pending', page: 2, target: undefined } });
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'http://localhost:8787/api/v2/commits?status=pending&page=2',
+                expect.any(Object)
+            );
+        });
+
+        it('should merge extra headers over the defaults', async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({}));
+
+            await client.post('/stage', {}, { headers: { 'X-Trace': '1' } });
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.any(String),
+                expect.objectContaining({
+                    headers: expect.objectContaining({
+                        'Content-Type': 'application/json',
+                        'X-Trace': '1',
+                    }),
+                })
+            );
+        });
+
+        it('should reject with ABORTED when the caller signal aborts', async () => {
+            mockFetch.mockImplementation(hangingFetch);
+            const controller = new AbortController();
+
+            const pending = client.get('/test', { signal: controller.signal });
+            controller.abort();
+
+            await expect(pending).rejects.toMatchObject({ code: 'ABORTED', attempts: 1 });
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not call fetch when the signal is already aborted', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(client.get('/test', { signal: controller.signal })).rejects.toMatchObject({ code: 'ABORTED' });
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should honour a per-call timeout', async () => {
+            client = new ApiClient('http://localhost:8787/api', { retries: 0 });
+            mockFetch.mockImplementation(hangingFetch);
+
+            await expect(client.get('/slow', { timeout: 10 })).rejects.toMatchObject({ code: 'TIMEOUT', status: 408 });
+        });
+    });
+
+    describe('Response schema validation', () => {
+        const schema = s.object({ technologies: s.array(s.object({ name: s.string() })) });
+
+        it('should return the validated body when it matches', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                headers: new Headers({ 'content-type': 'application/json' }),
+                json: async () => ({ technologies: [{ name: 'Go' }] }),
+            });
+
+            await expect(client.get('/technologies', { schema })).resolves.toEqual({ technologies: [{ name: 'Go' }] });
+        });
+
+        it('should throw SCHEMA_MISMATCH naming the offending field', async () => {
+            mockFetch.mockResolvedValue({
+                ok: true,
+                status: 200,
+                headers: new Headers({ 'content-type': 'application/json' }),
+                json: async () => ({ technologies: [{ name: 'Go' }, { title: 'Rust' }] }),
+            });
+
+            try {
+                await client.get('/technologies', { schema });
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect(error).toBeInstanceOf(ApiError);
+                expect((error as ApiError).code).toBe('SCHEMA_MISMATCH');
+                expect((error as ApiError).field).toBe('technologies[1].name');
+                expect((error as ApiError).message).toContain('technologies[1].name');
+            }
+            // Shape errors are not transient, so no retry
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should reject unparseable JSON as INVALID_RESPONSE', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                headers: new Headers({ 'content-type': 'application/json' }),
+                json: async () => { throw new SyntaxError('Unexpected token'); },
+            });
+
+            await expect(client.get('/test')).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+        });
+    });
+
     describe('URL handling', () => {
         it('should handle endpoints with leading slash', async () => {
             mockFetch.mockResolvedValueOnce({
@@ -271,4 +472,10 @@ describe('ApiError', () => {
 
         expect(error.code).toBeUndefined();
     });
+
+    it('should default to a single attempt', () => {
+        const error = new ApiError('Test error', 500);
+
+        expect(error.attempts).toBe(1);
+    });
 });
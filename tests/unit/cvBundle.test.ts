@@ -0,0 +1,80 @@
+/**
+ * CV Bundle Unit Tests
+ *
+ * A bundle must read back exactly as it was written, and importing it
+ * into another environment must stage just enough to make that
+ * environment match once the commit is pushed.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MockApiClient, createMockSeed } from '@services/mock';
+import {
+    buildBundle,
+    parseBundle,
+    planBundleImport,
+    fetchPortfolioSnapshot,
+    BUNDLE_VERSION,
+    type CVBundle,
+} from '@hooks/useCVBundle';
+
+describe('CV bundle', () => {
+    let source: MockApiClient;
+    let bundle: CVBundle;
+
+    beforeEach(async () => {
+        source = new MockApiClient({ latency: 0 });
+        bundle = buildBundle(await fetchPortfolioSnapshot(source), '2025-01-15T09:30:00.000Z');
+    });
+
+    it('should read back what it exported and find nothing to change in the same environment', async () => {
+        const read = parseBundle(JSON.stringify(bundle));
+        expect(read).toEqual(JSON.parse(JSON.stringify(bundle)));
+
+        const plan = planBundleImport(read, await fetchPortfolioSnapshot(source));
+        expect(plan.changes).toEqual([]);
+        expect(plan.warnings).toEqual([]);
+        expect(plan.missingCategories).toEqual([]);
+        expect(plan.unchanged).toBeGreaterThan(bundle.technologies.length);
+    });
+
+    it('should reject files that are not a bundle it understands', () => {
+        expect(() => parseBundle('{')).toThrow('not valid JSON');
+        expect(() => parseBundle('{"technologies": []}')).toThrow('not a CV bundle');
+        expect(() => parseBundle(JSON.stringify({ ...bundle, version: BUNDLE_VERSION + 1 }))).toThrow('newer than this admin supports');
+        expect(() => parseBundle(JSON.stringify({ ...bundle, technologies: [{ name: 'Go' }] }))).toThrow('technologies[0].category');
+    });
+
+    it('should bring another environment in line with the bundle once pushed', async () => {
+        const seed = createMockSeed();
+        const target = new MockApiClient({
+            latency: 0,
+            seed: { ...seed, technologies: [], aiTechnologies: [], contact: { ...seed.contact, email: 'old@example.com' } },
+        });
+        const plan = planBundleImport(bundle, await fetchPortfolioSnapshot(target));
+
+        expect(plan.changes.filter(c => c.entityType === 'technology').map(c => c.action))
+            .toEqual(bundle.technologies.map(() => 'CREATE'));
+        expect(plan.changes.filter(c => c.entityType !== 'technology')).toEqual([
+            expect.objectContaining({ entityType: 'contact', action: 'UPDATE' }),
+        ]);
+
+        const ids: string[] = [];
+        for (const change of plan.changes) {
+            ids.push((await target.post<{ id: string }>('/v2/stage', change.request)).id);
+        }
+        const commit = await target.post<{ id: string }>('/v2/commit', { message: 'Import bundle', change_ids: ids });
+        await target.post('/v2/push/d1cv', { commit_id: commit.id });
+        await target.post('/v2/push/ai', { commit_id: commit.id });
+
+        expect(planBundleImport(bundle, await fetchPortfolioSnapshot(target)).changes).toEqual([]);
+    });
+
+    it('should list the categories a fresh target is missing instead of skipping their technologies', async () => {
+        const target = new MockApiClient({ latency: 0, seed: createMockSeed({ technologies: [], categories: [] }) });
+        const plan = planBundleImport(bundle, await fetchPortfolioSnapshot(target));
+
+        expect(plan.changes.some(c => c.entityType === 'technology')).toBe(false);
+        expect(plan.missingCategories).toEqual([...new Set(bundle.technologies.map(t => t.category))]);
+        expect(plan.warnings).toEqual([]);
+    });
+});
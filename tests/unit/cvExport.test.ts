@@ -0,0 +1,119 @@
+/**
+ * CV Export Unit Tests
+ *
+ * The CV must show only what the export options ask for, escape every
+ * portfolio value it prints, and produce a DOCX package that unzips into
+ * the parts Word expects.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from '@utils/zip';
+import {
+    composeCV,
+    renderCVHtml,
+    renderCVDocx,
+    cvFileName,
+    CV_TEMPLATES,
+    DEFAULT_CV_OPTIONS,
+} from '@services/cv';
+import { cvSource, experience, tech } from './cvFixtures';
+
+/**
+ * Read a stored (uncompressed) archive back through its central directory
+ */
+function unzip(zip: Uint8Array): Map<string, string> {
+    const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+    const decoder = new TextDecoder();
+    const end = zip.byteLength - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+    const files = new Map<string, string>();
+    let position = view.getUint32(end + 16, true);
+    for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+        expect(view.getUint32(position, true)).toBe(0x02014b50);
+        const size = view.getUint32(position + 20, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const offset = view.getUint32(position + 42, true);
+        const name = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+        const start = offset + 30 + view.getUint16(offset + 26, true);
+        const data = zip.subarray(start, start + size);
+        expect(crc32(data)).toBe(view.getUint32(position + 16, true));
+        files.set(name, decoder.decode(data));
+        position += 46 + nameLength;
+    }
+    return files;
+}
+
+const source = cvSource({
+    contact: { name: 'Jane <Doe>', email: 'jane@example.com', linkedin_url: 'https://linkedin.com/in/jane' },
+    profile: { title: 'Engineer', summary: 'Builds things', keyAchievements: ['Shipped & scaled'] },
+    experiences: [
+        experience(2, 'Old Co', { period: '2010 - 2012', role: 'Dev', categories: [], is_active: false }),
+        experience(1, 'Acme', {
+            location: 'Remote', role: 'Lead', description: 'Led the team',
+            categories: [{ title: 'Delivery', achievements: [{ title: 'Launch', description: 'Shipped v2' }] }],
+            technologies: 'Go',
+        }),
+    ],
+    technologies: [tech('Go', 90), tech('Perl', 95, { is_active: false }), tech('React', 80, { category: 'Frontend' }), tech('Rust', 70)],
+});
+
+describe('createZip', () => {
+    it('should checksum with CRC-32 and write entries that read back', () => {
+        expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+
+        const files = unzip(createZip([{ name: 'a.txt', content: 'héllo' }, { name: 'dir/b.xml', content: '<b/>' }]));
+        expect([...files]).toEqual([['a.txt', 'héllo'], ['dir/b.xml', '<b/>']]);
+    });
+});
+
+describe('composeCV', () => {
+    it('should hide inactive entries and list the strongest technologies by category', () => {
+        const cv = composeCV(source, { ...DEFAULT_CV_OPTIONS, topTechnologies: 2 });
+
+        expect(cv.experience.map(e => e.company)).toEqual(['Acme']);
+        expect(cv.skills).toEqual([
+            { category: 'Backend', skills: ['Go'] },
+            { category: 'Frontend', skills: ['React'] },
+        ]);
+
+        const everything = composeCV(source, { ...DEFAULT_CV_OPTIONS, hideInactive: false, includeEducation: false });
+        expect(everything.experience.map(e => e.company)).toEqual(['Acme', 'Old Co']);
+        expect(everything.skills[0].skills[0]).toBe('Perl');
+        expect(cvFileName(everything, 'pdf')).toBe('Jane-Doe-CV.pdf');
+    });
+});
+
+describe('CV renderers', () => {
+    const cv = composeCV(source, DEFAULT_CV_OPTIONS);
+
+    it('should escape portfolio values in the HTML', () => {
+        const html = renderCVHtml(cv, CV_TEMPLATES.classic);
+
+        expect(html).toContain('<h1>Jane &lt;Doe&gt;</h1>');
+        expect(html).toContain('Shipped &amp; scaled');
+        expect(html).toContain('<a href="https://linkedin.com/in/jane">linkedin.com/in/jane</a>');
+        expect(html).not.toContain('Old Co');
+    });
+
+    it('should write a DOCX package with the document, styles and link relationships', () => {
+        const files = unzip(renderCVDocx(cv, CV_TEMPLATES.modern));
+
+        expect([...files.keys()]).toEqual([
+            '[Content_Types].xml',
+            '_rels/.rels',
+            'word/document.xml',
+            'word/_rels/document.xml.rels',
+            'word/styles.xml',
+        ]);
+        for (const [name, xml] of files) {
+            const parsed = new DOMParser().parseFromString(xml, 'application/xml');
+            expect(parsed.getElementsByTagName('parsererror'), name).toHaveLength(0);
+        }
+        const document = files.get('word/document.xml')!;
+        expect(document).toContain('Jane &lt;Doe&gt;');
+        expect(document).toContain('<w:hyperlink r:id="rIdLink1">');
+        expect(files.get('word/_rels/document.xml.rels')).toContain('Target="https://linkedin.com/in/jane" TargetMode="External"');
+        expect(files.get('word/styles.xml')).toContain('w:ascii="Calibri"');
+    });
+});
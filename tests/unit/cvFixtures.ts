@@ -0,0 +1,92 @@
+/**
+ * CV Test Fixtures
+ *
+ * Portfolio records for the CV export and variant tests, built complete so
+ * every fixture type-checks against the real data shapes.
+ */
+
+import type { CVSource } from '@services/cv';
+import type { AIAgentTechnology, D1CVTechnologyWithAIMatch, Experience } from '@/types';
+
+/**
+ * An active Backend technology without an AI Agent record
+ * The proficiency doubles as the id, so names and ids stay unique per fixture.
+ */
+export function tech(
+    name: string,
+    proficiency: number,
+    overrides: Partial<D1CVTechnologyWithAIMatch> = {},
+): D1CVTechnologyWithAIMatch {
+    return {
+        id: proficiency,
+        name,
+        experience: '',
+        experience_years: 3,
+        proficiency_percent: proficiency,
+        level: 'Advanced',
+        category: 'Backend',
+        is_active: true,
+        hasAiMatch: false,
+        aiMatch: null,
+        ...overrides,
+    };
+}
+
+/**
+ * The AI Agent record matching a technology
+ */
+export function aiMatch(technology: D1CVTechnologyWithAIMatch, stableId: string): AIAgentTechnology {
+    return {
+        id: technology.id,
+        stable_id: stableId,
+        name: technology.name,
+        experience: technology.experience,
+        experience_years: technology.experience_years,
+        proficiency_percent: technology.proficiency_percent,
+        level: technology.level,
+        category: technology.category,
+    };
+}
+
+/**
+ * A technology that also has an AI Agent record
+ */
+export function matchedTech(name: string, proficiency: number, stableId: string): D1CVTechnologyWithAIMatch {
+    const technology = tech(name, proficiency);
+    return { ...technology, hasAiMatch: true, aiMatch: aiMatch(technology, stableId) };
+}
+
+/**
+ * An active Engineer role with one achievement category
+ */
+export function experience(id: number, company: string, overrides: Partial<Experience> = {}): Experience {
+    return {
+        id,
+        company,
+        location: '',
+        period: '2020 - Present',
+        role: 'Engineer',
+        description: '',
+        categories: [{
+            title: 'Delivery',
+            achievements: [{ title: 'Launch', description: '' }, { title: 'Migration', description: '' }, { title: 'Hiring', description: '' }],
+        }],
+        technologies: '',
+        display_order: id,
+        ...overrides,
+    };
+}
+
+/**
+ * A minimal portfolio to compose a CV from
+ */
+export function cvSource(overrides: Partial<CVSource> = {}): CVSource {
+    return {
+        contact: { name: 'Jane Doe' },
+        profile: { title: 'Engineer', summary: 'Generalist', keyAchievements: [] },
+        experiences: [],
+        education: [],
+        technologies: [],
+        ...overrides,
+    };
+}
@@ -0,0 +1,98 @@
+/**
+ * CV Variant Unit Tests
+ *
+ * A variant must show exactly the records it selects, in its own order,
+ * stay out of the data the public site reads, and ranking against a job
+ * description must put the technologies the posting asks for first.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MockApiClient } from '@services/mock';
+import {
+    applyVariant,
+    createVariant,
+    readVariants,
+    composeCV,
+    rankByRelevance,
+    jobDescriptionQueries,
+    mentions,
+    DEFAULT_CV_OPTIONS,
+    type CVVariant,
+} from '@services/cv';
+import { fetchPortfolioSnapshot } from '@hooks/useCVBundle';
+import { cvSource, experience, matchedTech, tech } from './cvFixtures';
+
+const source = cvSource({
+    experiences: [experience(1, 'Acme'), experience(2, 'Globex', { is_active: false }), experience(3, 'Initech')],
+    technologies: [tech('Go', 90), tech('C++', 60), tech('React', 80)],
+});
+
+describe('applyVariant', () => {
+    it('should show the selected records in the variant order with its summary', () => {
+        const variant: CVVariant = {
+            id: 'v1',
+            name: 'Platform role',
+            summary: 'Platform engineer',
+            experiences: [
+                { key: 'globex|engineer', achievements: ['Hiring', 'Launch'] },
+                { key: 'acme|engineer' },
+                { key: 'gone|engineer' },
+            ],
+            technologies: ['React', 'Go'],
+            updated_at: '2025-01-15T09:30:00.000Z',
+        };
+        const cv = composeCV(applyVariant(source, variant), { ...DEFAULT_CV_OPTIONS, rankTechnologies: false });
+
+        expect(cv.summary).toBe('Platform engineer');
+        expect(cv.experience.map(e => e.company)).toEqual(['Globex', 'Acme']);
+        expect(cv.experience[0].groups[0].achievements.map(a => a.title)).toEqual(['Hiring', 'Launch']);
+        expect(cv.experience[1].groups[0].achievements).toHaveLength(3);
+        expect(cv.skills).toEqual([{ category: 'Backend', skills: ['React', 'Go'] }]);
+    });
+
+    it('should start new variants from the active records and drop unreadable saved ones', () => {
+        const variant = createVariant(source, 'Draft', new Date('2025-01-15T09:30:00.000Z'));
+
+        expect(variant.experiences.map(e => e.key)).toEqual(['acme|engineer', 'initech|engineer']);
+        expect(variant.technologies).toEqual(['Go', 'React', 'C++']);
+        expect(readVariants({ variants: [variant, { id: 'broken' }] })).toEqual([variant]);
+        expect(readVariants(undefined)).toEqual([]);
+    });
+
+    it('should keep variants in the admin worker, away from the public portfolio', async () => {
+        const api = new MockApiClient({ latency: 0 });
+        const variant = createVariant(source, 'Draft');
+
+        await api.put(`/v2/cv-variants/${variant.id}`, variant);
+        expect(readVariants(await api.get<{ variants: unknown[] }>('/v2/cv-variants'))).toEqual([variant]);
+        expect((await fetchPortfolioSnapshot(api)).sections.map(section => section.section_type)).toEqual(['home', 'achievements']);
+
+        await api.delete(`/v2/cv-variants/${variant.id}`);
+        expect(await api.get('/v2/cv-variants')).toEqual({ variants: [] });
+    });
+});
+
+describe('job description relevance', () => {
+    const posting = 'We build services in Go.\n• Experience with C++ is a plus; Google Cloud preferred';
+
+    it('should split the posting into short queries and match names as words', () => {
+        expect(jobDescriptionQueries(posting)).toEqual([
+            'We build services in Go.',
+            'Experience with C++ is a plus',
+            'Google Cloud preferred',
+        ]);
+        expect(mentions(posting, 'C++')).toBe(true);
+        expect(mentions('Google Cloud', 'Go')).toBe(false);
+    });
+
+    it('should rank named technologies first, then by similarity and proficiency', () => {
+        const technologies = [matchedTech('Rust', 70, 'rust'), matchedTech('React', 80, 'react'), tech('Go', 90), matchedTech('Vue', 95, 'vue')];
+
+        expect(rankByRelevance(technologies, 'Go microservices', { react: 0.4, rust: 0.7 })).toEqual([
+            { name: 'Go', score: 1 },
+            { name: 'Rust', score: 0.7 },
+            { name: 'React', score: 0.4 },
+            { name: 'Vue', score: 0 },
+        ]);
+    });
+});
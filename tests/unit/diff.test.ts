@@ -0,0 +1,83 @@
+/**
+ * Field-level Diff Unit Tests
+ *
+ * The diff viewer relies on these rows: one per changed leaf, with
+ * blank values treated alike so cleared form fields are not noise.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffFields, summarizeDiff } from '@utils/diff';
+
+describe('diffFields', () => {
+    it('should classify top-level fields', () => {
+        const diffs = diffFields(
+            { name: 'React', level: 'Expert', employer: 'Acme' },
+            { name: 'React', level: 'Advanced', summary: 'UI library' },
+        );
+
+        expect(diffs).toEqual([
+            { path: 'name', kind: 'unchanged', before: 'React', after: 'React' },
+            { path: 'level', kind: 'changed', before: 'Expert', after: 'Advanced' },
+            { path: 'employer', kind: 'removed', before: 'Acme', after: undefined },
+            { path: 'summary', kind: 'added', before: undefined, after: 'UI library' },
+        ]);
+    });
+
+    it('should treat undefined, null and empty strings as the same blank value', () => {
+        const diffs = diffFields({ location: '', degree: null }, { location: undefined, degree: '' });
+        expect(diffs.every(diff => diff.kind === 'unchanged')).toBe(true);
+    });
+
+    it('should walk nested arrays down to each achievement field', () => {
+        const before = {
+            categories: [{ title: 'Delivery', achievements: [{ title: 'Shipped', description: 'v1' }] }],
+        };
+        const after = {
+            categories: [{
+                title: 'Delivery',
+                achievements: [
+                    { title: 'Shipped', description: 'v2' },
+                    { title: 'Hired', description: 'Team of 5' },
+                ],
+            }],
+        };
+
+        const changed = diffFields(before, after).filter(diff => diff.kind !== 'unchanged');
+        expect(changed).toEqual([
+            { path: 'categories[0].achievements[0].description', kind: 'changed', before: 'v1', after: 'v2' },
+            { path: 'categories[0].achievements[1].title', kind: 'added', before: undefined, after: 'Hired' },
+            { path: 'categories[0].achievements[1].description', kind: 'added', before: undefined, after: 'Team of 5' },
+        ]);
+    });
+
+    it('should diff section json_content by key', () => {
+        const diffs = diffFields(
+            { json_content: { hero: { headline: 'Hi', tags: ['a'] } } },
+            { json_content: { hero: { headline: 'Hello', tags: ['a', 'b'] } } },
+        );
+        expect(diffs.filter(diff => diff.kind !== 'unchanged').map(diff => diff.path)).toEqual([
+            'json_content.hero.headline',
+            'json_content.hero.tags[1]',
+        ]);
+    });
+
+    it('should only compare the requested keys', () => {
+        const diffs = diffFields({ name: 'React', id: 7, created_at: '2024-01-01' }, { name: 'React' }, { keys: ['name'] });
+        expect(diffs.map(diff => diff.path)).toEqual(['name']);
+    });
+
+    it('should mark every field added for a new record and removed for a deletion', () => {
+        expect(summarizeDiff(diffFields(null, { name: 'Svelte', level: 'Beginner' }))).toEqual({
+            added: 2, removed: 0, changed: 0, unchanged: 0,
+        });
+        expect(summarizeDiff(diffFields({ name: 'Svelte' }, null))).toEqual({
+            added: 0, removed: 1, changed: 0, unchanged: 0,
+        });
+    });
+
+    it('should report a type change as a single changed leaf', () => {
+        expect(diffFields({ tags: 'a, b' }, { tags: ['a', 'b'] })).toEqual([
+            { path: 'tags', kind: 'changed', before: 'a, b', after: ['a', 'b'] },
+        ]);
+    });
+});
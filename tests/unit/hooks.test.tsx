@@ -0,0 +1,669 @@
+/**
+ * Data Hooks Unit Tests
+ *
+ * Every data hook must resolve its client from ApiProvider, so a stub
+ * injected there sees exactly the requests the hook makes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { ReactNode } from 'react';
+import type { IApiClient } from '@/types';
+import { ApiProvider } from '@services/ApiContext';
+import { useTechnologiesCount } from '@hooks/useTechnologies';
+import { useLegacyStagedChanges, useMigrateLegacyStaged } from '@hooks/useStagedChanges';
+import { useSimilarityCheck } from '@hooks/useSimilarityCheck';
+import { useD1CVTechnologies } from '@hooks/useD1CV';
+import { useAIAgentTechnology, useVectorizeReindex } from '@hooks/useAIAgent';
+import { useAICategories } from '@hooks/useAICategories';
+import { useChangeBaseline } from '@hooks/useChangeBaseline';
+import { useJobHistory, mergeLiveJobs } from '@hooks/useJobs';
+import { useExportAudit, type AuditEntry } from '@hooks/useAudit';
+import { buildVersions, restoreRequest, isDeleted, type HistoryEntry } from '@hooks/useEntityHistory';
+import { ApiError } from '@services/api';
+import type { DOJobStatus } from '@services/jobs';
+import {
+    useCommits,
+    useCommitDetails,
+    usePushToD1CV,
+    useRevertCommit,
+    useRetryCommit,
+    useSquashChanges,
+    useReviewCommit,
+    useStageChange,
+    useDeleteStagedChange,
+    useReplaceStagedChange,
+    useStageContentChange,
+    useStageAndCommit,
+    useUncommittedChanges,
+    technologyChange,
+    planStaging,
+    type StagedChange,
+} from '@hooks/useCommits';
+
+type StubClient = IApiClient & {
+    get: ReturnType<typeof vi.fn>;
+    post: ReturnType<typeof vi.fn>;
+    put: ReturnType<typeof vi.fn>;
+    delete: ReturnType<typeof vi.fn>;
+};
+
+/**
+ * Client whose every method resolves with the given response
+ */
+function createStubClient(response: unknown = {}): StubClient {
+    return {
+        get: vi.fn().mockResolvedValue(response),
+        post: vi.fn().mockResolvedValue(response),
+        put: vi.fn().mockResolvedValue(response),
+        delete: vi.fn().mockResolvedValue(response),
+    };
+}
+
+function renderWithClient<T>(hook: () => T, client: IApiClient) {
+    const queryClient = new QueryClient({
+        defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+    });
+    const wrapper = ({ children }: { children: ReactNode }) => (
+        <QueryClientProvider client={queryClient}>
+            <ApiProvider client={client}>{children}</ApiProvider>
+        </QueryClientProvider>
+    );
+    return renderHook(hook, { wrapper });
+}
+
+const requestOptions = expect.objectContaining({ signal: expect.any(AbortSignal) });
+
+describe('data hooks resolve the client from ApiProvider', () => {
+    let client: StubClient;
+
+    beforeEach(() => {
+        client = createStubClient();
+        localStorage.clear();
+    });
+
+    describe('technologies', () => {
+        it('useTechnologiesCount should GET /api/technologies/count', async () => {
+            client.get.mockResolvedValue({ total: 3, active: 2, byCategory: {} });
+            const { result } = renderWithClient(() => useTechnologiesCount(), client);
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(client.get).toHaveBeenCalledWith('/api/technologies/count', requestOptions);
+            expect(result.current.data?.total).toBe(3);
+        });
+
+        it('useSimilarityCheck should GET the encoded similarity endpoint', async () => {
+            client.get.mockResolvedValue({ query: 'Node JS', matches: [] });
+            const { result } = renderWithClient(() => useSimilarityCheck('Node JS'), client);
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(client.get).toHaveBeenCalledWith('/api/similarity/Node%20JS', requestOptions);
+        });
+
+        it('useSimilarityCheck should not share results between score thresholds', async () => {
+            client.get.mockResolvedValue({
+                query: 'Node JS',
+                matches: [{ stable_id: 'nodejs', name: 'Node.js', score: 0.9 }, { stable_id: 'deno', name: 'Deno', score: 0.6 }],
+            });
+            const { result } = renderWithClient(() => ({
+                form: useSimilarityCheck('Node JS'),
+                wizard: useSimilarityCheck('Node JS', { minScore: 0.8 }),
+            }), client);
+
+            await waitFor(() => expect(result.current.wizard.isSuccess && result.current.form.isSuccess).toBe(true));
+            expect(result.current.form.data?.map(m => m.name)).toEqual(['Node.js', 'Deno']);
+            expect(result.current.wizard.data?.map(m => m.name)).toEqual(['Node.js']);
+        });
+    });
+
+    describe('legacy staging migration', () => {
+        const legacyRows = {
+            d1cv: [
+                { id: 4, operation: 'INSERT', entity_type: 'technology', payload: { name: 'Svelte', category_id: 1 }, status: 'pending', created_at: '2024-01-01' },
+                { id: 5, operation: 'UPDATE', entity_type: 'technology', entity_id: 2, payload: { name: 'Vue' }, status: 'applied', created_at: '2024-01-01' },
+            ],
+            ai: [
+                { id: 9, operation: 'INSERT', entity_type: 'technology', stable_id: 'svelte-frontend', payload: { name: 'svelte', summary: 'Compiler UI' }, status: 'pending', created_at: '2024-01-01' },
+            ],
+        };
+
+        it('useLegacyStagedChanges should pair pending D1CV and AI rows by name', async () => {
+            client.get.mockResolvedValue(legacyRows);
+            const { result } = renderWithClient(() => useLegacyStagedChanges(), client);
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(client.get).toHaveBeenCalledWith('/api/staged', requestOptions);
+            expect(result.current.data).toHaveLength(1);
+            expect(result.current.data?.[0]).toMatchObject({ name: 'Svelte', d1cv: { id: 4 }, ai: { id: 9 } });
+        });
+
+        it('useMigrateLegacyStaged should stage a v2 change, then delete both legacy rows', async () => {
+            client.get.mockResolvedValue(legacyRows);
+            const { result } = renderWithClient(() => ({
+                legacy: useLegacyStagedChanges(),
+                migrate: useMigrateLegacyStaged(),
+            }), client);
+            await waitFor(() => expect(result.current.legacy.isSuccess).toBe(true));
+
+            const outcome = await act(() => result.current.migrate.mutateAsync(result.current.legacy.data!));
+
+            expect(client.post).toHaveBeenCalledWith('/v2/stage', {
+                entity_type: 'technology',
+                entity_id: undefined,
+                stable_id: 'svelte-frontend',
+                action: 'CREATE',
+                target: 'both',
+                payload: { name: 'svelte', category_id: 1, summary: 'Compiler UI' },
+            }, expect.objectContaining({ schema: expect.anything() }));
+            expect(client.delete).toHaveBeenCalledWith('/api/staged/d1cv/4');
+            expect(client.delete).toHaveBeenCalledWith('/api/staged/ai/9');
+            expect(outcome).toEqual({ migrated: 1, failed: [], leftover: [] });
+        });
+
+        it('useMigrateLegacyStaged should keep the legacy rows when staging fails', async () => {
+            client.get.mockResolvedValue(legacyRows);
+            client.post.mockRejectedValue(new Error('Server error'));
+            const { result } = renderWithClient(() => ({
+                legacy: useLegacyStagedChanges(),
+                migrate: useMigrateLegacyStaged(),
+            }), client);
+            await waitFor(() => expect(result.current.legacy.isSuccess).toBe(true));
+
+            const outcome = await act(() => result.current.migrate.mutateAsync(result.current.legacy.data!));
+
+            expect(client.delete).not.toHaveBeenCalled();
+            expect(outcome).toEqual({ migrated: 0, failed: [{ name: 'Svelte', error: 'Server error' }], leftover: [] });
+        });
+
+        it('useMigrateLegacyStaged should report a staged pair as leftover when legacy cleanup fails', async () => {
+            client.get.mockResolvedValue(legacyRows);
+            client.delete.mockRejectedValue(new Error('Delete failed'));
+            const { result } = renderWithClient(() => ({
+                legacy: useLegacyStagedChanges(),
+                migrate: useMigrateLegacyStaged(),
+            }), client);
+            await waitFor(() => expect(result.current.legacy.isSuccess).toBe(true));
+
+            const outcome = await act(() => result.current.migrate.mutateAsync(result.current.legacy.data!));
+
+            expect(client.post).toHaveBeenCalledTimes(1);
+            expect(outcome).toEqual({ migrated: 1, failed: [], leftover: [{ name: 'Svelte', error: 'Delete failed' }] });
+        });
+    });
+
+    describe('D1CV', () => {
+        it('useD1CVTechnologies should GET /api/d1cv/technologies', async () => {
+            client.get.mockResolvedValue([{ id: 1, name: 'React' }]);
+            const { result } = renderWithClient(() => useD1CVTechnologies(), client);
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(client.get).toHaveBeenCalledWith('/api/d1cv/technologies', requestOptions);
+            expect(result.current.data?.[0].name).toBe('React');
+        });
+
+        it('useD1CVTechnologies should keep the ApiError of a schema mismatch', async () => {
+            const mismatch = new ApiError('Unexpected response', 200, 'SCHEMA_MISMATCH', 1, 'technologies[0].name');
+            client.get.mockRejectedValue(mismatch);
+            const { result } = renderWithClient(() => useD1CVTechnologies(), client);
+
+            await waitFor(() => expect(result.current.isError).toBe(true));
+            expect(result.current.error).toBe(mismatch);
+        });
+
+        it('useStageContentChange should stage an experience edit instead of writing to D1CV', async () => {
+            client.get.mockResolvedValue({ changes: [] });
+            const { result } = renderWithClient(() => useStageContentChange(), client);
+            const data = { company: 'Acme', role: 'Engineer', period: '2020 - 2024' };
+
+            await act(() => result.current.mutateAsync({ entityType: 'experience', action: 'UPDATE', entityId: 3, payload: data }));
+            expect(client.put).not.toHaveBeenCalled();
+            expect(client.post).toHaveBeenCalledWith('/v2/stage', {
+                entity_type: 'experience',
+                entity_id: '3',
+                action: 'UPDATE',
+                target: 'd1cv',
+                payload: data,
+            }, expect.anything());
+        });
+
+        it('useStageContentChange should replace the record\'s pending edit', async () => {
+            client.get.mockResolvedValue({
+                changes: [
+                    { id: 'chg_1', entity_type: 'contact', entity_id: null, stable_id: null, action: 'UPDATE', target: 'd1cv', payload: '{"name":"Old"}', commit_id: null, created_at: '2024-01-01' },
+                ],
+            });
+            const { result } = renderWithClient(() => ({
+                staged: useUncommittedChanges(),
+                stage: useStageContentChange(),
+            }), client);
+            await waitFor(() => expect(result.current.staged.isSuccess).toBe(true));
+
+            await act(() => result.current.stage.mutateAsync({ entityType: 'contact', action: 'UPDATE', payload: { name: 'New' } }));
+            expect(client.post).toHaveBeenCalledWith('/v2/stage', expect.objectContaining({ entity_type: 'contact' }), expect.anything());
+            expect(client.delete).toHaveBeenCalledWith('/v2/staged/chg_1');
+        });
+    });
+
+    describe('change baselines', () => {
+        it('useChangeBaseline should map the production experience into the staged shape', async () => {
+            client.get.mockResolvedValue({
+                experiences: [{
+                    id: 3,
+                    company: 'Acme',
+                    location: 'Remote',
+                    period: '2020 - Present',
+                    role: 'Engineer',
+                    reporting: 'CTO',
+                    description: '',
+                    technologies: 'React',
+                    categories: [{ title: 'Delivery', achievements: [{ title: 'Shipped', description: 'v2' }] }],
+                }],
+            });
+            const subject = { entity_type: 'experience' as const, entity_id: '3', action: 'UPDATE' as const, target: 'd1cv' as const, payload: {} };
+            const { result } = renderWithClient(() => useChangeBaseline(subject), client);
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(client.get).toHaveBeenCalledWith('/api/d1cv/experience', requestOptions);
+            expect(result.current.data).toMatchObject({
+                company: 'Acme',
+                is_current: true,
+                reporting_to: 'CTO',
+                categories: [{ title: 'Delivery', display_order: 0, achievements: [{ title: 'Shipped', description: 'v2', display_order: 0 }] }],
+            });
+        });
+
+        it('useChangeBaseline should resolve to null when the technology is not in production', async () => {
+            client.get.mockRejectedValue(new ApiError('Not found', 404, 'NOT_FOUND'));
+            const subject = { entity_type: 'technology' as const, action: 'DELETE' as const, target: 'd1cv' as const, payload: { name: 'Svelte' } };
+            const { result } = renderWithClient(() => useChangeBaseline(subject), client);
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(client.get).toHaveBeenCalledWith('/api/d1cv/technologies/Svelte', requestOptions);
+            expect(result.current.data).toBeNull();
+        });
+
+        it('useChangeBaseline should find a renamed technology by its entity id', async () => {
+            client.get.mockResolvedValue({
+                technologies: [{ id: 7, name: 'Vue', category_id: 1, experience: '', experience_years: 2, proficiency_percent: 60, level: 'Intermediate', is_active: true, hasAiMatch: false, aiMatch: null }],
+                stats: { total: 1, withAiMatch: 0, withoutAiMatch: 1 },
+            });
+            const subject = { entity_type: 'technology' as const, entity_id: '7', action: 'UPDATE' as const, target: 'd1cv' as const, payload: { name: 'Vue.js' } };
+            const { result } = renderWithClient(() => useChangeBaseline(subject), client);
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(client.get).toHaveBeenCalledWith('/api/d1cv/technologies/with-ai-match', requestOptions);
+            expect(result.current.data).toMatchObject({ name: 'Vue', proficiency_percent: 60 });
+        });
+
+        it('useChangeBaseline should compare a pushed change with its pre-image', async () => {
+            client.get.mockResolvedValue({ name: 'Jane Doe', email: 'new@example.com', location: 'Berlin' });
+            const subject = {
+                entity_type: 'contact' as const,
+                action: 'UPDATE' as const,
+                target: 'd1cv' as const,
+                payload: { email: 'new@example.com' },
+                pre_image: JSON.stringify({ email: 'old@example.com' }),
+            };
+            const { result } = renderWithClient(() => useChangeBaseline(subject), client);
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(result.current.data).toMatchObject({ email: 'old@example.com', location: 'Berlin' });
+        });
+
+        it('useChangeBaseline should not fetch anything for new records', () => {
+            const subject = { entity_type: 'education' as const, action: 'CREATE' as const, target: 'd1cv' as const, payload: { institution: 'MIT' } };
+            renderWithClient(() => useChangeBaseline(subject), client);
+
+            expect(client.get).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('AI Agent', () => {
+        it('useAIAgentTechnology should GET by stable id', async () => {
+            const { result } = renderWithClient(() => useAIAgentTechnology('react-frontend'), client);
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(client.get).toHaveBeenCalledWith('/api/ai-agent/technologies/react-frontend', requestOptions);
+        });
+
+        it('useVectorizeReindex should POST the reindex endpoint with a long timeout', async () => {
+            const { result } = renderWithClient(() => useVectorizeReindex(), client);
+
+            await act(() => result.current.mutateAsync());
+            expect(client.post).toHaveBeenCalledWith(
+                '/api/ai-agent/vectorize/reindex',
+                {},
+                expect.objectContaining({ timeout: expect.any(Number) })
+            );
+        });
+
+        it('useAICategories should GET /api/ai-agent/categories when nothing is cached', async () => {
+            client.get.mockResolvedValue({ categories: ['Frontend'], count: 1 });
+            const { result } = renderWithClient(() => useAICategories(), client);
+
+            await waitFor(() => expect(result.current.data).toEqual(['Frontend']));
+            expect(client.get).toHaveBeenCalledWith('/api/ai-agent/categories', requestOptions);
+        });
+    });
+
+    describe('commits (v2)', () => {
+        it('useCommits should pass the status filter as a query param', async () => {
+            client.get.mockResolvedValue([]);
+            const { result } = renderWithClient(() => useCommits('pending'), client);
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(client.get).toHaveBeenCalledWith('/v2/commits', expect.objectContaining({ params: { status: 'pending' } }));
+        });
+
+        it('useCommitDetails should not fetch without a commit id', () => {
+            renderWithClient(() => useCommitDetails(null), client);
+            expect(client.get).not.toHaveBeenCalled();
+        });
+
+        it('useStageChange should POST a technology edit to /v2/stage', async () => {
+            const { result } = renderWithClient(() => useStageChange(), client);
+
+            await act(() => result.current.mutateAsync(technologyChange({
+                action: 'UPDATE',
+                entityId: 3,
+                d1cvPayload: { name: 'React' },
+                aiPayload: { summary: 'UI library' },
+            })));
+            expect(client.post).toHaveBeenCalledWith('/v2/stage', expect.objectContaining({
+                entity_type: 'technology',
+                entity_id: '3',
+                action: 'UPDATE',
+                target: 'both',
+                payload: { name: 'React', summary: 'UI library' },
+            }), expect.anything());
+        });
+
+        it('useDeleteStagedChange should DELETE the uncommitted change', async () => {
+            const { result } = renderWithClient(() => useDeleteStagedChange(), client);
+
+            await act(() => result.current.mutateAsync('chg_7'));
+            expect(client.delete).toHaveBeenCalledWith('/v2/staged/chg_7');
+        });
+
+        it('useReplaceStagedChange should stage the edit before dropping the old change', async () => {
+            const calls: string[] = [];
+            client.post.mockImplementation(async () => { calls.push('post'); return {}; });
+            client.delete.mockImplementation(async () => { calls.push('delete'); return {}; });
+            const { result } = renderWithClient(() => useReplaceStagedChange(), client);
+
+            await act(() => result.current.mutateAsync({
+                id: 'chg_1',
+                change: technologyChange({ action: 'CREATE', d1cvPayload: { name: 'Svelte' } }),
+            }));
+            expect(calls).toEqual(['post', 'delete']);
+            expect(client.delete).toHaveBeenCalledWith('/v2/staged/chg_1');
+        });
+
+        it('usePushToD1CV should POST the commit id', async () => {
+            const { result } = renderWithClient(() => usePushToD1CV(), client);
+
+            await act(() => result.current.mutateAsync({ commit_id: 'cmt_1' }));
+            expect(client.post).toHaveBeenCalledWith('/v2/push/d1cv', { commit_id: 'cmt_1' }, expect.anything());
+        });
+
+        it('usePushToD1CV should refetch the production data once pushed', async () => {
+            client.get.mockResolvedValue([{ id: 1, name: 'React' }]);
+            const { result } = renderWithClient(() => ({
+                technologies: useD1CVTechnologies(),
+                push: usePushToD1CV(),
+            }), client);
+            await waitFor(() => expect(result.current.technologies.isSuccess).toBe(true));
+
+            await act(() => result.current.push.mutateAsync({ commit_id: 'cmt_1' }));
+
+            await waitFor(() => expect(client.get).toHaveBeenCalledTimes(2));
+            expect(client.get).toHaveBeenLastCalledWith('/api/d1cv/technologies', requestOptions);
+        });
+
+        it('planStaging should flag repeated updates as squashable and mixed actions as conflicts', () => {
+            const change = (id: string, action: StagedChange['action'], payload: object, created_at: string): StagedChange => ({
+                id, entity_type: 'technology', entity_id: null, stable_id: null, action, target: 'd1cv',
+                payload: JSON.stringify(payload), commit_id: null, created_at,
+            });
+            const plan = planStaging([
+                change('chg_2', 'UPDATE', { name: 'React', level: 'Expert' }, '2024-01-02'),
+                change('chg_1', 'UPDATE', { name: 'react', experience_years: 8 }, '2024-01-01'),
+                change('chg_3', 'CREATE', { name: 'Svelte' }, '2024-01-03'),
+                change('chg_4', 'DELETE', { name: 'Svelte' }, '2024-01-04'),
+                change('chg_5', 'UPDATE', { name: 'Go' }, '2024-01-05'),
+            ]);
+
+            expect(plan.squashable.map(group => group.map(c => c.id))).toEqual([['chg_1', 'chg_2']]);
+            expect(plan.conflicts.map(group => group.map(c => c.id))).toEqual([['chg_3', 'chg_4']]);
+        });
+
+        it('useSquashChanges should stage the merged update before dropping the originals', async () => {
+            const calls: string[] = [];
+            client.post.mockImplementation(async (url: string, body: unknown) => { calls.push(`post ${JSON.stringify(body)}`); return {}; });
+            client.delete.mockImplementation(async (url: string) => { calls.push(`delete ${url}`); return {}; });
+            const { result } = renderWithClient(() => useSquashChanges(), client);
+            const base = { entity_type: 'contact', entity_id: null, stable_id: null, action: 'UPDATE', commit_id: null } as const;
+
+            await act(() => result.current.mutateAsync([
+                { ...base, id: 'chg_2', target: 'd1cv', payload: '{"email":"b@example.com"}', created_at: '2024-01-02' },
+                { ...base, id: 'chg_1', target: 'd1cv', payload: '{"name":"Jane","email":"a@example.com"}', created_at: '2024-01-01' },
+            ]));
+            expect(calls).toEqual([
+                `post ${JSON.stringify({ entity_type: 'contact', action: 'UPDATE', target: 'd1cv', payload: { name: 'Jane', email: 'b@example.com' } })}`,
+                'delete /v2/staged/chg_2',
+                'delete /v2/staged/chg_1',
+            ]);
+        });
+
+        it('useRetryCommit should push only the failed side and changes', async () => {
+            const { result } = renderWithClient(() => useRetryCommit(), client);
+
+            await act(() => result.current.mutateAsync({ commit_id: 'cmt_1', target: 'ai-agent', change_ids: ['chg_3'] }));
+            expect(client.post).toHaveBeenCalledWith('/v2/push/ai', { commit_id: 'cmt_1', change_ids: ['chg_3'] }, expect.anything());
+        });
+
+        it('useReviewCommit should POST the decision to the commit review endpoint', async () => {
+            const { result } = renderWithClient(() => useReviewCommit(), client);
+
+            await act(() => result.current.mutateAsync({ commit_id: 'cmt_2', decision: 'reject', comment: 'Wrong dates' }));
+            expect(client.post).toHaveBeenCalledWith('/v2/commits/cmt_2/review', { decision: 'reject', comment: 'Wrong dates' }, expect.anything());
+        });
+
+        it('useRevertCommit should POST to the commit revert endpoint', async () => {
+            const { result } = renderWithClient(() => useRevertCommit(), client);
+
+            await act(() => result.current.mutateAsync('cmt_1'));
+            expect(client.post).toHaveBeenCalledWith('/v2/commits/cmt_1/revert', {}, expect.anything());
+        });
+    });
+
+    describe('push jobs', () => {
+        const job = (jobId: string, startedAt: string, overrides: Partial<DOJobStatus> = {}): DOJobStatus => ({
+            jobId,
+            commitId: 'cmt_1',
+            target: 'd1cv',
+            overallStatus: 'in-progress',
+            d1cvStatus: 'in-progress',
+            aiAgentStatus: 'skipped',
+            startedAt,
+            updatedAt: startedAt,
+            ...overrides,
+        });
+
+        it('useJobHistory should pass filters and paging as query params', async () => {
+            client.get.mockResolvedValue({ jobs: [], total: 0, page: 2, limit: 10 });
+            const { result } = renderWithClient(() => useJobHistory({ status: 'failed', page: 2, limit: 10 }), client);
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(client.get).toHaveBeenCalledWith('/v2/jobs', expect.objectContaining({
+                params: { status: 'failed', page: 2, limit: 10 },
+            }));
+        });
+
+        it('mergeLiveJobs should update listed rows and add new live jobs to the first page', () => {
+            const listed = job('job_1', '2025-01-15T09:00:00.000Z');
+            const live = new Map([
+                ['job_1', { ...listed, overallStatus: 'completed' as const, updatedAt: '2025-01-15T09:00:05.000Z' }],
+                ['job_2', job('job_2', '2025-01-15T10:00:00.000Z')],
+            ]);
+
+            expect(mergeLiveJobs([listed], live, { page: 1, limit: 20 }).map(j => [j.jobId, j.overallStatus])).toEqual([
+                ['job_2', 'in-progress'],
+                ['job_1', 'completed'],
+            ]);
+            // A row that finished no longer belongs under "running", and later pages gain nothing
+            expect(mergeLiveJobs([listed], live, { status: 'running', page: 2, limit: 20 })).toEqual([]);
+        });
+    });
+
+    describe('version history', () => {
+        const entry = (id: string, action: StagedChange['action'], payload: object | null, preImage?: object): HistoryEntry => ({
+            change: {
+                id, entity_type: 'experience', entity_id: '1', stable_id: null, action, target: 'd1cv',
+                payload: payload && JSON.stringify(payload), commit_id: `cmt_${id}`, created_at: '2025-01-15T09:30:00.000Z',
+                pre_image: preImage && JSON.stringify(preImage),
+            },
+            commit: {
+                id: `cmt_${id}`, message: id, status: 'applied_all', target: 'd1cv', error_message: null, error_target: null,
+                created_by: null, created_at: '2025-01-15T09:30:00.000Z', applied_at: '2025-01-15T09:30:00.000Z', applied_by: null,
+            },
+        });
+
+        it('buildVersions should replay applied changes, preferring recorded pre-images', () => {
+            const versions = buildVersions([
+                entry('a', 'CREATE', { company: 'Acme', role: 'Dev' }),
+                entry('b', 'UPDATE', { role: 'Lead' }),
+                // Edited outside the workflow in between, which the pre-image captured
+                entry('c', 'UPDATE', { location: 'Remote' }, { company: 'Acme Corp', role: 'Lead' }),
+                entry('d', 'DELETE', null, { company: 'Acme Corp', role: 'Lead', location: 'Remote' }),
+            ]);
+
+            expect(versions.map(v => [v.number, v.state])).toEqual([
+                [4, null],
+                [3, { company: 'Acme Corp', role: 'Lead', location: 'Remote' }],
+                [2, { company: 'Acme', role: 'Lead' }],
+                [1, { company: 'Acme', role: 'Dev' }],
+            ]);
+            expect(versions[1].previous).toEqual({ company: 'Acme Corp', role: 'Lead' });
+            expect(versions[3].previous).toBeNull();
+        });
+
+        it('buildVersions should fall back to the replayed state when a pre-image is malformed', () => {
+            const broken = entry('b', 'UPDATE', { role: 'Lead' });
+            broken.change.pre_image = '{not json';
+            const versions = buildVersions([entry('a', 'CREATE', { company: 'Acme', role: 'Dev' }), broken]);
+
+            expect(versions[0].previous).toEqual({ company: 'Acme', role: 'Dev' });
+            expect(versions[0].state).toEqual({ company: 'Acme', role: 'Lead' });
+        });
+
+        it('restoreRequest should stage an UPDATE back to the version', () => {
+            const [version] = buildVersions([entry('a', 'CREATE', { name: 'React', summary: 'UI library' })]);
+
+            expect(restoreRequest({ entityType: 'technology', entityId: 4, stableId: 'react-frontend' }, version)).toEqual({
+                entity_type: 'technology',
+                entity_id: '4',
+                stable_id: 'react-frontend',
+                action: 'UPDATE',
+                target: 'both',
+                payload: { name: 'React', summary: 'UI library' },
+            });
+            expect(restoreRequest({ entityType: 'experience', entityId: '1' }, version)).toMatchObject({ entity_id: '1', target: 'd1cv' });
+        });
+
+        it('should offer the record before its first pushed change as v0 and re-create deleted records', () => {
+            const versions = buildVersions([
+                entry('a', 'UPDATE', { role: 'Lead' }, { company: 'Acme', role: 'Dev' }),
+                entry('b', 'DELETE', null, { company: 'Acme', role: 'Lead' }),
+            ]);
+            const original = versions[versions.length - 1];
+
+            expect(versions.map(v => v.number)).toEqual([2, 1, 0]);
+            expect(original).toMatchObject({ change: null, commit: null, state: { company: 'Acme', role: 'Dev' } });
+            expect(versions[1].previous).toEqual({ company: 'Acme', role: 'Dev' });
+            expect(isDeleted(versions)).toBe(true);
+            expect(restoreRequest({ entityType: 'experience', entityId: '1' }, original, isDeleted(versions))).toEqual({
+                entity_type: 'experience',
+                entity_id: undefined,
+                action: 'CREATE',
+                target: 'd1cv',
+                payload: { company: 'Acme', role: 'Dev' },
+            });
+        });
+    });
+
+    describe('technology import', () => {
+        const change = (name: string) => ({ entity_type: 'technology', action: 'CREATE', target: 'd1cv', payload: { name } }) as const;
+
+        it('useStageAndCommit should commit exactly the staged rows', async () => {
+            client.post.mockImplementation(async (url: string, body: { payload?: { name: string } }) =>
+                url === '/v2/stage' ? { id: `chg_${body.payload!.name}` } : { id: 'cmt_9' });
+            const { result } = renderWithClient(() => useStageAndCommit(), client);
+
+            await act(() => result.current.mutateAsync({ changes: [change('Go'), change('Rust')], message: 'Import 2 technologies' }));
+            expect(client.post).toHaveBeenLastCalledWith('/v2/commit', {
+                message: 'Import 2 technologies',
+                change_ids: ['chg_Go', 'chg_Rust'],
+            }, expect.anything());
+        });
+
+        it('useStageAndCommit should drop the rows it staged when a later one fails', async () => {
+            client.post
+                .mockResolvedValueOnce({ id: 'chg_1' })
+                .mockRejectedValueOnce(new ApiError('Invalid payload', 400));
+            const { result } = renderWithClient(() => useStageAndCommit(), client);
+
+            act(() => result.current.mutate({ changes: [change('Go'), change('Rust')], message: 'Import' }));
+
+            await waitFor(() => expect(result.current.isError).toBe(true));
+            expect(result.current.error?.message).toBe('Could not stage Rust: Invalid payload');
+            expect(client.delete).toHaveBeenCalledWith('/v2/staged/chg_1');
+            expect(client.post).not.toHaveBeenCalledWith('/v2/commit', expect.anything(), expect.anything());
+        });
+    });
+
+    describe('audit log', () => {
+        const entry = (id: string, overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+            id,
+            actor: 'admin@example.com',
+            action: 'experience.update',
+            entity_type: 'experience',
+            entity_id: '1',
+            before: null,
+            after: null,
+            created_at: '2025-01-15T09:30:00.000Z',
+            ...overrides,
+        });
+        const facets = { actors: [], actions: [], entity_types: [] };
+
+        it('useExportAudit should page through every match and neutralise formulas in the CSV', async () => {
+            client.get
+                .mockResolvedValueOnce({ entries: [entry('aud_1', { after: '{"company":"Acme, Inc"}' })], total: 2, page: 1, limit: 100, facets })
+                .mockResolvedValueOnce({ entries: [entry('aud_2', { actor: '=HYPERLINK("x")' })], total: 2, page: 2, limit: 100, facets });
+            const { result } = renderWithClient(() => useExportAudit(), client);
+
+            const csv = await act(() => result.current.mutateAsync({ actor: 'admin@example.com' }));
+
+            expect(client.get).toHaveBeenNthCalledWith(2, '/v2/audit', expect.objectContaining({
+                params: { actor: 'admin@example.com', page: 2, limit: 100 },
+            }));
+            expect(csv.split('\r\n')).toEqual([
+                'created_at,actor,action,entity_type,entity_id,before,after',
+                '2025-01-15T09:30:00.000Z,admin@example.com,experience.update,experience,1,,"{""company"":""Acme, Inc""}"',
+                '2025-01-15T09:30:00.000Z,"\'=HYPERLINK(""x"")",experience.update,experience,1,,',
+            ]);
+        });
+    });
+
+    it('should fail loudly when rendered outside ApiProvider', () => {
+        const queryClient = new QueryClient();
+        const wrapper = ({ children }: { children: ReactNode }) => (
+            <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+        );
+        const spy = vi.spyOn(console, 'error').mockImplementation(() => { });
+
+        expect(() => renderHook(() => useTechnologiesCount(), { wrapper })).toThrow(/ApiProvider/);
+        spy.mockRestore();
+    });
+});
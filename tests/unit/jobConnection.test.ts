@@ -0,0 +1,197 @@
+/**
+ * Job Connection Unit Tests
+ *
+ * The shared job feed must back off with jitter when the socket drops,
+ * replay what it missed once it is back, keep job status flowing over
+ * REST while WebSockets are blocked, and report each finished job once.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    JobConnection,
+    reconnectDelay,
+    watchJobOutcomes,
+    jobOutcomeMessage,
+    type DOJobStatus,
+    type JobSocket,
+} from '@services/jobs';
+
+interface FakeSocket extends JobSocket {
+    sent: Array<Record<string, unknown>>;
+}
+
+/**
+ * Records every socket the connection opens; tests drive them by hand
+ */
+function createSockets() {
+    const sockets: FakeSocket[] = [];
+    return {
+        sockets,
+        factory: (): JobSocket => {
+            const socket: FakeSocket = {
+                sent: [],
+                send(data: string) {
+                    socket.sent.push(JSON.parse(data));
+                },
+                close: vi.fn(),
+                onopen: null,
+                onmessage: null,
+                onclose: null,
+                onerror: null,
+            };
+            sockets.push(socket);
+            return socket;
+        },
+    };
+}
+
+function job(overrides: Partial<DOJobStatus> = {}): DOJobStatus {
+    return {
+        jobId: 'job_1',
+        commitId: 'commit_1',
+        target: 'd1cv',
+        overallStatus: 'in-progress',
+        d1cvStatus: 'in-progress',
+        aiAgentStatus: 'skipped',
+        startedAt: '2025-01-15T09:30:00.000Z',
+        updatedAt: '2025-01-15T09:30:01.000Z',
+        ...overrides,
+    };
+}
+
+function statusEvent(seq: number, status: DOJobStatus) {
+    return { data: JSON.stringify({ type: 'status', seq, jobId: status.jobId, data: status, timestamp: status.updatedAt }) };
+}
+
+describe('reconnectDelay', () => {
+    it('should double per attempt with jitter in the upper half, up to a cap', () => {
+        expect(reconnectDelay(0, () => 0)).toBe(500);
+        expect(reconnectDelay(0, () => 1)).toBe(1000);
+        expect(reconnectDelay(3, () => 0)).toBe(4000);
+        expect(reconnectDelay(3, () => 1)).toBe(8000);
+        expect(reconnectDelay(20, () => 1)).toBe(30000);
+    });
+});
+
+describe('JobConnection', () => {
+    let poll: ReturnType<typeof vi.fn>;
+    let fake: ReturnType<typeof createSockets>;
+    let connection: JobConnection;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        poll = vi.fn().mockResolvedValue(job({ overallStatus: 'completed', updatedAt: '2025-01-15T09:31:00.000Z' }));
+        fake = createSockets();
+        connection = new JobConnection({ url: 'wss://example.test/v2/ws', poll, createSocket: fake.factory, random: () => 0 });
+    });
+
+    afterEach(() => {
+        connection.disconnect();
+        vi.useRealTimers();
+    });
+
+    it('should reconnect with backoff and replay events after the last seen sequence', () => {
+        connection.connect();
+        connection.watch('job_1');
+        fake.sockets[0].onopen?.();
+        fake.sockets[0].onmessage?.(statusEvent(7, job()));
+
+        fake.sockets[0].onclose?.();
+        expect(connection.getSnapshot().status).toBe('reconnecting');
+        vi.advanceTimersByTime(499);
+        expect(fake.sockets).toHaveLength(1);
+        vi.advanceTimersByTime(1);
+        expect(fake.sockets).toHaveLength(2);
+
+        fake.sockets[1].onopen?.();
+        expect(fake.sockets[1].sent).toContainEqual({ type: 'subscribe', jobId: 'job_1', since: 7 });
+        expect(connection.getSnapshot().status).toBe('connected');
+    });
+
+    it('should ignore replayed events it has already seen', () => {
+        connection.connect();
+        connection.watch('job_1');
+        fake.sockets[0].onopen?.();
+        fake.sockets[0].onmessage?.(statusEvent(2, job({ overallStatus: 'completed' })));
+        fake.sockets[0].onmessage?.(statusEvent(1, job({ overallStatus: 'failed' })));
+
+        expect(connection.getSnapshot().jobs.get('job_1')?.overallStatus).toBe('completed');
+    });
+
+    it('should accept events again when a restarted server numbers them from 1', () => {
+        connection.connect();
+        connection.watch('job_1');
+        fake.sockets[0].onopen?.();
+        fake.sockets[0].onmessage?.(statusEvent(7, job()));
+        fake.sockets[0].onclose?.();
+        vi.advanceTimersByTime(500);
+
+        fake.sockets[1].onopen?.();
+        fake.sockets[1].onmessage?.({ data: JSON.stringify({ type: 'connected', seq: 0, timestamp: '2025-01-15T09:31:00.000Z' }) });
+        fake.sockets[1].onmessage?.(statusEvent(1, job({ overallStatus: 'completed', updatedAt: '2025-01-15T09:31:01.000Z' })));
+
+        expect(connection.getSnapshot().jobs.get('job_1')?.overallStatus).toBe('completed');
+    });
+
+    it('should drop status events whose job data does not match the schema', () => {
+        connection.connect();
+        connection.watch('job_1');
+        fake.sockets[0].onopen?.();
+        fake.sockets[0].onmessage?.({ data: JSON.stringify({ type: 'status', seq: 1, data: { jobId: 'job_1' }, timestamp: '2025-01-15T09:30:00.000Z' }) });
+
+        expect(connection.getSnapshot().jobs.has('job_1')).toBe(false);
+    });
+
+    it('should poll subscribed jobs over REST after repeated connect failures', async () => {
+        connection.connect();
+        connection.watch('job_1');
+        fake.sockets[0].onclose?.();
+        vi.advanceTimersByTime(500);
+        fake.sockets[1].onclose?.();
+        vi.advanceTimersByTime(1000);
+        expect(poll).not.toHaveBeenCalled();
+
+        fake.sockets[2].onclose?.();
+        expect(connection.getSnapshot().status).toBe('polling');
+        expect(poll).toHaveBeenCalledWith('job_1', expect.any(AbortSignal));
+        await vi.waitFor(() => expect(connection.getSnapshot().jobs.get('job_1')?.overallStatus).toBe('completed'));
+
+        // The socket keeps retrying in the background and takes over again
+        vi.advanceTimersByTime(2000);
+        fake.sockets[3].onopen?.();
+        expect(connection.getSnapshot().status).toBe('connected');
+    });
+
+    it('should go straight to polling when no socket endpoint is available', () => {
+        const polled = new JobConnection({ url: null, poll, createSocket: fake.factory });
+        polled.watch('job_1');
+        polled.connect();
+
+        expect(polled.getSnapshot().status).toBe('polling');
+        expect(fake.sockets).toHaveLength(0);
+        expect(poll).toHaveBeenCalledTimes(1);
+        polled.disconnect();
+    });
+
+    it('should report each job once when it finishes', () => {
+        const onFinished = vi.fn();
+        watchJobOutcomes(connection, onFinished);
+        connection.connect();
+        connection.watch('job_1');
+        fake.sockets[0].onopen?.();
+
+        fake.sockets[0].onmessage?.(statusEvent(1, job()));
+        expect(onFinished).not.toHaveBeenCalled();
+
+        const failed = job({ overallStatus: 'failed', d1cvStatus: 'failed', d1cvResult: { success: false, error: 'D1 timeout' }, updatedAt: '2025-01-15T09:30:05.000Z' });
+        fake.sockets[0].onmessage?.(statusEvent(2, failed));
+        connection.requestActiveJobs();
+        fake.sockets[0].onmessage?.({ data: JSON.stringify({ type: 'active-jobs', seq: 3, data: [], timestamp: failed.updatedAt }) });
+
+        expect(onFinished).toHaveBeenCalledTimes(1);
+        expect(jobOutcomeMessage(onFinished.mock.calls[0][0])).toEqual({
+            title: 'Push to D1CV failed',
+            body: 'Commit commit_1: D1 timeout',
+        });
+    });
+});
@@ -0,0 +1,44 @@
+/**
+ * Three-way Merge Unit Tests
+ *
+ * A change staged before production was edited is merged field by field:
+ * one-sided edits merge on their own, competing edits need a pick.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { threeWayMerge, resolveMerge } from '@utils/merge';
+
+const base = { name: 'React', experience_years: 7, level: 'Advanced', summary: '' };
+
+describe('threeWayMerge', () => {
+    it('should classify each field the change writes', () => {
+        const fields = threeWayMerge(
+            base,
+            { name: 'React', experience_years: 8, level: 'Expert', summary: 'UI library' },
+            { ...base, experience_years: 9, level: 'Expert', employer: 'Acme' },
+        );
+
+        expect(fields.map(field => [field.field, field.status])).toEqual([
+            ['name', 'unchanged'],
+            ['experience_years', 'conflict'],
+            ['level', 'same'],
+            ['summary', 'mine'],
+        ]);
+    });
+
+    it('should keep production edits to fields the change left alone', () => {
+        const fields = threeWayMerge(base, { name: 'React', level: 'Advanced' }, { ...base, level: 'Expert' });
+        expect(fields.find(field => field.field === 'level')?.status).toBe('theirs');
+        expect(resolveMerge(fields, {})).toEqual({ name: 'React', level: 'Expert' });
+    });
+});
+
+describe('resolveMerge', () => {
+    it('should wait for every conflict to be picked', () => {
+        const fields = threeWayMerge(base, { experience_years: 8 }, { ...base, experience_years: 9 });
+
+        expect(resolveMerge(fields, {})).toBeNull();
+        expect(resolveMerge(fields, { experience_years: 'theirs' })).toEqual({ experience_years: 9 });
+        expect(resolveMerge(fields, { experience_years: 'mine' })).toEqual({ experience_years: 8 });
+    });
+});
@@ -0,0 +1,419 @@
+/**
+ * Mock API Client Unit Tests
+ *
+ * The mock backend must honour the same contracts as the real one:
+ * responses pass the production schemas, mutations change later reads,
+ * and failures surface as ApiError.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MockApiClient, createMockSeed } from '@services/mock';
+import { ApiError } from '@services/api';
+import {
+    d1cvTechnologiesPayloadSchema,
+    technologiesWithAIMatchResponseSchema,
+    unifiedTechnologyResponseSchema,
+    stagedChangesResponseSchema,
+    stagedChangesCountSchema,
+    stageResponseSchema,
+    applyResponseSchema,
+    experienceResponseSchema,
+    educationResponseSchema,
+    contactInfoSchema,
+    contentSectionSchema,
+    aiAgentTechnologiesPayloadSchema,
+    vectorizeStatusSchema,
+} from '@services/schemas';
+import { s } from '@utils/schema';
+import type { PushResponse } from '@hooks/useCommits';
+
+async function rejectionOf(promise: Promise<unknown>): Promise<ApiError> {
+    try {
+        await promise;
+    } catch (error) {
+        if (error instanceof ApiError) {
+            return error;
+        }
+        throw error;
+    }
+    throw new Error('Expected the request to fail');
+}
+
+describe('MockApiClient', () => {
+    let client: MockApiClient;
+
+    beforeEach(() => {
+        client = new MockApiClient({ latency: 0 });
+    });
+
+    describe('read endpoints', () => {
+        it('should serve responses that satisfy the production schemas', async () => {
+            await expect(client.get('/api/d1cv/technologies', { schema: d1cvTechnologiesPayloadSchema })).resolves.toBeDefined();
+            await expect(client.get('/api/d1cv/technologies/with-ai-match', { schema: technologiesWithAIMatchResponseSchema })).resolves.toBeDefined();
+            await expect(client.get('/api/technology/unified/React', { schema: unifiedTechnologyResponseSchema })).resolves.toBeDefined();
+            await expect(client.get('/api/staged', { schema: stagedChangesResponseSchema })).resolves.toBeDefined();
+            await expect(client.get('/api/staged/count', { schema: stagedChangesCountSchema })).resolves.toBeDefined();
+            await expect(client.get('/api/d1cv/experience', { schema: experienceResponseSchema })).resolves.toBeDefined();
+            await expect(client.get('/api/d1cv/education', { schema: educationResponseSchema })).resolves.toBeDefined();
+            await expect(client.get('/api/d1cv/contact', { schema: contactInfoSchema })).resolves.toBeDefined();
+            await expect(client.get('/api/d1cv/sections/home', { schema: contentSectionSchema })).resolves.toBeDefined();
+            await expect(client.get('/api/ai-agent/technologies', { schema: aiAgentTechnologiesPayloadSchema })).resolves.toBeDefined();
+            await expect(client.get('/api/ai-agent/vectorize/status', { schema: vectorizeStatusSchema })).resolves.toBeDefined();
+        });
+
+        it('should decode path params and match names case-insensitively', async () => {
+            const tech = await client.get<{ name: string }>(`/api/d1cv/technologies/${encodeURIComponent('cloudflare workers')}`);
+            expect(tech.name).toBe('Cloudflare Workers');
+        });
+
+        it('should apply query params', async () => {
+            const commits = await client.get<Array<{ status: string }>>('/v2/commits', { params: { status: 'pending' } });
+            expect(commits.length).toBeGreaterThan(0);
+            expect(commits.every(c => c.status === 'pending')).toBe(true);
+        });
+
+        it('should return copies rather than live state', async () => {
+            const contact = await client.get<{ name: string }>('/api/d1cv/contact');
+            contact.name = 'Changed';
+            expect(client.state.contact.name).not.toBe('Changed');
+        });
+    });
+
+    describe('mutations', () => {
+        it('should stage a technology and apply it to D1CV', async () => {
+            const staged = await client.post('/stage', {
+                operation: 'INSERT',
+                entity_type: 'technology',
+                d1cv_payload: { name: 'Elixir', category_id: 2, experience_years: 1, proficiency_percent: 40, level: 'Beginner' },
+            }, { schema: stageResponseSchema });
+            expect(staged.success).toBe(true);
+
+            const result = await client.post('/api/apply/d1cv', {}, { schema: applyResponseSchema });
+            expect(result.failed).toBe(0);
+
+            const tech = await client.get<{ name: string; category: string }>('/api/d1cv/technologies/Elixir');
+            expect(tech.category).toBe('Backend');
+        });
+
+        it('should commit staged v2 changes and advance status on each push', async () => {
+            await client.post('/v2/stage', {
+                entity_type: 'technology',
+                stable_id: 'react-frontend',
+                action: 'UPDATE',
+                target: 'both',
+                payload: { name: 'React', summary: 'Updated summary' },
+            });
+
+            const commit = await client.post<{ id: string; status: string }>('/v2/commit', { message: 'Refresh React' });
+            expect(commit.status).toBe('pending');
+
+            const push = await client.post<{ job_id: string }>('/v2/push/d1cv', { commit_id: commit.id });
+            expect(push.job_id).toMatch(/^job_/);
+            expect((await client.get<{ status: string }>(`/v2/commits/${commit.id}`)).status).toBe('applied_d1cv');
+            expect(await client.get(`/v2/jobs/${push.job_id}`)).toMatchObject({
+                commitId: commit.id,
+                overallStatus: 'completed',
+                d1cvStatus: 'success',
+                aiAgentStatus: 'skipped',
+            });
+
+            await client.post('/v2/push/ai', { commit_id: commit.id });
+            expect((await client.get<{ status: string }>(`/v2/commits/${commit.id}`)).status).toBe('applied_all');
+            expect(client.state.aiTechnologies.find(t => t.stable_id === 'react-frontend')?.summary).toBe('Updated summary');
+        });
+
+        it('should list push jobs newest first with filters and paging', async () => {
+            await client.post('/v2/push/d1cv', { commit_id: 'cmt_2' });
+
+            const all = await client.get<{ jobs: Array<{ jobId: string; commitId: string }>; total: number }>('/v2/jobs', { params: { limit: 2 } });
+            expect(all.total).toBe(3);
+            expect(all.jobs.map(j => j.commitId)).toEqual(['cmt_2', 'cmt_1']);
+
+            const failed = await client.get<{ jobs: Array<{ jobId: string }>; total: number }>('/v2/jobs', {
+                params: { status: 'failed', to: '2025-01-15T09:25:00.000Z' },
+            });
+            expect(failed.jobs.map(j => j.jobId)).toEqual(['job_1']);
+
+            const second = await client.get<{ jobs: unknown[]; page: number }>('/v2/jobs', { params: { page: 2, limit: 2 } });
+            expect(second).toMatchObject({ page: 2, jobs: [expect.objectContaining({ jobId: 'job_1' })] });
+        });
+
+        it('should audit direct writes with the record before and after', async () => {
+            await client.put('/api/d1cv/experience/1', { company: 'Acme Labs' });
+            await client.post('/api/d1cv/cache/purge', {});
+
+            type AuditPage = { entries: Array<{ action: string; entity_id: string | null; before: string | null; after: string | null }>; total: number; facets: { actions: string[] } };
+            const update = await client.get<AuditPage>('/v2/audit', { params: { action: 'experience' } });
+            expect(update.total).toBe(1);
+            expect(update.entries[0]).toMatchObject({ action: 'experience.update', entity_id: '1' });
+            expect(JSON.parse(update.entries[0].before!).company).toBe('Acme Corp');
+            expect(JSON.parse(update.entries[0].after!).company).toBe('Acme Labs');
+
+            const all = await client.get<AuditPage>('/v2/audit', { params: { limit: 2 } });
+            expect(all.entries.map(e => e.action)).toEqual(['d1cv.cache.purge', 'experience.update']);
+            expect(all.facets.actions).toContain('commit.push.d1cv');
+
+            const search = await client.get<AuditPage>('/v2/audit', { params: { q: 'acme labs' } });
+            expect(search.entries.map(e => e.action)).toEqual(['experience.update']);
+        });
+
+        it('should list the pushed versions of a record in push order', async () => {
+            for (const role of ['Staff Engineer', 'Principal Engineer']) {
+                await client.post('/v2/stage', { entity_type: 'experience', entity_id: '1', action: 'UPDATE', target: 'd1cv', payload: { role } });
+                const commit = await client.post<{ id: string }>('/v2/commit', { message: role });
+                await client.post('/v2/push/d1cv', { commit_id: commit.id });
+            }
+            await client.post('/v2/stage', { entity_type: 'experience', entity_id: '1', action: 'UPDATE', target: 'd1cv', payload: { role: 'CTO' } });
+
+            const { entries } = await client.get<{ entries: Array<{ change: { payload: string; pre_image: string }; commit: { message: string } }> }>(
+                '/v2/history', { params: { entity_type: 'experience', entity_id: '1' } });
+            expect(entries.map(e => e.commit.message)).toEqual(['Staff Engineer', 'Principal Engineer']);
+            expect(JSON.parse(entries[1].change.pre_image).role).toBe('Staff Engineer');
+
+            // Technologies pushed before per-side statuses existed still count
+            const technology = await client.get<{ entries: unknown[] }>('/v2/history', { params: { entity_type: 'technology', entity_id: '4' } });
+            expect(technology.entries).toHaveLength(1);
+        });
+
+        it('should leave content in place until a staged edit is pushed', async () => {
+            await client.post('/v2/stage', {
+                entity_type: 'contact',
+                action: 'UPDATE',
+                target: 'd1cv',
+                payload: { name: 'Jane Doe', email: 'jane@example.com' },
+            });
+            await client.post('/v2/stage', {
+                entity_type: 'section',
+                entity_id: 'home',
+                action: 'UPDATE',
+                target: 'd1cv',
+                payload: { json_content: { headline: 'Hello' } },
+            });
+            expect((await client.get<{ name: string }>('/api/d1cv/contact')).name).not.toBe('Jane Doe');
+
+            const commit = await client.post<{ id: string }>('/v2/commit', { message: 'Contact and home' });
+            await client.post('/v2/push/d1cv', { commit_id: commit.id });
+
+            expect((await client.get<{ name: string }>('/api/d1cv/contact')).name).toBe('Jane Doe');
+            const home = await client.get('/api/d1cv/sections/home', { schema: contentSectionSchema });
+            expect(home.json_content).toEqual({ headline: 'Hello' });
+            expect((await client.get<{ status: string }>(`/v2/commits/${commit.id}`)).status).toBe('applied_all');
+        });
+
+        it('should only accept updates for single-record content', async () => {
+            const error = await rejectionOf(client.post('/v2/stage', {
+                entity_type: 'profile',
+                action: 'DELETE',
+                target: 'd1cv',
+            }));
+            expect(error.status).toBe(400);
+        });
+
+        it('should revert a pushed commit from its pre-images', async () => {
+            const created = await client.post<{ id: string }>('/v2/stage', {
+                entity_type: 'technology',
+                action: 'CREATE',
+                target: 'd1cv',
+                payload: { name: 'Svelte', category_id: 1, experience_years: 1 },
+            });
+            const updated = await client.post<{ id: string }>('/v2/stage', {
+                entity_type: 'contact',
+                action: 'UPDATE',
+                target: 'd1cv',
+                payload: { name: 'Jane Doe' },
+            });
+            const originalName = client.state.contact.name;
+            const commit = await client.post<{ id: string }>('/v2/commit', {
+                message: 'Svelte and contact',
+                change_ids: [created.id, updated.id],
+            });
+            await client.post('/v2/push/d1cv', { commit_id: commit.id });
+            expect(client.state.technologies.some(t => t.name === 'Svelte')).toBe(true);
+
+            const revert = await client.post<{ id: string; message: string; reverts: string }>(`/v2/commits/${commit.id}/revert`, {});
+            expect(revert.message).toBe('Revert "Svelte and contact"');
+            expect(revert.reverts).toBe(commit.id);
+            expect((await client.get<{ reverted_by: string }>(`/v2/commits/${commit.id}`)).reverted_by).toBe(revert.id);
+
+            const { changes } = await client.get<{ changes: Array<{ action: string; entity_type: string }> }>(`/v2/commits/${revert.id}`);
+            expect(changes.map(c => `${c.action} ${c.entity_type}`)).toEqual(['UPDATE contact', 'DELETE technology']);
+
+            await client.post('/v2/push/d1cv', { commit_id: revert.id });
+            expect(client.state.technologies.some(t => t.name === 'Svelte')).toBe(false);
+            expect(client.state.contact.name).toBe(originalName);
+
+            const again = await rejectionOf(client.post(`/v2/commits/${commit.id}/revert`, {}));
+            expect(again.status).toBe(409);
+        });
+
+        it('should push changes independently and retry only the failed ones', async () => {
+            const contact = await client.post<{ id: string }>('/v2/stage', {
+                entity_type: 'contact',
+                action: 'UPDATE',
+                target: 'd1cv',
+                payload: { name: 'Jane Doe' },
+            });
+            const missing = await client.post<{ id: string }>('/v2/stage', {
+                entity_type: 'experience',
+                entity_id: '999',
+                action: 'UPDATE',
+                target: 'd1cv',
+                payload: { company: 'Acme' },
+            });
+            const commit = await client.post<{ id: string }>('/v2/commit', {
+                message: 'Contact and Acme',
+                change_ids: [contact.id, missing.id],
+            });
+
+            const first = await client.post<PushResponse>('/v2/push/d1cv', { commit_id: commit.id });
+            expect(first.success).toBe(false);
+            expect(first.result?.changes?.map(c => c.status)).toEqual(['applied', 'failed']);
+            expect(client.state.contact.name).toBe('Jane Doe');
+            const failed = await client.get<{ status: string; error_target: string }>(`/v2/commits/${commit.id}`);
+            expect(failed).toMatchObject({ status: 'failed', error_target: 'd1cv' });
+
+            client.state.experiences.push({ ...client.state.experiences[0], id: 999 });
+            const retry = await client.post<PushResponse>('/v2/push/d1cv', { commit_id: commit.id, change_ids: [missing.id] });
+            expect(retry.success).toBe(true);
+            expect(retry.result?.changes).toEqual([{ change_id: missing.id, status: 'applied', error: null }]);
+            expect((await client.get<{ status: string }>(`/v2/commits/${commit.id}`)).status).toBe('applied_all');
+        });
+
+        it('should hold back a change whose record was edited in production after staging', async () => {
+            const staged = await client.post<{ id: string }>('/v2/stage', {
+                entity_type: 'technology',
+                entity_id: '1',
+                action: 'UPDATE',
+                target: 'd1cv',
+                payload: { name: 'React', experience_years: 9 },
+            });
+            const commit = await client.post<{ id: string }>('/v2/commit', { message: 'React years', change_ids: [staged.id] });
+            const react = client.state.technologies.find(t => t.id === 1)!;
+            react.experience_years = 8;
+            react.level = 'Advanced';
+
+            const { conflicts } = await client.get<{ conflicts: Array<{ change_id: string; fields: string[] }> }>(`/v2/commits/${commit.id}/conflicts`);
+            expect(conflicts).toEqual([expect.objectContaining({ change_id: staged.id, fields: ['experience_years'] })]);
+
+            const blocked = await client.post<PushResponse>('/v2/push/d1cv', { commit_id: commit.id });
+            expect(blocked.result?.changes?.[0].status).toBe('conflict');
+            expect(react.experience_years).toBe(8);
+
+            await client.post(`/v2/staged/${staged.id}/resolve`, { payload: { name: 'React', experience_years: 10 } });
+            expect((await client.get<{ conflicts: unknown[] }>(`/v2/commits/${commit.id}/conflicts`)).conflicts).toEqual([]);
+            const pushed = await client.post<PushResponse>('/v2/push/d1cv', { commit_id: commit.id });
+            expect(pushed.success).toBe(true);
+            expect(client.state.technologies.find(t => t.id === 1)).toMatchObject({ experience_years: 10, level: 'Advanced' });
+        });
+
+        it('should hold pushes until a requested review is approved', async () => {
+            const commit = await client.post<{ id: string; review_status: string }>('/v2/commit', {
+                message: 'Reviewed',
+                require_review: true,
+            });
+            expect(commit.review_status).toBe('pending');
+            expect((await rejectionOf(client.post('/v2/push/d1cv', { commit_id: commit.id }))).status).toBe(409);
+
+            const approved = await client.post<{ review_status: string; approved_by: string }>(`/v2/commits/${commit.id}/review`, { decision: 'approve' });
+            expect(approved.review_status).toBe('approved');
+            expect(approved.approved_by).toBeTruthy();
+            await client.post('/v2/push/d1cv', { commit_id: commit.id });
+            expect((await client.get<{ status: string }>(`/v2/commits/${commit.id}`)).status).not.toBe('pending');
+        });
+
+        describe('scheduled pushes', () => {
+            afterEach(() => {
+                vi.useRealTimers();
+            });
+
+            it('should push a commit once its schedule has passed', async () => {
+                vi.useFakeTimers({ toFake: ['Date'] });
+                vi.setSystemTime(new Date('2030-01-01T09:00:00Z'));
+                const staged = await client.post<{ id: string }>('/v2/stage', {
+                    entity_type: 'contact',
+                    action: 'UPDATE',
+                    target: 'd1cv',
+                    payload: { name: 'Jane Doe' },
+                });
+                const commit = await client.post<{ id: string }>('/v2/commit', {
+                    message: 'Before the application',
+                    change_ids: [staged.id],
+                    scheduled_at: '2030-01-01T12:00:00Z',
+                });
+
+                await client.get('/v2/commits');
+                expect(client.state.contact.name).not.toBe('Jane Doe');
+
+                vi.setSystemTime(new Date('2030-01-01T12:00:01Z'));
+                const commits = await client.get<Array<{ id: string; status: string }>>('/v2/commits');
+                expect(commits.find(c => c.id === commit.id)?.status).toBe('applied_all');
+                expect(client.state.contact.name).toBe('Jane Doe');
+            });
+
+            it('should reject schedules in the past', async () => {
+                const error = await rejectionOf(client.post('/v2/commits/cmt_2/schedule', { scheduled_at: '2000-01-01T00:00:00Z' }));
+                expect(error.status).toBe(400);
+            });
+        });
+
+        it('should only revert fully applied commits', async () => {
+            const error = await rejectionOf(client.post('/v2/commits/cmt_2/revert', {}));
+            expect(error.status).toBe(409);
+        });
+
+        it('should reject an empty commit', async () => {
+            await client.post('/v2/commit', { message: 'Everything' });
+            const error = await rejectionOf(client.post('/v2/commit', { message: 'Again' }));
+            expect(error.status).toBe(400);
+        });
+    });
+
+    describe('errors', () => {
+        it('should 404 unknown routes and 405 wrong methods', async () => {
+            expect((await rejectionOf(client.get('/api/nope'))).status).toBe(404);
+            expect((await rejectionOf(client.delete('/api/d1cv/contact'))).status).toBe(405);
+        });
+
+        it('should fail the next matching request once', async () => {
+            client.failNext('/v2/stats', { status: 502, message: 'Bad gateway' });
+
+            const error = await rejectionOf(client.get('/v2/stats'));
+            expect(error.status).toBe(502);
+            expect(error.message).toBe('Bad gateway');
+            await expect(client.get('/v2/stats')).resolves.toBeDefined();
+        });
+
+        it('should inject random failures at the configured rate', async () => {
+            const flaky = new MockApiClient({ latency: 0, errorRate: 0.5, random: () => 0.25 });
+            const error = await rejectionOf(flaky.get('/api/d1cv/contact'));
+            expect(error.status).toBe(503);
+        });
+
+        it('should surface schema drift as SCHEMA_MISMATCH', async () => {
+            const error = await rejectionOf(client.get('/api/d1cv/contact', { schema: s.object({ name: s.number() }) }));
+            expect(error.code).toBe('SCHEMA_MISMATCH');
+            expect(error.field).toBe('name');
+        });
+
+        it('should reject with ABORTED when the caller cancels during latency', async () => {
+            const slow = new MockApiClient({ latency: 10_000 });
+            const controller = new AbortController();
+            const pending = slow.get('/api/d1cv/contact', { signal: controller.signal });
+            controller.abort();
+
+            const error = await rejectionOf(pending);
+            expect(error.code).toBe('ABORTED');
+        });
+    });
+
+    describe('seeding', () => {
+        it('should accept custom fixtures and reset to the defaults', async () => {
+            const seeded = new MockApiClient({ latency: 0, seed: createMockSeed({ technologies: [] }) });
+            const { stats } = await seeded.get('/api/d1cv/technologies/with-ai-match', { schema: technologiesWithAIMatchResponseSchema });
+            expect(stats.total).toBe(0);
+
+            seeded.reset();
+            expect(seeded.state.technologies.length).toBeGreaterThan(0);
+        });
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * Portfolio Preview Unit Tests
+ *
+ * Replaying unpushed changes over production must give the portfolio the
+ * backend serves once they are pushed, and only changes still on their way
+ * to D1CV may take part.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MockApiClient, createMockSeed } from '@services/mock';
+import { fetchPortfolioSnapshot, type PortfolioSnapshot } from '@hooks/useCVBundle';
+import { overlayChanges, unpushedChanges, previewKey } from '@hooks/usePortfolioPreview';
+import {
+    technologyChange,
+    contentChange,
+    type CommitWithChanges,
+    type StagedChange,
+    type StageChangeRequest,
+} from '@hooks/useCommits';
+
+function published(portfolio: PortfolioSnapshot) {
+    return {
+        technologies: portfolio.technologies
+            .map(t => `${t.name}|${t.category}|${t.proficiency_percent}`)
+            .sort(),
+        experiences: portfolio.experiences.map(e => `${e.company}|${e.role}|${e.period}`).sort(),
+        contact: portfolio.contact,
+        sections: Object.fromEntries(portfolio.sections.map(s => [s.section_type, s.json_content])),
+    };
+}
+
+function change(overrides: Partial<StagedChange>): StagedChange {
+    return {
+        id: 'chg', entity_type: 'technology', entity_id: null, stable_id: null, action: 'UPDATE',
+        target: 'd1cv', payload: null, commit_id: 'cmt', created_at: '2025-01-15T09:30:00.000Z',
+        ...overrides,
+    };
+}
+
+describe('overlayChanges', () => {
+    it('should preview what the backend serves once the commit is pushed', async () => {
+        const api = new MockApiClient({ latency: 0, seed: createMockSeed({ changes: [], commits: [] }) });
+        const before = await fetchPortfolioSnapshot(api);
+        const [kept, dropped] = before.technologies;
+        const [experience] = before.experiences;
+
+        const requests: StageChangeRequest[] = [
+            technologyChange({
+                action: 'UPDATE',
+                entityId: kept.id,
+                d1cvPayload: { name: kept.name, category_id: before.categories[1].id, proficiency_percent: 99 },
+            }),
+            technologyChange({
+                action: 'CREATE',
+                d1cvPayload: {
+                    name: 'Zig', category_id: before.categories[0].id, experience: '', experience_years: 1,
+                    proficiency_percent: 20, level: 'Beginner', is_active: true,
+                },
+            }),
+            technologyChange({ action: 'DELETE', entityId: dropped.id, d1cvPayload: {} }),
+            contentChange({ entityType: 'experience', action: 'UPDATE', entityId: experience.id, payload: { role: 'Principal Engineer' } }),
+            contentChange({
+                entityType: 'experience',
+                action: 'CREATE',
+                payload: { company: 'Initech', role: 'Engineer', period: '2012 - 2014', categories: [] },
+            }),
+            contentChange({ entityType: 'contact', action: 'UPDATE', payload: { ...before.contact, email: 'new@example.com' } }),
+            contentChange({ entityType: 'section', action: 'UPDATE', entityId: 'home', payload: { json_content: { headline: 'Hello' } } }),
+        ];
+        const ids: string[] = [];
+        for (const request of requests) {
+            ids.push((await api.post<{ id: string }>('/v2/stage', request)).id);
+        }
+        const commit = await api.post<{ id: string }>('/v2/commit', { message: 'Preview me', change_ids: ids });
+        const details = await api.get<CommitWithChanges>(`/v2/commits/${commit.id}`);
+
+        const preview = overlayChanges(before, unpushedChanges(details));
+        await api.post('/v2/push/d1cv', { commit_id: commit.id });
+
+        expect(published(preview.portfolio)).toEqual(published(await fetchPortfolioSnapshot(api)));
+        expect(preview.removed).toEqual([dropped.name]);
+        expect(preview.marks).toMatchObject({
+            [previewKey('technology', kept.name)]: 'UPDATE',
+            [previewKey('technology', 'Zig')]: 'CREATE',
+            [previewKey('experience', experience.id)]: 'UPDATE',
+            [previewKey('contact')]: 'UPDATE',
+            [previewKey('section', 'home')]: 'UPDATE',
+        });
+    });
+
+    it('should skip changes that will not reach the site and keep new records marked new', async () => {
+        const before = await fetchPortfolioSnapshot(new MockApiClient({ latency: 0 }));
+        const commit: CommitWithChanges = {
+            id: 'cmt', message: 'Mixed', status: 'failed', target: 'both', error_message: null, error_target: null,
+            created_by: null, created_at: '2025-01-15T09:30:00.000Z', applied_at: null, applied_by: null,
+            changes: [
+                change({ action: 'CREATE', payload: JSON.stringify({ name: 'Zig', proficiency_percent: 20 }) }),
+                change({ payload: JSON.stringify({ name: 'Zig', proficiency_percent: 40 }) }),
+                change({ action: 'CREATE', target: 'ai-agent', payload: JSON.stringify({ name: 'AI only' }) }),
+                change({ action: 'CREATE', d1cv_status: 'applied', payload: JSON.stringify({ name: 'Already pushed' }) }),
+            ],
+        };
+
+        const preview = overlayChanges(before, unpushedChanges(commit));
+        const added = preview.portfolio.technologies.filter(t => !before.technologies.includes(t));
+
+        expect(added.map(t => [t.name, t.proficiency_percent])).toEqual([['Zig', 40]]);
+        expect(added[0].id).toBeLessThan(0);
+        expect(preview.marks).toEqual({ [previewKey('technology', 'Zig')]: 'CREATE' });
+        expect(before.technologies.some(t => t.name === 'Zig')).toBe(false);
+    });
+});
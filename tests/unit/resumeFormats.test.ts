@@ -0,0 +1,166 @@
+/**
+ * Résumé Format Unit Tests
+ *
+ * Periods must survive the trip between the portfolio's display text and
+ * machine dates, JSON Resume and LinkedIn exports must map every record,
+ * and a JSON Resume exported from an environment must import back into it
+ * without staging anything.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MockApiClient } from '@services/mock';
+import {
+    parsePeriod,
+    formatPeriod,
+    parseIsoDate,
+    toJsonResume,
+    parseJsonResume,
+    linkedInFiles,
+    type CVSource,
+    type JsonResume,
+} from '@services/cv';
+import { readImportFile, planBundleImport, fetchPortfolioSnapshot } from '@hooks/useCVBundle';
+
+const source: CVSource = {
+    contact: {
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        location: 'Berlin, Germany',
+        github_url: 'https://github.com/jane',
+    },
+    profile: { title: 'Engineer', summary: 'Builds things', keyAchievements: [] },
+    experiences: [
+        {
+            id: 1, company: 'Acme', location: 'Remote', period: 'Mar 2020 - Present', role: 'Lead', description: 'Led the team',
+            categories: [{ title: 'Delivery', achievements: [{ title: 'Launch', description: 'Shipped v2' }] }],
+            technologies: 'Go', display_order: 1,
+        },
+    ],
+    education: [
+        {
+            id: 1, institution: 'TU Berlin', degree: 'MSc', location: '', start_year: '2010', end_year: '2012',
+            description: '', focusAreas: ['Databases'], display_order: 0,
+        },
+    ],
+    technologies: [
+        {
+            id: 1, name: 'Go', experience: '', experience_years: 5, proficiency_percent: 90,
+            level: 'Expert', category: 'Backend', is_active: true,
+        },
+        {
+            id: 2, name: 'Perl', experience: '', experience_years: 2, proficiency_percent: 40,
+            level: 'Beginner', category: 'Backend', is_active: false,
+        },
+    ],
+};
+
+describe('periods', () => {
+    it('should read the period styles the portfolio uses and write them back', () => {
+        expect(parsePeriod('Mar 2020 - Present')).toEqual({ start: { year: 2020, month: 3 }, end: 'present' });
+        expect(parsePeriod('2017–2021')).toEqual({ start: { year: 2017 }, end: { year: 2021 } });
+        expect(parsePeriod('01/2019 to 06/2020')).toEqual({ start: { year: 2019, month: 1 }, end: { year: 2020, month: 6 } });
+        expect(parsePeriod('Summer 2019')).toEqual({ start: undefined });
+
+        expect(formatPeriod(parseIsoDate('2020-03-15'), undefined)).toBe('Mar 2020 - Present');
+        expect(formatPeriod(parseIsoDate('2017'), parseIsoDate('2021'))).toBe('2017 - 2021');
+    });
+});
+
+describe('résumé exports', () => {
+    it('should map the portfolio onto JSON Resume', () => {
+        const resume = toJsonResume(source, '2025-01-15T09:30:00.000Z');
+
+        expect(resume.basics).toEqual({
+            name: 'Jane Doe',
+            label: 'Engineer',
+            email: 'jane@example.com',
+            summary: 'Builds things',
+            location: { city: 'Berlin', region: 'Germany' },
+            profiles: [{ network: 'GitHub', username: 'jane', url: 'https://github.com/jane' }],
+        });
+        expect(resume.work).toEqual([{
+            name: 'Acme',
+            position: 'Lead',
+            location: 'Remote',
+            startDate: '2020-03',
+            summary: 'Led the team',
+            highlights: ['Launch: Shipped v2'],
+        }]);
+        expect(resume.education).toEqual([
+            { institution: 'TU Berlin', studyType: 'MSc', startDate: '2010', endDate: '2012', courses: ['Databases'] },
+        ]);
+        expect(resume.skills).toEqual([{ name: 'Backend', keywords: ['Go'] }]);
+        expect(() => parseJsonResume({ work: [{ name: 7 }] })).toThrow('Not a valid JSON Resume');
+    });
+
+    it('should write the LinkedIn export files with its columns and dates', () => {
+        const files = new Map(linkedInFiles(source).map(file => [file.name, String(file.content)]));
+
+        expect([...files.keys()]).toEqual(['Profile.csv', 'Positions.csv', 'Education.csv', 'Skills.csv']);
+        expect(files.get('Profile.csv')).toMatch(/^\uFEFFFirst Name,Last Name,Headline/);
+        expect(files.get('Profile.csv')).toContain('Jane,Doe,Engineer');
+        expect(files.get('Positions.csv')).toContain('Acme,Lead,"Led the team\n• Launch: Shipped v2",Remote,Mar 2020,');
+        expect(files.get('Skills.csv')).toBe('\uFEFFName\r\nGo');
+    });
+});
+
+describe('JSON Resume import', () => {
+    it('should find nothing to change when importing an export of the same environment', async () => {
+        const api = new MockApiClient({ latency: 0 });
+        const snapshot = await fetchPortfolioSnapshot(api);
+        const imported = readImportFile(JSON.stringify(toJsonResume(snapshot)), snapshot);
+
+        expect(imported.source).toBe('json-resume');
+        expect(imported.warnings).toEqual([]);
+        expect(planBundleImport(imported.bundle, snapshot).changes).toEqual([]);
+    });
+
+    it('should keep existing achievements when a work entry has no highlights', async () => {
+        const api = new MockApiClient({ latency: 0 });
+        const snapshot = await fetchPortfolioSnapshot(api);
+        const resume = toJsonResume(snapshot);
+        const withoutHighlights = { ...resume, work: resume.work?.map(work => ({ ...work, highlights: undefined })) };
+        const emptyHighlights = { ...resume, work: resume.work?.map(work => ({ ...work, highlights: [] })) };
+
+        expect(snapshot.experiences.some(e => e.categories.length > 0)).toBe(true);
+        for (const file of [withoutHighlights, emptyHighlights]) {
+            const imported = readImportFile(JSON.stringify(file), snapshot);
+            expect(planBundleImport(imported.bundle, snapshot).changes).toEqual([]);
+        }
+    });
+
+    it('should stage new work, education and skills from another résumé', async () => {
+        const api = new MockApiClient({ latency: 0 });
+        const snapshot = await fetchPortfolioSnapshot(api);
+        const existing = snapshot.technologies[0];
+        const resume: JsonResume = {
+            work: [
+                { name: 'Initech', position: 'Engineer', startDate: '2015-06', endDate: '2018-01', highlights: ['Migrated: the TPS reports'] },
+                { position: 'Unnamed' },
+            ],
+            education: [{ institution: 'Open University', studyType: 'BSc', endDate: '2014' }],
+            skills: [
+                { name: existing.category, level: 'advanced', keywords: [existing.name, 'Zig'] },
+                { name: 'Cooking' },
+            ],
+        };
+        const imported = readImportFile(JSON.stringify(resume), snapshot);
+        const plan = planBundleImport(imported.bundle, snapshot);
+
+        expect(imported.warnings).toEqual([
+            '1 work entry has no company or position and was skipped',
+            'Skills without keywords have no category, so Cooking was skipped',
+        ]);
+        expect(plan.changes.map(c => [c.entityType, c.action, c.label])).toEqual([
+            ['technology', 'CREATE', 'Zig'],
+            ['experience', 'CREATE', 'Engineer at Initech'],
+            ['education', 'CREATE', 'Open University'],
+        ]);
+        expect(plan.changes[0].request.payload).toMatchObject({ name: 'Zig', level: 'Advanced', proficiency_percent: 50 });
+        expect(plan.changes[1].request.payload).toMatchObject({
+            period: 'Jun 2015 - Jan 2018',
+            is_current: false,
+            categories: [{ title: 'Highlights', achievements: [{ title: 'Migrated', description: 'the TPS reports' }] }],
+        });
+    });
+});
@@ -0,0 +1,120 @@
+/**
+ * Schema Utilities Unit Tests
+ *
+ * Tests for the runtime validators used at the API boundary.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { s, parseWithSchema, SchemaMismatchError } from '@utils/schema';
+import { experienceResponseSchema, d1cvTechnologiesPayloadSchema } from '@services/schemas';
+
+function mismatchOf(fn: () => unknown): SchemaMismatchError {
+    try {
+        fn();
+    } catch (error) {
+        if (error instanceof SchemaMismatchError) {
+            return error;
+        }
+        throw error;
+    }
+    throw new Error('Expected a SchemaMismatchError');
+}
+
+describe('primitive schemas', () => {
+    it('should accept matching values', () => {
+        expect(parseWithSchema(s.string(), 'abc')).toBe('abc');
+        expect(parseWithSchema(s.number(), 42)).toBe(42);
+        expect(parseWithSchema(s.boolean(), false)).toBe(false);
+    });
+
+    it('should reject mismatched values with expected and received types', () => {
+        const error = mismatchOf(() => parseWithSchema(s.string(), 12));
+        expect(error.expected).toBe('string');
+        expect(error.received).toBe('number');
+    });
+
+    it('should reject NaN as a number', () => {
+        expect(() => parseWithSchema(s.number(), NaN)).toThrow(SchemaMismatchError);
+    });
+
+    it('should coerce SQLite integer flags to booleans', () => {
+        expect(parseWithSchema(s.flag(), 1)).toBe(true);
+        expect(parseWithSchema(s.flag(), 0)).toBe(false);
+        expect(parseWithSchema(s.flag(), true)).toBe(true);
+        expect(() => parseWithSchema(s.flag(), 2)).toThrow(SchemaMismatchError);
+    });
+
+    it('should restrict oneOf to the listed values', () => {
+        const recency = s.oneOf('current', 'recent', 'legacy');
+        expect(parseWithSchema(recency, 'recent')).toBe('recent');
+        expect(() => parseWithSchema(recency, 'ancient')).toThrow(SchemaMismatchError);
+    });
+});
+
+describe('object schemas', () => {
+    const techSchema = s.object({
+        name: s.string(),
+        level: s.optional(s.string()),
+        stable_id: s.nullable(s.string()),
+    });
+
+    it('should pass unknown keys through', () => {
+        const result = parseWithSchema(techSchema, { name: 'Go', stable_id: null, extra: 1 });
+        expect(result).toEqual({ name: 'Go', stable_id: null, extra: 1 });
+    });
+
+    it('should drop optional keys that are null', () => {
+        const result = parseWithSchema(techSchema, { name: 'Go', level: null, stable_id: 'x' });
+        expect(result).not.toHaveProperty('level');
+    });
+
+    it('should reject missing required keys', () => {
+        const error = mismatchOf(() => parseWithSchema(techSchema, { stable_id: null }));
+        expect(error.field).toBe('name');
+        expect(error.received).toBe('undefined');
+    });
+
+    it('should not treat undefined as nullable', () => {
+        const error = mismatchOf(() => parseWithSchema(techSchema, { name: 'Go' }));
+        expect(error.field).toBe('stable_id');
+    });
+});
+
+describe('nested paths', () => {
+    it('should name the offending field inside arrays and objects', () => {
+        const payload = {
+            experiences: [
+                { company: 'A', location: 'L', period: 'P', role: 'R', description: 'D', technologies: '', categories: [] },
+                {
+                    company: 'B', location: 'L', period: 'P', role: 'R', description: 'D', technologies: '',
+                    categories: [{ title: 'Impact', achievements: [{ title: 'T' }] }],
+                },
+            ],
+        };
+
+        const error = mismatchOf(() => parseWithSchema(experienceResponseSchema, payload));
+        expect(error.field).toBe('experiences[1].categories[0].achievements[0].description');
+    });
+});
+
+describe('union schemas', () => {
+    it('should accept any matching alternative', () => {
+        expect(parseWithSchema(d1cvTechnologiesPayloadSchema, [{ name: 'Go' }])).toEqual([{ name: 'Go' }]);
+        expect(parseWithSchema(d1cvTechnologiesPayloadSchema, {
+            technologyCategories: [{ name: 'Backend', technologies: [{ name: 'Go' }] }],
+        })).toHaveProperty('technologyCategories');
+    });
+
+    it('should report the deepest mismatch when nothing matches', () => {
+        const error = mismatchOf(() => parseWithSchema(d1cvTechnologiesPayloadSchema, {
+            technologyCategories: [{ name: 'Backend', technologies: [{ name: 7 }] }],
+        }));
+        expect(error.field).toBe('technologyCategories[0].technologies[0].name');
+    });
+
+    it('should describe both alternatives when the top-level type is wrong', () => {
+        const error = mismatchOf(() => parseWithSchema(s.union(s.string(), s.number()), true));
+        expect(error.field).toBe('');
+        expect(error.expected).toBe('string | number');
+    });
+});
@@ -0,0 +1,224 @@
+/**
+ * Session Expiry Unit Tests
+ *
+ * An expired Cloudflare Access session must park requests instead of
+ * failing them, sync across tabs, and replay everything in order once
+ * the user signs back in.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ApiError } from '@services/api';
+import {
+    SessionManager,
+    SessionAwareApiClient,
+    type SessionChannel,
+    type SessionMessage,
+} from '@services/session';
+import type { IApiClient } from '@/types';
+
+/**
+ * In-memory stand-in for BroadcastChannel; channels on the same bus
+ * deliver to each other but not to themselves
+ */
+function createBus() {
+    const channels: SessionChannel[] = [];
+    return {
+        channel(): SessionChannel {
+            const channel: SessionChannel = {
+                onmessage: null,
+                postMessage(message: SessionMessage) {
+                    channels
+                        .filter(other => other !== channel)
+                        .forEach(other => other.onmessage?.({ data: message } as MessageEvent<SessionMessage>));
+                },
+                close() {
+                    channels.splice(channels.indexOf(channel), 1);
+                },
+            };
+            channels.push(channel);
+            return channel;
+        },
+    };
+}
+
+const authRequired = () => new ApiError('Authentication required', 401, 'AUTH_REQUIRED');
+
+function createInner(): IApiClient & { post: ReturnType<typeof vi.fn>; get: ReturnType<typeof vi.fn> } {
+    return {
+        get: vi.fn().mockResolvedValue({ ok: true }),
+        post: vi.fn().mockResolvedValue({ ok: true }),
+        put: vi.fn().mockResolvedValue({ ok: true }),
+        delete: vi.fn().mockResolvedValue({ ok: true }),
+    };
+}
+
+describe('SessionManager', () => {
+    let probe: ReturnType<typeof vi.fn>;
+    let session: SessionManager;
+
+    beforeEach(() => {
+        probe = vi.fn().mockResolvedValue({});
+        session = new SessionManager({ probe, channel: null });
+    });
+
+    it('should start active and notify subscribers on expiry', () => {
+        const listener = vi.fn();
+        session.subscribe(listener);
+
+        expect(session.getSnapshot().status).toBe('active');
+        session.expire();
+
+        expect(session.getSnapshot().status).toBe('expired');
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should replay queued requests in order after a successful verify', async () => {
+        session.expire();
+        const calls: string[] = [];
+        const first = session.enqueue('POST', async () => { calls.push('first'); return 1; });
+        const second = session.enqueue('PUT', async () => { calls.push('second'); return 2; });
+
+        expect(session.getSnapshot().queuedMutations).toBe(2);
+        expect(calls).toEqual([]);
+
+        await expect(session.verify()).resolves.toBe(true);
+        await expect(first).resolves.toBe(1);
+        await expect(second).resolves.toBe(2);
+        expect(calls).toEqual(['first', 'second']);
+        expect(session.getSnapshot()).toMatchObject({ status: 'active', queuedMutations: 0 });
+    });
+
+    it('should stay expired and flag the failure when the probe fails', async () => {
+        probe.mockRejectedValue(authRequired());
+        session.expire();
+        const replay = vi.fn();
+        session.enqueue('POST', replay);
+
+        await expect(session.verify()).resolves.toBe(false);
+        expect(session.getSnapshot()).toMatchObject({ status: 'expired', verifyFailed: true, queuedMutations: 1 });
+        expect(replay).not.toHaveBeenCalled();
+    });
+
+    it('should only count mutations, not parked reads', () => {
+        session.expire();
+        session.enqueue('GET', vi.fn());
+        session.enqueue('DELETE', vi.fn());
+
+        expect(session.getSnapshot().queuedMutations).toBe(1);
+    });
+
+    it('should drop a queued request when its signal aborts', async () => {
+        session.expire();
+        const controller = new AbortController();
+        const replay = vi.fn();
+        const pending = session.enqueue('POST', replay, controller.signal);
+
+        controller.abort();
+
+        await expect(pending).rejects.toMatchObject({ code: 'ABORTED' });
+        expect(session.getSnapshot().queuedMutations).toBe(0);
+        await session.verify();
+        expect(replay).not.toHaveBeenCalled();
+    });
+
+    it('should keep the request queued if the replay hits the auth wall again', async () => {
+        session.expire();
+        const replay = vi.fn()
+            .mockRejectedValueOnce(authRequired())
+            .mockResolvedValueOnce('saved');
+        const pending = session.enqueue('POST', replay);
+
+        await session.verify();
+        await vi.waitFor(() => expect(session.getSnapshot().status).toBe('expired'));
+        expect(session.getSnapshot().queuedMutations).toBe(1);
+
+        await session.verify();
+        await expect(pending).resolves.toBe('saved');
+    });
+
+    it('should verify when the popup is blocked', () => {
+        const blocked = new SessionManager({ probe, channel: null, openWindow: () => null });
+        blocked.expire();
+
+        blocked.openLogin();
+
+        expect(probe).toHaveBeenCalledTimes(1);
+    });
+
+    describe('across tabs', () => {
+        it('should expire and restore every tab on the channel', async () => {
+            const bus = createBus();
+            const tabA = new SessionManager({ probe, channel: bus.channel() });
+            const tabB = new SessionManager({ probe, channel: bus.channel() });
+
+            tabA.expire();
+            expect(tabB.getSnapshot().status).toBe('expired');
+
+            const replay = vi.fn().mockResolvedValue('ok');
+            const pending = tabB.enqueue('POST', replay);
+
+            await tabA.verify();
+            expect(tabB.getSnapshot().status).toBe('active');
+            await expect(pending).resolves.toBe('ok');
+        });
+
+        it('should verify when the login popup announces completion', async () => {
+            const bus = createBus();
+            const tab = new SessionManager({ probe, channel: bus.channel() });
+            const popup = bus.channel();
+
+            tab.expire();
+            popup.postMessage({ type: 'login-complete' });
+
+            await vi.waitFor(() => expect(tab.getSnapshot().status).toBe('active'));
+            expect(probe).toHaveBeenCalledTimes(1);
+        });
+    });
+});
+
+describe('SessionAwareApiClient', () => {
+    let session: SessionManager;
+    let inner: ReturnType<typeof createInner>;
+    let client: SessionAwareApiClient;
+
+    beforeEach(() => {
+        session = new SessionManager({ probe: vi.fn().mockResolvedValue({}), channel: null });
+        inner = createInner();
+        client = new SessionAwareApiClient(inner, session);
+    });
+
+    it('should pass requests straight through while the session is active', async () => {
+        await expect(client.post('/v2/stage', { a: 1 })).resolves.toEqual({ ok: true });
+        expect(inner.post).toHaveBeenCalledWith('/v2/stage', { a: 1 }, undefined);
+    });
+
+    it('should park a mutation that hits AUTH_REQUIRED and replay it after re-login', async () => {
+        inner.post.mockRejectedValueOnce(authRequired());
+
+        const pending = client.post('/v2/stage', { a: 1 });
+        await vi.waitFor(() => expect(session.getSnapshot().status).toBe('expired'));
+        expect(session.getSnapshot().queuedMutations).toBe(1);
+
+        await session.verify();
+        await expect(pending).resolves.toEqual({ ok: true });
+        expect(inner.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('should hold new requests while the session is expired', async () => {
+        session.expire();
+
+        const pending = client.get('/api/staged/count');
+        expect(inner.get).not.toHaveBeenCalled();
+
+        await session.verify();
+        await expect(pending).resolves.toEqual({ ok: true });
+    });
+
+    it('should rethrow other errors unchanged', async () => {
+        const failure = new ApiError('Server error', 500);
+        inner.delete.mockRejectedValueOnce(failure);
+
+        await expect(client.delete('/v2/staged/chg_1')).rejects.toBe(failure);
+        expect(session.isActive).toBe(true);
+    });
+});
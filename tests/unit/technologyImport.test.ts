@@ -0,0 +1,91 @@
+/**
+ * Technology Import Unit Tests
+ *
+ * Spreadsheet exports must parse back cell for cell, columns must map onto
+ * the technology form, and every row must be checked the way the form
+ * checks it before anything is staged.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCsv, toCsv } from '@utils/csv';
+import {
+    readImportSource,
+    detectFormat,
+    guessMapping,
+    mapImportRows,
+    importRowChange,
+} from '@hooks/useTechnologyImport';
+import type { TechnologyCategory } from '@/types';
+
+const categories: TechnologyCategory[] = [
+    { id: 1, name: 'Frontend', icon: 'web', display_order: 1 },
+    { id: 2, name: 'Backend', icon: 'dns', display_order: 2 },
+];
+
+describe('parseCsv', () => {
+    it('should read back what toCsv writes, including quotes and newlines', () => {
+        const rows = [['name', 'summary'], ['Go', 'Fast, simple'], ['Rust', 'Says "no"\nto nulls']];
+
+        expect(parseCsv(toCsv(rows[0], rows.slice(1)))).toEqual(rows);
+        expect(parseCsv('﻿a,b\n\n1,\n')).toEqual([['a', 'b'], ['1', '']]);
+        expect(() => parseCsv('a,"b')).toThrow('Unterminated');
+    });
+});
+
+describe('technology import', () => {
+    it('should guess the mapping from column names and aliases', () => {
+        expect(guessMapping(['Technology', 'Category', 'Years', 'Notes'])).toEqual({
+            Technology: 'name',
+            Category: 'category',
+            Years: 'experience_years',
+            Notes: '',
+        });
+        expect(detectFormat('  [{"name":"Go"}]')).toBe('json');
+        expect(detectFormat('name\nGo', 'techs.JSON')).toBe('json');
+    });
+
+    it('should validate rows like the form and flag names already taken', () => {
+        const source = readImportSource([
+            'name,category,level,experience_years,recency',
+            'Svelte,frontend,expert,2,',
+            'React,Frontend,Advanced,8,',
+            'Bad<Name>,Backend,Guru,ten,someday',
+            'svelte,Frontend,Beginner,1,',
+        ].join('\n'), 'csv');
+        const rows = mapImportRows(source, guessMapping(source.headers), categories, ['React']);
+
+        expect(rows[0]).toMatchObject({ errors: [], data: { name: 'Svelte', category: 'Frontend', level: 'Expert', experience_years: 2 } });
+        expect(rows[1].errors).toEqual(['Already in the portfolio']);
+        expect(rows[2].errors).toEqual([
+            'Name contains invalid characters',
+            'Years of experience must be a number',
+            'Level must be one of Expert, Advanced, Intermediate, Beginner',
+            'Recency must be one of current, recent, legacy',
+        ]);
+        expect(rows[3].errors).toEqual(['Duplicate of row 1']);
+        expect(rows.map(row => row.line)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should refuse to stage a row whose category is unknown instead of filing it elsewhere', () => {
+        const source = readImportSource('name,category\nGo,Languages', 'csv');
+        const [row] = mapImportRows(source, guessMapping(source.headers), categories);
+
+        expect(row).toMatchObject({ categoryId: null, errors: ['Unknown category "Languages"'] });
+        expect(() => importRowChange(row)).toThrow('Row 1: Unknown category "Languages"');
+    });
+
+    it('should stage AI fields alongside the portfolio ones when a row has them', () => {
+        const source = readImportSource(JSON.stringify({
+            technologies: [{ name: 'Go', category: 'Backend', summary: 'Services', ai_category: 'Languages' }],
+        }), 'json');
+        const [row] = mapImportRows(source, guessMapping(source.headers), categories);
+
+        expect(importRowChange(row)).toMatchObject({
+            entity_type: 'technology',
+            action: 'CREATE',
+            target: 'both',
+            payload: { name: 'Go', category_id: 2, summary: 'Services', category: 'Languages' },
+        });
+        expect(() => readImportSource('{"name":"Go"}', 'json')).toThrow('Expected an array');
+    });
+});